@@ -0,0 +1,81 @@
+-- Migration: 004_scrape_runs.sql
+-- Description: Add scrape run ledger with per-source outcomes
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- Table: scrape_runs
+-- Purpose: One row per scrape run (Inngest job or CLI invocation)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS scrape_runs (
+  -- Same value as plans.scrape_id (Inngest event ID, or cli-<uuid> for CLI runs)
+  scrape_id TEXT PRIMARY KEY,
+
+  -- Who started the run (e.g., 'dashboard', 'cron', 'cli')
+  triggered_by TEXT,
+
+  -- Collector ids requested for this run (all collectors when the run was unfiltered)
+  sources TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Run lifecycle: running -> completed (all sources succeeded) / partial / failed
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'partial', 'failed')),
+
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+
+  -- Totals filled in when the run finishes
+  total_plans INTEGER,
+  successful_sources INTEGER,
+  failed_sources INTEGER,
+
+  -- Run-level error (e.g., unexpected failure outside a collector)
+  error TEXT
+);
+
+-- ============================================================================
+-- Table: scrape_run_sources
+-- Purpose: Outcome of each collector within a scrape run
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS scrape_run_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  scrape_id TEXT NOT NULL REFERENCES scrape_runs(scrape_id) ON DELETE CASCADE,
+
+  -- Registry id (e.g., 'vodafone') and plans.source label (e.g., 'Vodafone')
+  collector_id TEXT NOT NULL,
+  source TEXT NOT NULL,
+
+  status TEXT NOT NULL CHECK (status IN ('success', 'failed')),
+  plans_collected INTEGER NOT NULL DEFAULT 0,
+
+  started_at TIMESTAMPTZ NOT NULL,
+  finished_at TIMESTAMPTZ NOT NULL,
+  execution_time_ms INTEGER NOT NULL,
+
+  error TEXT,
+
+  UNIQUE (scrape_id, collector_id)
+);
+
+-- ============================================================================
+-- Indexes for Performance Optimization
+-- ============================================================================
+
+-- Recent runs first (dashboard, run history)
+CREATE INDEX IF NOT EXISTS idx_scrape_runs_started_at
+  ON scrape_runs(started_at DESC);
+
+-- Latest outcome per source (getScrapeStatus)
+CREATE INDEX IF NOT EXISTS idx_scrape_run_sources_collector_started
+  ON scrape_run_sources(collector_id, started_at DESC);
+
+-- ============================================================================
+-- Comments for Documentation
+-- ============================================================================
+
+COMMENT ON TABLE scrape_runs IS 'Ledger of scrape runs. scrape_id matches plans.scrape_id for plans collected by the run.';
+COMMENT ON COLUMN scrape_runs.status IS 'running, completed (all sources succeeded), partial (some failed), failed (all failed or run error)';
+COMMENT ON TABLE scrape_run_sources IS 'Per-collector outcome of each scrape run (status, plan count, timing, error text)';
+COMMENT ON COLUMN scrape_run_sources.error IS 'Error message when the collector failed';
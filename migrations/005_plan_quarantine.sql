@@ -0,0 +1,50 @@
+-- Migration: 005_plan_quarantine.sql
+-- Description: Add quarantine table for suspicious scrape batches held back by the anomaly guard
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- Table: plan_quarantine
+-- Purpose: Hold a source's normalized plan batch that failed anomaly checks
+--          until it is approved (inserted into plans) or rejected from the dashboard
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS plan_quarantine (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Telco name as stored in plans.source (e.g., 'Vodafone')
+  source TEXT NOT NULL,
+
+  -- Scrape run that produced the batch (matches plans.scrape_id)
+  scrape_id TEXT,
+
+  -- Normalized plans exactly as they would have been passed to insertPlans
+  plans JSONB NOT NULL,
+
+  plan_count INTEGER NOT NULL,
+  previous_plan_count INTEGER,
+
+  -- Failed checks: [{ "check": "plan_count_drop", "message": "...", "value": 0.95, "threshold": 0.5 }]
+  reasons JSONB NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reviewed_at TIMESTAMPTZ
+);
+
+-- ============================================================================
+-- Indexes for Performance Optimization
+-- ============================================================================
+
+-- Pending batches for the dashboard review list
+CREATE INDEX IF NOT EXISTS idx_plan_quarantine_status_created
+  ON plan_quarantine(status, created_at DESC);
+
+-- ============================================================================
+-- Comments for Documentation
+-- ============================================================================
+
+COMMENT ON TABLE plan_quarantine IS 'Scrape batches held back by the anomaly guard. Approved batches are inserted into plans; rejected batches are kept for reference.';
+COMMENT ON COLUMN plan_quarantine.reasons IS 'JSONB array of failed anomaly checks with measured value and threshold';
+COMMENT ON COLUMN plan_quarantine.status IS 'pending (awaiting review), approved (inserted into plans), rejected (discarded)';
@@ -0,0 +1,45 @@
+-- Migration: 006_selector_diagnostics.sql
+-- Description: Store selector health checks and page captures per scrape run source
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- Column: scrape_run_sources.selector_checks
+-- Purpose: How many nodes each critical selector matched during the run
+-- ============================================================================
+
+ALTER TABLE scrape_run_sources
+ADD COLUMN IF NOT EXISTS selector_checks JSONB;
+
+COMMENT ON COLUMN scrape_run_sources.selector_checks IS 'JSONB array of { name, selector, url, matched, checkedAt, artifactIndex? } for the collector''s critical selectors';
+
+-- ============================================================================
+-- Table: scrape_artifacts
+-- Purpose: Page HTML + screenshot captured when a critical selector matched zero nodes
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS scrape_artifacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  scrape_id TEXT NOT NULL REFERENCES scrape_runs(scrape_id) ON DELETE CASCADE,
+  collector_id TEXT NOT NULL,
+
+  -- Position in the source's artifacts list (matches selector_checks[].artifactIndex)
+  artifact_index INTEGER NOT NULL,
+
+  url TEXT NOT NULL,
+  -- Names of the selectors that matched nothing on this page
+  selectors TEXT[] NOT NULL,
+
+  html TEXT NOT NULL,
+  -- JPEG screenshot (NULL if the capture failed)
+  screenshot BYTEA,
+
+  captured_at TIMESTAMPTZ NOT NULL,
+
+  UNIQUE (scrape_id, collector_id, artifact_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_artifacts_scrape_id
+  ON scrape_artifacts(scrape_id);
+
+COMMENT ON TABLE scrape_artifacts IS 'Page captures (HTML + screenshot) taken when a collector''s critical selector matched zero nodes';
@@ -0,0 +1,13 @@
+-- Migration: 007_scrape_failed_pages.sql
+-- Description: Record pages a collector could not scrape after retries (partial success)
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- Column: scrape_run_sources.failed_pages
+-- Purpose: Pages that still failed after the collector's retry policy
+-- ============================================================================
+
+ALTER TABLE scrape_run_sources
+ADD COLUMN IF NOT EXISTS failed_pages JSONB;
+
+COMMENT ON COLUMN scrape_run_sources.failed_pages IS 'JSONB array of { page, error, attempts } for pages that failed after retries; plans from the other pages were stored';
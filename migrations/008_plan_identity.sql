@@ -0,0 +1,11 @@
+-- Migration: 008_plan_identity.sql
+-- Description: Superseded by 018_stable_plan_keys.sql (no-op)
+-- Created: 2026-10-19
+
+-- This migration added plan tier, variant and fingerprint to plan_key, with
+-- the fingerprint appended only when plans of one scrape still collided.
+-- 018_stable_plan_keys.sql replaced that scheme and now holds the
+-- plan_key_part function, the plan_type / plan_variant backfill and the
+-- re-key. Migrations are re-run on every `npm run migrate`, so this file is
+-- kept empty rather than re-keying every row to the old scheme before 018
+-- re-keys it back.
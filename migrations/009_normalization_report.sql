@@ -0,0 +1,13 @@
+-- Migration: 009_normalization_report.sql
+-- Description: Record raw values each collector run could not normalize
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- Column: scrape_run_sources.normalization_report
+-- Purpose: Unparsed data allowance, price and contract term values, with counts
+-- ============================================================================
+
+ALTER TABLE scrape_run_sources
+ADD COLUMN IF NOT EXISTS normalization_report JSONB;
+
+COMMENT ON COLUMN scrape_run_sources.normalization_report IS 'JSONB { plansNormalized, unparsed: [{ field, value, count }] } from normalizePlans(); values that did not normalize are stored raw, so a source format change shows up here first';
@@ -0,0 +1,65 @@
+-- Migration: 010_numeric_plan_columns.sql
+-- Description: Typed price, data and contract columns on plans, backfilled from plan_data
+-- Created: 2026-10-19
+
+-- plan_data keeps the display strings ("£10.00", "500MB", "24 months"); these
+-- columns hold the same values as numbers so filtering and sorting run in SQL.
+-- Conversions match src/lib/scraping/numeric-fields.ts.
+
+-- ============================================================================
+-- Columns
+-- ============================================================================
+
+ALTER TABLE plans
+ADD COLUMN IF NOT EXISTS price_pence INTEGER,
+ADD COLUMN IF NOT EXISTS data_mb INTEGER,
+ADD COLUMN IF NOT EXISTS contract_months INTEGER,
+ADD COLUMN IF NOT EXISTS currency TEXT;
+
+COMMENT ON COLUMN plans.price_pence IS 'Monthly price in minor units of currency (plan_data.price "£10.00" -> 1000); NULL when the price is unknown or unparsed';
+COMMENT ON COLUMN plans.data_mb IS 'Data allowance in MB (1GB = 1000MB); 2147483647 = Unlimited; NULL when unknown or unparsed';
+COMMENT ON COLUMN plans.contract_months IS 'Contract term in months; 0 = PAYG (no minimum term); NULL when unknown or unparsed';
+COMMENT ON COLUMN plans.currency IS 'ISO 4217 currency code of price_pence (e.g., GBP)';
+
+-- ============================================================================
+-- Backfill from plan_data (rows inserted before the columns existed)
+-- ============================================================================
+
+UPDATE plans
+SET
+  price_pence = CASE
+    WHEN plan_data->>'price' ~ '^£\d+(\.\d{1,2})?$'
+      THEN round(substring(plan_data->>'price' FROM '^£(.+)$')::NUMERIC * 100)::INTEGER
+  END,
+  data_mb = CASE
+    WHEN plan_data->>'data_allowance' = 'Unlimited' THEN 2147483647
+    WHEN plan_data->>'data_allowance' ~ '^\d+(\.\d+)?GB$'
+      THEN round(substring(plan_data->>'data_allowance' FROM '^(.+)GB$')::NUMERIC * 1000)::INTEGER
+    WHEN plan_data->>'data_allowance' ~ '^\d+MB$'
+      THEN substring(plan_data->>'data_allowance' FROM '^(\d+)MB$')::INTEGER
+  END,
+  contract_months = CASE
+    WHEN plan_data->>'contract_term' = 'PAYG' THEN 0
+    WHEN plan_data->>'contract_term' ~ '^\d+ months?$'
+      THEN substring(plan_data->>'contract_term' FROM '^(\d+)')::INTEGER
+  END,
+  currency = CASE
+    WHEN plan_data->>'price' ~ '^£\d+(\.\d{1,2})?$' THEN 'GBP'
+  END
+WHERE price_pence IS NULL
+  AND data_mb IS NULL
+  AND contract_months IS NULL
+  AND currency IS NULL;
+
+-- ============================================================================
+-- Indexes for filtering and sorting
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_plans_price_pence
+  ON plans(price_pence);
+
+CREATE INDEX IF NOT EXISTS idx_plans_data_mb
+  ON plans(data_mb);
+
+CREATE INDEX IF NOT EXISTS idx_plans_contract_months_price
+  ON plans(contract_months, price_pence);
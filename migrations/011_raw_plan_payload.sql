@@ -0,0 +1,26 @@
+-- Migration: 011_raw_plan_payload.sql
+-- Description: Keep each plan's raw collector payload and the normalizer version that produced plan_data
+-- Created: 2026-10-19
+
+-- plan_data holds normalized values, which go stale whenever the normalizers
+-- change. With the raw payload stored beside it, `npm run renormalize` (or the
+-- plans/renormalize Inngest event) re-runs the current normalizers over stored
+-- rows instead of clearing and rescraping. See src/lib/scraping/renormalize.ts.
+
+-- ============================================================================
+-- Columns
+-- ============================================================================
+
+ALTER TABLE plans
+ADD COLUMN IF NOT EXISTS raw_data JSONB,
+ADD COLUMN IF NOT EXISTS normalizer_version INTEGER;
+
+COMMENT ON COLUMN plans.raw_data IS 'Plan as returned by the collector, before normalization; NULL for plans stored before raw payloads were kept (re-normalized from plan_data)';
+COMMENT ON COLUMN plans.normalizer_version IS 'NORMALIZER_VERSION (src/lib/scraping/normalize.ts) that produced plan_data; NULL = before versioning';
+
+-- ============================================================================
+-- Index for finding plans normalized by an older version
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_plans_normalizer_version
+  ON plans(source, normalizer_version);
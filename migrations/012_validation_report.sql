@@ -0,0 +1,13 @@
+-- Migration: 012_validation_report.sql
+-- Description: Record plans each collector run dropped for failing schema validation
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- Column: scrape_run_sources.validation_report
+-- Purpose: Plans that did not match RawPlanSchema or NormalizedPlanSchema
+-- ============================================================================
+
+ALTER TABLE scrape_run_sources
+ADD COLUMN IF NOT EXISTS validation_report JSONB;
+
+COMMENT ON COLUMN scrape_run_sources.validation_report IS 'JSONB { plansValidated, plansRejected, failures: [{ stage, index, name, issues }] } from src/lib/scraping/plan-validation.ts; rejected plans are not stored, the rest of the batch is';
@@ -0,0 +1,43 @@
+-- Migration: 013_price_vat_currency.sql
+-- Description: Ex-VAT price, listed currency and VAT basis on plans, backfilled for GBP plans
+-- Created: 2026-10-19
+
+-- plan_data.price is in the reporting currency with VAT included (see
+-- src/lib/scraping/currency.ts); these columns record how the source listed
+-- it and the ex-VAT equivalent, so the dashboard can filter on either basis.
+-- Conversions match src/lib/scraping/numeric-fields.ts.
+
+-- ============================================================================
+-- Columns
+-- ============================================================================
+
+ALTER TABLE plans
+ADD COLUMN IF NOT EXISTS price_ex_vat_pence INTEGER,
+ADD COLUMN IF NOT EXISTS listed_currency TEXT,
+ADD COLUMN IF NOT EXISTS vat_included BOOLEAN;
+
+COMMENT ON COLUMN plans.price_ex_vat_pence IS 'Monthly price excluding VAT in minor units of currency (plan_data.price_ex_vat "£8.33" -> 833); NULL when the price is unknown';
+COMMENT ON COLUMN plans.listed_currency IS 'ISO 4217 currency code the source listed the price in, before conversion to currency (e.g., EUR)';
+COMMENT ON COLUMN plans.vat_included IS 'Whether the listed price included VAT; price_pence always includes it';
+
+-- ============================================================================
+-- Backfill (plans stored before normalizer version 2 were UK prices in GBP,
+-- VAT included at 20%)
+-- ============================================================================
+
+UPDATE plans
+SET
+  price_ex_vat_pence = round(price_pence / 1.2)::INTEGER,
+  listed_currency = 'GBP',
+  vat_included = TRUE
+WHERE currency = 'GBP'
+  AND price_pence IS NOT NULL
+  AND listed_currency IS NULL
+  AND COALESCE(normalizer_version, 1) < 2;
+
+-- ============================================================================
+-- Indexes for filtering and sorting
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_plans_price_ex_vat_pence
+  ON plans(price_ex_vat_pence);
@@ -0,0 +1,62 @@
+-- Migration: 014_plan_change_events.sql
+-- Description: Record what changed between each source's scrape and the previous one
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- Table: plan_change_events
+-- Purpose: Plans added or withdrawn and price / data allowance changes,
+--          computed when a batch is stored (src/lib/scraping/change-detection.ts)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS plan_change_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Scrape run that produced the new batch (matches plans.scrape_id)
+  scrape_id TEXT,
+
+  -- Telco name as stored in plans.source (e.g., 'Vodafone')
+  source TEXT NOT NULL,
+
+  -- scrape_timestamp of the new batch's plans
+  batch_timestamp TIMESTAMPTZ NOT NULL,
+
+  change_type TEXT NOT NULL
+    CHECK (change_type IN ('added', 'withdrawn', 'price_increase', 'price_decrease', 'data_change')),
+
+  -- plan_key in the new batch (previous batch for withdrawn plans)
+  plan_key TEXT NOT NULL,
+
+  -- plan_key in the previous batch when it differs (data allowance is part of the key)
+  previous_plan_key TEXT,
+
+  plan_name TEXT,
+
+  -- Normalized values ("£10.00", "10GB"); NULL for added / withdrawn plans
+  old_value TEXT,
+  new_value TEXT,
+
+  -- new price_pence - old price_pence for price changes
+  price_delta_pence INTEGER,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================================================
+-- Indexes for Performance Optimization
+-- ============================================================================
+
+-- Changes recorded by a scrape run
+CREATE INDEX IF NOT EXISTS idx_plan_change_events_scrape_id
+  ON plan_change_events(scrape_id);
+
+-- Changes in each source's latest batch for the dashboard feed
+CREATE INDEX IF NOT EXISTS idx_plan_change_events_source_batch
+  ON plan_change_events(source, batch_timestamp DESC);
+
+-- ============================================================================
+-- Comments for Documentation
+-- ============================================================================
+
+COMMENT ON TABLE plan_change_events IS 'Differences between a source''s stored batch and its previous batch. Nothing is recorded for a source''s first scrape.';
+COMMENT ON COLUMN plan_change_events.change_type IS 'added (new plan_key), withdrawn (plan_key no longer listed), price_increase / price_decrease (same plan, price moved), data_change (same contract and tier, data allowance moved)';
+COMMENT ON COLUMN plan_change_events.batch_timestamp IS 'plans.scrape_timestamp of the batch the change was first seen in';
@@ -0,0 +1,53 @@
+-- Migration: 015_alert_events.sql
+-- Description: Record alerts fired by competitor price alert rules
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- Table: alert_events
+-- Purpose: One row per alert fired after a scrape run (src/lib/alerts/rules.ts)
+--          with the outcome of delivering it to each channel
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS alert_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Scrape run whose results fired the alert (matches plans.scrape_id)
+  scrape_id TEXT,
+
+  -- Rule from the alert config (config/alerts.json)
+  rule_id TEXT NOT NULL,
+  rule_type TEXT NOT NULL,
+
+  -- Source (and plan, for plan-level rules) the alert is about
+  source TEXT NOT NULL,
+  plan_key TEXT,
+
+  message TEXT NOT NULL,
+
+  -- Values that fired the rule: { "price_pence": 900, "threshold_pence": 1000, ... }
+  details JSONB NOT NULL DEFAULT '{}'::JSONB,
+
+  -- [{ "channel": "slack", "status": "sent" }, { "channel": "email", "status": "failed", "error": "..." }]
+  deliveries JSONB NOT NULL DEFAULT '[]'::JSONB,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================================================
+-- Indexes for Performance Optimization
+-- ============================================================================
+
+-- Alert history page (newest first)
+CREATE INDEX IF NOT EXISTS idx_alert_events_created_at
+  ON alert_events(created_at DESC);
+
+-- Alerts fired by a scrape run
+CREATE INDEX IF NOT EXISTS idx_alert_events_scrape_id
+  ON alert_events(scrape_id);
+
+-- ============================================================================
+-- Comments for Documentation
+-- ============================================================================
+
+COMMENT ON TABLE alert_events IS 'Alerts fired when a scrape run made an alert rule true for the first time (price cut below a threshold, brand undercut, plan withdrawn)';
+COMMENT ON COLUMN alert_events.deliveries IS 'JSONB array of per-channel delivery outcomes (sent / failed with error)';
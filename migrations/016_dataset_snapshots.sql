@@ -0,0 +1,47 @@
+-- Migration: 016_dataset_snapshots.sql
+-- Description: Named, frozen sets of plans that analyses and the plans page can target
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- Table: dataset_snapshots
+-- Purpose: The plans of each source's latest successful scrape at a point in
+--          time (src/lib/db/snapshots.ts), so an analysis can say exactly
+--          which scrapes it reflects
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dataset_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  name TEXT NOT NULL UNIQUE,
+
+  -- Sources whose latest successful scrape is older than this were left out
+  max_age_days INTEGER NOT NULL CHECK (max_age_days > 0),
+
+  -- Frozen membership: plans.id of every plan in the snapshot
+  plan_ids UUID[] NOT NULL,
+
+  -- One entry per source: [{ "source": "O2", "scrape_id": "...", "scrape_timestamp": "...", "plan_count": 42 }]
+  composition JSONB NOT NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Snapshot list (newest first)
+CREATE INDEX IF NOT EXISTS idx_dataset_snapshots_created_at
+  ON dataset_snapshots(created_at DESC);
+
+COMMENT ON TABLE dataset_snapshots IS 'Named frozen plan sets built from the latest successful scrape of each source within max_age_days';
+COMMENT ON COLUMN dataset_snapshots.composition IS 'JSONB array of { source, scrape_id, scrape_timestamp, plan_count } for each source in the snapshot';
+
+-- ============================================================================
+-- Column: analyses.snapshot_id
+-- Purpose: Snapshot the analysis was run on (NULL: latest plans of the last 180 days)
+-- ============================================================================
+
+ALTER TABLE analyses
+ADD COLUMN IF NOT EXISTS snapshot_id UUID REFERENCES dataset_snapshots(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_analyses_snapshot_id
+  ON analyses(snapshot_id);
+
+COMMENT ON COLUMN analyses.snapshot_id IS 'Dataset snapshot whose plans were analyzed; NULL when the analysis used the latest plan per source and plan_key from the last 180 days';
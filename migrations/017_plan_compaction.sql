@@ -0,0 +1,131 @@
+-- Migration: 017_plan_compaction.sql
+-- Description: Store unchanged plans once with first_seen/last_seen instead of one row per scrape
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- Table: plan_batches
+-- Purpose: One row per stored batch (insertPlans() call), so a source's
+--          scrapes are known even when no plan row was written for them
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS plan_batches (
+  -- Telco name as stored in plans.source (e.g., 'Vodafone')
+  source TEXT NOT NULL,
+
+  -- Transaction time of the insert; plans seen in the batch cover it with first_seen..last_seen
+  scrape_timestamp TIMESTAMPTZ NOT NULL,
+
+  -- Scrape run that produced the batch (matches scrape_runs.scrape_id)
+  scrape_id TEXT,
+
+  plan_count INTEGER NOT NULL,
+
+  PRIMARY KEY (source, scrape_timestamp)
+);
+
+CREATE INDEX IF NOT EXISTS idx_plan_batches_scrape_id
+  ON plan_batches(scrape_id);
+
+-- Existing rows: every distinct (source, scrape_timestamp) was one insertPlans() call
+INSERT INTO plan_batches (source, scrape_timestamp, scrape_id, plan_count)
+SELECT source, scrape_timestamp, MIN(scrape_id), COUNT(*)
+FROM plans
+GROUP BY source, scrape_timestamp
+ON CONFLICT (source, scrape_timestamp) DO NOTHING;
+
+-- ============================================================================
+-- Columns: plans.first_seen, plans.last_seen
+-- Purpose: A plan row is now a plan version, seen unchanged in every batch of
+--          its source from first_seen to last_seen
+-- ============================================================================
+
+ALTER TABLE plans
+ADD COLUMN IF NOT EXISTS first_seen TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS last_seen TIMESTAMPTZ;
+
+-- Existing rows are single-batch versions until compacted (npm run plans:compact)
+UPDATE plans
+SET first_seen = scrape_timestamp,
+    last_seen = scrape_timestamp
+WHERE first_seen IS NULL OR last_seen IS NULL;
+
+ALTER TABLE plans
+ALTER COLUMN first_seen SET DEFAULT NOW(),
+ALTER COLUMN first_seen SET NOT NULL,
+ALTER COLUMN last_seen SET DEFAULT NOW(),
+ALTER COLUMN last_seen SET NOT NULL;
+
+-- Matching a new batch against the versions of the source's previous batch
+CREATE INDEX IF NOT EXISTS idx_plans_source_last_seen
+  ON plans(source, last_seen);
+
+-- Latest version per plan (DISTINCT ON (source, plan_key) ... last_seen DESC)
+CREATE INDEX IF NOT EXISTS idx_plans_source_plan_key_last_seen
+  ON plans(source, plan_key, last_seen DESC);
+
+-- ============================================================================
+-- View: plan_observations
+-- Purpose: One row per plan per batch, as plans held before compaction.
+--          scrape_id and scrape_timestamp are the batch's; id is the version's.
+-- ============================================================================
+
+CREATE OR REPLACE VIEW plan_observations AS
+SELECT
+  p.id,
+  p.source,
+  p.plan_key,
+  p.plan_data,
+  b.scrape_id,
+  b.scrape_timestamp,
+  p.price_pence,
+  p.data_mb,
+  p.contract_months,
+  p.currency,
+  p.raw_data,
+  p.normalizer_version,
+  p.price_ex_vat_pence,
+  p.listed_currency,
+  p.vat_included,
+  p.first_seen,
+  p.last_seen
+FROM plans p
+JOIN plan_batches b
+  ON b.source = p.source
+ AND b.scrape_timestamp BETWEEN p.first_seen AND p.last_seen;
+
+-- ============================================================================
+-- Table: plan_archives
+-- Purpose: Compressed JSONL files that plan versions past the retention
+--          period were moved to (src/lib/db/retention.ts)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS plan_archives (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Path of the .jsonl.gz file, one plans row (all columns) per line
+  file_path TEXT NOT NULL,
+
+  plan_count INTEGER NOT NULL,
+
+  -- Range of the archived versions
+  first_seen TIMESTAMPTZ NOT NULL,
+  last_seen TIMESTAMPTZ NOT NULL,
+
+  -- Versions last seen before this were eligible
+  cutoff TIMESTAMPTZ NOT NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_plan_archives_created_at
+  ON plan_archives(created_at DESC);
+
+-- ============================================================================
+-- Comments for Documentation
+-- ============================================================================
+
+COMMENT ON TABLE plan_batches IS 'One row per stored batch of a source. A plan is in a batch when the batch scrape_timestamp is between its first_seen and last_seen.';
+COMMENT ON COLUMN plans.first_seen IS 'scrape_timestamp of the first batch this plan version was seen in (same as plans.scrape_timestamp)';
+COMMENT ON COLUMN plans.last_seen IS 'scrape_timestamp of the last batch this plan version was seen in unchanged; every batch of the source in between contains it';
+COMMENT ON VIEW plan_observations IS 'Plans expanded to one row per batch they were seen in. Read batch history from here rather than from plans.';
+COMMENT ON TABLE plan_archives IS 'Compressed JSONL files holding plan versions removed by the retention policy';
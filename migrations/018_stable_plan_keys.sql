@@ -0,0 +1,107 @@
+-- Migration: 018_stable_plan_keys.sql
+-- Description: Derive plan_key from the plan alone, without the per-scrape collision suffix
+-- Created: 2026-10-19
+
+-- Migration 008 appended the plan fingerprint to plan_key only when plans of
+-- one scrape still collided, so a plan's key changed when a sibling plan
+-- appeared or disappeared. Keys are now (see generatePlanKey and the
+-- planKeyFingerprint profile option in src/lib/scraping/):
+--   {source}-{data}-{contract}[-{tier}][-{variant}]               most sources
+--   {source}-{data}-{contract}[-{tier}][-{variant}]-{fingerprint}  Sky, Tesco, Giffgaff
+-- whose collectors set no plan_type or plan_variant.
+--
+-- Keys are recomputed from plan_data on every run, so re-running is safe.
+-- Change and alert events keep the keys they were recorded with.
+
+-- ============================================================================
+-- Function: plan_key_part
+-- Purpose: Slug a plan key part, same as toPlanKeyPart ("Unlimited Max" -> "unlimited-max")
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION plan_key_part(input TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT NULLIF(trim(BOTH '-' FROM regexp_replace(lower(input), '[^a-z0-9]+', '-', 'g')), '')
+$$;
+
+COMMENT ON FUNCTION plan_key_part(TEXT) IS 'Slug of a plan_key part (plan tier or variant); matches toPlanKeyPart in src/lib/scraping/normalize.ts';
+
+-- ============================================================================
+-- Backfill: plan_type / plan_variant on plans scraped before collectors set them
+-- ============================================================================
+
+-- Three names are "{data} {plan type} {contract}" ("100GB Lite 24 months")
+UPDATE plans
+SET plan_data = plan_data || jsonb_build_object(
+  'plan_type', substring(plan_data->>'name' FROM '^\S+ (\S+) \d+ months?$')
+)
+WHERE source = 'Three' AND NOT plan_data ? 'plan_type';
+
+-- O2 bundle and Vodafone plan names ("CLASSIC", "Unlimited Max")
+UPDATE plans
+SET plan_data = plan_data || jsonb_build_object('plan_type', plan_data->>'name')
+WHERE source IN ('O2', 'Vodafone') AND NOT plan_data ? 'plan_type';
+
+-- Smarty plan category
+UPDATE plans
+SET plan_data = plan_data || jsonb_build_object('plan_type', plan_data->>'category')
+WHERE source = 'Smarty' AND NOT plan_data ? 'plan_type';
+
+-- Uswitch lists the same plan per network and retailer
+UPDATE plans
+SET plan_data = plan_data || jsonb_build_object(
+  'plan_variant', (plan_data->>'network_key') || '-' || (plan_data->>'retailer_key')
+)
+WHERE source = 'Uswitch' AND NOT plan_data ? 'plan_variant';
+
+-- ============================================================================
+-- Re-key: plan_tier, plan_variant, plan_fingerprint and plan_key
+-- ============================================================================
+
+WITH plan_identity AS (
+  SELECT
+    id,
+    plan_key_part(plan_data->>'plan_type') AS tier,
+    plan_key_part(plan_data->>'plan_variant') AS variant,
+    -- Same serialization as generatePlanFingerprint: "{name}|{minutes}|{texts}|{speed_cap_mbps}"
+    left(md5(concat_ws('|',
+      lower(regexp_replace(COALESCE(plan_data->>'name', 'Unnamed Plan'), '^\s+|\s+$', '', 'g')),
+      COALESCE(plan_data->>'minutes', ''),
+      COALESCE(plan_data->>'texts', ''),
+      COALESCE(plan_data->>'speed_cap_mbps', '')
+    )), 8) AS fingerprint,
+    lower(source) IN ('sky', 'tesco', 'giffgaff') AS keyed_by_fingerprint,
+    upper(left(source, 1)) || lower(substr(source, 2))
+      || '-' || regexp_replace(plan_data->>'data_allowance', '\s+', '', 'g')
+      || '-' || lower(regexp_replace(plan_data->>'contract_term', '\s+', '', 'g')) AS base_key
+  FROM plans
+  WHERE plan_key IS NOT NULL
+    AND plan_data ? 'data_allowance'
+    AND plan_data ? 'contract_term'
+    AND COALESCE(plan_data->>'normalization_error', 'false') <> 'true'
+),
+rekeyed AS (
+  SELECT
+    id,
+    tier,
+    variant,
+    fingerprint,
+    concat_ws('-', base_key, tier, variant, CASE WHEN keyed_by_fingerprint THEN fingerprint END) AS plan_key
+  FROM plan_identity
+)
+UPDATE plans
+SET
+  plan_key = rekeyed.plan_key,
+  plan_data = plans.plan_data || jsonb_build_object(
+    'plan_key', rekeyed.plan_key,
+    'plan_tier', rekeyed.tier,
+    'plan_variant', rekeyed.variant,
+    'plan_fingerprint', rekeyed.fingerprint
+  )
+FROM rekeyed
+WHERE plans.id = rekeyed.id
+  AND (plans.plan_key IS DISTINCT FROM rekeyed.plan_key OR NOT plans.plan_data ? 'plan_fingerprint');
+
+COMMENT ON COLUMN plans.plan_key IS 'Composite identifier for tracking plan history across scrapes. Format: {source}-{data_allowance}-{contract_term}[-{tier}][-{variant}][-{fingerprint}] (e.g., Three-100GB-24months-lite, Uswitch-30GB-1month-smarty-smarty, Sky-100GB-12months-3f2a9c1e). Derived from the plan alone; the fingerprint is part of the key for sources whose collectors set no tier or variant.';
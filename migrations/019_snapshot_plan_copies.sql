@@ -0,0 +1,53 @@
+-- Migration: 019_snapshot_plan_copies.sql
+-- Description: Copy the plans of each dataset snapshot so later writes to plans do not change it
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- Table: dataset_snapshot_plans
+-- Purpose: The plans of a dataset snapshot as they were when it was created.
+--          Re-normalization (npm run renormalize) rewrites plan_data and
+--          the typed columns of stored plan versions in place, so reading a
+--          snapshot through plans would change it, and the analyses run on it,
+--          after every normalization fix.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dataset_snapshot_plans (
+  snapshot_id UUID NOT NULL REFERENCES dataset_snapshots(id) ON DELETE CASCADE,
+
+  -- plans.id of the copied version (the row itself may later be re-normalized, merged or archived)
+  plan_id UUID NOT NULL,
+
+  source TEXT NOT NULL,
+  plan_key TEXT,
+  plan_data JSONB NOT NULL,
+
+  -- The snapshot's batch of the source (not the version's first_seen/last_seen)
+  scrape_timestamp TIMESTAMPTZ NOT NULL,
+
+  price_pence INTEGER,
+  data_mb INTEGER,
+  contract_months INTEGER,
+  currency TEXT,
+  price_ex_vat_pence INTEGER,
+  listed_currency TEXT,
+  vat_included BOOLEAN,
+
+  PRIMARY KEY (snapshot_id, plan_id)
+);
+
+COMMENT ON TABLE dataset_snapshot_plans IS 'Copies of the plans in each dataset snapshot, taken when it was created; getSnapshotPlans() and the plans page read snapshots from here';
+
+-- Existing snapshots: copy their plans as currently stored (the best record left)
+INSERT INTO dataset_snapshot_plans (
+  snapshot_id, plan_id, source, plan_key, plan_data, scrape_timestamp,
+  price_pence, data_mb, contract_months, currency, price_ex_vat_pence, listed_currency, vat_included
+)
+SELECT
+  s.id, p.id, p.source, p.plan_key, p.plan_data, c.scrape_timestamp,
+  p.price_pence, p.data_mb, p.contract_months, p.currency, p.price_ex_vat_pence, p.listed_currency, p.vat_included
+FROM dataset_snapshots s
+CROSS JOIN LATERAL jsonb_to_recordset(s.composition) AS c(source TEXT, scrape_timestamp TIMESTAMPTZ)
+JOIN plans p ON p.id = ANY(s.plan_ids) AND p.source = c.source
+ON CONFLICT (snapshot_id, plan_id) DO NOTHING;
+
+COMMENT ON COLUMN dataset_snapshots.plan_ids IS 'plans.id of every plan version in the snapshot; their content at creation time is in dataset_snapshot_plans';
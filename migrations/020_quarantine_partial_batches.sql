@@ -0,0 +1,17 @@
+-- Migration: 020_quarantine_partial_batches.sql
+-- Description: Keep why a quarantined batch was partial, so approving it records no withdrawals
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- Columns: plan_quarantine.failed_pages, plan_quarantine.plans_rejected
+-- Purpose: Pages that failed and plans rejected by schema validation in the
+--          run that produced the batch. Plans missing from such a batch were
+--          not seen rather than withdrawn.
+-- ============================================================================
+
+ALTER TABLE plan_quarantine
+ADD COLUMN IF NOT EXISTS failed_pages JSONB,
+ADD COLUMN IF NOT EXISTS plans_rejected INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN plan_quarantine.failed_pages IS 'JSONB array of { page, error, attempts } for pages that failed after retries in the run that produced the batch (NULL when none)';
+COMMENT ON COLUMN plan_quarantine.plans_rejected IS 'Plans of the run dropped for failing schema validation (see scrape_run_sources.validation_report)';
@@ -1,7 +1,8 @@
 /**
  * GET /api/analysis/[id]
  *
- * Retrieves a specific analysis by ID from the database
+ * Retrieves a specific analysis by ID from the database, with the dataset
+ * snapshot it was run on (null for the latest plans of the last 180 days)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -18,13 +19,22 @@ export async function GET(
 
     const result = await pool.query(
       `SELECT
-        id,
-        comparison_type as "comparisonType",
-        brands,
-        analysis_result as "analysisResult",
-        created_at as "createdAt"
-      FROM analyses
-      WHERE id = $1`,
+        a.id,
+        a.comparison_type as "comparisonType",
+        a.brands,
+        a.analysis_result as "analysisResult",
+        a.created_at as "createdAt",
+        CASE WHEN s.id IS NULL THEN NULL ELSE json_build_object(
+          'id', s.id,
+          'name', s.name,
+          'max_age_days', s.max_age_days,
+          'plan_count', cardinality(s.plan_ids),
+          'composition', s.composition,
+          'created_at', s.created_at
+        ) END as snapshot
+      FROM analyses a
+      LEFT JOIN dataset_snapshots s ON s.id = a.snapshot_id
+      WHERE a.id = $1`,
       [id]
     );
 
@@ -25,7 +25,13 @@ vi.mock('@/inngest/client', () => ({
   },
 }));
 
+// Mock snapshot lookup
+vi.mock('@/lib/db/snapshots', () => ({
+  getSnapshot: vi.fn(),
+}));
+
 import { inngest } from '@/inngest/client';
+import { getSnapshot } from '@/lib/db/snapshots';
 
 describe('POST /api/analysis/custom', () => {
   beforeEach(() => {
@@ -172,4 +178,47 @@ describe('POST /api/analysis/custom', () => {
       expect(data.message).toContain('Failed to trigger');
     });
   });
+
+  describe('Snapshots', () => {
+    it('should pass a known snapshot to the job', async () => {
+      vi.mocked(getSnapshot).mockResolvedValue({ id: 'snapshot-1' } as any);
+      vi.mocked(inngest.send).mockResolvedValue({ ids: ['job-1'] });
+
+      const request = new NextRequest('http://localhost:3000/api/analysis/custom', {
+        method: 'POST',
+        body: JSON.stringify({ brandA: 'O2', brandB: 'Vodafone', snapshotId: 'snapshot-1' }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(202);
+      expect(getSnapshot).toHaveBeenCalledWith('snapshot-1');
+      expect(inngest.send).toHaveBeenCalledWith({
+        name: 'analysis/custom',
+        data: {
+          brandA: 'O2',
+          brandB: 'Vodafone',
+          snapshotId: 'snapshot-1',
+          triggeredBy: 'api',
+          timestamp: expect.any(String),
+        },
+      });
+    });
+
+    it('should return 404 for an unknown snapshot', async () => {
+      vi.mocked(getSnapshot).mockResolvedValue(null);
+
+      const request = new NextRequest('http://localhost:3000/api/analysis/custom', {
+        method: 'POST',
+        body: JSON.stringify({ brandA: 'O2', brandB: 'Vodafone', snapshotId: 'snapshot-1' }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe('NOT_FOUND');
+      expect(inngest.send).not.toHaveBeenCalled();
+    });
+  });
 });
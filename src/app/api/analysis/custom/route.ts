@@ -10,6 +10,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/lib/utils/logger';
 import { inngest } from '@/inngest/client';
+import { getSnapshot } from '@/lib/db/snapshots';
 
 /**
  * Request body schema for custom comparison
@@ -17,6 +18,7 @@ import { inngest } from '@/inngest/client';
 interface CustomComparisonRequest {
   brandA: string;
   brandB: string;
+  snapshotId?: string;
 }
 
 /**
@@ -24,12 +26,14 @@ interface CustomComparisonRequest {
  *
  * Triggers a custom competitive analysis comparing two specific brands.
  * Uses Inngest for background job processing to avoid timeout issues.
- * Requires brandA and brandB in request body.
+ * Requires brandA and brandB in request body; snapshotId optionally pins the
+ * comparison to a dataset snapshot.
  *
  * Request body:
  * {
  *   "brandA": "O2",
- *   "brandB": "Vodafone"
+ *   "brandB": "Vodafone",
+ *   "snapshotId": "uuid" // optional
  * }
  *
  * Response format:
@@ -43,7 +47,8 @@ interface CustomComparisonRequest {
  * }
  *
  * Error responses:
- * - 400: Invalid request body (missing brandA or brandB)
+ * - 400: Invalid request body (missing brandA or brandB, invalid snapshotId)
+ * - 404: Snapshot not found
  * - 500: Failed to trigger comparison job
  */
 export async function POST(request: NextRequest) {
@@ -94,9 +99,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { brandA, brandB } = body;
+    const { brandA, brandB, snapshotId } = body;
+
+    if (snapshotId !== undefined) {
+      if (!snapshotId || typeof snapshotId !== 'string') {
+        logger.warn({ body }, 'Invalid snapshotId in request');
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'INVALID_REQUEST',
+            message: 'snapshotId must be a string',
+          },
+          { status: 400 }
+        );
+      }
+
+      if (!(await getSnapshot(snapshotId))) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'NOT_FOUND',
+            message: `Snapshot ${snapshotId} not found`,
+          },
+          { status: 404 }
+        );
+      }
+    }
 
-    logger.info({ brandA, brandB }, 'Validated custom comparison request');
+    logger.info({ brandA, brandB, snapshotId }, 'Validated custom comparison request');
 
     // Step 2: Trigger Inngest job for custom comparison
     const { ids } = await inngest.send({
@@ -104,6 +134,7 @@ export async function POST(request: NextRequest) {
       data: {
         brandA,
         brandB,
+        ...(snapshotId && { snapshotId }),
         triggeredBy: 'api',
         timestamp: new Date().toISOString(),
       },
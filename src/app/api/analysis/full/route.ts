@@ -10,12 +10,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/lib/utils/logger';
 import { inngest } from '@/inngest/client';
+import { getSnapshot } from '@/lib/db/snapshots';
+
+/**
+ * Optional request body
+ */
+interface FullAnalysisRequest {
+  snapshotId?: string;
+}
 
 /**
  * POST /api/analysis/full
  *
  * Triggers a comprehensive competitive analysis comparing O2 against all competitors.
  * Uses Inngest for background job processing to avoid timeout issues.
+ * Analyzes the latest plans of the last 180 days unless a snapshot is given.
+ *
+ * Request body (optional):
+ * {
+ *   "snapshotId": "uuid"
+ * }
  *
  * @returns Job information for status polling
  *
@@ -28,18 +42,65 @@ import { inngest } from '@/inngest/client';
  * }
  *
  * Error responses:
+ * - 400: Invalid JSON or snapshotId
+ * - 404: Snapshot not found
  * - 500: Failed to trigger analysis job
  */
-export async function POST(_request: NextRequest) {
+export async function POST(request: NextRequest) {
   const startTime = Date.now();
 
   try {
     logger.info('POST /api/analysis/full - Triggering full analysis job');
 
+    let body: FullAnalysisRequest = {};
+
+    try {
+      const text = await request.text();
+      if (text) body = JSON.parse(text);
+    } catch {
+      logger.warn('Invalid JSON in request body');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'INVALID_REQUEST',
+          message: 'Request body must be valid JSON',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { snapshotId } = body;
+
+    if (snapshotId !== undefined) {
+      if (!snapshotId || typeof snapshotId !== 'string') {
+        logger.warn({ body }, 'Invalid snapshotId in request');
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'INVALID_REQUEST',
+            message: 'snapshotId must be a string',
+          },
+          { status: 400 }
+        );
+      }
+
+      if (!(await getSnapshot(snapshotId))) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'NOT_FOUND',
+            message: `Snapshot ${snapshotId} not found`,
+          },
+          { status: 404 }
+        );
+      }
+    }
+
     // Trigger Inngest job for full analysis
     const { ids } = await inngest.send({
       name: 'analysis/full',
       data: {
+        ...(snapshotId && { snapshotId }),
         triggeredBy: 'api',
         timestamp: new Date().toISOString(),
       },
@@ -49,7 +110,7 @@ export async function POST(_request: NextRequest) {
     const duration = Date.now() - startTime;
 
     logger.info(
-      { jobId, durationMs: duration },
+      { jobId, snapshotId, durationMs: duration },
       'Full analysis job triggered successfully'
     );
 
@@ -12,7 +12,9 @@ import { inngest } from '@/inngest/client';
 import {
   scrapeAllPlans,
   runFullAnalysis,
-  runCustomComparison
+  runCustomComparison,
+  renormalizeStoredPlans,
+  maintainPlans
 } from '@/inngest/functions';
 
 export const { GET, POST, PUT } = serve({
@@ -21,5 +23,7 @@ export const { GET, POST, PUT } = serve({
     scrapeAllPlans,
     runFullAnalysis,
     runCustomComparison,
+    renormalizeStoredPlans,
+    maintainPlans,
   ],
 });
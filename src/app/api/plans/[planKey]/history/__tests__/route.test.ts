@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for Plan History API Endpoint
+ *
+ * Tests GET /api/plans/[planKey]/history with mocked history reads
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+
+// Mock logger
+vi.mock('@/lib/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+// Mock history reads
+vi.mock('@/lib/dashboard/plan-history', () => ({
+  DEFAULT_HISTORY_LIMIT: 500,
+  getPlanHistory: vi.fn(),
+}));
+
+import { getPlanHistory } from '@/lib/dashboard/plan-history';
+
+const createRequest = (query = '') =>
+  new NextRequest(`http://localhost:3000/api/plans/O2-10GB-12months/history${query}`);
+
+const params = { params: Promise.resolve({ planKey: 'O2-10GB-12months' }) };
+
+describe('GET /api/plans/[planKey]/history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the plan history', async () => {
+    const history = { plan_key: 'O2-10GB-12months', source: 'O2', points: [], changes: [] };
+    vi.mocked(getPlanHistory).mockResolvedValue(history);
+
+    const response = await GET(createRequest(), params);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, history });
+    expect(getPlanHistory).toHaveBeenCalledWith('O2-10GB-12months', { since: undefined, limit: 500 });
+  });
+
+  it('passes since and limit', async () => {
+    vi.mocked(getPlanHistory).mockResolvedValue({
+      plan_key: 'O2-10GB-12months',
+      source: 'O2',
+      points: [],
+      changes: [],
+    });
+
+    await GET(createRequest('?since=2026-09-01&limit=30'), params);
+
+    expect(getPlanHistory).toHaveBeenCalledWith('O2-10GB-12months', {
+      since: new Date('2026-09-01'),
+      limit: 30,
+    });
+  });
+
+  it('returns 400 for invalid parameters', async () => {
+    const badSince = await GET(createRequest('?since=yesterday'), params);
+    const badLimit = await GET(createRequest('?limit=0'), params);
+
+    expect(badSince.status).toBe(400);
+    expect(badLimit.status).toBe(400);
+    expect((await badLimit.json()).error).toBe('INVALID_REQUEST');
+    expect(getPlanHistory).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for an unknown plan', async () => {
+    vi.mocked(getPlanHistory).mockResolvedValue(null);
+
+    const response = await GET(createRequest(), params);
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe('NOT_FOUND');
+  });
+
+  it('returns 500 when the query fails', async () => {
+    vi.mocked(getPlanHistory).mockRejectedValue(new Error('connection refused'));
+
+    const response = await GET(createRequest(), params);
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toBe('INTERNAL_SERVER_ERROR');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Plan History API Endpoint
+ *
+ * Returns every stored scrape of a plan (price, data and promo fields) and
+ * the changes between consecutive scrapes, for charting a plan over time.
+ *
+ * @endpoint GET /api/plans/[planKey]/history
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_HISTORY_LIMIT, getPlanHistory } from '@/lib/dashboard/plan-history';
+import { logger } from '@/lib/utils/logger';
+
+type RouteParams = {
+  params: Promise<{
+    planKey: string;
+  }>;
+};
+
+const MAX_HISTORY_LIMIT = 5000;
+
+/**
+ * GET /api/plans/[planKey]/history?since=2026-01-01&limit=100
+ *
+ * Query parameters (optional):
+ * - since: ISO date or timestamp; only scrapes at or after it
+ * - limit: most recent scrapes to return (default 500, max 5000)
+ *
+ * Response format:
+ * {
+ *   "success": true,
+ *   "history": {
+ *     "plan_key": "O2-10GB-12months",
+ *     "source": "O2",
+ *     "points": [{ "scrape_timestamp": "...", "price": "£10.00", "price_pence": 1000, "promo_price": null, ... }],
+ *     "changes": [{ "scrape_timestamp": "...", "field": "price", "from": "£12.00", "to": "£10.00" }]
+ *   }
+ * }
+ *
+ * Points are oldest first, changes newest first.
+ *
+ * Error responses:
+ * - 400: Invalid since or limit
+ * - 404: No plan with this key
+ * - 500: Failed to fetch history
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { planKey } = await params;
+  const searchParams = request.nextUrl.searchParams;
+
+  const sinceParam = searchParams.get('since');
+  const since = sinceParam ? new Date(sinceParam) : undefined;
+  if (since && isNaN(since.getTime())) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'INVALID_REQUEST',
+        message: 'since must be an ISO date',
+      },
+      { status: 400 }
+    );
+  }
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_HISTORY_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'INVALID_REQUEST',
+        message: `limit must be an integer from 1 to ${MAX_HISTORY_LIMIT}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const history = await getPlanHistory(planKey, { since, limit });
+
+    if (!history) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Plan ${planKey} not found`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, history });
+  } catch (error) {
+    logger.error(
+      {
+        planKey,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      'Failed to fetch plan history'
+    );
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to fetch plan history',
+      },
+      { status: 500 }
+    );
+  }
+}
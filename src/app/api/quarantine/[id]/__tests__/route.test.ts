@@ -0,0 +1,94 @@
+/**
+ * Unit Tests for Quarantine Review API Endpoint
+ *
+ * Tests POST /api/quarantine/[id] with mocked quarantine operations
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+
+// Mock logger
+vi.mock('@/lib/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+// Mock quarantine operations
+vi.mock('@/lib/db/quarantine', () => ({
+  approveQuarantine: vi.fn(),
+  rejectQuarantine: vi.fn(),
+}));
+
+import { approveQuarantine, rejectQuarantine } from '@/lib/db/quarantine';
+
+const createRequest = (body: string) =>
+  new NextRequest('http://localhost:3000/api/quarantine/q-1', {
+    method: 'POST',
+    body,
+  });
+
+const params = { params: Promise.resolve({ id: 'q-1' }) };
+
+describe('POST /api/quarantine/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should approve a pending batch and report inserted plans', async () => {
+    vi.mocked(approveQuarantine).mockResolvedValue(38);
+
+    const response = await POST(createRequest(JSON.stringify({ action: 'approve' })), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ success: true, status: 'approved', plansInserted: 38 });
+    expect(approveQuarantine).toHaveBeenCalledWith('q-1');
+  });
+
+  it('should reject a pending batch', async () => {
+    vi.mocked(rejectQuarantine).mockResolvedValue(true);
+
+    const response = await POST(createRequest(JSON.stringify({ action: 'reject' })), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.status).toBe('rejected');
+    expect(approveQuarantine).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the batch is not pending', async () => {
+    vi.mocked(approveQuarantine).mockResolvedValue(null);
+
+    const response = await POST(createRequest(JSON.stringify({ action: 'approve' })), params);
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe('NOT_FOUND');
+  });
+
+  it('should return 400 for an unknown action', async () => {
+    const response = await POST(createRequest(JSON.stringify({ action: 'delete' })), params);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('INVALID_REQUEST');
+  });
+
+  it('should return 400 for invalid JSON', async () => {
+    const response = await POST(createRequest('{'), params);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 500 when the database operation fails', async () => {
+    vi.mocked(rejectQuarantine).mockRejectedValue(new Error('Database error'));
+
+    const response = await POST(createRequest(JSON.stringify({ action: 'reject' })), params);
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toBe('INTERNAL_SERVER_ERROR');
+  });
+});
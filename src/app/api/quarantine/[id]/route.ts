@@ -0,0 +1,129 @@
+/**
+ * Quarantine Review API Endpoint
+ *
+ * Approves or rejects a scrape batch held back by the anomaly guard.
+ * Approved batches are inserted into plans; rejected batches are discarded.
+ *
+ * @endpoint POST /api/quarantine/[id]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { approveQuarantine, rejectQuarantine } from '@/lib/db/quarantine';
+import { logger } from '@/lib/utils/logger';
+
+type RouteParams = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+/**
+ * Request body schema
+ */
+interface QuarantineReviewRequest {
+  action: 'approve' | 'reject';
+}
+
+/**
+ * POST /api/quarantine/[id]
+ *
+ * Request body:
+ * {
+ *   "action": "approve" | "reject"
+ * }
+ *
+ * Response format:
+ * {
+ *   "success": true,
+ *   "status": "approved",
+ *   "plansInserted": 38
+ * }
+ *
+ * Error responses:
+ * - 400: Invalid JSON or action
+ * - 404: Batch not found or already reviewed
+ * - 500: Failed to review batch
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  try {
+    let body: QuarantineReviewRequest;
+
+    try {
+      body = await request.json();
+    } catch {
+      logger.warn('Invalid JSON in request body');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'INVALID_REQUEST',
+          message: 'Request body must be valid JSON',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.action !== 'approve' && body.action !== 'reject') {
+      logger.warn({ body }, 'Invalid quarantine action');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'INVALID_REQUEST',
+          message: 'action must be "approve" or "reject"',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.action === 'approve') {
+      const plansInserted = await approveQuarantine(id);
+
+      if (plansInserted === null) {
+        return notPendingResponse(id);
+      }
+
+      return NextResponse.json({ success: true, status: 'approved', plansInserted });
+    }
+
+    const rejected = await rejectQuarantine(id);
+
+    if (!rejected) {
+      return notPendingResponse(id);
+    }
+
+    return NextResponse.json({ success: true, status: 'rejected' });
+  } catch (error) {
+    logger.error(
+      {
+        quarantineId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Failed to review quarantined batch'
+    );
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to review quarantined batch',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 404 for batches that do not exist or were already reviewed
+ */
+function notPendingResponse(id: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'NOT_FOUND',
+      message: `No pending quarantined batch with id ${id}`,
+    },
+    { status: 404 }
+  );
+}
@@ -5,6 +5,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
 import { POST } from '../route';
 
 // Mock logger
@@ -26,6 +27,12 @@ vi.mock('@/inngest/client', () => ({
 
 import { inngest } from '@/inngest/client';
 
+const createRequest = (body?: string) =>
+  new NextRequest('http://localhost:3000/api/scrape', {
+    method: 'POST',
+    body,
+  });
+
 describe('POST /api/scrape', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -43,7 +50,7 @@ describe('POST /api/scrape', () => {
       });
 
       // Call endpoint
-      const response = await POST();
+      const response = await POST(createRequest());
       const data = await response.json();
 
       // Assertions
@@ -70,7 +77,7 @@ describe('POST /api/scrape', () => {
       });
 
       // Call endpoint
-      const response = await POST();
+      const response = await POST(createRequest());
       const data = await response.json();
 
       // Assertions
@@ -81,13 +88,80 @@ describe('POST /api/scrape', () => {
     });
   });
 
+  describe('Selected Sources', () => {
+    it('should pass normalized source ids to the scrape event', async () => {
+      vi.mocked(inngest.send).mockResolvedValue({ ids: ['job-1'] });
+
+      const response = await POST(createRequest(JSON.stringify({ sources: ['Vodafone', 'o2'] })));
+      const data = await response.json();
+
+      expect(response.status).toBe(202);
+      expect(data.sources).toEqual(['vodafone', 'o2']);
+      expect(inngest.send).toHaveBeenCalledWith({
+        name: 'scrape/trigger',
+        data: {
+          triggeredBy: 'dashboard',
+          timestamp: expect.any(String),
+          sources: ['vodafone', 'o2'],
+        },
+      });
+    });
+
+    it('should pass each source once', async () => {
+      vi.mocked(inngest.send).mockResolvedValue({ ids: ['job-1'] });
+
+      const response = await POST(createRequest(JSON.stringify({ sources: ['o2', 'o2', 'O2', 'vodafone'] })));
+      const data = await response.json();
+
+      expect(response.status).toBe(202);
+      expect(data.sources).toEqual(['o2', 'vodafone']);
+      expect(vi.mocked(inngest.send).mock.calls[0][0]).toMatchObject({ data: { sources: ['o2', 'vodafone'] } });
+    });
+
+    it('should scrape all sources when body is empty or sources is empty', async () => {
+      vi.mocked(inngest.send).mockResolvedValue({ ids: ['job-1'] });
+
+      await POST(createRequest(''));
+      await POST(createRequest(JSON.stringify({ sources: [] })));
+
+      for (const [event] of vi.mocked(inngest.send).mock.calls) {
+        expect((event as { data: object }).data).not.toHaveProperty('sources');
+      }
+    });
+
+    it('should return 400 for unknown sources', async () => {
+      const response = await POST(createRequest(JSON.stringify({ sources: ['vodafone', 'ee'] })));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('INVALID_REQUEST');
+      expect(data.message).toBe('Unknown sources: ee');
+      expect(inngest.send).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when sources is not an array of strings', async () => {
+      const response = await POST(createRequest(JSON.stringify({ sources: 'vodafone' })));
+
+      expect(response.status).toBe(400);
+      expect(inngest.send).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid JSON', async () => {
+      const response = await POST(createRequest('{not json'));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.message).toBe('Request body must be valid JSON');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should return 500 when Inngest send fails', async () => {
       // Mock Inngest send throwing error
       vi.mocked(inngest.send).mockRejectedValue(new Error('Inngest service unavailable'));
 
       // Call endpoint
-      const response = await POST();
+      const response = await POST(createRequest());
       const data = await response.json();
 
       // Assertions
@@ -105,7 +179,7 @@ describe('POST /api/scrape', () => {
       });
 
       // Call endpoint
-      const response = await POST();
+      const response = await POST(createRequest());
       const data = await response.json();
 
       // Assertions - route returns 202 but jobId will be undefined
@@ -119,7 +193,7 @@ describe('POST /api/scrape', () => {
       vi.mocked(inngest.send).mockResolvedValue(undefined as any);
 
       // Call endpoint
-      const response = await POST();
+      const response = await POST(createRequest());
 
       // This will throw when trying to destructure { ids }
       // In real scenario, should catch and return 500
@@ -131,7 +205,7 @@ describe('POST /api/scrape', () => {
       vi.mocked(inngest.send).mockRejectedValue(new Error('Network timeout'));
 
       // Call endpoint
-      const response = await POST();
+      const response = await POST(createRequest());
       const data = await response.json();
 
       // Assertions
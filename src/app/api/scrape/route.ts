@@ -1,28 +1,113 @@
 /**
  * Scrape Trigger API Endpoint
  *
- * Triggers the Inngest scraping function for all providers.
+ * Triggers the Inngest scraping function for all providers,
+ * or only the sources listed in the request body.
  * Returns immediately with job ID for status polling.
  *
  * Story: 4.6 - Trigger Scrape from Dashboard
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { inngest } from '@/inngest/client';
 import { logger } from '@/lib/utils/logger';
+import { getCollector } from '@/lib/scraping/registry';
 
-export async function POST() {
+/**
+ * Optional request body
+ */
+interface ScrapeRequest {
+  /** Collector ids to scrape (e.g., ["vodafone"]); all sources when omitted */
+  sources?: string[];
+}
+
+/**
+ * POST /api/scrape
+ *
+ * Request body (optional):
+ * {
+ *   "sources": ["vodafone", "uswitch"]
+ * }
+ *
+ * Error responses:
+ * - 400: Invalid JSON or unknown source
+ * - 500: Failed to trigger scraping job
+ */
+export async function POST(request: NextRequest) {
   const startTime = Date.now();
 
   try {
     logger.info('POST /api/scrape - Triggering scraping job');
 
+    // Body is optional - an empty POST scrapes every source
+    let body: ScrapeRequest = {};
+    const rawBody = await request.text();
+
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        logger.warn('Invalid JSON in request body');
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'INVALID_REQUEST',
+            message: 'Request body must be valid JSON',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { sources } = body;
+
+    if (
+      sources !== undefined &&
+      (!Array.isArray(sources) || sources.some((source) => typeof source !== 'string'))
+    ) {
+      logger.warn({ body }, 'Invalid sources in request');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'INVALID_REQUEST',
+          message: 'sources must be an array of strings',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Normalize to registry ids (e.g., "Vodafone" -> "vodafone"), each collector once:
+    // the scrape runs one step and one ledger row per collector id
+    const collectorIds: string[] = [];
+    const unknownSources: string[] = [];
+    for (const source of new Set(sources ?? [])) {
+      const collector = getCollector(source);
+      if (collector) {
+        if (!collectorIds.includes(collector.id)) collectorIds.push(collector.id);
+      } else {
+        unknownSources.push(source);
+      }
+    }
+
+    if (unknownSources.length > 0) {
+      logger.warn({ unknownSources }, 'Unknown sources in request');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'INVALID_REQUEST',
+          message: `Unknown sources: ${unknownSources.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
     // Trigger scraping job via Inngest
     const { ids } = await inngest.send({
       name: 'scrape/trigger',
       data: {
         triggeredBy: 'dashboard',
         timestamp: new Date().toISOString(),
+        ...(collectorIds.length > 0 ? { sources: collectorIds } : {}),
       },
     });
 
@@ -30,7 +115,7 @@ export async function POST() {
     const duration = Date.now() - startTime;
 
     logger.info(
-      { jobId, durationMs: duration },
+      { jobId, sources: collectorIds, durationMs: duration },
       'Scraping job triggered successfully'
     );
 
@@ -39,6 +124,7 @@ export async function POST() {
         success: true,
         message: 'Scraping job started',
         jobId,
+        sources: collectorIds.length > 0 ? collectorIds : undefined,
         statusUrl: `/api/jobs/${jobId}`,
       },
       { status: 202 } // 202 Accepted
@@ -0,0 +1,88 @@
+/**
+ * Unit Tests for Scrape Run Details API Endpoint
+ *
+ * Tests GET /api/scrape/runs/[scrapeId] with mocked ledger reads
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+
+// Mock logger
+vi.mock('@/lib/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+// Mock ledger operations
+vi.mock('@/lib/db/scrape-runs', () => ({
+  getScrapeRunDetails: vi.fn(),
+}));
+
+import { getScrapeRunDetails } from '@/lib/db/scrape-runs';
+
+const request = new NextRequest('http://localhost:3000/api/scrape/runs/evt-1');
+const params = { params: Promise.resolve({ scrapeId: 'evt-1' }) };
+
+describe('GET /api/scrape/runs/[scrapeId]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the run with artifact URLs', async () => {
+    vi.mocked(getScrapeRunDetails).mockResolvedValue({
+      scrape_id: 'evt-1',
+      status: 'partial',
+      run_sources: [
+        {
+          collector_id: 'o2',
+          status: 'failed',
+          selector_checks: [],
+          artifacts: [{ id: 'a-1', has_screenshot: true }, { id: 'a-2', has_screenshot: false }],
+        },
+      ],
+    } as never);
+
+    const response = await GET(request, params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.success).toBe(true);
+    expect(data.run.run_sources[0].artifacts).toEqual([
+      {
+        id: 'a-1',
+        has_screenshot: true,
+        htmlUrl: '/api/scrape/runs/evt-1/artifacts/a-1?format=html',
+        screenshotUrl: '/api/scrape/runs/evt-1/artifacts/a-1?format=screenshot',
+      },
+      {
+        id: 'a-2',
+        has_screenshot: false,
+        htmlUrl: '/api/scrape/runs/evt-1/artifacts/a-2?format=html',
+        screenshotUrl: null,
+      },
+    ]);
+  });
+
+  it('returns 404 for an unknown run', async () => {
+    vi.mocked(getScrapeRunDetails).mockResolvedValue(null);
+
+    const response = await GET(request, params);
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe('NOT_FOUND');
+  });
+
+  it('returns 500 when the lookup fails', async () => {
+    vi.mocked(getScrapeRunDetails).mockRejectedValue(new Error('connection refused'));
+
+    const response = await GET(request, params);
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Scrape Artifact API Endpoint
+ *
+ * Serves the page HTML or screenshot captured when a collector's critical
+ * selector matched zero nodes.
+ *
+ * @endpoint GET /api/scrape/runs/[scrapeId]/artifacts/[artifactId]?format=html|screenshot
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getScrapeArtifact } from '@/lib/db/scrape-runs';
+import { logger } from '@/lib/utils/logger';
+
+type RouteParams = {
+  params: Promise<{
+    scrapeId: string;
+    artifactId: string;
+  }>;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { scrapeId, artifactId } = await params;
+  const format = request.nextUrl.searchParams.get('format') ?? 'html';
+
+  if (format !== 'html' && format !== 'screenshot') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'INVALID_REQUEST',
+        message: 'format must be "html" or "screenshot"',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const artifact = UUID_PATTERN.test(artifactId)
+      ? await getScrapeArtifact(scrapeId, artifactId)
+      : null;
+
+    if (!artifact || (format === 'screenshot' && !artifact.screenshot)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Artifact ${artifactId} not found`,
+        },
+        { status: 404 }
+      );
+    }
+
+    if (format === 'screenshot') {
+      return new NextResponse(new Uint8Array(artifact.screenshot as Buffer), {
+        headers: { 'Content-Type': 'image/jpeg' },
+      });
+    }
+
+    // Served as plain text so captured scripts never run on our origin
+    return new NextResponse(artifact.html, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': `inline; filename="${artifact.collector_id}-${artifact.id}.html"`,
+      },
+    });
+  } catch (error) {
+    logger.error(
+      {
+        scrapeId,
+        artifactId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      'Failed to fetch scrape artifact'
+    );
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to fetch scrape artifact',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Scrape Run Details API Endpoint
+ *
+ * Returns a scrape run from the ledger with each source's outcome and
+ * selector health diagnostics, so a broken collector can be traced to the
+ * part of the page that changed.
+ *
+ * @endpoint GET /api/scrape/runs/[scrapeId]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getScrapeRunDetails } from '@/lib/db/scrape-runs';
+import { logger } from '@/lib/utils/logger';
+
+type RouteParams = {
+  params: Promise<{
+    scrapeId: string;
+  }>;
+};
+
+/**
+ * GET /api/scrape/runs/[scrapeId]
+ *
+ * Response format:
+ * {
+ *   "success": true,
+ *   "run": {
+ *     "scrape_id": "...",
+ *     "status": "partial",
+ *     "run_sources": [{
+ *       "collector_id": "o2",
+ *       "status": "failed",
+ *       "selector_checks": [{ "name": "plan cards", "matched": 0, "artifactIndex": 0, ... }],
+ *       "artifacts": [{ "id": "...", "htmlUrl": "...", "screenshotUrl": "...", ... }]
+ *     }]
+ *   }
+ * }
+ *
+ * Error responses:
+ * - 404: Run not found in the ledger
+ * - 500: Failed to fetch run
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { scrapeId } = await params;
+
+  try {
+    const run = await getScrapeRunDetails(scrapeId);
+
+    if (!run) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Scrape run ${scrapeId} not found`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const artifactsUrl = `/api/scrape/runs/${encodeURIComponent(scrapeId)}/artifacts`;
+
+    return NextResponse.json({
+      success: true,
+      run: {
+        ...run,
+        run_sources: run.run_sources.map((source) => ({
+          ...source,
+          artifacts: source.artifacts.map((artifact) => ({
+            ...artifact,
+            htmlUrl: `${artifactsUrl}/${artifact.id}?format=html`,
+            screenshotUrl: artifact.has_screenshot
+              ? `${artifactsUrl}/${artifact.id}?format=screenshot`
+              : null,
+          })),
+        })),
+      },
+    });
+  } catch (error) {
+    logger.error(
+      {
+        scrapeId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      'Failed to fetch scrape run details'
+    );
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to fetch scrape run details',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for Dataset Snapshots API Endpoint
+ *
+ * Tests GET/POST /api/snapshots with mocked snapshot operations
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../route';
+
+// Mock logger
+vi.mock('@/lib/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+// Mock snapshot operations
+vi.mock('@/lib/db/snapshots', () => ({
+  createSnapshot: vi.fn(),
+  listSnapshots: vi.fn(),
+  SnapshotError: class SnapshotError extends Error {},
+}));
+
+import { createSnapshot, listSnapshots, SnapshotError } from '@/lib/db/snapshots';
+
+const snapshot = {
+  id: 'snapshot-1',
+  name: 'October',
+  max_age_days: 30,
+  plan_count: 2,
+  composition: [{ source: 'O2', scrape_id: 'scrape-1', scrape_timestamp: '2026-10-18T06:00:00Z', plan_count: 2 }],
+  created_at: new Date('2026-10-19T09:00:00Z'),
+};
+
+const createRequest = (body: string) =>
+  new NextRequest('http://localhost:3000/api/snapshots', {
+    method: 'POST',
+    body,
+  });
+
+describe('/api/snapshots', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list snapshots', async () => {
+    vi.mocked(listSnapshots).mockResolvedValue([snapshot]);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.snapshots).toHaveLength(1);
+    expect(data.snapshots[0].name).toBe('October');
+  });
+
+  it('should create a snapshot', async () => {
+    vi.mocked(createSnapshot).mockResolvedValue(snapshot);
+
+    const response = await POST(createRequest(JSON.stringify({ name: ' October ', maxAgeDays: 14 })));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.success).toBe(true);
+    expect(data.snapshot.id).toBe('snapshot-1');
+    expect(createSnapshot).toHaveBeenCalledWith({ name: 'October', maxAgeDays: 14 });
+  });
+
+  it('should reject a missing name or invalid maxAgeDays', async () => {
+    const missingName = await POST(createRequest(JSON.stringify({ name: '  ' })));
+    const badAge = await POST(createRequest(JSON.stringify({ name: 'October', maxAgeDays: 0 })));
+    const badJson = await POST(createRequest('not json'));
+
+    expect(missingName.status).toBe(400);
+    expect(badAge.status).toBe(400);
+    expect(badJson.status).toBe(400);
+    expect(createSnapshot).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when the snapshot cannot be created', async () => {
+    vi.mocked(createSnapshot).mockRejectedValue(new SnapshotError('A snapshot named "October" already exists'));
+
+    const response = await POST(createRequest(JSON.stringify({ name: 'October' })));
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data).toEqual({
+      success: false,
+      error: 'CONFLICT',
+      message: 'A snapshot named "October" already exists',
+    });
+  });
+
+  it('should return 500 for database errors', async () => {
+    vi.mocked(createSnapshot).mockRejectedValue(new Error('connection refused'));
+
+    const response = await POST(createRequest(JSON.stringify({ name: 'October' })));
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Dataset Snapshots API Endpoint
+ *
+ * Lists and creates named dataset snapshots: the frozen plans of each
+ * source's latest successful scrape, which analyses and the plans page can
+ * target instead of the latest plans.
+ *
+ * @endpoint GET /api/snapshots
+ * @endpoint POST /api/snapshots
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createSnapshot, listSnapshots, SnapshotError } from '@/lib/db/snapshots';
+import { logger } from '@/lib/utils/logger';
+
+/**
+ * Request body schema
+ */
+interface CreateSnapshotRequest {
+  name: string;
+  maxAgeDays?: number;
+}
+
+/**
+ * GET /api/snapshots
+ *
+ * Response format:
+ * {
+ *   "success": true,
+ *   "snapshots": [{ "id": "...", "name": "October", "plan_count": 412, "composition": [...] }]
+ * }
+ */
+export async function GET() {
+  try {
+    const snapshots = await listSnapshots();
+    return NextResponse.json({ success: true, snapshots });
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Failed to list snapshots'
+    );
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to list snapshots',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/snapshots
+ *
+ * Request body:
+ * {
+ *   "name": "October pricing review",
+ *   "maxAgeDays": 30 // optional, sources not scraped within it are left out
+ * }
+ *
+ * Response format:
+ * {
+ *   "success": true,
+ *   "snapshot": { "id": "...", "name": "October pricing review", "plan_count": 412, ... }
+ * }
+ *
+ * Error responses:
+ * - 400: Invalid JSON, name or maxAgeDays
+ * - 409: Name taken or no source scraped within maxAgeDays
+ * - 500: Failed to create snapshot
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: CreateSnapshotRequest;
+
+    try {
+      body = await request.json();
+    } catch {
+      logger.warn('Invalid JSON in request body');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'INVALID_REQUEST',
+          message: 'Request body must be valid JSON',
+        },
+        { status: 400 }
+      );
+    }
+
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name) {
+      logger.warn({ body }, 'Missing or invalid snapshot name');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'INVALID_REQUEST',
+          message: 'name is required and must be a non-empty string',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.maxAgeDays !== undefined &&
+      (!Number.isInteger(body.maxAgeDays) || body.maxAgeDays <= 0)
+    ) {
+      logger.warn({ body }, 'Invalid snapshot maxAgeDays');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'INVALID_REQUEST',
+          message: 'maxAgeDays must be a positive integer',
+        },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = await createSnapshot({ name, maxAgeDays: body.maxAgeDays });
+
+    return NextResponse.json({ success: true, snapshot }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SnapshotError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'CONFLICT',
+          message: error.message,
+        },
+        { status: 409 }
+      );
+    }
+
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Failed to create snapshot'
+    );
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to create snapshot',
+      },
+      { status: 500 }
+    );
+  }
+}
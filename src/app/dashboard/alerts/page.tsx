@@ -0,0 +1,120 @@
+/**
+ * Alert History Page
+ *
+ * Alerts fired by the competitor price rules after each scrape run, why
+ * they fired and where they were delivered, plus the configured rules.
+ */
+
+import Link from 'next/link';
+import { AlertTriangle, ChevronRight } from 'lucide-react';
+import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
+import { AlertHistoryTable } from '@/components/dashboard/AlertHistoryTable';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { requireAuth } from '@/lib/auth/session';
+import { getAlertConfig, type AlertConfig } from '@/lib/alerts/config';
+import { describeRule } from '@/lib/alerts/rules';
+import { getAlertHistory } from '@/lib/db/alerts';
+import { getRateTable } from '@/lib/scraping/exchange-rates';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * Configured rules and channels, or the reason the config could not be read
+ */
+function loadAlertConfig(): { config: AlertConfig | null; error: string | null } {
+  try {
+    return { config: getAlertConfig(), error: null };
+  } catch (error) {
+    return { config: null, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export default async function AlertsPage() {
+  // Ensure user is authenticated
+  await requireAuth();
+
+  const alerts = await getAlertHistory();
+  const { config, error } = loadAlertConfig();
+  const currency = getRateTable().reportingCurrency;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeader />
+
+      <main className="container-custom py-8">
+        {/* Breadcrumbs */}
+        <nav className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
+          <Link href="/dashboard" className="hover:text-foreground">
+            Dashboard
+          </Link>
+          <ChevronRight className="w-4 h-4" />
+          <span className="text-foreground font-medium">Alerts</span>
+        </nav>
+
+        {/* Page Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-foreground">Price Alerts</h1>
+          <p className="mt-2 text-muted-foreground">
+            Alerts fire when a scrape makes a rule true, e.g. a competitor cuts a plan below a
+            threshold. They do not repeat while the rule stays true.
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {config && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Rules</CardTitle>
+                <CardDescription>
+                  From config/alerts.json (ALERTS_FILE), delivered to{' '}
+                  {config.channels.length > 0
+                    ? config.channels.map((channel) => channel.id).join(', ')
+                    : 'no channels'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {config.rules.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No rules configured. Copy config/alerts.example.json to config/alerts.json to
+                    start alerting.
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {config.rules.map((rule) => (
+                      <li key={rule.id} className="flex items-center gap-2 text-sm">
+                        <Badge variant="outline" className="font-mono">
+                          {rule.id}
+                        </Badge>
+                        {describeRule(rule, currency)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>History</CardTitle>
+              <CardDescription>Most recent alerts first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AlertHistoryTable alerts={alerts} />
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
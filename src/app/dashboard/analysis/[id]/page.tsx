@@ -24,9 +24,11 @@ async function getAnalysis(id: string) {
 
   try {
     const result = await pool.query(
-      `SELECT id, comparison_type, brands, analysis_result, created_at
-       FROM analyses
-       WHERE id = $1`,
+      `SELECT a.id, a.comparison_type, a.brands, a.analysis_result, a.created_at,
+              s.id AS snapshot_id, s.name AS snapshot_name, s.composition AS snapshot_composition
+       FROM analyses a
+       LEFT JOIN dataset_snapshots s ON s.id = a.snapshot_id
+       WHERE a.id = $1`,
       [id]
     );
 
@@ -41,9 +43,14 @@ async function getAnalysis(id: string) {
       ? validateAnalysisResponse
       : validateCustomComparisonResponse;
 
+    const { snapshot_id, snapshot_name, snapshot_composition, ...analysis } = row;
+
     return {
-      ...row,
+      ...analysis,
       analysis_result: validateFn(row.analysis_result),
+      snapshot: snapshot_id
+        ? { id: snapshot_id, name: snapshot_name, composition: snapshot_composition }
+        : null,
     };
   } catch (error) {
     console.error('Error fetching analysis:', error);
@@ -113,7 +120,7 @@ export default async function AnalysisDetailPage({
             Back to Dashboard
           </Link>
           {analysis.comparison_type === 'full' ? (
-            <RunFullAnalysisButton />
+            <RunFullAnalysisButton snapshotId={analysis.snapshot?.id} />
           ) : (
             <Link
               href="/dashboard/comparison"
@@ -136,7 +143,9 @@ export default async function AnalysisDetailPage({
                 {formattedDate} at {formattedTime} ({formatDistanceToNow(new Date(analysis.created_at), { addSuffix: true })})
               </p>
               <p className="text-xs text-muted-foreground mt-1">
-                Based on the most recent plans scraped in the last 180 days
+                {analysis.snapshot
+                  ? `Based on snapshot "${analysis.snapshot.name}"`
+                  : 'Based on the most recent plans scraped in the last 180 days'}
               </p>
             </div>
             {isCached && (
@@ -153,6 +162,7 @@ export default async function AnalysisDetailPage({
             data={analysis.analysis_result}
             timestamp={new Date(analysis.created_at)}
             brands={analysis.brands}
+            snapshot={analysis.snapshot}
           />
         </div>
 
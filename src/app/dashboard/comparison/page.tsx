@@ -10,6 +10,7 @@
 import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
 import { CustomComparison } from '@/components/dashboard/CustomComparison';
 import { getAvailableBrands } from '@/lib/dashboard/available-brands';
+import { listSnapshots } from '@/lib/db/snapshots';
 import { requireAuth } from '@/lib/auth/session';
 import Link from 'next/link';
 import { ChevronRight } from 'lucide-react';
@@ -21,8 +22,8 @@ export default async function ComparisonPage() {
   // Ensure user is authenticated
   await requireAuth();
 
-  // Fetch available brands for comparison
-  const brands = await getAvailableBrands();
+  // Fetch available brands and dataset snapshots for comparison
+  const [brands, snapshots] = await Promise.all([getAvailableBrands(), listSnapshots()]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -44,11 +45,11 @@ export default async function ComparisonPage() {
             Compare two mobile network brands side-by-side with AI-powered competitive analysis
           </p>
           <p className="mt-1 text-sm text-muted-foreground">
-            Analysis uses the most recent plans scraped in the last 180 days
+            Analysis uses the most recent plans scraped in the last 180 days, or a dataset snapshot
           </p>
         </div>
 
-        <CustomComparison brands={brands} />
+        <CustomComparison brands={brands} snapshots={snapshots} />
       </main>
     </div>
   );
@@ -8,14 +8,22 @@
 import { requireAuth } from '@/lib/auth/session';
 import { getPool } from '@/lib/db/connection';
 import { validateAnalysisResponse } from '@/lib/llm/validation';
+import { listCollectors } from '@/lib/scraping/registry';
+import { getSourceScrapeStatuses, type SourceScrapeStatus } from '@/lib/dashboard/scrape-status';
+import { countPendingQuarantines } from '@/lib/db/quarantine';
+import { getLatestPlanChanges, type PlanChangeEvent } from '@/lib/db/plan-changes';
 import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
 import { DataFreshnessBanner } from '@/components/dashboard/DataFreshnessBanner';
 import { ScrapeStatusCard } from '@/components/dashboard/ScrapeStatusCard';
+import { NormalizationReportCard } from '@/components/dashboard/NormalizationReportCard';
+import { PlanChangesCard } from '@/components/dashboard/PlanChangesCard';
 import { LatestAnalysisCard } from '@/components/dashboard/LatestAnalysisCard';
 import { QuickActionCard } from '@/components/dashboard/QuickActionCard';
-import { BarChart3, Table2 } from 'lucide-react';
+import { BarChart3, Table2, ShieldAlert } from 'lucide-react';
 import { Suspense } from 'react';
+import Link from 'next/link';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -26,7 +34,7 @@ async function getDashboardData() {
   try {
     // Get the latest scrape_id
     const scrapeIdResult = await pool.query(
-      'SELECT scrape_id, MAX(scrape_timestamp) as last_scrape FROM plans WHERE scrape_id IS NOT NULL GROUP BY scrape_id ORDER BY last_scrape DESC LIMIT 1'
+      'SELECT scrape_id, MAX(scrape_timestamp) as last_scrape FROM plan_batches WHERE scrape_id IS NOT NULL GROUP BY scrape_id ORDER BY last_scrape DESC LIMIT 1'
     );
 
     const latestScrapeId = scrapeIdResult.rows[0]?.scrape_id;
@@ -36,13 +44,13 @@ async function getDashboardData() {
     let planCount = 0;
     if (latestScrapeId) {
       const planResult = await pool.query(
-        'SELECT COUNT(*) as count FROM plans WHERE scrape_id = $1',
+        'SELECT COALESCE(SUM(plan_count), 0) as count FROM plan_batches WHERE scrape_id = $1',
         [latestScrapeId]
       );
       planCount = parseInt(planResult.rows[0].count);
     } else {
       // Fallback: if no scrape_id, count all plans
-      const planResult = await pool.query('SELECT COUNT(*) as count FROM plans');
+      const planResult = await pool.query('SELECT COALESCE(SUM(plan_count), 0) as count FROM plan_batches');
       planCount = parseInt(planResult.rows[0].count);
     }
 
@@ -79,19 +87,81 @@ function DashboardSkeleton() {
   );
 }
 
+/**
+ * Per-source outcomes from the scrape run ledger
+ * Falls back to no per-source detail if the ledger cannot be read.
+ */
+async function getSourceStatuses(): Promise<SourceScrapeStatus[]> {
+  try {
+    return await getSourceScrapeStatuses();
+  } catch (error) {
+    console.error('Error fetching source scrape statuses:', error);
+    return [];
+  }
+}
+
+/**
+ * Number of scrape batches awaiting quarantine review (0 if unavailable)
+ */
+async function getPendingQuarantineCount(): Promise<number> {
+  try {
+    return await countPendingQuarantines();
+  } catch (error) {
+    console.error('Error fetching quarantine count:', error);
+    return 0;
+  }
+}
+
+/**
+ * Changes in each source's latest scrape (empty if unavailable)
+ */
+async function getPlanChanges(): Promise<PlanChangeEvent[]> {
+  try {
+    return await getLatestPlanChanges();
+  } catch (error) {
+    console.error('Error fetching plan changes:', error);
+    return [];
+  }
+}
+
 async function DashboardContent() {
   await requireAuth();
-  const { planCount, lastScrapedAt, latestAnalysis } = await getDashboardData();
+  const [{ planCount, lastScrapedAt, latestAnalysis }, sourceStatuses, pendingQuarantines, planChanges] =
+    await Promise.all([
+      getDashboardData(),
+      getSourceStatuses(),
+      getPendingQuarantineCount(),
+      getPlanChanges(),
+    ]);
 
   return (
     <>
       {/* Data Freshness Banner */}
       <DataFreshnessBanner lastScrapedAt={lastScrapedAt} />
 
+      {/* Quarantined scrape batches awaiting review */}
+      {pendingQuarantines > 0 && (
+        <Alert variant="destructive">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertDescription>
+            {pendingQuarantines} scrape {pendingQuarantines === 1 ? 'batch' : 'batches'} failed
+            anomaly checks and {pendingQuarantines === 1 ? 'is' : 'are'} held for review.{' '}
+            <Link href="/dashboard/quarantine" className="underline font-medium">
+              Review quarantine
+            </Link>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Scrape Status Card */}
-        <ScrapeStatusCard planCount={planCount} lastScrapedAt={lastScrapedAt} />
+        <ScrapeStatusCard
+          planCount={planCount}
+          lastScrapedAt={lastScrapedAt}
+          sources={listCollectors()}
+          sourceStatuses={sourceStatuses}
+        />
 
         {/* Latest Analysis Card */}
         <div className="lg:col-span-2">
@@ -99,6 +169,12 @@ async function DashboardContent() {
         </div>
       </div>
 
+      {/* What changed since last scrape */}
+      <PlanChangesCard changes={planChanges} />
+
+      {/* Values the latest scrape could not normalize */}
+      <NormalizationReportCard sourceStatuses={sourceStatuses} />
+
       {/* Quick Actions */}
       <div>
         <h2 className="text-lg font-semibold text-foreground mb-4">Quick Actions</h2>
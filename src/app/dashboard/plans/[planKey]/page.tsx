@@ -0,0 +1,97 @@
+/**
+ * Plan Detail Page
+ *
+ * Price history of one plan across scrapes: a price chart and the log of
+ * what changed between scrapes. Opened from a row of the plan data table.
+ */
+
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { ChevronRight } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
+import { PlanChangeLog } from '@/components/dashboard/PlanChangeLog';
+import { PlanPriceChart } from '@/components/dashboard/PlanPriceChart';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { requireAuth } from '@/lib/auth/session';
+import { getPlanHistory } from '@/lib/dashboard/plan-history';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export default async function PlanDetailPage({
+  params,
+}: {
+  params: Promise<{ planKey: string }>;
+}) {
+  await requireAuth();
+
+  const { planKey } = await params;
+  const history = await getPlanHistory(planKey);
+
+  if (!history) {
+    notFound();
+  }
+
+  const latest = history.points[history.points.length - 1];
+  const first = history.points[0];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeader />
+
+      <main className="container-custom py-8">
+        {/* Breadcrumbs */}
+        <nav className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
+          <Link href="/dashboard" className="hover:text-foreground">
+            Dashboard
+          </Link>
+          <ChevronRight className="w-4 h-4" />
+          <Link href="/dashboard/plans" className="hover:text-foreground">
+            Plan Data
+          </Link>
+          <ChevronRight className="w-4 h-4" />
+          <span className="text-foreground font-medium">{history.plan_key}</span>
+        </nav>
+
+        {/* Page Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-foreground">
+            {history.source}: {latest.name || history.plan_key}
+          </h1>
+          <p className="mt-2 text-muted-foreground">
+            {latest.price} • {latest.data_allowance} • {latest.contract_term}
+            {latest.promo_price && latest.promo_price !== latest.price && ` • Promo ${latest.promo_price}`}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {history.points.length} scrape{history.points.length !== 1 ? 's' : ''} since{' '}
+            {first.scrape_timestamp.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' })}
+            {' '}• last seen {formatDistanceToNow(latest.scrape_timestamp, { addSuffix: true })}
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Price History</CardTitle>
+              <CardDescription>Monthly price at each scrape, VAT included</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PlanPriceChart points={history.points} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Change Log</CardTitle>
+              <CardDescription>Price, data and promo fields that changed between scrapes</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PlanChangeLog changes={history.changes} />
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -3,14 +3,19 @@
  *
  * Displays all scraped plan data in a filterable, sortable table.
  * Server component that fetches latest plans and passes to client components.
+ * ?snapshot=<id> shows the plans frozen in a dataset snapshot instead.
  *
  * Story: 5.4 - Plan Data Table Redesign
  */
 
 import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
 import { PlansContent } from '@/components/dashboard/PlansContent';
+import { SnapshotSelector } from '@/components/dashboard/SnapshotSelector';
 import { requireAuth } from '@/lib/auth/session';
 import { getLatestPlans } from '@/lib/dashboard/plans';
+import { getSnapshot, listSnapshots } from '@/lib/db/snapshots';
+import { getRateTable } from '@/lib/scraping/exchange-rates';
+import { notFound } from 'next/navigation';
 import { Suspense } from 'react';
 import { ChevronRight } from 'lucide-react';
 import Link from 'next/link';
@@ -43,12 +48,26 @@ function LoadingSkeleton() {
   );
 }
 
-export default async function PlansPage() {
+export default async function PlansPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ snapshot?: string }>;
+}) {
   // Ensure user is authenticated
   await requireAuth();
 
-  // Fetch latest plans
-  const plans = await getLatestPlans();
+  const { snapshot: snapshotId } = await searchParams;
+  const snapshot = snapshotId ? await getSnapshot(snapshotId) : null;
+
+  if (snapshotId && !snapshot) {
+    notFound();
+  }
+
+  // Fetch latest plans (within the snapshot, if one is selected)
+  const [plans, snapshots] = await Promise.all([
+    getLatestPlans({ snapshotId: snapshot?.id }),
+    listSnapshots(),
+  ]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -65,15 +84,24 @@ export default async function PlansPage() {
         </nav>
 
         {/* Page Header */}
-        <div className="mb-6">
-          <h1 className="text-3xl font-bold text-foreground">Plan Data</h1>
-          <p className="mt-2 text-muted-foreground">
-            Browse and filter all scraped mobile plan offerings
-          </p>
+        <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Plan Data</h1>
+            <p className="mt-2 text-muted-foreground">
+              {snapshot
+                ? `Plans in snapshot "${snapshot.name}": ${snapshot.composition
+                    .map((batch) => `${batch.source} (${new Date(batch.scrape_timestamp).toLocaleDateString('en-GB')})`)
+                    .join(', ')}`
+                : 'Browse and filter all scraped mobile plan offerings'}
+            </p>
+          </div>
+          {snapshots.length > 0 && (
+            <SnapshotSelector snapshots={snapshots} selectedId={snapshot?.id} />
+          )}
         </div>
 
         <Suspense fallback={<LoadingSkeleton />}>
-          <PlansContent initialPlans={plans} />
+          <PlansContent initialPlans={plans} currency={getRateTable().reportingCurrency} />
         </Suspense>
       </main>
     </div>
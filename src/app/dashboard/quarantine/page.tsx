@@ -0,0 +1,51 @@
+/**
+ * Quarantine Review Page
+ *
+ * Lists scrape batches held back by the anomaly guard so they can be
+ * approved (inserted into plans) or rejected.
+ */
+
+import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
+import { QuarantineList } from '@/components/dashboard/QuarantineList';
+import { requireAuth } from '@/lib/auth/session';
+import { getPendingQuarantines } from '@/lib/db/quarantine';
+import { ChevronRight } from 'lucide-react';
+import Link from 'next/link';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export default async function QuarantinePage() {
+  // Ensure user is authenticated
+  await requireAuth();
+
+  const batches = await getPendingQuarantines();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeader />
+
+      <main className="container-custom py-8">
+        {/* Breadcrumbs */}
+        <nav className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
+          <Link href="/dashboard" className="hover:text-foreground">
+            Dashboard
+          </Link>
+          <ChevronRight className="w-4 h-4" />
+          <span className="text-foreground font-medium">Quarantine</span>
+        </nav>
+
+        {/* Page Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-foreground">Quarantined Scrapes</h1>
+          <p className="mt-2 text-muted-foreground">
+            Batches that failed anomaly checks against the previous scrape. Approve to add them
+            to plan data, or reject to discard.
+          </p>
+        </div>
+
+        <QuarantineList batches={batches} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * Dataset Snapshots Page
+ *
+ * Named, frozen sets of plans built from the latest successful scrape of
+ * each source. Analyses and the plans page can target a snapshot so results
+ * say exactly which scrapes they reflect.
+ */
+
+import Link from 'next/link';
+import { ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
+import { CreateSnapshotForm } from '@/components/dashboard/CreateSnapshotForm';
+import { RunFullAnalysisButton } from '@/components/dashboard/RunFullAnalysisButton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { requireAuth } from '@/lib/auth/session';
+import { DEFAULT_SNAPSHOT_MAX_AGE_DAYS, listSnapshots } from '@/lib/db/snapshots';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export default async function SnapshotsPage() {
+  // Ensure user is authenticated
+  await requireAuth();
+
+  const snapshots = await listSnapshots();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeader />
+
+      <main className="container-custom py-8">
+        {/* Breadcrumbs */}
+        <nav className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
+          <Link href="/dashboard" className="hover:text-foreground">
+            Dashboard
+          </Link>
+          <ChevronRight className="w-4 h-4" />
+          <span className="text-foreground font-medium">Snapshots</span>
+        </nav>
+
+        {/* Page Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-foreground">Dataset Snapshots</h1>
+          <p className="mt-2 text-muted-foreground">
+            A snapshot freezes the latest successful scrape of each source. Sources not scraped
+            within the max age are left out instead of mixing in stale plans.
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>New Snapshot</CardTitle>
+              <CardDescription>Freeze the current plans under a name</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CreateSnapshotForm defaultMaxAgeDays={DEFAULT_SNAPSHOT_MAX_AGE_DAYS} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Snapshots</CardTitle>
+              <CardDescription>Newest first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {snapshots.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">
+                  No snapshots yet. Analyses use the latest plans until one is created.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead>Sources</TableHead>
+                      <TableHead className="text-right">Plans</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {snapshots.map((snapshot) => (
+                      <TableRow key={snapshot.id}>
+                        <TableCell className="font-medium">
+                          <Link
+                            href={`/dashboard/plans?snapshot=${snapshot.id}`}
+                            className="hover:underline"
+                          >
+                            {snapshot.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(snapshot.created_at), 'd MMM yyyy HH:mm')}
+                        </TableCell>
+                        <TableCell>
+                          <ul className="text-sm">
+                            {snapshot.composition.map((batch) => (
+                              <li key={batch.source}>
+                                {batch.source}: {batch.plan_count} plans scraped{' '}
+                                {format(new Date(batch.scrape_timestamp), 'd MMM yyyy HH:mm')}
+                              </li>
+                            ))}
+                          </ul>
+                        </TableCell>
+                        <TableCell className="text-right">{snapshot.plan_count}</TableCell>
+                        <TableCell className="text-right">
+                          <RunFullAnalysisButton snapshotId={snapshot.id} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
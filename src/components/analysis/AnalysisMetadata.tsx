@@ -1,19 +1,23 @@
 /**
  * Analysis Metadata Component
  *
- * Shared component for displaying analysis metadata (timestamp, brands, currency).
+ * Shared component for displaying analysis metadata (timestamp, brands, currency,
+ * and the dataset snapshot the analysis was run on, if any).
  * Used by both AnalysisResults and CustomComparisonResults.
  */
 
+import type { DatasetSnapshot } from '@/lib/db/snapshots';
+
 type Props = {
   timestamp: Date;
   brands?: string[];
   brandA?: string;
   brandB?: string;
   currency: string;
+  snapshot?: Pick<DatasetSnapshot, 'name' | 'composition'> | null;
 };
 
-export function AnalysisMetadata({ timestamp, brands, brandA, brandB, currency }: Props) {
+export function AnalysisMetadata({ timestamp, brands, brandA, brandB, currency, snapshot }: Props) {
   const brandsDisplay = brands
     ? brands.join(', ')
     : brandA && brandB
@@ -42,6 +46,23 @@ export function AnalysisMetadata({ timestamp, brands, brandA, brandB, currency }
           <strong>Currency:</strong> {currency}
         </span>
       </div>
+      {snapshot && (
+        <div className="mt-2">
+          <strong>Snapshot:</strong> {snapshot.name}
+          <ul className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+            {snapshot.composition.map((batch) => (
+              <li key={batch.source}>
+                {batch.source}: {batch.plan_count} plans scraped{' '}
+                {new Date(batch.scrape_timestamp).toLocaleDateString('en-GB', {
+                  day: '2-digit',
+                  month: '2-digit',
+                  year: 'numeric',
+                })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
@@ -13,14 +13,16 @@ import {
 import type { AnalysisData, CustomComparisonAnalysis } from '@/types/analysis';
 import { CompetitiveInsightsSection } from './CompetitiveInsightsSection';
 import { AnalysisMetadata } from './AnalysisMetadata';
+import type { DatasetSnapshot } from '@/lib/db/snapshots';
 
 type Props = {
   data: AnalysisData | CustomComparisonAnalysis;
   timestamp: Date;
   brands: string[];
+  snapshot?: Pick<DatasetSnapshot, 'name' | 'composition'> | null;
 };
 
-export function AnalysisResults({ data, timestamp, brands }: Props) {
+export function AnalysisResults({ data, timestamp, brands, snapshot }: Props) {
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
     new Set(['sentiments'])
   );
@@ -44,6 +46,7 @@ export function AnalysisResults({ data, timestamp, brands }: Props) {
         timestamp={timestamp}
         brands={brands}
         currency={data.currency}
+        snapshot={snapshot}
       />
 
       {/* Competitive Sentiments */}
@@ -9,15 +9,17 @@ import { Package, AlertCircle } from 'lucide-react';
 import type { CustomComparisonAnalysis } from '@/types/analysis';
 import { CompetitiveInsightsSection } from './CompetitiveInsightsSection';
 import { AnalysisMetadata } from './AnalysisMetadata';
+import type { DatasetSnapshot } from '@/lib/db/snapshots';
 
 type Props = {
   data: CustomComparisonAnalysis;
   timestamp: Date;
   brandA: string;
   brandB: string;
+  snapshot?: Pick<DatasetSnapshot, 'name' | 'composition'> | null;
 };
 
-export function CustomComparisonResults({ data, timestamp, brandA, brandB }: Props) {
+export function CustomComparisonResults({ data, timestamp, brandA, brandB, snapshot }: Props) {
   return (
     <div className="space-y-6">
       {/* Metadata */}
@@ -26,6 +28,7 @@ export function CustomComparisonResults({ data, timestamp, brandA, brandB }: Pro
         brandA={brandA}
         brandB={brandB}
         currency={data.currency || 'GBP'}
+        snapshot={snapshot}
       />
 
       {/* Competitive Sentiments */}
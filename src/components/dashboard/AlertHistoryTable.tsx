@@ -0,0 +1,96 @@
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { AlertEvent } from '@/lib/db/alerts';
+import type { AlertRuleType } from '@/lib/alerts/rules';
+
+interface AlertHistoryTableProps {
+  alerts: AlertEvent[];
+}
+
+const RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  price_below: 'Price below',
+  undercut: 'Undercut',
+  plan_withdrawn: 'Withdrawn',
+};
+
+/**
+ * Alerts fired after scrape runs, newest first, with per-channel delivery status
+ */
+export function AlertHistoryTable({ alerts }: AlertHistoryTableProps) {
+  if (alerts.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-8 text-center">
+        No alerts have fired yet. Alerts are evaluated after every scrape run.
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Fired</TableHead>
+          <TableHead>Rule</TableHead>
+          <TableHead>Alert</TableHead>
+          <TableHead>Delivered to</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {alerts.map((alert) => (
+          <TableRow key={alert.id}>
+            <TableCell className="whitespace-nowrap">
+              {format(new Date(alert.created_at), 'd MMM yyyy HH:mm')}
+            </TableCell>
+            <TableCell>
+              <div className="flex flex-col gap-1">
+                <span className="font-mono text-xs">{alert.rule_id}</span>
+                <Badge variant="outline" className="w-fit">
+                  {RULE_TYPE_LABELS[alert.rule_type] ?? alert.rule_type}
+                </Badge>
+              </div>
+            </TableCell>
+            <TableCell>
+              {alert.plan_key ? (
+                <Link
+                  href={`/dashboard/plans/${encodeURIComponent(alert.plan_key)}`}
+                  className="hover:underline"
+                >
+                  {alert.message}
+                </Link>
+              ) : (
+                alert.message
+              )}
+            </TableCell>
+            <TableCell>
+              {alert.deliveries.length === 0 ? (
+                <span className="text-muted-foreground">No channels</span>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {alert.deliveries.map((delivery) => (
+                    <Badge
+                      key={delivery.channel}
+                      variant={delivery.status === 'sent' ? 'secondary' : 'destructive'}
+                      title={delivery.error}
+                    >
+                      {delivery.channel}
+                      {delivery.status === 'failed' && ' (failed)'}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
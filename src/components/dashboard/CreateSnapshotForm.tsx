@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { Camera, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+
+type Props = {
+  /** Initial maximum batch age in days */
+  defaultMaxAgeDays: number;
+};
+
+/**
+ * Create Dataset Snapshot Form
+ *
+ * Freezes the latest successful scrape of each source under a name
+ * (POST /api/snapshots) and refreshes the snapshot list.
+ */
+export function CreateSnapshotForm({ defaultMaxAgeDays }: Props) {
+  const [name, setName] = useState('');
+  const [maxAgeDays, setMaxAgeDays] = useState(String(defaultMaxAgeDays));
+  const [isCreating, setIsCreating] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsCreating(true);
+
+    try {
+      const response = await fetch('/api/snapshots', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, maxAgeDays: Number(maxAgeDays) }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to create snapshot');
+      }
+
+      toast({
+        title: 'Snapshot Created',
+        description: `"${data.snapshot.name}" holds ${data.snapshot.plan_count} plans from ${data.snapshot.composition.length} sources.`,
+      });
+      setName('');
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: 'Snapshot Failed',
+        description: error instanceof Error ? error.message : 'Failed to create snapshot',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-4">
+      <div className="flex-1 min-w-[16rem]">
+        <label htmlFor="snapshot-name" className="block text-sm font-medium mb-2">
+          Name
+        </label>
+        <input
+          type="text"
+          id="snapshot-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. October pricing review"
+          required
+          className="w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background"
+        />
+      </div>
+      <div className="w-40">
+        <label htmlFor="snapshot-max-age" className="block text-sm font-medium mb-2">
+          Max age (days)
+        </label>
+        <input
+          type="number"
+          id="snapshot-max-age"
+          min={1}
+          value={maxAgeDays}
+          onChange={(e) => setMaxAgeDays(e.target.value)}
+          required
+          className="w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background"
+        />
+      </div>
+      <Button type="submit" disabled={isCreating || !name.trim()}>
+        {isCreating ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Camera className="h-4 w-4 mr-2" />
+        )}
+        Create Snapshot
+      </Button>
+    </form>
+  );
+}
@@ -23,6 +23,7 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import Link from 'next/link';
 import type { CustomComparisonAnalysis } from '@/types/analysis';
+import type { DatasetSnapshot } from '@/lib/db/snapshots';
 import { formatDistanceToNow } from 'date-fns';
 
 interface Analysis {
@@ -30,6 +31,7 @@ interface Analysis {
   comparisonType: 'full' | 'custom';
   brands: string[];
   createdAt: string;
+  snapshot?: DatasetSnapshot | null;
   analysisResult: {
     overall_competitive_sentiments?: Array<{
       score: number;
@@ -42,18 +44,23 @@ interface Analysis {
 
 type Props = {
   brands: string[];
+  snapshots?: DatasetSnapshot[];
 };
 
+/** Select value for analyzing the latest plans instead of a snapshot */
+const LATEST_PLANS = 'latest';
+
 type ComparisonState =
   | { status: 'idle' }
   | { status: 'loading'; jobId?: string }
-  | { status: 'success'; data: CustomComparisonAnalysis; brands: string[]; cached: boolean; timestamp: Date; analysisId?: string }
+  | { status: 'success'; data: CustomComparisonAnalysis; brands: string[]; cached: boolean; timestamp: Date; analysisId?: string; snapshot?: DatasetSnapshot | null }
   | { status: 'error'; message: string };
 
-export function CustomComparison({ brands }: Props) {
+export function CustomComparison({ brands, snapshots = [] }: Props) {
   const { toast } = useToast();
   const [brandA, setBrandA] = useState('');
   const [brandB, setBrandB] = useState('');
+  const [snapshotId, setSnapshotId] = useState(LATEST_PLANS);
   const [state, setState] = useState<ComparisonState>({ status: 'idle' });
   const [analyses, setAnalyses] = useState<Analysis[]>([]);
   const [showAllAnalyses, setShowAllAnalyses] = useState(false);
@@ -96,6 +103,7 @@ export function CustomComparison({ brands }: Props) {
         cached: true, // Historical analyses are always cached
         timestamp: new Date(analysis.createdAt),
         analysisId: id, // Track the analysis ID for "View Full Details" link
+        snapshot: analysis.snapshot,
       });
 
       // Update the brand selectors to match the loaded analysis
@@ -119,10 +127,12 @@ export function CustomComparison({ brands }: Props) {
     setState({ status: 'loading' });
 
     try {
+      const selectedSnapshot = snapshots.find((snapshot) => snapshot.id === snapshotId);
+
       const response = await fetch('/api/analysis/custom', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ brandA, brandB }),
+        body: JSON.stringify({ brandA, brandB, ...(selectedSnapshot && { snapshotId: selectedSnapshot.id }) }),
       });
 
       if (!response.ok) {
@@ -146,7 +156,7 @@ export function CustomComparison({ brands }: Props) {
             body: JSON.stringify({
               eventId: result.jobId,
               eventName: 'analysis/custom',
-              metadata: { brandA, brandB },
+              metadata: { brandA, brandB, ...(selectedSnapshot && { snapshotId: selectedSnapshot.id }) },
             }),
           });
         } catch (saveError) {
@@ -161,7 +171,9 @@ export function CustomComparison({ brands }: Props) {
         // Show toast notification
         toast({
           title: 'Comparison job started!',
-          description: `Comparing ${brandA} vs ${brandB}. This will take 4-5 minutes. Analyzes the most recent plans from the last 180 days.`,
+          description: selectedSnapshot
+            ? `Comparing ${brandA} vs ${brandB}. This will take 4-5 minutes. Analyzes snapshot "${selectedSnapshot.name}".`
+            : `Comparing ${brandA} vs ${brandB}. This will take 4-5 minutes. Analyzes the most recent plans from the last 180 days.`,
         });
 
         return;
@@ -242,6 +254,28 @@ export function CustomComparison({ brands }: Props) {
             </Select>
           </div>
 
+          {/* Dataset Snapshot */}
+          {snapshots.length > 0 && (
+            <div className="mb-6">
+              <label htmlFor="snapshot" className="block text-sm font-medium text-gray-700 mb-2">
+                Dataset
+              </label>
+              <Select value={snapshotId} onValueChange={setSnapshotId} disabled={state.status === 'loading'}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={LATEST_PLANS}>Latest plans (last 180 days)</SelectItem>
+                  {snapshots.map((snapshot) => (
+                    <SelectItem key={snapshot.id} value={snapshot.id}>
+                      Snapshot: {snapshot.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Validation Error */}
           {brandA && brandB && brandA === brandB && (
             <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md flex items-start gap-2">
@@ -426,6 +460,7 @@ export function CustomComparison({ brands }: Props) {
                 timestamp={state.timestamp}
                 brandA={state.brands[0] || 'Brand A'}
                 brandB={state.brands[1] || 'Brand B'}
+                snapshot={state.snapshot}
               />
             </div>
           </div>
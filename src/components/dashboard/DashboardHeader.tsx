@@ -35,6 +35,8 @@ export function DashboardHeader() {
     { label: 'Dashboard', href: '/dashboard' },
     { label: 'Compare', href: '/dashboard/comparison' },
     { label: 'Plans', href: '/dashboard/plans' },
+    { label: 'Snapshots', href: '/dashboard/snapshots' },
+    { label: 'Alerts', href: '/dashboard/alerts' },
     { label: 'Jobs', href: '/monitor' },
   ];
 
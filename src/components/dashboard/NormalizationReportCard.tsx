@@ -0,0 +1,82 @@
+import { FileWarning } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { SourceScrapeStatus } from '@/lib/dashboard/scrape-status';
+import type { NormalizedField } from '@/lib/scraping/normalization-report';
+
+interface NormalizationReportCardProps {
+  sourceStatuses: SourceScrapeStatus[];
+}
+
+const FIELD_LABELS: Record<NormalizedField, string> = {
+  data_allowance: 'Data',
+  price: 'Price',
+  contract_term: 'Contract',
+};
+
+/**
+ * Raw values the latest run of each source could not normalize
+ * Renders nothing when every value was parsed.
+ */
+export function NormalizationReportCard({ sourceStatuses }: NormalizationReportCardProps) {
+  const sources = sourceStatuses.filter(
+    (status) => (status.lastNormalizationReport?.unparsed.length ?? 0) > 0
+  );
+
+  if (sources.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <FileWarning className="h-5 w-5 text-warning" />
+          <CardTitle>Unparsed Values</CardTitle>
+        </div>
+        <CardDescription>
+          Values from the latest scrape that did not match a known format. They are stored
+          as scraped and may skew analyses until the normalization profile is updated.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Source</TableHead>
+              <TableHead>Field</TableHead>
+              <TableHead>Value</TableHead>
+              <TableHead className="text-right">Plans</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sources.flatMap((status) => {
+              const report = status.lastNormalizationReport!;
+
+              return report.unparsed.map((entry) => (
+                <TableRow key={`${status.collectorId}-${entry.field}-${entry.value}`}>
+                  <TableCell className="font-medium">{status.source}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{FIELD_LABELS[entry.field]}</Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {entry.value ?? <span className="text-muted-foreground">(missing)</span>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {entry.count} of {report.plansNormalized}
+                  </TableCell>
+                </TableRow>
+              ));
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
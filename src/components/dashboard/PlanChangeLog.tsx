@@ -0,0 +1,71 @@
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { PlanHistoryChange, TrackedHistoryField } from '@/lib/dashboard/plan-history';
+
+interface PlanChangeLogProps {
+  changes: PlanHistoryChange[];
+}
+
+const FIELD_LABELS: Record<TrackedHistoryField, string> = {
+  price: 'Price',
+  data_allowance: 'Data',
+  contract_term: 'Contract',
+  was_price: 'Was price',
+  promo_price: 'Promo price',
+  promo_months: 'Promo months',
+  promo_end_date: 'Promo ends',
+  offer_text: 'Offer',
+  effective_monthly_price: 'Effective monthly',
+};
+
+function renderValue(value: string | number | null) {
+  return value === null ? <span className="text-muted-foreground">(none)</span> : String(value);
+}
+
+/**
+ * Fields that changed between consecutive scrapes of a plan, newest first
+ */
+export function PlanChangeLog({ changes }: PlanChangeLogProps) {
+  if (changes.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No changes recorded: every scrape of this plan has the same price, data and promo fields.
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Scraped</TableHead>
+          <TableHead>Field</TableHead>
+          <TableHead>From</TableHead>
+          <TableHead>To</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.map((change) => (
+          <TableRow key={`${change.scrape_timestamp.valueOf()}-${change.field}`}>
+            <TableCell className="whitespace-nowrap">
+              {format(change.scrape_timestamp, 'd MMM yyyy HH:mm')}
+            </TableCell>
+            <TableCell>
+              <Badge variant="outline">{FIELD_LABELS[change.field]}</Badge>
+            </TableCell>
+            <TableCell>{renderValue(change.from)}</TableCell>
+            <TableCell className="font-medium">{renderValue(change.to)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
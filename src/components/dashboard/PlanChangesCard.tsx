@@ -0,0 +1,103 @@
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { GitCompareArrows } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { PlanChangeEvent } from '@/lib/db/plan-changes';
+import type { PlanChangeType } from '@/lib/scraping/change-detection';
+
+interface PlanChangesCardProps {
+  changes: PlanChangeEvent[];
+}
+
+const CHANGE_LABELS: Record<PlanChangeType, string> = {
+  added: 'New plan',
+  withdrawn: 'Withdrawn',
+  price_increase: 'Price up',
+  price_decrease: 'Price down',
+  data_change: 'Data changed',
+};
+
+const CHANGE_VARIANTS: Record<PlanChangeType, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  added: 'default',
+  withdrawn: 'secondary',
+  price_increase: 'destructive',
+  price_decrease: 'default',
+  data_change: 'outline',
+};
+
+function describeChange(change: PlanChangeEvent): string | null {
+  if (change.old_value === null && change.new_value === null) return null;
+  return `${change.old_value ?? '(none)'} → ${change.new_value ?? '(none)'}`;
+}
+
+/**
+ * What changed between each source's latest scrape and the one before it
+ */
+export function PlanChangesCard({ changes }: PlanChangesCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <GitCompareArrows className="h-5 w-5 text-primary" />
+          <CardTitle>What Changed Since Last Scrape</CardTitle>
+        </div>
+        <CardDescription>
+          New and withdrawn plans, price moves and data allowance changes in each source&apos;s
+          latest scrape compared with its previous one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No changes: the latest scrape of every source matches the one before it.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Source</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Plan</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead>Scraped</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changes.map((change) => (
+                <TableRow key={change.id}>
+                  <TableCell className="font-medium">{change.source}</TableCell>
+                  <TableCell>
+                    <Badge variant={CHANGE_VARIANTS[change.change_type]}>
+                      {CHANGE_LABELS[change.change_type]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Link
+                      href={`/dashboard/plans/${encodeURIComponent(change.plan_key)}`}
+                      className="hover:underline"
+                    >
+                      {change.plan_name ?? change.plan_key}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{describeChange(change)}</TableCell>
+                  <TableCell className="whitespace-nowrap text-muted-foreground">
+                    {format(new Date(change.batch_timestamp), 'd MMM HH:mm')}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,7 @@
  *
  * Sortable data table for displaying plan information using shadcn/ui Table.
  * Features sticky header, sortable columns, and responsive design.
+ * Clicking a row opens the plan's price history (/dashboard/plans/[planKey]).
  *
  * Story: 5.4 - Plan Data Table Redesign
  */
@@ -17,22 +18,39 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import { useRouter } from 'next/navigation';
 import { ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
 import type { Plan } from '@/types/database';
+import { formatMoney, type CurrencyCode } from '@/lib/scraping/currency';
+import type { VatBasis } from '@/lib/dashboard/plans';
 
 type Props = {
   plans: Plan[];
+  /** Reporting currency of the typed price columns */
+  currency: CurrencyCode;
+  vatBasis: VatBasis;
   sortColumn: string;
   sortDirection: 'asc' | 'desc';
   onSort: (column: string) => void;
 };
 
-const SORTABLE_COLUMNS = ['source', 'data', 'price', 'contract'];
+const SORTABLE_COLUMNS = ['source', 'data', 'price', 'contract', 'total'];
 
-export function PlanDataTable({ plans, sortColumn, sortDirection, onSort }: Props) {
-  // Extract data from plan_data JSONB
+export function PlanDataTable({ plans, currency, vatBasis, sortColumn, sortDirection, onSort }: Props) {
+  const router = useRouter();
+
+  const openPlanHistory = (plan: Plan) => {
+    if (plan.plan_key) {
+      router.push(`/dashboard/plans/${encodeURIComponent(plan.plan_key)}`);
+    }
+  };
+
+  // Monthly price on the selected VAT basis, from the typed columns when set
   const getPlanPrice = (plan: Plan): number => {
-    const price = plan.plan_data.price;
+    const pence = vatBasis === 'ex' ? plan.price_ex_vat_pence : plan.price_pence;
+    if (pence != null) return pence / 100;
+
+    const price = vatBasis === 'ex' ? plan.plan_data.price_ex_vat : plan.plan_data.price;
     if (typeof price === 'number') return price;
     if (typeof price === 'string') {
       const match = price.match(/[\d.]+/);
@@ -57,6 +75,20 @@ export function PlanDataTable({ plans, sortColumn, sortDirection, onSort }: Prop
     return [];
   };
 
+  // Price as the source listed it, when converted from another currency ("€12.00 ex VAT")
+  const getListedPrice = (plan: Plan): string | null => {
+    const { listed_price, listed_currency, vat_included } = plan.plan_data;
+    if (!listed_price || !listed_currency || listed_currency === currency) return null;
+    return vat_included === false ? `${listed_price} ex VAT` : listed_price;
+  };
+
+  // Temporary discount ("£14.00 for 6 months") - a was price alone is a list-price cut
+  const getPromoLabel = (plan: Plan): string | null => {
+    const { promo_price, promo_months } = plan.plan_data;
+    if (!promo_price || !promo_months) return null;
+    return `${promo_price} for ${promo_months} ${promo_months === 1 ? 'month' : 'months'}`;
+  };
+
   const renderSortIcon = (column: string) => {
     if (!SORTABLE_COLUMNS.includes(column)) return null;
 
@@ -146,6 +178,15 @@ export function PlanDataTable({ plans, sortColumn, sortDirection, onSort }: Prop
                 Contract
                 {renderSortIcon('contract')}
               </TableHead>
+              <TableHead
+                className={`cursor-pointer hover:bg-gray-100 ${
+                  SORTABLE_COLUMNS.includes('total') ? 'select-none' : ''
+                }`}
+                onClick={() => handleHeaderClick('total')}
+              >
+                Total Cost
+                {renderSortIcon('total')}
+              </TableHead>
               <TableHead className="w-[200px]">Features</TableHead>
               <TableHead className="hidden md:table-cell">Source</TableHead>
             </TableRow>
@@ -154,13 +195,44 @@ export function PlanDataTable({ plans, sortColumn, sortDirection, onSort }: Prop
             {plans.map((plan, index) => (
               <TableRow
                 key={plan.id}
-                className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}
+                className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} ${
+                  plan.plan_key ? 'cursor-pointer hover:bg-blue-50' : ''
+                }`}
+                onClick={() => openPlanHistory(plan)}
               >
-                <TableCell className="font-medium">{plan.source}</TableCell>
+                <TableCell className="font-medium">
+                  {plan.plan_data.network || plan.source}
+                </TableCell>
                 <TableCell>{plan.plan_data.name || '-'}</TableCell>
                 <TableCell>{getPlanData(plan)}</TableCell>
-                <TableCell>£{getPlanPrice(plan).toFixed(2)}</TableCell>
+                <TableCell>
+                  {formatMoney(getPlanPrice(plan), currency)}
+                  {plan.plan_data.was_price && (
+                    <span className="ml-1 text-xs text-gray-500 line-through">
+                      {plan.plan_data.was_price}
+                    </span>
+                  )}
+                  {getListedPrice(plan) && (
+                    <div className="text-xs text-gray-500">Listed {getListedPrice(plan)}</div>
+                  )}
+                  {getPromoLabel(plan) && (
+                    <div
+                      className="text-xs text-green-700"
+                      title={plan.plan_data.offer_text ?? undefined}
+                    >
+                      {getPromoLabel(plan)}
+                    </div>
+                  )}
+                </TableCell>
                 <TableCell>{getPlanContract(plan)}</TableCell>
+                <TableCell>
+                  {plan.plan_data.total_contract_cost || '-'}
+                  {plan.plan_data.effective_monthly_price && (
+                    <div className="text-xs text-gray-500">
+                      {plan.plan_data.effective_monthly_price}/month
+                    </div>
+                  )}
+                </TableCell>
                 <TableCell className="w-[200px]">
                   <div className="flex flex-wrap gap-1">
                     {getPlanExtras(plan)
@@ -182,6 +254,9 @@ export function PlanDataTable({ plans, sortColumn, sortDirection, onSort }: Prop
                 </TableCell>
                 <TableCell className="hidden md:table-cell text-gray-600 text-sm">
                   {plan.source}
+                  {plan.plan_data.channel === 'aggregator' && plan.plan_data.retailer && (
+                    <div className="text-xs text-gray-500">via {plan.plan_data.retailer}</div>
+                  )}
                 </TableCell>
               </TableRow>
             ))}
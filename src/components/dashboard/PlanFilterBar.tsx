@@ -1,7 +1,7 @@
 /**
  * Plan Filter Bar Component
  *
- * Filter controls for plan data table with brand, data allowance, and price range filters.
+ * Filter controls for plan data table with brand, channel, data allowance, price range, VAT basis and perk filters.
  * Includes clear filters and CSV export functionality.
  *
  * Story: 5.4 - Plan Data Table Redesign
@@ -12,21 +12,38 @@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Download, X } from 'lucide-react';
+import { PERK_CATEGORY_LABELS } from '@/lib/scraping/extras';
+import { CURRENCY_SYMBOLS, type CurrencyCode } from '@/lib/scraping/currency';
+import type { VatBasis } from '@/lib/dashboard/plans';
 
 type Props = {
   brands: string[];
+  /** Reporting currency (price range labels) */
+  currency: CurrencyCode;
   brandFilter: string;
+  channelFilter: string;
   dataFilter: string;
   priceFilter: string;
+  perkFilter: string;
+  vatBasis: VatBasis;
   onBrandChange: (value: string) => void;
+  onChannelChange: (value: string) => void;
   onDataChange: (value: string) => void;
   onPriceChange: (value: string) => void;
+  onPerkChange: (value: string) => void;
+  onVatBasisChange: (value: VatBasis) => void;
   onClearFilters: () => void;
   onExportCSV: () => void;
   filteredCount: number;
   totalCount: number;
 };
 
+const CHANNELS = [
+  { value: 'all', label: 'All Channels' },
+  { value: 'direct', label: 'Direct' },
+  { value: 'aggregator', label: 'Aggregator (Uswitch)' },
+];
+
 const DATA_RANGES = [
   { value: 'all', label: 'All Data Allowances' },
   { value: '0-5', label: '0-5GB' },
@@ -36,33 +53,55 @@ const DATA_RANGES = [
   { value: 'unlimited', label: 'Unlimited' },
 ];
 
+const PERKS = [
+  { value: 'all', label: 'All Perks' },
+  ...Object.entries(PERK_CATEGORY_LABELS).map(([value, label]) => ({ value, label })),
+];
+
 const PRICE_RANGES = [
-  { value: 'all', label: 'All Prices' },
-  { value: '0-10', label: '£0-10' },
-  { value: '10-20', label: '£10-20' },
-  { value: '20-30', label: '£20-30' },
-  { value: '30+', label: '£30+' },
+  { value: '0-10', label: '0-10' },
+  { value: '10-20', label: '10-20' },
+  { value: '20-30', label: '20-30' },
+  { value: '30+', label: '30+' },
+];
+
+const VAT_BASES: Array<{ value: VatBasis; label: string }> = [
+  { value: 'inc', label: 'Inc VAT' },
+  { value: 'ex', label: 'Ex VAT' },
 ];
 
 export function PlanFilterBar({
   brands,
+  currency,
   brandFilter,
+  channelFilter,
   dataFilter,
   priceFilter,
+  perkFilter,
+  vatBasis,
   onBrandChange,
+  onChannelChange,
   onDataChange,
   onPriceChange,
+  onPerkChange,
+  onVatBasisChange,
   onClearFilters,
   onExportCSV,
   filteredCount,
   totalCount,
 }: Props) {
-  const hasActiveFilters = brandFilter !== 'all' || dataFilter !== 'all' || priceFilter !== 'all';
+  const hasActiveFilters =
+    brandFilter !== 'all' ||
+    channelFilter !== 'all' ||
+    dataFilter !== 'all' ||
+    priceFilter !== 'all' ||
+    perkFilter !== 'all' ||
+    vatBasis !== 'inc';
 
   return (
     <div className="bg-card rounded-lg shadow p-6 space-y-4">
       {/* Filters Row */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-7 gap-4">
         {/* Brand Filter */}
         <div>
           <label htmlFor="brand-filter" className="block text-sm font-medium text-foreground mb-2">
@@ -83,6 +122,25 @@ export function PlanFilterBar({
           </Select>
         </div>
 
+        {/* Channel Filter */}
+        <div>
+          <label htmlFor="channel-filter" className="block text-sm font-medium text-foreground mb-2">
+            Channel
+          </label>
+          <Select value={channelFilter} onValueChange={onChannelChange}>
+            <SelectTrigger id="channel-filter" className="w-full">
+              <SelectValue placeholder="All Channels" />
+            </SelectTrigger>
+            <SelectContent>
+              {CHANNELS.map((channel) => (
+                <SelectItem key={channel.value} value={channel.value}>
+                  {channel.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Data Allowance Filter */}
         <div>
           <label htmlFor="data-filter" className="block text-sm font-medium text-foreground mb-2">
@@ -112,8 +170,10 @@ export function PlanFilterBar({
               <SelectValue placeholder="All Prices" />
             </SelectTrigger>
             <SelectContent>
+              <SelectItem value="all">All Prices</SelectItem>
               {PRICE_RANGES.map((range) => (
                 <SelectItem key={range.value} value={range.value}>
+                  {CURRENCY_SYMBOLS[currency]}
                   {range.label}
                 </SelectItem>
               ))}
@@ -121,6 +181,44 @@ export function PlanFilterBar({
           </Select>
         </div>
 
+        {/* VAT Basis (price filter, sorting and the price column) */}
+        <div>
+          <label htmlFor="vat-basis" className="block text-sm font-medium text-foreground mb-2">
+            VAT
+          </label>
+          <Select value={vatBasis} onValueChange={(value) => onVatBasisChange(value as VatBasis)}>
+            <SelectTrigger id="vat-basis" className="w-full">
+              <SelectValue placeholder="Inc VAT" />
+            </SelectTrigger>
+            <SelectContent>
+              {VAT_BASES.map((basis) => (
+                <SelectItem key={basis.value} value={basis.value}>
+                  {basis.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Perk Filter */}
+        <div>
+          <label htmlFor="perk-filter" className="block text-sm font-medium text-foreground mb-2">
+            Perk
+          </label>
+          <Select value={perkFilter} onValueChange={onPerkChange}>
+            <SelectTrigger id="perk-filter" className="w-full">
+              <SelectValue placeholder="All Perks" />
+            </SelectTrigger>
+            <SelectContent>
+              {PERKS.map((perk) => (
+                <SelectItem key={perk.value} value={perk.value}>
+                  {perk.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Actions */}
         <div className="flex items-end gap-2">
           <Button
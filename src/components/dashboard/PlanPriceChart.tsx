@@ -0,0 +1,152 @@
+/**
+ * Plan Price Chart Component
+ *
+ * Step chart of a plan's monthly price (and promo price, when one was
+ * advertised) across scrapes. Plain SVG: each price holds until the next
+ * scrape.
+ */
+
+import { format } from 'date-fns';
+import { formatMoney, isCurrencyCode, parseMoney, type CurrencyCode } from '@/lib/scraping/currency';
+import type { PlanHistoryPoint } from '@/lib/dashboard/plan-history';
+
+type Props = {
+  points: PlanHistoryPoint[];
+};
+
+const WIDTH = 720;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 64 };
+
+/**
+ * Promo price in pence of the same currency as price_pence ("£5.00" -> 500)
+ */
+function promoPence(point: PlanHistoryPoint): number | null {
+  const amount = point.promo_price !== point.price ? parseMoney(point.promo_price) : null;
+  return amount !== null ? Math.round(amount * 100) : null;
+}
+
+/**
+ * SVG path through the points, holding each value until the next x
+ */
+function stepPath(coords: Array<{ x: number; y: number } | null>): string {
+  let path = '';
+  let previous: { x: number; y: number } | null = null;
+
+  for (const coord of coords) {
+    if (!coord) {
+      previous = null;
+      continue;
+    }
+    path += previous ? ` H ${coord.x} V ${coord.y}` : ` M ${coord.x} ${coord.y}`;
+    previous = coord;
+  }
+
+  return path.trim();
+}
+
+export function PlanPriceChart({ points }: Props) {
+  const priced = points.filter((point) => point.price_pence !== null);
+
+  if (priced.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-8 text-center">
+        No scrape of this plan has a known price.
+      </p>
+    );
+  }
+
+  const currency: CurrencyCode = isCurrencyCode(priced[0].currency) ? priced[0].currency : 'GBP';
+  const promos = points.map(promoPence);
+  const values = [...priced.map((point) => point.price_pence!), ...promos.filter((v): v is number => v !== null)];
+
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+  // Pad flat series so the line sits mid-chart
+  const low = minValue === maxValue ? Math.max(minValue - 100, 0) : minValue;
+  const high = minValue === maxValue ? maxValue + 100 : maxValue;
+
+  const start = points[0].scrape_timestamp.valueOf();
+  const end = points[points.length - 1].scrape_timestamp.valueOf();
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (timestamp: Date) =>
+    PADDING.left + (end === start ? plotWidth / 2 : ((timestamp.valueOf() - start) / (end - start)) * plotWidth);
+  const y = (pence: number) => PADDING.top + (1 - (pence - low) / (high - low)) * plotHeight;
+
+  const priceCoords = points.map((point) =>
+    point.price_pence !== null ? { x: x(point.scrape_timestamp), y: y(point.price_pence) } : null
+  );
+  const promoCoords = points.map((point, index) =>
+    promos[index] !== null ? { x: x(point.scrape_timestamp), y: y(promos[index]!) } : null
+  );
+
+  const ticks = [maxValue, minValue === maxValue ? null : minValue].filter((v): v is number => v !== null);
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Monthly price over time"
+      >
+        {/* Axes */}
+        <line
+          x1={PADDING.left}
+          y1={HEIGHT - PADDING.bottom}
+          x2={WIDTH - PADDING.right}
+          y2={HEIGHT - PADDING.bottom}
+          className="stroke-gray-300"
+        />
+        {ticks.map((value) => (
+          <g key={value}>
+            <line
+              x1={PADDING.left}
+              y1={y(value)}
+              x2={WIDTH - PADDING.right}
+              y2={y(value)}
+              className="stroke-gray-200"
+              strokeDasharray="4 4"
+            />
+            <text x={PADDING.left - 8} y={y(value) + 4} textAnchor="end" className="fill-gray-500 text-xs">
+              {formatMoney(value / 100, currency)}
+            </text>
+          </g>
+        ))}
+        <text x={PADDING.left} y={HEIGHT - 8} className="fill-gray-500 text-xs">
+          {format(points[0].scrape_timestamp, 'd MMM yyyy')}
+        </text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-gray-500 text-xs">
+          {format(points[points.length - 1].scrape_timestamp, 'd MMM yyyy')}
+        </text>
+
+        {/* Series */}
+        <path d={stepPath(promoCoords)} fill="none" className="stroke-green-600" strokeWidth={2} strokeDasharray="6 4" />
+        <path d={stepPath(priceCoords)} fill="none" className="stroke-blue-600" strokeWidth={2} />
+        {points.map((point, index) =>
+          priceCoords[index] ? (
+            <circle key={point.id} cx={priceCoords[index]!.x} cy={priceCoords[index]!.y} r={3} className="fill-blue-600">
+              <title>
+                {`${format(point.scrape_timestamp, 'd MMM yyyy HH:mm')}: ${point.price}`}
+                {point.promo_price && point.promo_price !== point.price ? ` (promo ${point.promo_price})` : ''}
+              </title>
+            </circle>
+          ) : null
+        )}
+      </svg>
+
+      <div className="flex gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-4 h-0.5 bg-blue-600" /> Monthly price
+        </span>
+        {promos.some((value) => value !== null) && (
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-4 h-0.5 bg-green-600" /> Promo price
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
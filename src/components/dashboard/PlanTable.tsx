@@ -63,15 +63,9 @@ export function PlanTable({ plans }: Props) {
     setCurrentPage(1); // Reset to first page when filtering
   };
 
-  // Get normalized price from plan_data
+  // Get monthly price in pounds from the typed price_pence column
   const getPlanPrice = (plan: Plan): number => {
-    const price = plan.plan_data.price;
-    if (typeof price === 'number') return price;
-    if (typeof price === 'string') {
-      const match = price.match(/[\d.]+/);
-      return match ? parseFloat(match[0]) : 0;
-    }
-    return 0;
+    return plan.price_pence != null ? plan.price_pence / 100 : 0;
   };
 
   // Get data allowance from plan_data
@@ -133,12 +127,12 @@ export function PlanTable({ plans }: Props) {
             bVal = getPlanPrice(b);
             break;
           case 'data':
-            aVal = getPlanData(a);
-            bVal = getPlanData(b);
+            aVal = a.data_mb ?? -1;
+            bVal = b.data_mb ?? -1;
             break;
           case 'contract':
-            aVal = getPlanContract(a);
-            bVal = getPlanContract(b);
+            aVal = a.contract_months ?? -1;
+            bVal = b.contract_months ?? -1;
             break;
           default:
             return 0;
@@ -13,35 +13,49 @@ import { useState, useMemo } from 'react';
 import { PlanFilterBar } from './PlanFilterBar';
 import { PlanDataTable } from './PlanDataTable';
 import type { Plan } from '@/types/database';
+import { UNLIMITED_DATA_MB } from '@/lib/scraping/numeric-fields';
+import type { CurrencyCode } from '@/lib/scraping/currency';
+import type { VatBasis } from '@/lib/dashboard/plans';
 import { useToast } from '@/hooks/use-toast';
 
 type Props = {
   initialPlans: Plan[];
+  /** Reporting currency of the typed price columns (see src/lib/scraping/exchange-rates.ts) */
+  currency: CurrencyCode;
 };
 
-export function PlansContent({ initialPlans }: Props) {
+export function PlansContent({ initialPlans, currency }: Props) {
   const { toast } = useToast();
   const [brandFilter, setBrandFilter] = useState('all');
+  const [channelFilter, setChannelFilter] = useState('all');
   const [dataFilter, setDataFilter] = useState('all');
   const [priceFilter, setPriceFilter] = useState('all');
+  const [perkFilter, setPerkFilter] = useState('all');
+  const [vatBasis, setVatBasis] = useState<VatBasis>('inc');
   const [sortColumn, setSortColumn] = useState('');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
 
-  // Extract unique brands
-  const brands = useMemo(() => {
-    const brandSet = new Set(initialPlans.map((p) => p.source));
-    return Array.from(brandSet).sort();
-  }, [initialPlans]);
-
   // Helper functions to extract data from plan_data JSONB
+  // Brand is the network the plan is on (Uswitch deals list several networks)
+  const getPlanBrand = (plan: Plan): string => {
+    return plan.plan_data.network?.toString() || plan.source;
+  };
+
+  const getPlanChannel = (plan: Plan): string => {
+    return plan.plan_data.channel || 'direct';
+  };
+
+  // Monthly price in the reporting currency from the typed price columns, VAT
+  // included or excluded (0 when unknown)
   const getPlanPrice = (plan: Plan): number => {
-    const price = plan.plan_data.price;
-    if (typeof price === 'number') return price;
-    if (typeof price === 'string') {
-      const match = price.match(/[\d.]+/);
-      return match ? parseFloat(match[0]) : 0;
-    }
-    return 0;
+    const pence = vatBasis === 'ex' ? plan.price_ex_vat_pence : plan.price_pence;
+    return pence != null ? pence / 100 : 0;
+  };
+
+  // Total contract cost (upfront + monthly schedule); plans without one sort last
+  const getPlanTotalCost = (plan: Plan): number => {
+    const match = plan.plan_data.total_contract_cost?.match(/[\d.]+/);
+    return match ? parseFloat(match[0]) : Number.MAX_SAFE_INTEGER;
   };
 
   const getPlanDataAllowance = (plan: Plan): string => {
@@ -52,26 +66,32 @@ export function PlansContent({ initialPlans }: Props) {
     return plan.plan_data.contract_term?.toString() || '';
   };
 
-  // Data range matching function
-  const matchesDataRange = (dataAllowance: string, range: string): boolean => {
-    if (range === 'all') return true;
+  // Typed columns for sorting; unknown values sort first
+  const getPlanDataMb = (plan: Plan): number => {
+    return plan.data_mb ?? -1;
+  };
+
+  const getPlanContractMonths = (plan: Plan): number => {
+    return plan.contract_months ?? -1;
+  };
+
+  // Extract unique brands
+  const brands = useMemo(() => {
+    const brandSet = new Set(initialPlans.map(getPlanBrand));
+    return Array.from(brandSet).sort();
+  }, [initialPlans]);
 
-    const dataLower = dataAllowance.toLowerCase();
+  // Data range matching function (ranges in GB; unlimited only matches 'unlimited')
+  const matchesDataRange = (dataMb: number | null | undefined, range: string): boolean => {
+    if (range === 'all') return true;
 
     if (range === 'unlimited') {
-      return dataLower.includes('unlimited') || dataLower.includes('unltd');
+      return dataMb === UNLIMITED_DATA_MB;
     }
 
-    // Extract numeric value from data allowance
-    const match = dataAllowance.match(/(\d+(\.\d+)?)/);
-    if (!match) return false;
+    if (dataMb == null || dataMb === UNLIMITED_DATA_MB) return false;
 
-    let dataGB = parseFloat(match[1]);
-
-    // Convert MB to GB if needed
-    if (dataLower.includes('mb')) {
-      dataGB = dataGB / 1024;
-    }
+    const dataGB = dataMb / 1000;
 
     const [min, max] = range.split('-').map((v) => (v === '+' ? Infinity : parseFloat(v)));
 
@@ -103,17 +123,27 @@ export function PlansContent({ initialPlans }: Props) {
 
     // Apply filters
     if (brandFilter !== 'all') {
-      filtered = filtered.filter((p) => p.source === brandFilter);
+      filtered = filtered.filter((p) => getPlanBrand(p) === brandFilter);
+    }
+
+    if (channelFilter !== 'all') {
+      filtered = filtered.filter((p) => getPlanChannel(p) === channelFilter);
     }
 
     if (dataFilter !== 'all') {
-      filtered = filtered.filter((p) => matchesDataRange(getPlanDataAllowance(p), dataFilter));
+      filtered = filtered.filter((p) => matchesDataRange(p.data_mb, dataFilter));
     }
 
     if (priceFilter !== 'all') {
       filtered = filtered.filter((p) => matchesPriceRange(getPlanPrice(p), priceFilter));
     }
 
+    if (perkFilter !== 'all') {
+      filtered = filtered.filter((p) =>
+        (p.plan_data.perks ?? []).some((perk) => perk.category === perkFilter)
+      );
+    }
+
     // Apply sorting
     if (sortColumn) {
       filtered.sort((a, b) => {
@@ -122,20 +152,24 @@ export function PlansContent({ initialPlans }: Props) {
 
         switch (sortColumn) {
           case 'source':
-            aVal = a.source;
-            bVal = b.source;
+            aVal = getPlanBrand(a);
+            bVal = getPlanBrand(b);
             break;
           case 'price':
             aVal = getPlanPrice(a);
             bVal = getPlanPrice(b);
             break;
           case 'data':
-            aVal = getPlanDataAllowance(a);
-            bVal = getPlanDataAllowance(b);
+            aVal = getPlanDataMb(a);
+            bVal = getPlanDataMb(b);
             break;
           case 'contract':
-            aVal = getPlanContract(a);
-            bVal = getPlanContract(b);
+            aVal = getPlanContractMonths(a);
+            bVal = getPlanContractMonths(b);
+            break;
+          case 'total':
+            aVal = getPlanTotalCost(a);
+            bVal = getPlanTotalCost(b);
             break;
           default:
             return 0;
@@ -155,7 +189,17 @@ export function PlansContent({ initialPlans }: Props) {
     }
 
     return filtered;
-  }, [initialPlans, brandFilter, dataFilter, priceFilter, sortColumn, sortDirection]);
+  }, [
+    initialPlans,
+    brandFilter,
+    channelFilter,
+    dataFilter,
+    priceFilter,
+    perkFilter,
+    vatBasis,
+    sortColumn,
+    sortDirection,
+  ]);
 
   const handleSort = (column: string) => {
     if (sortColumn === column) {
@@ -168,26 +212,49 @@ export function PlansContent({ initialPlans }: Props) {
 
   const handleClearFilters = () => {
     setBrandFilter('all');
+    setChannelFilter('all');
     setDataFilter('all');
     setPriceFilter('all');
+    setPerkFilter('all');
+    setVatBasis('inc');
   };
 
   const handleExportCSV = () => {
     try {
-      const headers = ['Brand', 'Plan Name', 'Data', 'Price', 'Contract', 'Features', 'Source'];
+      const headers = [
+        'Brand',
+        'Plan Name',
+        'Data',
+        `Price (${currency}, ${vatBasis === 'ex' ? 'ex' : 'inc'} VAT)`,
+        'Listed Price',
+        'Contract',
+        'Upfront',
+        'Total Cost',
+        'Features',
+        'Extras Tier',
+        'Source',
+        'Retailer',
+        'Channel',
+      ];
       const rows = filteredAndSortedPlans.map((plan) => {
         const extras = Array.isArray(plan.plan_data.extras)
           ? plan.plan_data.extras.join('; ')
           : '';
 
         return [
-          plan.source,
+          getPlanBrand(plan),
           plan.plan_data.name || '',
           getPlanDataAllowance(plan),
           getPlanPrice(plan).toFixed(2),
+          plan.plan_data.listed_price || '',
           getPlanContract(plan),
+          plan.plan_data.upfront_fee || '',
+          plan.plan_data.total_contract_cost || '',
           extras,
+          plan.plan_data.extras_tier || '',
           plan.source,
+          plan.plan_data.retailer || '',
+          getPlanChannel(plan),
         ];
       });
 
@@ -220,12 +287,19 @@ export function PlansContent({ initialPlans }: Props) {
     <div className="space-y-6">
       <PlanFilterBar
         brands={brands}
+        currency={currency}
         brandFilter={brandFilter}
+        channelFilter={channelFilter}
         dataFilter={dataFilter}
         priceFilter={priceFilter}
+        perkFilter={perkFilter}
+        vatBasis={vatBasis}
         onBrandChange={setBrandFilter}
+        onChannelChange={setChannelFilter}
         onDataChange={setDataFilter}
         onPriceChange={setPriceFilter}
+        onPerkChange={setPerkFilter}
+        onVatBasisChange={setVatBasis}
         onClearFilters={handleClearFilters}
         onExportCSV={handleExportCSV}
         filteredCount={filteredAndSortedPlans.length}
@@ -234,6 +308,8 @@ export function PlansContent({ initialPlans }: Props) {
 
       <PlanDataTable
         plans={filteredAndSortedPlans}
+        currency={currency}
+        vatBasis={vatBasis}
         sortColumn={sortColumn}
         sortDirection={sortDirection}
         onSort={handleSort}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { ShieldAlert, Check, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import type { QuarantinedBatch } from '@/lib/db/quarantine';
+
+interface QuarantineListProps {
+  batches: QuarantinedBatch[];
+}
+
+/** Number of plans shown per batch for a quick sanity check */
+const SAMPLE_SIZE = 5;
+
+export function QuarantineList({ batches }: QuarantineListProps) {
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleReview = async (batch: QuarantinedBatch, action: 'approve' | 'reject') => {
+    setReviewingId(batch.id);
+
+    try {
+      const response = await fetch(`/api/quarantine/${batch.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to review batch');
+      }
+
+      toast({
+        title: action === 'approve' ? 'Batch Approved' : 'Batch Rejected',
+        description:
+          action === 'approve'
+            ? `${data.plansInserted} ${batch.source} plans added to plan data.`
+            : `${batch.source} batch discarded.`,
+      });
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: 'Review Failed',
+        description: error instanceof Error ? error.message : 'Failed to review batch',
+        variant: 'destructive',
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (batches.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          No quarantined batches awaiting review.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {batches.map((batch) => (
+        <Card key={batch.id}>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <ShieldAlert className="h-5 w-5 text-destructive" />
+                <CardTitle>{batch.source}</CardTitle>
+                <Badge variant="outline">
+                  {batch.plan_count} plans
+                  {batch.previous_plan_count !== null && ` (previously ${batch.previous_plan_count})`}
+                </Badge>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleReview(batch, 'approve')}
+                  disabled={reviewingId !== null}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => handleReview(batch, 'reject')}
+                  disabled={reviewingId !== null}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+            <CardDescription>
+              Quarantined {formatDistanceToNow(new Date(batch.created_at), { addSuffix: true })}
+              {batch.scrape_id && ` · scrape ${batch.scrape_id}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ul className="list-disc pl-5 text-sm text-destructive">
+              {batch.reasons.map((reason) => (
+                <li key={reason.check}>{reason.message}</li>
+              ))}
+            </ul>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Contract</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batch.plans.slice(0, SAMPLE_SIZE).map((plan, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{plan.name ?? '-'}</TableCell>
+                    <TableCell>{plan.data_allowance ?? '-'}</TableCell>
+                    <TableCell>{plan.price ?? '-'}</TableCell>
+                    <TableCell>{plan.contract_term ?? '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {batch.plans.length > SAMPLE_SIZE && (
+              <p className="text-xs text-muted-foreground">
+                Showing {SAMPLE_SIZE} of {batch.plans.length} plans
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -9,9 +9,10 @@ import { useToast } from '@/hooks/use-toast';
  * Inline Run Full Analysis Button Component
  *
  * Client component for triggering full analysis from the LatestAnalysisCard.
- * Simplified version of RunFullAnalysisCard for inline use.
+ * Simplified version of RunFullAnalysisCard for inline use. Pass snapshotId
+ * to analyze a dataset snapshot instead of the latest plans.
  */
-export function RunFullAnalysisButton() {
+export function RunFullAnalysisButton({ snapshotId }: { snapshotId?: string } = {}) {
   const [isRunning, setIsRunning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
@@ -23,6 +24,10 @@ export function RunFullAnalysisButton() {
     try {
       const response = await fetch('/api/analysis/full', {
         method: 'POST',
+        ...(snapshotId && {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ snapshotId }),
+        }),
       });
 
       if (!response.ok) {
@@ -41,6 +46,7 @@ export function RunFullAnalysisButton() {
             body: JSON.stringify({
               eventId: data.jobId,
               eventName: 'analysis/full',
+              ...(snapshotId && { metadata: { snapshotId } }),
             }),
           });
         } catch (saveError) {
@@ -50,7 +56,9 @@ export function RunFullAnalysisButton() {
         // Show success toast
         toast({
           title: "Analysis started!",
-          description: `Job ID: ${data.jobId}. Takes 4-5 minutes. Analyzes the most recent plans from the last 180 days.`,
+          description: snapshotId
+            ? `Job ID: ${data.jobId}. Takes 4-5 minutes. Analyzes the plans in the selected snapshot.`
+            : `Job ID: ${data.jobId}. Takes 4-5 minutes. Analyzes the most recent plans from the last 180 days.`,
         });
       }
 
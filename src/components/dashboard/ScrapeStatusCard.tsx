@@ -6,22 +6,51 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { formatDistanceToNow } from 'date-fns';
+import type { CollectorSummary } from '@/lib/scraping/collector';
+import type { SourceScrapeStatus } from '@/lib/dashboard/scrape-status';
 
 interface ScrapeStatusCardProps {
   planCount: number;
   lastScrapedAt: Date | null;
+  sources?: CollectorSummary[];
+  sourceStatuses?: SourceScrapeStatus[];
 }
 
-export function ScrapeStatusCard({ planCount, lastScrapedAt }: ScrapeStatusCardProps) {
+/**
+ * Describe a source's latest ledger outcome, e.g. "last succeeded 6 days ago"
+ */
+function describeSourceStatus(status: SourceScrapeStatus | undefined): string {
+  if (!status) return 'no runs recorded';
+
+  const succeeded = status.lastSucceededAt
+    ? `last succeeded ${formatDistanceToNow(new Date(status.lastSucceededAt), { addSuffix: true })}`
+    : 'never succeeded';
+
+  return status.lastStatus === 'failed' ? `${succeeded} (last run failed)` : succeeded;
+}
+
+export function ScrapeStatusCard({
+  planCount,
+  lastScrapedAt,
+  sources = [],
+  sourceStatuses = [],
+}: ScrapeStatusCardProps) {
   const [isScraping, setIsScraping] = useState(false);
   const { toast } = useToast();
 
-  const handleScrape = async () => {
+  /**
+   * Trigger a scrape of all sources, or a single source when an id is given
+   */
+  const handleScrape = async (source?: CollectorSummary) => {
     setIsScraping(true);
 
     try {
       const response = await fetch('/api/scrape', {
         method: 'POST',
+        ...(source && {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sources: [source.id] }),
+        }),
       });
 
       if (!response.ok) {
@@ -32,7 +61,7 @@ export function ScrapeStatusCard({ planCount, lastScrapedAt }: ScrapeStatusCardP
       const jobId = data.jobId || data.ids?.[0];
 
       toast({
-        title: 'Scrape Started',
+        title: source ? `${source.name} Scrape Started` : 'Scrape Started',
         description: `Job ID: ${jobId}. This may take several minutes.`,
       });
 
@@ -75,8 +104,43 @@ export function ScrapeStatusCard({ planCount, lastScrapedAt }: ScrapeStatusCardP
             <p className="text-2xl font-bold text-foreground">{planCount.toLocaleString()}</p>
             <p className="text-sm text-neutral-600">Total Plans</p>
           </div>
+          {sources.length > 0 && (
+            <div>
+              <p className="text-sm text-neutral-600 mb-2">
+                {sources.length} Sources <span className="text-xs">(click to rescrape one)</span>
+              </p>
+              <ul className="space-y-1">
+                {sources.map((source) => {
+                  const status = sourceStatuses.find((s) => s.collectorId === source.id);
+
+                  return (
+                    <li key={source.id} className="flex items-center justify-between gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => handleScrape(source)}
+                        disabled={isScraping}
+                        aria-label={`Rescrape ${source.name}`}
+                      >
+                        {source.name}
+                      </Button>
+                      <span
+                        className={`text-xs truncate ${
+                          status?.lastStatus === 'failed' ? 'text-destructive' : 'text-neutral-600'
+                        }`}
+                        title={status?.lastError ?? undefined}
+                      >
+                        {describeSourceStatus(status)}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
           <Button
-            onClick={handleScrape}
+            onClick={() => handleScrape()}
             disabled={isScraping}
             className="w-full"
             size="lg"
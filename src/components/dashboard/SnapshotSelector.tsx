@@ -0,0 +1,59 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { DatasetSnapshot } from '@/lib/db/snapshots';
+
+/** Select value for the latest plans instead of a snapshot */
+const LATEST_PLANS = 'latest';
+
+type Props = {
+  snapshots: DatasetSnapshot[];
+  /** Snapshot currently shown (undefined: latest plans) */
+  selectedId?: string;
+};
+
+/**
+ * Dataset Snapshot Selector
+ *
+ * Switches the plans page between the latest plans and a dataset snapshot
+ * via the ?snapshot= search param.
+ */
+export function SnapshotSelector({ snapshots, selectedId }: Props) {
+  const router = useRouter();
+
+  const handleChange = (value: string) => {
+    router.push(
+      value === LATEST_PLANS
+        ? '/dashboard/plans'
+        : `/dashboard/plans?snapshot=${encodeURIComponent(value)}`
+    );
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor="snapshot" className="text-sm font-medium text-muted-foreground">
+        Dataset
+      </label>
+      <Select value={selectedId ?? LATEST_PLANS} onValueChange={handleChange}>
+        <SelectTrigger id="snapshot" className="w-72">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={LATEST_PLANS}>Latest plans</SelectItem>
+          {snapshots.map((snapshot) => (
+            <SelectItem key={snapshot.id} value={snapshot.id}>
+              Snapshot: {snapshot.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -38,10 +38,10 @@ describe('QuickActions Component', () => {
     cleanup();
   });
 
-  it('should render quick action buttons', () => {
+  it('should render quick action buttons', async () => {
     render(<QuickActions />);
 
-    expect(screen.getByText('Quick Actions')).toBeInTheDocument();
+    expect(await screen.findByText('Quick Actions')).toBeInTheDocument();
     expect(screen.getByText('Run Full Analysis')).toBeInTheDocument();
     expect(screen.getByText('Custom Comparison')).toBeInTheDocument();
     expect(screen.getByText('Browse Plans')).toBeInTheDocument();
@@ -7,25 +7,32 @@
 
 import { inngest } from './client';
 import { NonRetriableError } from 'inngest';
-import { scrapeAndStoreO2Plans } from '../lib/scraping/collectors/o2';
-import { scrapeAndStoreVodafonePlans } from '../lib/scraping/collectors/vodafone';
-import { scrapeAndStoreSkyPlans } from '../lib/scraping/collectors/sky';
-import { scrapeAndStoreTescoPlans } from '../lib/scraping/collectors/tesco';
-import { scrapeAndStoreThreePlans } from '../lib/scraping/collectors/three';
-import { scrapeAndStoreGiffgaffPlans } from '../lib/scraping/collectors/giffgaff';
-import { scrapeAndStoreSmartyPlans } from '../lib/scraping/collectors/smarty';
-import { scrapeAndStoreUswitchPlans } from '../lib/scraping/collectors/uswitch';
+import { selectCollectors } from '../lib/scraping/registry';
+import { runCollector, withoutArtifacts, type CollectorResult } from '../lib/scraping/collector';
+import { openBrowserPool, closeBrowserPool } from '../lib/scraping/browser';
+import { mapCollectors } from '../lib/scraping/concurrency';
+import { startScrapeRun, recordScrapeRunSource, finishScrapeRun } from '../lib/db/scrape-runs';
+import { findScrapeGroups, renormalizePlans, type RenormalizeReport } from '../lib/scraping/renormalize';
+import { compactPlans } from '../lib/db/compaction';
+import { runAlerts } from '../lib/alerts/run';
 import { logger } from '../lib/utils/logger';
 
 /**
  * Scraping Function
  *
- * Scrapes plan data from all 8 sources (7 telcos + 1 aggregator).
- * Each collector runs as a separate step for progress tracking.
+ * Scrapes plan data from every collector in the registry (7 telcos + 1 aggregator),
+ * or only the collectors listed in `event.data.sources`.
+ * Each collector runs as a separate step for progress tracking. Collector steps
+ * run concurrently: API collectors unlimited, browser collectors a few at a time.
+ * Run and per-source outcomes are recorded in the scrape_runs ledger.
+ * Alert rules (config/alerts.json) are evaluated once the run is recorded.
+ * Steps executed in the same process share one browser; the pool is closed
+ * when the run finishes.
  *
  * Story: 4.7 Phase 2 - Scraping Inngest Function
  *
  * @event scrape/trigger - Triggered from dashboard or API
+ * @data { sources?: string[] } - Collector ids to run (defaults to all)
  * @returns Summary with total plans collected and execution time
  */
 export const scrapeAllPlans = inngest.createFunction(
@@ -39,250 +46,46 @@ export const scrapeAllPlans = inngest.createFunction(
   },
   { event: 'scrape/trigger' },
   async ({ event, step }) => {
+    const scrapeId = event.id as string; // Use Inngest event ID to group all plans from this scrape run
+    const results: CollectorResult[] = [];
+
+    // Lazy - only connects when a Playwright collector asks for a browser
+    openBrowserPool();
+
     try {
       const startTime = Date.now();
-      const scrapeId = event.id; // Use Inngest event ID to group all plans from this scrape run
-    const results: Array<{
-      name: string;
-      status: 'success' | 'failed';
-      plansCollected: number;
-      executionTime: number;
-      error?: string;
-    }> = [];
-
-    logger.info({ triggeredBy: event.data.triggeredBy, scrapeId }, 'Starting scrape job');
-
-    // Step 1: Scrape O2
-    const o2Result = await step.run('scrape-o2', async () => {
-      const stepStart = Date.now();
-      try {
-        logger.info('Scraping O2...');
-        const plansCollected = await scrapeAndStoreO2Plans(scrapeId);
-        const executionTime = Date.now() - stepStart;
-        logger.info({ plansCollected, executionTime }, 'O2 scrape completed');
-        return {
-          name: 'O2',
-          status: 'success' as const,
-          plansCollected,
-          executionTime
-        };
-      } catch (error) {
-        const executionTime = Date.now() - stepStart;
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error({ error, executionTime }, 'O2 scrape failed');
-        return {
-          name: 'O2',
-          status: 'failed' as const,
-          plansCollected: 0,
-          executionTime,
-          error: errorMessage
-        };
-      }
-    });
-    results.push(o2Result);
-
-    // Step 2: Scrape Vodafone
-    const vodafoneResult = await step.run('scrape-vodafone', async () => {
-      const stepStart = Date.now();
-      try {
-        logger.info('Scraping Vodafone...');
-        const plansCollected = await scrapeAndStoreVodafonePlans(scrapeId);
-        const executionTime = Date.now() - stepStart;
-        logger.info({ plansCollected, executionTime }, 'Vodafone scrape completed');
-        return {
-          name: 'Vodafone',
-          status: 'success' as const,
-          plansCollected,
-          executionTime
-        };
-      } catch (error) {
-        const executionTime = Date.now() - stepStart;
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error({ error, executionTime }, 'Vodafone scrape failed');
-        return {
-          name: 'Vodafone',
-          status: 'failed' as const,
-          plansCollected: 0,
-          executionTime,
-          error: errorMessage
-        };
-      }
-    });
-    results.push(vodafoneResult);
-
-    // Step 3: Scrape Sky
-    const skyResult = await step.run('scrape-sky', async () => {
-      const stepStart = Date.now();
-      try {
-        logger.info('Scraping Sky...');
-        const plansCollected = await scrapeAndStoreSkyPlans(scrapeId);
-        const executionTime = Date.now() - stepStart;
-        logger.info({ plansCollected, executionTime }, 'Sky scrape completed');
-        return {
-          name: 'Sky',
-          status: 'success' as const,
-          plansCollected,
-          executionTime
-        };
-      } catch (error) {
-        const executionTime = Date.now() - stepStart;
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error({ error, executionTime }, 'Sky scrape failed');
-        return {
-          name: 'Sky',
-          status: 'failed' as const,
-          plansCollected: 0,
-          executionTime,
-          error: errorMessage
-        };
-      }
-    });
-    results.push(skyResult);
-
-    // Step 4: Scrape Tesco
-    const tescoResult = await step.run('scrape-tesco', async () => {
-      const stepStart = Date.now();
-      try {
-        logger.info('Scraping Tesco...');
-        const plansCollected = await scrapeAndStoreTescoPlans(scrapeId);
-        const executionTime = Date.now() - stepStart;
-        logger.info({ plansCollected, executionTime }, 'Tesco scrape completed');
-        return {
-          name: 'Tesco',
-          status: 'success' as const,
-          plansCollected,
-          executionTime
-        };
-      } catch (error) {
-        const executionTime = Date.now() - stepStart;
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error({ error, executionTime }, 'Tesco scrape failed');
-        return {
-          name: 'Tesco',
-          status: 'failed' as const,
-          plansCollected: 0,
-          executionTime,
-          error: errorMessage
-        };
-      }
-    });
-    results.push(tescoResult);
-
-    // Step 5: Scrape Three
-    const threeResult = await step.run('scrape-three', async () => {
-      const stepStart = Date.now();
-      try {
-        logger.info('Scraping Three...');
-        const plansCollected = await scrapeAndStoreThreePlans(scrapeId);
-        const executionTime = Date.now() - stepStart;
-        logger.info({ plansCollected, executionTime }, 'Three scrape completed');
-        return {
-          name: 'Three',
-          status: 'success' as const,
-          plansCollected,
-          executionTime
-        };
-      } catch (error) {
-        const executionTime = Date.now() - stepStart;
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error({ error, executionTime }, 'Three scrape failed');
-        return {
-          name: 'Three',
-          status: 'failed' as const,
-          plansCollected: 0,
-          executionTime,
-          error: errorMessage
-        };
-      }
-    });
-    results.push(threeResult);
-
-    // Step 6: Scrape Giffgaff
-    const giffgaffResult = await step.run('scrape-giffgaff', async () => {
-      const stepStart = Date.now();
-      try {
-        logger.info('Scraping Giffgaff...');
-        const plansCollected = await scrapeAndStoreGiffgaffPlans(scrapeId);
-        const executionTime = Date.now() - stepStart;
-        logger.info({ plansCollected, executionTime }, 'Giffgaff scrape completed');
-        return {
-          name: 'Giffgaff',
-          status: 'success' as const,
-          plansCollected,
-          executionTime
-        };
-      } catch (error) {
-        const executionTime = Date.now() - stepStart;
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error({ error, executionTime }, 'Giffgaff scrape failed');
-        return {
-          name: 'Giffgaff',
-          status: 'failed' as const,
-          plansCollected: 0,
-          executionTime,
-          error: errorMessage
-        };
-      }
-    });
-    results.push(giffgaffResult);
-
-    // Step 7: Scrape Smarty
-    const smartyResult = await step.run('scrape-smarty', async () => {
-      const stepStart = Date.now();
-      try {
-        logger.info('Scraping Smarty...');
-        const plansCollected = await scrapeAndStoreSmartyPlans(scrapeId);
-        const executionTime = Date.now() - stepStart;
-        logger.info({ plansCollected, executionTime }, 'Smarty scrape completed');
-        return {
-          name: 'Smarty',
-          status: 'success' as const,
-          plansCollected,
-          executionTime
-        };
-      } catch (error) {
-        const executionTime = Date.now() - stepStart;
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error({ error, executionTime }, 'Smarty scrape failed');
-        return {
-          name: 'Smarty',
-          status: 'failed' as const,
-          plansCollected: 0,
-          executionTime,
-          error: errorMessage
-        };
-      }
-    });
-    results.push(smartyResult);
-
-    // Step 8: Scrape Uswitch
-    const uswitchResult = await step.run('scrape-uswitch', async () => {
-      const stepStart = Date.now();
-      try {
-        logger.info('Scraping Uswitch...');
-        const plansCollected = await scrapeAndStoreUswitchPlans(scrapeId);
-        const executionTime = Date.now() - stepStart;
-        logger.info({ plansCollected, executionTime }, 'Uswitch scrape completed');
-        return {
-          name: 'Uswitch',
-          status: 'success' as const,
-          plansCollected,
-          executionTime
-        };
-      } catch (error) {
-        const executionTime = Date.now() - stepStart;
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error({ error, executionTime }, 'Uswitch scrape failed');
-        return {
-          name: 'Uswitch',
-          status: 'failed' as const,
-          plansCollected: 0,
-          executionTime,
-          error: errorMessage
-        };
-      }
-    });
-    results.push(uswitchResult);
+
+    // Optional subset of collector ids (e.g., ['vodafone']); all collectors when omitted
+    const collectors = selectCollectors(event.data.sources);
+
+    logger.info(
+      {
+        triggeredBy: event.data.triggeredBy,
+        scrapeId,
+        sources: collectors.map((c) => c.id),
+      },
+      'Starting scrape job'
+    );
+
+    await step.run('record-run-start', () =>
+      startScrapeRun({
+        scrapeId,
+        triggeredBy: event.data.triggeredBy,
+        sources: collectors.map((c) => c.id),
+      })
+    );
+
+    // One step per selected collector for progress tracking; steps run in
+    // parallel up to the per-kind limits (SCRAPE_BROWSER_CONCURRENCY etc.)
+    const collectorResults = await mapCollectors(collectors, (collector) =>
+      step.run(`scrape-${collector.id}`, async () => {
+        const collectorResult = await runCollector(collector, scrapeId);
+        await recordScrapeRunSource(scrapeId, collector, collectorResult);
+        // Page captures are in the ledger; keep the step output small
+        return withoutArtifacts(collectorResult);
+      })
+    );
+    results.push(...collectorResults);
 
     // Calculate summary
     const totalExecutionTime = Date.now() - startTime;
@@ -301,11 +104,21 @@ export const scrapeAllPlans = inngest.createFunction(
       results,
     };
 
+    await step.run('record-run-finish', async () => {
+      await closeBrowserPool();
+      await finishScrapeRun(scrapeId, results);
+    });
+
+    // Competitor price alerts; never fails the run
+    const alerts = await step.run('evaluate-alerts', () => runAlerts(scrapeId));
+
     logger.info(summary, 'Scrape job completed');
 
-    return summary;
+    return { ...summary, alerts };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
+      await closeBrowserPool();
+      await finishScrapeRun(scrapeId, results, message);
       throw new NonRetriableError(message);
     }
   }
@@ -320,6 +133,8 @@ export const scrapeAllPlans = inngest.createFunction(
  * Story: 4.7 Phase 2 - Full Analysis Inngest Function
  *
  * @event analysis/full - Triggered from dashboard or API
+ * @data { snapshotId?: string } - Analyze a dataset snapshot instead of the
+ *   latest plan per source and plan_key from the last 180 days
  * @returns Analysis results with metadata
  */
 export const runFullAnalysis = inngest.createFunction(
@@ -335,11 +150,28 @@ export const runFullAnalysis = inngest.createFunction(
   async ({ event, step }) => {
     try {
       const startTime = Date.now();
+      const snapshotId: string | undefined = event.data.snapshotId;
 
-      logger.info({ triggeredBy: event.data.triggeredBy }, 'Starting full analysis job');
+      logger.info({ triggeredBy: event.data.triggeredBy, snapshotId }, 'Starting full analysis job');
 
     // Step 1: Fetch plan data from database
     const planData = await step.run('fetch-plan-data', async () => {
+      if (snapshotId) {
+        const { getSnapshotPlans } = await import('../lib/db/snapshots');
+        const plans = await getSnapshotPlans(snapshotId);
+
+        if (plans.length === 0) {
+          throw new Error(`No plan data found in snapshot ${snapshotId}`);
+        }
+
+        logger.info({ planCount: plans.length, snapshotId }, 'Fetched snapshot plan data for analysis');
+
+        return {
+          plans,
+          planCount: plans.length,
+        };
+      }
+
       const { getPool } = await import('../lib/db/connection');
       const pool = getPool();
 
@@ -348,10 +180,10 @@ export const runFullAnalysis = inngest.createFunction(
           id,
           source,
           plan_data,
-          scrape_timestamp
+          last_seen AS scrape_timestamp
         FROM plans
-        WHERE scrape_timestamp > NOW() - INTERVAL '180 days'
-        ORDER BY source, plan_key, scrape_timestamp DESC
+        WHERE last_seen > NOW() - INTERVAL '180 days'
+        ORDER BY source, plan_key, last_seen DESC
       `;
 
       const result = await pool.query(planQuery);
@@ -385,6 +217,7 @@ export const runFullAnalysis = inngest.createFunction(
         comparisonType: 'full',
         brands,
         planData: planData.plans,
+        snapshotId,
       });
 
       logger.info(
@@ -412,6 +245,7 @@ export const runFullAnalysis = inngest.createFunction(
         planCount: planData.planCount,
         brandCount: brands.length,
         brands,
+        snapshotId: snapshotId ?? null,
       },
     };
 
@@ -441,7 +275,7 @@ export const runFullAnalysis = inngest.createFunction(
  * Story: 4.7 Phase 2 - Custom Comparison Inngest Function
  *
  * @event analysis/custom - Triggered from dashboard or API
- * @data { brandA: string, brandB: string }
+ * @data { brandA: string, brandB: string, snapshotId?: string }
  * @returns Analysis results with metadata
  */
 export const runCustomComparison = inngest.createFunction(
@@ -458,12 +292,16 @@ export const runCustomComparison = inngest.createFunction(
     try {
       const startTime = Date.now();
     const { brandA, brandB } = event.data;
+    const snapshotId: string | undefined = event.data.snapshotId;
 
     if (!brandA || !brandB) {
       throw new Error('brandA and brandB are required in event data');
     }
 
-    logger.info({ brandA, brandB, triggeredBy: event.data.triggeredBy }, 'Starting custom comparison job');
+    logger.info(
+      { brandA, brandB, snapshotId, triggeredBy: event.data.triggeredBy },
+      'Starting custom comparison job'
+    );
 
     // Step 1: Validate brands
     await step.run('validate-brands', async () => {
@@ -478,29 +316,37 @@ export const runCustomComparison = inngest.createFunction(
 
     // Step 2: Fetch plan data for specified brands
     const planData = await step.run('fetch-plan-data', async () => {
-      const { getPool } = await import('../lib/db/connection');
-      const pool = getPool();
-
-      const planQuery = `
-        SELECT DISTINCT ON (source, plan_key)
-          id,
-          source,
-          plan_data,
-          scrape_timestamp
-        FROM plans
-        WHERE scrape_timestamp > NOW() - INTERVAL '180 days'
-          AND (source = $1 OR source = $2)
-        ORDER BY source, plan_key, scrape_timestamp DESC
-      `;
-
-      const result = await pool.query(planQuery, [brandA, brandB]);
+      let rows: any[];
+
+      if (snapshotId) {
+        const { getSnapshotPlans } = await import('../lib/db/snapshots');
+        rows = await getSnapshotPlans(snapshotId, [brandA, brandB]);
+      } else {
+        const { getPool } = await import('../lib/db/connection');
+        const pool = getPool();
+
+        const planQuery = `
+          SELECT DISTINCT ON (source, plan_key)
+            id,
+            source,
+            plan_data,
+            last_seen AS scrape_timestamp
+          FROM plans
+          WHERE last_seen > NOW() - INTERVAL '180 days'
+            AND (source = $1 OR source = $2)
+          ORDER BY source, plan_key, last_seen DESC
+        `;
+
+        const result = await pool.query(planQuery, [brandA, brandB]);
+        rows = result.rows;
+      }
 
-      if (result.rows.length === 0) {
+      if (rows.length === 0) {
         throw new Error(`No plan data found for brands: ${brandA}, ${brandB}`);
       }
 
       // Check if both brands have data
-      const foundBrands = [...new Set(result.rows.map((plan: any) => plan.source))];
+      const foundBrands = [...new Set(rows.map((plan: any) => plan.source))];
       const missingBrands = [brandA, brandB].filter(
         (brand) => !foundBrands.includes(brand)
       );
@@ -512,13 +358,13 @@ export const runCustomComparison = inngest.createFunction(
       }
 
       logger.info(
-        { planCount: result.rows.length, foundBrands },
+        { planCount: rows.length, foundBrands, snapshotId },
         'Fetched plan data for custom comparison'
       );
 
       return {
-        plans: result.rows,
-        planCount: result.rows.length,
+        plans: rows,
+        planCount: rows.length,
       };
     });
 
@@ -530,6 +376,7 @@ export const runCustomComparison = inngest.createFunction(
         comparisonType: 'custom',
         brands: [brandA, brandB],
         planData: planData.plans,
+        snapshotId,
       });
 
       logger.info(
@@ -558,6 +405,7 @@ export const runCustomComparison = inngest.createFunction(
       metadata: {
         totalExecutionTime,
         planCount: planData.planCount,
+        snapshotId: snapshotId ?? null,
       },
     };
 
@@ -579,3 +427,89 @@ export const runCustomComparison = inngest.createFunction(
     }
   }
 );
+
+/**
+ * Re-normalization Function
+ *
+ * Re-runs the current normalizers over stored plans (see
+ * lib/scraping/renormalize.ts) after a normalization fix. Each source runs
+ * as a separate step; the result lists how many plans each field changed in.
+ *
+ * @event plans/renormalize - Triggered after bumping NORMALIZER_VERSION
+ * @data { sources?: string[], all?: boolean, dryRun?: boolean } - Source names
+ *   (defaults to all), include plans already at the current version, report only
+ * @returns Per-source re-normalization reports
+ */
+export const renormalizeStoredPlans = inngest.createFunction(
+  {
+    id: 'renormalize-plans',
+    name: 'Re-normalize Stored Plans',
+    concurrency: {
+      limit: 1, // Runs never overlap on the same rows
+    },
+    retries: 0,
+  },
+  { event: 'plans/renormalize' },
+  async ({ event, step }) => {
+    const { sources, all, dryRun } = event.data ?? {};
+
+    const sourcesToRun = await step.run('find-sources', async () => {
+      const groups = await findScrapeGroups({ sources, all });
+      return [...new Set(groups.map((group) => group.source))];
+    });
+
+    logger.info({ sources: sourcesToRun, all, dryRun }, 'Starting re-normalization job');
+
+    const reports: Record<string, RenormalizeReport> = {};
+    for (const source of sourcesToRun) {
+      reports[source] = await step.run(`renormalize-${source}`, () =>
+        renormalizePlans({ sources: [source], all, dryRun })
+      );
+    }
+
+    logger.info(
+      {
+        plansUpdated: Object.values(reports).reduce((sum, report) => sum + report.plansUpdated, 0),
+        dryRun,
+      },
+      'Re-normalization job completed'
+    );
+
+    return { success: true, reports };
+  }
+);
+
+/**
+ * Plan Maintenance Function
+ *
+ * Compacts stored plans into first_seen/last_seen versions (see
+ * lib/db/compaction.ts). Archiving old versions is not done here: it writes
+ * to local disk, which does not persist on the serverless deploy, so it runs
+ * from `npm run plans:archive` (see lib/db/retention.ts).
+ *
+ * @event plans/maintain - Triggered manually or on a schedule
+ * @data { sources?: string[], dryRun?: boolean } - Source names to compact (defaults to all), report only
+ * @returns Compaction report
+ */
+export const maintainPlans = inngest.createFunction(
+  {
+    id: 'maintain-plans',
+    name: 'Compact Plans',
+    concurrency: {
+      limit: 1, // Runs never overlap on the same rows
+    },
+    retries: 0,
+  },
+  { event: 'plans/maintain' },
+  async ({ event, step }) => {
+    const { sources, dryRun } = event.data ?? {};
+
+    logger.info({ sources, dryRun }, 'Starting plan maintenance job');
+
+    const compaction = await step.run('compact-plans', () => compactPlans({ sources, dryRun }));
+
+    logger.info({ plansMerged: compaction.plansMerged, dryRun }, 'Plan maintenance job completed');
+
+    return { success: true, compaction };
+  }
+);
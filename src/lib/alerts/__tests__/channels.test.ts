@@ -0,0 +1,245 @@
+// @vitest-environment node
+/**
+ * Tests for alert channels against local stub servers
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { AlertChannelConfigSchema, createAlertChannel, deliverAlerts, type AlertChannel } from '../channels';
+import { sendMail } from '../smtp';
+import type { Alert } from '../rules';
+
+const alert: Alert = {
+  rule_id: 'cheap-unlimited',
+  rule_type: 'price_below',
+  source: 'Three',
+  plan_key: 'Three-Unlimited-24months',
+  message: 'Three Unlimited SIM is £14.00, below £15.00 (was £16.00)',
+  details: { price_pence: 1400 },
+};
+
+interface ReceivedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+/**
+ * HTTP stub recording JSON requests and answering with the given status
+ */
+async function startHttpStub(status = 200) {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ path: req.url ?? '', headers: req.headers, body: JSON.parse(body) });
+      res.writeHead(status).end(status === 200 ? 'ok' : 'invalid_token');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Decode a quoted-printable body (soft line breaks and =XX escapes) as UTF-8
+ */
+function decodeQuotedPrintable(text: string): string {
+  const bytes = text
+    .replace(/=\r\n/g, '')
+    .replace(/=([0-9A-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, 'latin1').toString('utf-8');
+}
+
+/**
+ * SMTP stub recording commands and the message data
+ */
+async function startSmtpStub(options: { rejectRecipient?: boolean } = {}) {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 stub ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8');
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          messages.push(buffer.slice(0, end));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 queued\r\n');
+          continue;
+        }
+
+        const end = buffer.indexOf('\r\n');
+        if (end === -1) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        commands.push(line);
+
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === 'EHLO') socket.write('250-stub\r\n250 AUTH PLAIN\r\n');
+        else if (verb === 'AUTH') socket.write('235 ok\r\n');
+        else if (verb === 'MAIL') socket.write('250 ok\r\n');
+        else if (verb === 'RCPT') socket.write(options.rejectRecipient ? '550 no such user\r\n' : '250 ok\r\n');
+        else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') socket.end('221 bye\r\n');
+        else socket.write('500 unknown\r\n');
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    messages,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe('alert channels', () => {
+  let stubs: Array<{ close: () => Promise<void> }> = [];
+
+  beforeEach(() => {
+    stubs = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(stubs.map((stub) => stub.close()));
+  });
+
+  it('posts alerts as JSON to a webhook', async () => {
+    const stub = await startHttpStub();
+    stubs.push(stub);
+
+    const channel = createAlertChannel({
+      id: 'hook',
+      type: 'webhook',
+      url: `${stub.url}/alerts`,
+      headers: { Authorization: 'Bearer secret' },
+    });
+    await channel.send([alert], 'scrape-1');
+
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0].path).toBe('/alerts');
+    expect(stub.requests[0].headers.authorization).toBe('Bearer secret');
+    expect(stub.requests[0].body).toEqual({ scrapeId: 'scrape-1', alerts: [alert] });
+  });
+
+  it('posts a Slack incoming-webhook payload', async () => {
+    const stub = await startHttpStub();
+    stubs.push(stub);
+
+    await createAlertChannel({ id: 'slack', type: 'slack', webhookUrl: stub.url }).send([alert], 'scrape-1');
+
+    expect(stub.requests[0].body).toEqual({
+      text: '*1 price alert from scrape scrape-1*\n• Three Unlimited SIM is £14.00, below £15.00 (was £16.00) [cheap-unlimited]',
+    });
+  });
+
+  it('throws when the webhook responds with an error', async () => {
+    const stub = await startHttpStub(403);
+    stubs.push(stub);
+
+    await expect(
+      createAlertChannel({ id: 'slack', type: 'slack', webhookUrl: stub.url }).send([alert], 'scrape-1')
+    ).rejects.toThrow('HTTP 403 Forbidden - invalid_token');
+  });
+
+  it('sends alerts by email over SMTP', async () => {
+    const stub = await startSmtpStub();
+    stubs.push(stub);
+
+    const config = AlertChannelConfigSchema.parse({
+      id: 'email',
+      type: 'email',
+      host: '127.0.0.1',
+      port: stub.port,
+      from: 'alerts@example.com',
+      to: ['pricing@example.com', 'ops@example.com'],
+    });
+    await createAlertChannel(config).send([alert], 'scrape-1');
+
+    expect(stub.commands).toEqual([
+      expect.stringMatching(/^EHLO /),
+      'MAIL FROM:<alerts@example.com>',
+      'RCPT TO:<pricing@example.com>',
+      'RCPT TO:<ops@example.com>',
+      'DATA',
+    ]);
+    expect(stub.messages[0]).toContain('To: pricing@example.com, ops@example.com');
+    expect(stub.messages[0]).toContain('Subject: 1 price alert from scrape scrape-1');
+    expect(stub.messages[0]).toContain('Content-Transfer-Encoding: quoted-printable');
+    expect(decodeQuotedPrintable(stub.messages[0])).toContain('• Three Unlimited SIM is £14.00');
+  });
+
+  it('refuses to send credentials when the server does not offer STARTTLS', async () => {
+    const stub = await startSmtpStub();
+    stubs.push(stub);
+
+    await expect(
+      sendMail(
+        { host: '127.0.0.1', port: stub.port, user: 'alerts', password: 'secret' },
+        { from: 'a@example.com', to: ['b@example.com'], subject: 'Test', text: 'Hello' }
+      )
+    ).rejects.toThrow();
+
+    expect(stub.commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+    expect(stub.messages).toEqual([]);
+  });
+
+  it('reports SMTP rejections', async () => {
+    const stub = await startSmtpStub({ rejectRecipient: true });
+    stubs.push(stub);
+
+    await expect(
+      sendMail(
+        { host: '127.0.0.1', port: stub.port },
+        { from: 'a@example.com', to: ['b@example.com'], subject: 'Test', text: 'Hello' }
+      )
+    ).rejects.toThrow('all recipients were rejected: 550 no such user');
+  });
+
+  it('dot-stuffs lines starting with a period', async () => {
+    const stub = await startSmtpStub();
+    stubs.push(stub);
+
+    await sendMail(
+      { host: '127.0.0.1', port: stub.port },
+      { from: 'a@example.com', to: ['b@example.com'], subject: 'Test', text: 'one\n.two' }
+    );
+
+    expect(stub.messages[0]).toMatch(/\r\n\r\none\r\n\.\.two$/);
+  });
+});
+
+describe('deliverAlerts', () => {
+  it('records a result per channel and keeps going after a failure', async () => {
+    const channels: AlertChannel[] = [
+      { id: 'ok', type: 'webhook', send: vi.fn().mockResolvedValue(undefined) },
+      { id: 'broken', type: 'email', send: vi.fn().mockRejectedValue(new Error('connect ECONNREFUSED')) },
+    ];
+
+    await expect(deliverAlerts(channels, [alert], 'scrape-1')).resolves.toEqual([
+      { channel: 'ok', status: 'sent' },
+      { channel: 'broken', status: 'failed', error: 'connect ECONNREFUSED' },
+    ]);
+    expect(channels[0].send).toHaveBeenCalledWith([alert], 'scrape-1');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for the alert configuration
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import path from 'path';
+import { EMPTY_ALERT_CONFIG, getAlertConfig, parseAlertConfig, resetAlertConfig } from '../config';
+
+describe('parseAlertConfig', () => {
+  it('defaults missing sections to empty lists', () => {
+    expect(parseAlertConfig({})).toEqual({ rules: [], channels: [] });
+  });
+
+  it('defaults the SMTP port', () => {
+    const config = parseAlertConfig({
+      channels: [{ id: 'mail', type: 'email', host: 'localhost', from: 'a@example.com', to: ['b@example.com'] }],
+    });
+
+    expect(config.channels[0]).toMatchObject({ type: 'email', port: 25 });
+  });
+
+  it('lists invalid fields', () => {
+    expect(() =>
+      parseAlertConfig({ rules: [{ id: 'x', type: 'price_below' }], channels: [{ id: 'y', type: 'slack', webhookUrl: 'not a url' }] })
+    ).toThrow(/Invalid alert config: rules\.0\.maxPrice: .*; channels\.0\.webhookUrl: /);
+  });
+
+  it('rejects duplicate rule ids', () => {
+    const rule = { id: 'x', type: 'plan_withdrawn' };
+
+    expect(() => parseAlertConfig({ rules: [rule, rule] })).toThrow('Alert rule ids must be unique');
+  });
+});
+
+describe('getAlertConfig', () => {
+  afterEach(() => {
+    delete process.env.ALERTS_FILE;
+    resetAlertConfig();
+  });
+
+  it('reads the configured file', () => {
+    process.env.ALERTS_FILE = path.join(__dirname, '../../../../config/alerts.example.json');
+    resetAlertConfig();
+
+    const config = getAlertConfig();
+    expect(config.rules.map((rule) => rule.type)).toEqual(['price_below', 'undercut', 'plan_withdrawn']);
+    expect(config.channels.map((channel) => channel.type)).toEqual(['webhook', 'slack', 'email']);
+  });
+
+  it('has no rules when the file does not exist', () => {
+    process.env.ALERTS_FILE = 'config/does-not-exist.json';
+    resetAlertConfig();
+
+    expect(getAlertConfig()).toEqual(EMPTY_ALERT_CONFIG);
+  });
+});
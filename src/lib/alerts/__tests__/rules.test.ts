@@ -0,0 +1,197 @@
+/**
+ * Tests for alert rule evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AlertRuleSchema, describeRule, evaluateAlertRules, formatDataMb, type AlertPlan, type AlertRule } from '../rules';
+import { UNLIMITED_DATA_MB } from '../../scraping/numeric-fields';
+
+const createPlan = (overrides: Partial<AlertPlan> = {}): AlertPlan => ({
+  source: 'Three',
+  plan_key: 'Three-Unlimited-24months',
+  name: 'Unlimited SIM',
+  price_pence: 1600,
+  currency: 'GBP',
+  data_mb: UNLIMITED_DATA_MB,
+  contract_months: 24,
+  ...overrides,
+});
+
+const cheapUnlimited: AlertRule = {
+  id: 'cheap-unlimited',
+  type: 'price_below',
+  maxPrice: 15,
+  unlimitedData: true,
+  contractMonths: 24,
+  excludeSources: ['O2'],
+};
+
+describe('evaluateAlertRules', () => {
+  describe('price_below', () => {
+    it('fires when a plan drops below the threshold', () => {
+      const alerts = evaluateAlertRules(
+        [cheapUnlimited],
+        [createPlan()],
+        [createPlan({ price_pence: 1400 })]
+      );
+
+      expect(alerts).toEqual([
+        {
+          rule_id: 'cheap-unlimited',
+          rule_type: 'price_below',
+          source: 'Three',
+          plan_key: 'Three-Unlimited-24months',
+          message: 'Three Unlimited SIM is £14.00, below £15.00 (was £16.00)',
+          details: {
+            price_pence: 1400,
+            previous_price_pence: 1600,
+            threshold_pence: 1500,
+            data_mb: UNLIMITED_DATA_MB,
+            contract_months: 24,
+          },
+        },
+      ]);
+    });
+
+    it('fires for a new plan listed below the threshold', () => {
+      const alerts = evaluateAlertRules([cheapUnlimited], [], [createPlan({ price_pence: 1200 })]);
+
+      expect(alerts[0].message).toBe('Three Unlimited SIM is £12.00, below £15.00 (new plan)');
+    });
+
+    it('does not repeat while the plan stays below the threshold', () => {
+      const alerts = evaluateAlertRules(
+        [cheapUnlimited],
+        [createPlan({ price_pence: 1400 })],
+        [createPlan({ price_pence: 1300 })]
+      );
+
+      expect(alerts).toEqual([]);
+    });
+
+    it('ignores plans outside the data, contract and source filters', () => {
+      const plans = [
+        createPlan({ price_pence: 1000, data_mb: 100000, plan_key: 'Three-100GB-24months' }),
+        createPlan({ price_pence: 1000, contract_months: 12, plan_key: 'Three-Unlimited-12months' }),
+        createPlan({ price_pence: 1000, source: 'O2', plan_key: 'O2-Unlimited-24months' }),
+        createPlan({ price_pence: null }),
+      ];
+
+      expect(evaluateAlertRules([cheapUnlimited], [], plans)).toEqual([]);
+    });
+
+    it('applies minDataGb', () => {
+      const rule: AlertRule = { id: 'big-data', type: 'price_below', maxPrice: 10, minDataGb: 50 };
+      const plans = [
+        createPlan({ price_pence: 900, data_mb: 30000, plan_key: 'Three-30GB-24months' }),
+        createPlan({ price_pence: 900, data_mb: 50000, plan_key: 'Three-50GB-24months' }),
+        createPlan({ price_pence: 900 }),
+      ];
+
+      expect(evaluateAlertRules([rule], [], plans).map((alert) => alert.plan_key)).toEqual([
+        'Three-50GB-24months',
+        'Three-Unlimited-24months',
+      ]);
+    });
+  });
+
+  describe('undercut', () => {
+    const undercutO2: AlertRule = { id: 'undercuts-o2', type: 'undercut', brand: 'O2' };
+    const o2 = createPlan({ source: 'O2', plan_key: 'O2-30GB-12months', data_mb: 30000, price_pence: 1200 });
+
+    it('fires when a source becomes cheaper than the brand in a data tier', () => {
+      const smarty = createPlan({ source: 'SMARTY', plan_key: 'SMARTY-30GB-1month', data_mb: 30000 });
+
+      const alerts = evaluateAlertRules(
+        [undercutO2],
+        [o2, { ...smarty, price_pence: 1300 }],
+        [o2, { ...smarty, price_pence: 1000 }]
+      );
+
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({
+        rule_id: 'undercuts-o2',
+        source: 'SMARTY',
+        plan_key: 'SMARTY-30GB-1month',
+        message: 'SMARTY undercuts O2 on 30GB: £10.00 vs £12.00',
+        details: { brand: 'O2', data_mb: 30000, price_pence: 1000, brand_price_pence: 1200 },
+      });
+    });
+
+    it('compares the cheapest plan of each side', () => {
+      const plans = [
+        o2,
+        createPlan({ source: 'O2', plan_key: 'O2-30GB-24months', data_mb: 30000, price_pence: 900 }),
+        createPlan({ source: 'Tesco', plan_key: 'Tesco-30GB-12months', data_mb: 30000, price_pence: 1000 }),
+      ];
+
+      expect(evaluateAlertRules([undercutO2], [], plans)).toEqual([]);
+    });
+
+    it('does not repeat while the undercut persists', () => {
+      const tesco = createPlan({ source: 'Tesco', plan_key: 'Tesco-30GB-12months', data_mb: 30000, price_pence: 1000 });
+
+      expect(evaluateAlertRules([undercutO2], [o2, tesco], [o2, { ...tesco, price_pence: 900 }])).toEqual([]);
+    });
+
+    it('only compares plans with the rule contract term', () => {
+      const rule: AlertRule = { ...undercutO2, contractMonths: 12 } as AlertRule;
+      const tesco = createPlan({ source: 'Tesco', plan_key: 'Tesco-30GB-1month', data_mb: 30000, price_pence: 1000, contract_months: 1 });
+
+      expect(evaluateAlertRules([rule], [], [o2, tesco])).toEqual([]);
+    });
+  });
+
+  describe('plan_withdrawn', () => {
+    const withdrawn: AlertRule = { id: 'withdrawn', type: 'plan_withdrawn', sources: ['Three'] };
+
+    it('fires for plans missing from the new batch', () => {
+      const gone = createPlan({ plan_key: 'Three-10GB-12months', name: '10GB SIM' });
+
+      const alerts = evaluateAlertRules([withdrawn], [createPlan(), gone], [createPlan()]);
+
+      expect(alerts).toEqual([
+        expect.objectContaining({
+          rule_id: 'withdrawn',
+          source: 'Three',
+          plan_key: 'Three-10GB-12months',
+          message: 'Three withdrew 10GB SIM',
+        }),
+      ]);
+    });
+
+    it('ignores sources outside the rule', () => {
+      const vodafone = createPlan({ source: 'Vodafone', plan_key: 'Vodafone-10GB-12months' });
+
+      expect(evaluateAlertRules([withdrawn], [vodafone], [])).toEqual([]);
+    });
+  });
+});
+
+describe('AlertRuleSchema', () => {
+  it('rejects unknown rule types and missing thresholds', () => {
+    expect(AlertRuleSchema.safeParse({ id: 'x', type: 'price_above', maxPrice: 1 }).success).toBe(false);
+    expect(AlertRuleSchema.safeParse({ id: 'x', type: 'price_below' }).success).toBe(false);
+    expect(AlertRuleSchema.safeParse(cheapUnlimited).success).toBe(true);
+  });
+});
+
+describe('describeRule', () => {
+  it('summarizes rules without a description', () => {
+    expect(describeRule(cheapUnlimited)).toBe(
+      'Any source except O2 lists a 24-month Unlimited plan below £15.00'
+    );
+    expect(describeRule({ id: 'u', type: 'undercut', brand: 'O2', sources: ['Tesco'] })).toBe(
+      'Tesco undercuts O2 in a data tier'
+    );
+    expect(describeRule({ ...cheapUnlimited, description: 'Cheap unlimited' })).toBe('Cheap unlimited');
+  });
+});
+
+describe('formatDataMb', () => {
+  it('formats data tiers', () => {
+    expect(formatDataMb(UNLIMITED_DATA_MB)).toBe('Unlimited');
+    expect(formatDataMb(30000)).toBe('30GB');
+    expect(formatDataMb(500)).toBe('500MB');
+  });
+});
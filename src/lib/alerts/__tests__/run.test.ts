@@ -0,0 +1,97 @@
+/**
+ * Tests for the post-scrape alert run
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runAlerts } from '../run';
+import { getAlertConfig } from '../config';
+import { deliverAlerts } from '../channels';
+import { getAlertSnapshots, insertAlertEvents } from '../../db/alerts';
+import type { AlertPlan } from '../rules';
+
+vi.mock('../config', () => ({
+  getAlertConfig: vi.fn(),
+}));
+
+vi.mock('../channels', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../channels')>()),
+  deliverAlerts: vi.fn(),
+}));
+
+vi.mock('../../db/alerts', () => ({
+  getAlertSnapshots: vi.fn(),
+  insertAlertEvents: vi.fn(),
+}));
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const plan: AlertPlan = {
+  source: 'Vodafone',
+  plan_key: 'Vodafone-10GB-12months',
+  name: '10GB SIM',
+  price_pence: 1000,
+  currency: 'GBP',
+  data_mb: 10000,
+  contract_months: 12,
+};
+
+const config = {
+  rules: [{ id: 'withdrawn', type: 'plan_withdrawn' as const }],
+  channels: [{ id: 'hook', type: 'webhook' as const, url: 'http://localhost:4000/alerts' }],
+};
+
+describe('runAlerts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getAlertConfig).mockReturnValue(config);
+  });
+
+  it('delivers and stores fired alerts', async () => {
+    const deliveries = [{ channel: 'hook', status: 'sent' as const }];
+    vi.mocked(getAlertSnapshots).mockResolvedValue({ previous: [plan], current: [] });
+    vi.mocked(deliverAlerts).mockResolvedValue(deliveries);
+
+    const summary = await runAlerts('scrape-1');
+
+    expect(summary).toEqual({ rulesEvaluated: 1, alertsFired: 1, deliveries });
+    expect(getAlertSnapshots).toHaveBeenCalledWith('scrape-1');
+    const [channels, alerts, scrapeId] = vi.mocked(deliverAlerts).mock.calls[0];
+    expect(channels.map((channel) => channel.id)).toEqual(['hook']);
+    expect(alerts[0].message).toBe('Vodafone withdrew 10GB SIM');
+    expect(scrapeId).toBe('scrape-1');
+    expect(insertAlertEvents).toHaveBeenCalledWith('scrape-1', alerts, deliveries);
+  });
+
+  it('skips delivery when nothing fired', async () => {
+    vi.mocked(getAlertSnapshots).mockResolvedValue({ previous: [plan], current: [plan] });
+
+    await expect(runAlerts('scrape-1')).resolves.toMatchObject({ rulesEvaluated: 1, alertsFired: 0 });
+    expect(deliverAlerts).not.toHaveBeenCalled();
+    expect(insertAlertEvents).not.toHaveBeenCalled();
+  });
+
+  it('does nothing without rules', async () => {
+    vi.mocked(getAlertConfig).mockReturnValue({ rules: [], channels: [] });
+
+    await expect(runAlerts('scrape-1')).resolves.toEqual({ rulesEvaluated: 0, alertsFired: 0, deliveries: [] });
+    expect(getAlertSnapshots).not.toHaveBeenCalled();
+  });
+
+  it('returns errors instead of throwing', async () => {
+    vi.mocked(getAlertConfig).mockImplementation(() => {
+      throw new Error('Invalid alert config: rules.0.maxPrice: Required');
+    });
+
+    await expect(runAlerts('scrape-1')).resolves.toMatchObject({
+      error: 'Invalid alert config: rules.0.maxPrice: Required',
+    });
+  });
+});
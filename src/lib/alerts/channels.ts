@@ -0,0 +1,167 @@
+/**
+ * Alert Channels
+ *
+ * Delivery targets for fired alerts. Each channel receives every alert of a
+ * scrape run in one message:
+ * - webhook: POST { scrapeId, alerts } as JSON to any URL
+ * - slack: POST { text } to a Slack-compatible incoming webhook
+ * - email: plain-text email over SMTP with TLS or STARTTLS (see ./smtp.ts)
+ */
+
+import { z } from 'zod';
+import { sendMail } from './smtp';
+import type { Alert } from './rules';
+
+const channelBase = {
+  /** Name shown in delivery results (e.g., "pricing-team-slack") */
+  id: z.string().min(1),
+};
+
+const WebhookChannelSchema = z.object({
+  ...channelBase,
+  type: z.literal('webhook'),
+  url: z.url(),
+  headers: z.record(z.string(), z.string()).optional(),
+});
+
+const SlackChannelSchema = z.object({
+  ...channelBase,
+  type: z.literal('slack'),
+  webhookUrl: z.url(),
+});
+
+const EmailChannelSchema = z.object({
+  ...channelBase,
+  type: z.literal('email'),
+  host: z.string().min(1),
+  port: z.number().int().positive().default(25),
+  secure: z.boolean().optional(),
+  user: z.string().optional(),
+  password: z.string().optional(),
+  from: z.string().min(1),
+  to: z.array(z.string().min(1)).min(1),
+});
+
+export const AlertChannelConfigSchema = z.discriminatedUnion('type', [
+  WebhookChannelSchema,
+  SlackChannelSchema,
+  EmailChannelSchema,
+]);
+
+export type AlertChannelConfig = z.infer<typeof AlertChannelConfigSchema>;
+export type AlertChannelType = AlertChannelConfig['type'];
+
+/**
+ * Outcome of sending a run's alerts to one channel
+ */
+export interface AlertDelivery {
+  channel: string;
+  status: 'sent' | 'failed';
+  error?: string;
+}
+
+export interface AlertChannel {
+  id: string;
+  type: AlertChannelType;
+  /**
+   * @throws Error if delivery fails
+   */
+  send(alerts: Alert[], scrapeId: string): Promise<void>;
+}
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * One-line summary for message titles ("3 price alerts from scrape abc")
+ */
+export function formatAlertSummary(alerts: Alert[], scrapeId: string): string {
+  return `${alerts.length} price ${alerts.length === 1 ? 'alert' : 'alerts'} from scrape ${scrapeId}`;
+}
+
+/**
+ * Plain-text list of alerts, one per line
+ */
+export function formatAlertText(alerts: Alert[]): string {
+  return alerts.map((alert) => `• ${alert.message} [${alert.rule_id}]`).join('\n');
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status} ${response.statusText}${text ? ` - ${text.slice(0, 200)}` : ''}`);
+  }
+}
+
+/**
+ * Build a channel from its config
+ */
+export function createAlertChannel(config: AlertChannelConfig): AlertChannel {
+  switch (config.type) {
+    case 'webhook':
+      return {
+        id: config.id,
+        type: config.type,
+        send: (alerts, scrapeId) => postJson(config.url, { scrapeId, alerts }, config.headers),
+      };
+    case 'slack':
+      return {
+        id: config.id,
+        type: config.type,
+        send: (alerts, scrapeId) =>
+          postJson(config.webhookUrl, {
+            text: `*${formatAlertSummary(alerts, scrapeId)}*\n${formatAlertText(alerts)}`,
+          }),
+      };
+    case 'email':
+      return {
+        id: config.id,
+        type: config.type,
+        send: (alerts, scrapeId) =>
+          sendMail(
+            {
+              host: config.host,
+              port: config.port,
+              secure: config.secure,
+              user: config.user,
+              password: config.password,
+            },
+            {
+              from: config.from,
+              to: config.to,
+              subject: formatAlertSummary(alerts, scrapeId),
+              text: `${formatAlertText(alerts)}\n`,
+            }
+          ),
+      };
+  }
+}
+
+/**
+ * Send alerts to every channel; a failing channel does not stop the others
+ *
+ * @returns One delivery result per channel
+ */
+export async function deliverAlerts(
+  channels: AlertChannel[],
+  alerts: Alert[],
+  scrapeId: string
+): Promise<AlertDelivery[]> {
+  const results = await Promise.allSettled(channels.map((channel) => channel.send(alerts, scrapeId)));
+
+  return results.map((result, index) =>
+    result.status === 'fulfilled'
+      ? { channel: channels[index].id, status: 'sent' }
+      : {
+          channel: channels[index].id,
+          status: 'failed',
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        }
+  );
+}
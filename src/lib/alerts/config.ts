@@ -0,0 +1,82 @@
+/**
+ * Alert Configuration
+ *
+ * Loads alert rules and delivery channels from a JSON file:
+ *
+ *   {
+ *     "rules": [{ "id": "cheap-unlimited", "type": "price_below", "maxPrice": 15, ... }],
+ *     "channels": [{ "id": "team-slack", "type": "slack", "webhookUrl": "https://..." }]
+ *   }
+ *
+ * read from ALERTS_FILE (default config/alerts.json, see
+ * config/alerts.example.json). The file may hold webhook URLs and SMTP
+ * credentials, so it is not committed. Without a file no alerts are evaluated.
+ * The file is read once per process.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { AlertRuleSchema } from './rules';
+import { AlertChannelConfigSchema } from './channels';
+
+/**
+ * Default alert config file (relative to the working directory)
+ */
+export const DEFAULT_ALERTS_FILE = path.join('config', 'alerts.json');
+
+export const AlertConfigSchema = z
+  .object({
+    rules: z.array(AlertRuleSchema).default([]),
+    channels: z.array(AlertChannelConfigSchema).default([]),
+  })
+  .refine((config) => new Set(config.rules.map((rule) => rule.id)).size === config.rules.length, {
+    message: 'Alert rule ids must be unique',
+  });
+
+export type AlertConfig = z.infer<typeof AlertConfigSchema>;
+
+/**
+ * Config used when no file exists
+ */
+export const EMPTY_ALERT_CONFIG: AlertConfig = { rules: [], channels: [] };
+
+let alertConfig: AlertConfig | null = null;
+
+/**
+ * Validate a parsed alert config file
+ *
+ * @throws Error listing the invalid fields
+ */
+export function parseAlertConfig(input: unknown): AlertConfig {
+  const result = AlertConfigSchema.safeParse(input);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid alert config: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Get the configured alert rules and channels
+ *
+ * @returns Config from ALERTS_FILE, or EMPTY_ALERT_CONFIG when the file does not exist
+ * @throws Error if the file is not a valid alert config
+ */
+export function getAlertConfig(): AlertConfig {
+  if (alertConfig) return alertConfig;
+
+  const file = path.resolve(process.env.ALERTS_FILE || DEFAULT_ALERTS_FILE);
+  alertConfig = fs.existsSync(file)
+    ? parseAlertConfig(JSON.parse(fs.readFileSync(file, 'utf-8')))
+    : EMPTY_ALERT_CONFIG;
+
+  return alertConfig;
+}
+
+/**
+ * Forget the loaded config (next getAlertConfig() reads the file again)
+ */
+export function resetAlertConfig(): void {
+  alertConfig = null;
+}
@@ -0,0 +1,323 @@
+/**
+ * Alert Rules
+ *
+ * Competitor price alerts evaluated after every scrape run. Each rule is a
+ * condition over the latest plans of every source (e.g., "a competitor has an
+ * Unlimited 24-month plan under £15"); an alert fires when a scrape makes the
+ * condition true, i.e. it held for the new batches but not for the batches
+ * they replaced. Alerts do not repeat while the condition stays true.
+ *
+ * Prices are compared in the reporting currency, VAT included (plans.price_pence).
+ */
+
+import { z } from 'zod';
+import { formatMoney, isCurrencyCode, type CurrencyCode } from '../scraping/currency';
+import { UNLIMITED_DATA_MB } from '../scraping/numeric-fields';
+
+/**
+ * Restricts a rule to some sources (plans.source, e.g., "Vodafone")
+ */
+const sourceFilter = {
+  /** Only these sources (all when omitted) */
+  sources: z.array(z.string().min(1)).optional(),
+  /** Never these sources (e.g., your own brand) */
+  excludeSources: z.array(z.string().min(1)).optional(),
+};
+
+const ruleBase = {
+  id: z.string().min(1),
+  /** Shown on the alert history page instead of the generated description */
+  description: z.string().optional(),
+};
+
+/**
+ * A plan's price drops below a threshold (or a new plan is listed below it)
+ */
+const PriceBelowRuleSchema = z.object({
+  ...ruleBase,
+  ...sourceFilter,
+  type: z.literal('price_below'),
+  /** Monthly price in the reporting currency (15 = £15.00) */
+  maxPrice: z.number().positive(),
+  unlimitedData: z.boolean().optional(),
+  minDataGb: z.number().nonnegative().optional(),
+  contractMonths: z.number().int().nonnegative().optional(),
+});
+
+/**
+ * A source's cheapest plan in a data tier is cheaper than the brand's cheapest
+ */
+const UndercutRuleSchema = z.object({
+  ...ruleBase,
+  ...sourceFilter,
+  type: z.literal('undercut'),
+  /** Brand being undercut (plans.source, e.g., "O2") */
+  brand: z.string().min(1),
+  contractMonths: z.number().int().nonnegative().optional(),
+});
+
+/**
+ * A plan listed in a source's previous scrape is missing from its new one
+ * (plans on pages that failed in a partial scrape are not missing, see getAlertSnapshots)
+ */
+const PlanWithdrawnRuleSchema = z.object({
+  ...ruleBase,
+  ...sourceFilter,
+  type: z.literal('plan_withdrawn'),
+});
+
+export const AlertRuleSchema = z.discriminatedUnion('type', [
+  PriceBelowRuleSchema,
+  UndercutRuleSchema,
+  PlanWithdrawnRuleSchema,
+]);
+
+export type AlertRule = z.infer<typeof AlertRuleSchema>;
+export type AlertRuleType = AlertRule['type'];
+export type PriceBelowRule = z.infer<typeof PriceBelowRuleSchema>;
+export type UndercutRule = z.infer<typeof UndercutRuleSchema>;
+export type PlanWithdrawnRule = z.infer<typeof PlanWithdrawnRuleSchema>;
+
+/**
+ * A stored plan as seen by the rules (typed columns of plans)
+ */
+export interface AlertPlan {
+  source: string;
+  plan_key: string;
+  name: string | null;
+  price_pence: number | null;
+  currency: string | null;
+  data_mb: number | null;
+  contract_months: number | null;
+}
+
+/**
+ * A rule that became true
+ */
+export interface Alert {
+  rule_id: string;
+  rule_type: AlertRuleType;
+  source: string;
+  plan_key: string | null;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+/**
+ * "Unlimited", "30GB", "500MB"
+ */
+export function formatDataMb(dataMb: number | null): string {
+  if (dataMb === null) return 'Unknown data';
+  if (dataMb === UNLIMITED_DATA_MB) return 'Unlimited';
+  return dataMb >= 1000 ? `${dataMb / 1000}GB` : `${dataMb}MB`;
+}
+
+function formatPence(pence: number, currency: string | null): string {
+  return formatMoney(pence / 100, isCurrencyCode(currency) ? currency : 'GBP');
+}
+
+function matchesSource(rule: AlertRule, source: string): boolean {
+  if (rule.sources && !rule.sources.includes(source)) return false;
+  return !rule.excludeSources?.includes(source);
+}
+
+/**
+ * Summary of what a rule watches, for the dashboard
+ *
+ * @param rule - Alert rule
+ * @param currency - Reporting currency (maxPrice is in this currency)
+ */
+export function describeRule(rule: AlertRule, currency: CurrencyCode = 'GBP'): string {
+  if (rule.description) return rule.description;
+
+  const scope = rule.sources ? rule.sources.join(', ') : 'Any source';
+  const excluded = rule.excludeSources ? ` except ${rule.excludeSources.join(', ')}` : '';
+
+  switch (rule.type) {
+    case 'price_below': {
+      const data = rule.unlimitedData
+        ? ' Unlimited'
+        : rule.minDataGb !== undefined
+          ? ` ${rule.minDataGb}GB+`
+          : '';
+      const term = rule.contractMonths !== undefined ? ` ${rule.contractMonths}-month` : '';
+      return `${scope}${excluded} lists a${term}${data} plan below ${formatMoney(rule.maxPrice, currency)}`;
+    }
+    case 'undercut': {
+      const term = rule.contractMonths !== undefined ? ` (${rule.contractMonths}-month plans)` : '';
+      return `${scope}${excluded} undercuts ${rule.brand} in a data tier${term}`;
+    }
+    case 'plan_withdrawn':
+      return `${scope}${excluded} withdraws a plan`;
+  }
+}
+
+// ----------------------------------------------------------------------------
+// price_below
+// ----------------------------------------------------------------------------
+
+function isBelowPrice(rule: PriceBelowRule, plan: AlertPlan): boolean {
+  if (!matchesSource(rule, plan.source) || plan.price_pence === null) return false;
+  if (rule.unlimitedData && plan.data_mb !== UNLIMITED_DATA_MB) return false;
+  if (rule.minDataGb !== undefined && (plan.data_mb === null || plan.data_mb < rule.minDataGb * 1000)) {
+    return false;
+  }
+  if (rule.contractMonths !== undefined && plan.contract_months !== rule.contractMonths) return false;
+  return plan.price_pence < Math.round(rule.maxPrice * 100);
+}
+
+function evaluatePriceBelow(rule: PriceBelowRule, previous: AlertPlan[], current: AlertPlan[]): Alert[] {
+  const alreadyBelow = new Set(
+    previous.filter((plan) => isBelowPrice(rule, plan)).map((plan) => `${plan.source}|${plan.plan_key}`)
+  );
+  const thresholdPence = Math.round(rule.maxPrice * 100);
+
+  return current
+    .filter((plan) => isBelowPrice(rule, plan) && !alreadyBelow.has(`${plan.source}|${plan.plan_key}`))
+    .map((plan) => {
+      const before = previous.find((p) => p.source === plan.source && p.plan_key === plan.plan_key);
+
+      return {
+        rule_id: rule.id,
+        rule_type: rule.type,
+        source: plan.source,
+        plan_key: plan.plan_key,
+        message:
+          `${plan.source} ${plan.name ?? plan.plan_key} is ${formatPence(plan.price_pence!, plan.currency)}` +
+          `, below ${formatPence(thresholdPence, plan.currency)}` +
+          (!before
+            ? ' (new plan)'
+            : before.price_pence !== null
+              ? ` (was ${formatPence(before.price_pence, before.currency)})`
+              : ''),
+        details: {
+          price_pence: plan.price_pence,
+          previous_price_pence: before?.price_pence ?? null,
+          threshold_pence: thresholdPence,
+          data_mb: plan.data_mb,
+          contract_months: plan.contract_months,
+        },
+      };
+    });
+}
+
+// ----------------------------------------------------------------------------
+// undercut
+// ----------------------------------------------------------------------------
+
+interface Undercut {
+  source: string;
+  data_mb: number;
+  price_pence: number;
+  plan_key: string;
+  brand_price_pence: number;
+  currency: string | null;
+}
+
+/**
+ * Cheapest priced plan per "source|data_mb"
+ */
+function cheapestByTier(plans: AlertPlan[]): Map<string, AlertPlan> {
+  const cheapest = new Map<string, AlertPlan>();
+  for (const plan of plans) {
+    if (plan.price_pence === null || plan.data_mb === null) continue;
+    const key = `${plan.source}|${plan.data_mb}`;
+    const best = cheapest.get(key);
+    if (!best || plan.price_pence < best.price_pence!) cheapest.set(key, plan);
+  }
+  return cheapest;
+}
+
+function findUndercuts(rule: UndercutRule, plans: AlertPlan[]): Map<string, Undercut> {
+  const inTerm = plans.filter(
+    (plan) => rule.contractMonths === undefined || plan.contract_months === rule.contractMonths
+  );
+  const cheapest = cheapestByTier(inTerm);
+  const undercuts = new Map<string, Undercut>();
+
+  for (const [key, plan] of cheapest) {
+    if (plan.source === rule.brand || !matchesSource(rule, plan.source)) continue;
+
+    const brandPlan = cheapest.get(`${rule.brand}|${plan.data_mb}`);
+    if (brandPlan && plan.price_pence! < brandPlan.price_pence!) {
+      undercuts.set(key, {
+        source: plan.source,
+        data_mb: plan.data_mb!,
+        price_pence: plan.price_pence!,
+        plan_key: plan.plan_key,
+        brand_price_pence: brandPlan.price_pence!,
+        currency: plan.currency,
+      });
+    }
+  }
+
+  return undercuts;
+}
+
+function evaluateUndercut(rule: UndercutRule, previous: AlertPlan[], current: AlertPlan[]): Alert[] {
+  const before = findUndercuts(rule, previous);
+
+  return [...findUndercuts(rule, current)]
+    .filter(([key]) => !before.has(key))
+    .map(([, undercut]) => ({
+      rule_id: rule.id,
+      rule_type: rule.type,
+      source: undercut.source,
+      plan_key: undercut.plan_key,
+      message:
+        `${undercut.source} undercuts ${rule.brand} on ${formatDataMb(undercut.data_mb)}: ` +
+        `${formatPence(undercut.price_pence, undercut.currency)} vs ` +
+        `${formatPence(undercut.brand_price_pence, undercut.currency)}`,
+      details: {
+        brand: rule.brand,
+        data_mb: undercut.data_mb,
+        price_pence: undercut.price_pence,
+        brand_price_pence: undercut.brand_price_pence,
+        contract_months: rule.contractMonths ?? null,
+      },
+    }));
+}
+
+// ----------------------------------------------------------------------------
+// plan_withdrawn
+// ----------------------------------------------------------------------------
+
+function evaluatePlanWithdrawn(rule: PlanWithdrawnRule, previous: AlertPlan[], current: AlertPlan[]): Alert[] {
+  const listed = new Set(current.map((plan) => `${plan.source}|${plan.plan_key}`));
+
+  return previous
+    .filter((plan) => matchesSource(rule, plan.source) && !listed.has(`${plan.source}|${plan.plan_key}`))
+    .map((plan) => ({
+      rule_id: rule.id,
+      rule_type: rule.type,
+      source: plan.source,
+      plan_key: plan.plan_key,
+      message: `${plan.source} withdrew ${plan.name ?? plan.plan_key}`,
+      details: {
+        last_price_pence: plan.price_pence,
+        data_mb: plan.data_mb,
+        contract_months: plan.contract_months,
+      },
+    }));
+}
+
+/**
+ * Evaluate rules against the plans before and after a scrape run
+ *
+ * @param rules - Configured alert rules
+ * @param previous - Latest plans of every source before the run
+ * @param current - Latest plans of every source after the run
+ * @returns Alerts for conditions the run made true
+ */
+export function evaluateAlertRules(rules: AlertRule[], previous: AlertPlan[], current: AlertPlan[]): Alert[] {
+  return rules.flatMap((rule) => {
+    switch (rule.type) {
+      case 'price_below':
+        return evaluatePriceBelow(rule, previous, current);
+      case 'undercut':
+        return evaluateUndercut(rule, previous, current);
+      case 'plan_withdrawn':
+        return evaluatePlanWithdrawn(rule, previous, current);
+    }
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Alert Run
+ *
+ * Evaluates the configured alert rules after a scrape run, delivers fired
+ * alerts to every channel and stores them for the alert history page.
+ */
+
+import { getAlertConfig } from './config';
+import { evaluateAlertRules } from './rules';
+import { createAlertChannel, deliverAlerts, type AlertDelivery } from './channels';
+import { getAlertSnapshots, insertAlertEvents } from '../db/alerts';
+import { logger } from '../utils/logger';
+
+export interface AlertRunSummary {
+  rulesEvaluated: number;
+  alertsFired: number;
+  deliveries: AlertDelivery[];
+  /** Set when alerts could not be evaluated, delivered or stored */
+  error?: string;
+}
+
+/**
+ * Evaluate alert rules for a finished scrape run
+ *
+ * Best-effort: errors (invalid config, database, delivery) are logged and
+ * returned in the summary, never thrown, so alerting cannot fail a scrape.
+ *
+ * @param scrapeId - Scrape run that just finished (matches plans.scrape_id)
+ */
+export async function runAlerts(scrapeId: string): Promise<AlertRunSummary> {
+  const summary: AlertRunSummary = { rulesEvaluated: 0, alertsFired: 0, deliveries: [] };
+
+  try {
+    const config = getAlertConfig();
+    if (config.rules.length === 0) return summary;
+
+    const { previous, current } = await getAlertSnapshots(scrapeId);
+    const alerts = evaluateAlertRules(config.rules, previous, current);
+    summary.rulesEvaluated = config.rules.length;
+    summary.alertsFired = alerts.length;
+
+    if (alerts.length === 0) {
+      logger.info({ scrapeId, rules: config.rules.length }, 'No alerts fired');
+      return summary;
+    }
+
+    summary.deliveries = await deliverAlerts(config.channels.map(createAlertChannel), alerts, scrapeId);
+    await insertAlertEvents(scrapeId, alerts, summary.deliveries);
+
+    const failed = summary.deliveries.filter((delivery) => delivery.status === 'failed');
+    if (failed.length > 0) {
+      logger.warn({ scrapeId, alertCount: alerts.length, failed }, 'Some alert deliveries failed');
+    } else {
+      logger.info(
+        { scrapeId, alertCount: alerts.length, channels: summary.deliveries.length },
+        'Alerts fired and delivered'
+      );
+    }
+
+    return summary;
+  } catch (error) {
+    summary.error = error instanceof Error ? error.message : 'Unknown error';
+    logger.error({ scrapeId, error: summary.error }, 'Failed to evaluate alerts');
+    return summary;
+  }
+}
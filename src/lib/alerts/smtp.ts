@@ -0,0 +1,65 @@
+/**
+ * SMTP Delivery
+ *
+ * Sends a plain-text email for the email alert channel through nodemailer.
+ * With `secure` the connection uses implicit TLS (usually port 465);
+ * otherwise it is upgraded with STARTTLS when the server offers it (usually
+ * port 587). Credentials are never sent over an unencrypted connection:
+ * with a user set, a server that does not offer STARTTLS is refused.
+ */
+
+import nodemailer from 'nodemailer';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Connect with TLS (implicit TLS, e.g. port 465); STARTTLS otherwise */
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  /** Connection, greeting and socket inactivity timeout (default 10s) */
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Send an email
+ *
+ * @throws Error if the connection fails, TLS is required but unavailable,
+ *   or the server rejects the message
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const secure = options.secure ?? false;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure,
+    // AUTH only after STARTTLS: fail instead of sending credentials in clear text
+    requireTLS: Boolean(options.user) && !secure,
+    auth: options.user ? { user: options.user, pass: options.password ?? '' } : undefined,
+    connectionTimeout: timeoutMs,
+    greetingTimeout: timeoutMs,
+    socketTimeout: timeoutMs,
+  });
+
+  try {
+    await transport.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  } finally {
+    transport.close();
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildPlanChangeLog, getPlanHistory, type PlanHistoryPoint } from '../plan-history';
+
+const mockQuery = vi.fn();
+
+vi.mock('@/lib/db/connection', () => ({
+  getPool: () => ({ query: mockQuery }),
+}));
+
+const point = (day: number, fields: Partial<PlanHistoryPoint> = {}): PlanHistoryPoint => ({
+  id: `p-${day}`,
+  scrape_id: `evt-${day}`,
+  scrape_timestamp: new Date(Date.UTC(2026, 9, day)),
+  price_pence: 1000,
+  price_ex_vat_pence: 833,
+  currency: 'GBP',
+  data_mb: 10000,
+  contract_months: 12,
+  name: '10GB',
+  price: '£10.00',
+  data_allowance: '10GB',
+  contract_term: '12 months',
+  was_price: null,
+  promo_price: null,
+  promo_months: null,
+  promo_end_date: null,
+  offer_text: null,
+  effective_monthly_price: '£10.00',
+  ...fields,
+});
+
+describe('buildPlanChangeLog', () => {
+  it('lists changed fields between consecutive scrapes, newest first', () => {
+    const points = [
+      point(1),
+      point(2),
+      point(3, { price: '£8.00', was_price: '£10.00', effective_monthly_price: '£8.00' }),
+      point(4, { price: '£8.00', was_price: '£10.00', effective_monthly_price: '£8.00', data_allowance: '20GB' }),
+    ];
+
+    expect(buildPlanChangeLog(points)).toEqual([
+      { scrape_timestamp: points[3].scrape_timestamp, field: 'data_allowance', from: '10GB', to: '20GB' },
+      { scrape_timestamp: points[2].scrape_timestamp, field: 'price', from: '£10.00', to: '£8.00' },
+      { scrape_timestamp: points[2].scrape_timestamp, field: 'was_price', from: null, to: '£10.00' },
+      { scrape_timestamp: points[2].scrape_timestamp, field: 'effective_monthly_price', from: '£10.00', to: '£8.00' },
+    ]);
+  });
+
+  it('has no changes for a single scrape', () => {
+    expect(buildPlanChangeLog([point(1)])).toEqual([]);
+  });
+});
+
+describe('getPlanHistory', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it('queries by plan key with the window and limit', async () => {
+    mockQuery.mockResolvedValue({ rows: [{ ...point(1), source: 'O2' }, { ...point(2), source: 'O2' }] });
+    const since = new Date('2026-09-01');
+
+    const history = await getPlanHistory('O2-10GB-12months', { since, limit: 50 });
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain('FROM plan_observations');
+    expect(sql).toContain('WHERE plan_key = $1');
+    expect(params).toEqual(['O2-10GB-12months', since, 50]);
+    expect(history).toMatchObject({ plan_key: 'O2-10GB-12months', source: 'O2', changes: [] });
+    expect(history?.points).toHaveLength(2);
+    expect(history?.points[0]).not.toHaveProperty('source');
+  });
+
+  it('returns null for an unknown plan', async () => {
+    mockQuery.mockResolvedValue({ rows: [] });
+
+    await expect(getPlanHistory('Nope')).resolves.toBeNull();
+  });
+});
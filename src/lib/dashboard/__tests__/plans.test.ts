@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getLatestPlans } from '../plans';
+
+const mockQuery = vi.fn();
+
+vi.mock('@/lib/db/connection', () => ({
+  getPool: () => ({ query: mockQuery }),
+}));
+
+describe('getLatestPlans', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ rows: [] });
+  });
+
+  it('returns the latest plan per key sorted by price', async () => {
+    const rows = [{ id: '1', source: 'O2', plan_key: 'O2-10GB-12months', price_pence: 1000 }];
+    mockQuery.mockResolvedValue({ rows });
+
+    await expect(getLatestPlans()).resolves.toEqual(rows);
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain('DISTINCT ON (source, plan_key)');
+    expect(sql).toContain('ORDER BY price_pence ASC NULLS LAST');
+    expect(sql).not.toContain('WHERE');
+    expect(params).toEqual([]);
+  });
+
+  it('filters on the typed columns in SQL', async () => {
+    await getLatestPlans({ sources: ['O2', 'Three'], maxPricePence: 1500, minDataMb: 50000, contractMonths: 0 });
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain(
+      'WHERE source = ANY($1) AND price_pence <= $2 AND data_mb >= $3 AND contract_months = $4'
+    );
+    expect(params).toEqual([['O2', 'Three'], 1500, 50000, 0]);
+  });
+
+  it('filters and sorts on the ex-VAT price', async () => {
+    await getLatestPlans({ minPricePence: 500, vatBasis: 'ex' });
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain('WHERE price_ex_vat_pence >= $1');
+    expect(sql).toContain('ORDER BY price_ex_vat_pence ASC NULLS LAST');
+    expect(params).toEqual([500]);
+  });
+
+  it('limits plans to a dataset snapshot', async () => {
+    await getLatestPlans({ snapshotId: 'snapshot-1', sources: ['O2'] });
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain('FROM dataset_snapshot_plans');
+    expect(sql).toContain('WHERE snapshot_id = $1');
+    expect(sql).not.toMatch(/FROM plans\s/);
+    expect(sql).toContain('WHERE source = ANY($2)');
+    expect(params).toEqual(['snapshot-1', ['O2']]);
+  });
+});
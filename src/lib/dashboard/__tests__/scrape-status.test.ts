@@ -7,6 +7,23 @@ vi.mock('@/lib/db/connection', () => ({
   query: vi.fn(),
 }));
 
+/**
+ * Mock the global MAX(scrape_timestamp) query followed by the per-source ledger query
+ */
+function mockQueries(latestScrape: string | null, sourceRows: Record<string, unknown>[] = []) {
+  const result = (rows: Record<string, unknown>[]) => ({
+    rows,
+    command: 'SELECT',
+    rowCount: rows.length,
+    oid: 0,
+    fields: [],
+  });
+
+  vi.mocked(dbConnection.query)
+    .mockResolvedValueOnce(result([{ latest_scrape: latestScrape }]))
+    .mockResolvedValueOnce(result(sourceRows));
+}
+
 describe('getScrapeStatus', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -17,13 +34,7 @@ describe('getScrapeStatus', () => {
   });
 
   it('should return no-data status when no scrapes exist', async () => {
-    vi.mocked(dbConnection.query).mockResolvedValue({
-      rows: [{ latest_scrape: null }],
-      command: 'SELECT',
-      rowCount: 1,
-      oid: 0,
-      fields: [],
-    });
+    mockQueries(null);
 
     const result = await getScrapeStatus();
 
@@ -32,19 +43,14 @@ describe('getScrapeStatus', () => {
       hoursAgo: null,
       status: 'no-data',
       statusColor: 'gray',
+      sources: [],
     });
   });
 
   it('should return fresh status for data less than 24 hours old', async () => {
     const twentyHoursAgo = new Date(Date.now() - 20 * 60 * 60 * 1000);
 
-    vi.mocked(dbConnection.query).mockResolvedValue({
-      rows: [{ latest_scrape: twentyHoursAgo.toISOString() }],
-      command: 'SELECT',
-      rowCount: 1,
-      oid: 0,
-      fields: [],
-    });
+    mockQueries(twentyHoursAgo.toISOString());
 
     const result = await getScrapeStatus();
 
@@ -57,13 +63,7 @@ describe('getScrapeStatus', () => {
   it('should return stale status for data between 24-48 hours old', async () => {
     const thirtyHoursAgo = new Date(Date.now() - 30 * 60 * 60 * 1000);
 
-    vi.mocked(dbConnection.query).mockResolvedValue({
-      rows: [{ latest_scrape: thirtyHoursAgo.toISOString() }],
-      command: 'SELECT',
-      rowCount: 1,
-      oid: 0,
-      fields: [],
-    });
+    mockQueries(thirtyHoursAgo.toISOString());
 
     const result = await getScrapeStatus();
 
@@ -75,13 +75,7 @@ describe('getScrapeStatus', () => {
   it('should return very-stale status for data more than 48 hours old', async () => {
     const seventyTwoHoursAgo = new Date(Date.now() - 72 * 60 * 60 * 1000);
 
-    vi.mocked(dbConnection.query).mockResolvedValue({
-      rows: [{ latest_scrape: seventyTwoHoursAgo.toISOString() }],
-      command: 'SELECT',
-      rowCount: 1,
-      oid: 0,
-      fields: [],
-    });
+    mockQueries(seventyTwoHoursAgo.toISOString());
 
     const result = await getScrapeStatus();
 
@@ -90,6 +84,74 @@ describe('getScrapeStatus', () => {
     expect(result.hoursAgo).toBe(72);
   });
 
+  it('should report the latest outcome per source from the run ledger', async () => {
+    const sixDaysAgo = new Date(Date.now() - 6 * 24 * 60 * 60 * 1000);
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+
+    mockQueries(oneHourAgo.toISOString(), [
+      {
+        collector_id: 'vodafone',
+        source: 'Vodafone',
+        last_attempt_at: oneHourAgo.toISOString(),
+        last_status: 'failed',
+        last_error: 'Navigation timeout',
+        last_plans_collected: 0,
+        last_succeeded_at: sixDaysAgo.toISOString(),
+      },
+      {
+        collector_id: 'tesco',
+        source: 'Tesco',
+        last_attempt_at: oneHourAgo.toISOString(),
+        last_status: 'failed',
+        last_error: 'No plans found',
+        last_plans_collected: '0',
+        last_succeeded_at: null,
+      },
+    ]);
+
+    const result = await getScrapeStatus();
+
+    expect(result.sources).toHaveLength(2);
+    expect(result.sources[0]).toEqual({
+      collectorId: 'vodafone',
+      source: 'Vodafone',
+      lastAttemptAt: oneHourAgo,
+      lastStatus: 'failed',
+      lastError: 'Navigation timeout',
+      lastSucceededAt: sixDaysAgo,
+      hoursSinceSuccess: 144,
+      lastPlansCollected: 0,
+      lastNormalizationReport: null,
+    });
+    expect(result.sources[1].lastSucceededAt).toBeNull();
+    expect(result.sources[1].hoursSinceSuccess).toBeNull();
+  });
+
+  it('should include the normalization report of the latest run', async () => {
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    const report = {
+      plansNormalized: 20,
+      unparsed: [{ field: 'data_allowance', value: '20GB+', count: 3 }],
+    };
+
+    mockQueries(oneHourAgo.toISOString(), [
+      {
+        collector_id: 'o2',
+        source: 'O2',
+        last_attempt_at: oneHourAgo.toISOString(),
+        last_status: 'success',
+        last_error: null,
+        last_plans_collected: 20,
+        last_succeeded_at: oneHourAgo.toISOString(),
+        last_normalization_report: report,
+      },
+    ]);
+
+    const result = await getScrapeStatus();
+
+    expect(result.sources[0].lastNormalizationReport).toEqual(report);
+  });
+
   it('should throw error when database query fails', async () => {
     vi.mocked(dbConnection.query).mockRejectedValue(new Error('Database error'));
 
@@ -0,0 +1,172 @@
+/**
+ * Plan History
+ *
+ * Time series of one plan across scrapes (every batch a version with its
+ * plan_key was seen in, oldest first) and the log of what changed between
+ * consecutive scrapes. Reads plan_observations (migration 017), so compacted
+ * versions still give one point per scrape.
+ */
+
+import { getPool } from '@/lib/db/connection';
+
+/**
+ * One scrape of a plan
+ */
+export interface PlanHistoryPoint {
+  id: string;
+  scrape_id: string | null;
+  scrape_timestamp: Date;
+  // Typed columns (see src/lib/scraping/numeric-fields.ts)
+  price_pence: number | null;
+  price_ex_vat_pence: number | null;
+  currency: string | null;
+  data_mb: number | null;
+  contract_months: number | null;
+  // Normalized plan_data fields
+  name: string | null;
+  price: string | null;
+  data_allowance: string | null;
+  contract_term: string | null;
+  was_price: string | null;
+  promo_price: string | null;
+  promo_months: number | null;
+  promo_end_date: string | null;
+  offer_text: string | null;
+  effective_monthly_price: string | null;
+}
+
+/**
+ * Fields compared between consecutive scrapes for the change log
+ */
+export const TRACKED_HISTORY_FIELDS = [
+  'price',
+  'data_allowance',
+  'contract_term',
+  'was_price',
+  'promo_price',
+  'promo_months',
+  'promo_end_date',
+  'offer_text',
+  'effective_monthly_price',
+] as const;
+
+export type TrackedHistoryField = (typeof TRACKED_HISTORY_FIELDS)[number];
+
+/**
+ * A field that changed from one scrape to the next
+ */
+export interface PlanHistoryChange {
+  /** Scrape the new value was first seen in */
+  scrape_timestamp: Date;
+  field: TrackedHistoryField;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export interface PlanHistory {
+  plan_key: string;
+  source: string;
+  /** Oldest first */
+  points: PlanHistoryPoint[];
+  /** Newest first */
+  changes: PlanHistoryChange[];
+}
+
+export interface PlanHistoryOptions {
+  /** Only scrapes at or after this time */
+  since?: Date;
+  /** Most recent scrapes to return (default 500) */
+  limit?: number;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 500;
+
+/**
+ * List the field changes between consecutive points
+ *
+ * @param points - Scrapes of one plan, oldest first
+ * @returns Changes, newest first
+ */
+export function buildPlanChangeLog(points: PlanHistoryPoint[]): PlanHistoryChange[] {
+  const changes: PlanHistoryChange[] = [];
+
+  for (let i = points.length - 1; i > 0; i--) {
+    const previous = points[i - 1];
+    const current = points[i];
+
+    for (const field of TRACKED_HISTORY_FIELDS) {
+      if (previous[field] !== current[field]) {
+        changes.push({
+          scrape_timestamp: current.scrape_timestamp,
+          field,
+          from: previous[field],
+          to: current[field],
+        });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Fetch the history of a plan
+ *
+ * @param planKey - plan_key (includes the source, e.g., "O2-10GB-12months")
+ * @param options - Time window and maximum number of scrapes
+ * @returns History, or null when no plan has this key
+ * @throws Error if database query fails
+ */
+export async function getPlanHistory(
+  planKey: string,
+  options: PlanHistoryOptions = {}
+): Promise<PlanHistory | null> {
+  const pool = getPool();
+  const { since, limit = DEFAULT_HISTORY_LIMIT } = options;
+
+  // Newest rows within the limit, returned oldest first for charting
+  const result = await pool.query<PlanHistoryPoint & { source: string }>(
+    `
+    SELECT * FROM (
+      SELECT
+        id,
+        source,
+        scrape_id,
+        scrape_timestamp,
+        price_pence,
+        price_ex_vat_pence,
+        currency,
+        data_mb,
+        contract_months,
+        plan_data->>'name' AS name,
+        plan_data->>'price' AS price,
+        plan_data->>'data_allowance' AS data_allowance,
+        plan_data->>'contract_term' AS contract_term,
+        plan_data->>'was_price' AS was_price,
+        plan_data->>'promo_price' AS promo_price,
+        (plan_data->>'promo_months')::INTEGER AS promo_months,
+        plan_data->>'promo_end_date' AS promo_end_date,
+        plan_data->>'offer_text' AS offer_text,
+        plan_data->>'effective_monthly_price' AS effective_monthly_price
+      FROM plan_observations
+      WHERE plan_key = $1
+        AND ($2::TIMESTAMPTZ IS NULL OR scrape_timestamp >= $2)
+      ORDER BY scrape_timestamp DESC
+      LIMIT $3
+    ) recent
+    ORDER BY scrape_timestamp ASC
+  `,
+    [planKey, since ?? null, limit]
+  );
+
+  if (result.rows.length === 0) return null;
+
+  const points = result.rows.map(({ source: _source, ...point }) => point);
+
+  return {
+    plan_key: planKey,
+    source: result.rows[result.rows.length - 1].source,
+    points,
+    changes: buildPlanChangeLog(points),
+  };
+}
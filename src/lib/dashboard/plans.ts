@@ -10,26 +10,97 @@
 import { getPool } from '@/lib/db/connection';
 import type { Plan } from '@/types/database';
 
+/**
+ * Price column filtered and sorted on: VAT included (price_pence) or excluded (price_ex_vat_pence)
+ */
+export type VatBasis = 'inc' | 'ex';
+
+/**
+ * Filters on the typed plan columns (see src/lib/scraping/numeric-fields.ts)
+ * Bounds are inclusive. Plans with an unknown value are excluded by a filter on it.
+ * Prices are in pence of the reporting currency.
+ */
+export interface LatestPlanFilters {
+  sources?: string[];
+  minPricePence?: number;
+  maxPricePence?: number;
+  /** Whether the price bounds include VAT (default 'inc') */
+  vatBasis?: VatBasis;
+  minDataMb?: number;
+  maxDataMb?: number;
+  contractMonths?: number;
+  /** Only consider plans frozen in this dataset snapshot (see src/lib/db/snapshots.ts) */
+  snapshotId?: string;
+}
+
 /**
  * Fetches the latest version of all plans using DISTINCT ON pattern.
  * Only returns the most recent scrape for each unique plan (source + plan_key).
  *
+ * Filters apply to the latest version, so an older scrape of a plan that no
+ * longer matches is never returned. Results are sorted by price (unknown last).
+ * With a snapshotId, "latest" is taken within the snapshot's frozen plans,
+ * as copied when it was created.
+ *
+ * @param filters - Optional snapshot and filters on source, price (VAT included or excluded), data and contract term
  * @returns Array of latest plans
  * @throws Error if database query fails
  */
-export async function getLatestPlans(): Promise<Plan[]> {
+export async function getLatestPlans(filters: LatestPlanFilters = {}): Promise<Plan[]> {
   const pool = getPool();
 
-  const result = await pool.query<Plan>(`
-    SELECT DISTINCT ON (source, plan_key)
-      id,
-      source,
-      plan_key,
-      plan_data,
-      scrape_timestamp
-    FROM plans
-    ORDER BY source, plan_key, scrape_timestamp DESC
-  `);
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const addCondition = (sql: string, value: unknown) => {
+    params.push(value);
+    conditions.push(sql.replace('?', `$${params.length}`));
+  };
+
+  // A snapshot's plans are read from the copies taken when it was created
+  let planRows = 'plans';
+  if (filters.snapshotId) {
+    params.push(filters.snapshotId);
+    planRows = `(
+      SELECT plan_id AS id, source, plan_key, plan_data, scrape_timestamp AS last_seen, price_pence, data_mb,
+        contract_months, currency, price_ex_vat_pence, listed_currency, vat_included
+      FROM dataset_snapshot_plans
+      WHERE snapshot_id = $${params.length}
+    ) plans`;
+  }
+
+  const priceColumn = filters.vatBasis === 'ex' ? 'price_ex_vat_pence' : 'price_pence';
+
+  if (filters.sources?.length) addCondition('source = ANY(?)', filters.sources);
+  if (filters.minPricePence !== undefined) addCondition(`${priceColumn} >= ?`, filters.minPricePence);
+  if (filters.maxPricePence !== undefined) addCondition(`${priceColumn} <= ?`, filters.maxPricePence);
+  if (filters.minDataMb !== undefined) addCondition('data_mb >= ?', filters.minDataMb);
+  if (filters.maxDataMb !== undefined) addCondition('data_mb <= ?', filters.maxDataMb);
+  if (filters.contractMonths !== undefined) addCondition('contract_months = ?', filters.contractMonths);
+
+  const result = await pool.query<Plan>(
+    `
+    SELECT * FROM (
+      SELECT DISTINCT ON (source, plan_key)
+        id,
+        source,
+        plan_key,
+        plan_data,
+        last_seen AS scrape_timestamp,
+        price_pence,
+        data_mb,
+        contract_months,
+        currency,
+        price_ex_vat_pence,
+        listed_currency,
+        vat_included
+      FROM ${planRows}
+      ORDER BY source, plan_key, last_seen DESC
+    ) latest
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY ${priceColumn} ASC NULLS LAST, source, plan_key
+  `,
+    params
+  );
 
   return result.rows;
 }
@@ -1,12 +1,74 @@
 import { query } from '@/lib/db/connection';
+import type { NormalizationReport } from '@/lib/scraping/normalization-report';
 
 export type ScrapeStatus = {
   timestamp: Date | null;
   hoursAgo: number | null;
   status: 'fresh' | 'stale' | 'very-stale' | 'no-data';
   statusColor: 'green' | 'yellow' | 'red' | 'gray';
+  sources: SourceScrapeStatus[];
 };
 
+/**
+ * Latest ledger outcome for one collector (from scrape_run_sources)
+ */
+export type SourceScrapeStatus = {
+  collectorId: string;
+  source: string;
+  lastAttemptAt: Date;
+  lastStatus: 'success' | 'failed';
+  lastError: string | null;
+  lastSucceededAt: Date | null;
+  hoursSinceSuccess: number | null;
+  lastPlansCollected: number;
+  /** Unparsed values from the latest run (null for runs before the report existed) */
+  lastNormalizationReport: NormalizationReport | null;
+};
+
+/**
+ * Whole hours between a timestamp and now
+ */
+function hoursSince(timestamp: Date): number {
+  return Math.floor((Date.now() - timestamp.getTime()) / (1000 * 60 * 60));
+}
+
+/**
+ * Get the latest outcome of every collector from the scrape run ledger
+ * e.g., "Vodafone last succeeded 6 days ago, last run failed: timeout"
+ */
+export async function getSourceScrapeStatuses(): Promise<SourceScrapeStatus[]> {
+  const result = await query(`
+    SELECT
+      collector_id,
+      (ARRAY_AGG(source ORDER BY started_at DESC))[1] AS source,
+      MAX(started_at) AS last_attempt_at,
+      (ARRAY_AGG(status ORDER BY started_at DESC))[1] AS last_status,
+      (ARRAY_AGG(error ORDER BY started_at DESC))[1] AS last_error,
+      (ARRAY_AGG(plans_collected ORDER BY started_at DESC))[1] AS last_plans_collected,
+      (ARRAY_AGG(normalization_report ORDER BY started_at DESC))[1] AS last_normalization_report,
+      MAX(finished_at) FILTER (WHERE status = 'success') AS last_succeeded_at
+    FROM scrape_run_sources
+    GROUP BY collector_id
+    ORDER BY source
+  `);
+
+  return result.rows.map((row) => {
+    const lastSucceededAt = row.last_succeeded_at ? new Date(row.last_succeeded_at) : null;
+
+    return {
+      collectorId: row.collector_id,
+      source: row.source,
+      lastAttemptAt: new Date(row.last_attempt_at),
+      lastStatus: row.last_status,
+      lastError: row.last_error,
+      lastSucceededAt,
+      hoursSinceSuccess: lastSucceededAt ? hoursSince(lastSucceededAt) : null,
+      lastPlansCollected: Number(row.last_plans_collected),
+      lastNormalizationReport: row.last_normalization_report ?? null,
+    };
+  });
+}
+
 /**
  * Get the latest scrape timestamp and calculate data freshness
  * Status indicators:
@@ -14,15 +76,18 @@ export type ScrapeStatus = {
  * - Yellow (stale): data 24-48 hours old
  * - Red (very-stale): data >48 hours old
  * - Gray (no-data): no scrapes found
+ *
+ * Per-source outcomes come from the scrape run ledger (see getSourceScrapeStatuses).
  */
 export async function getScrapeStatus(): Promise<ScrapeStatus> {
   try {
     const result = await query(`
       SELECT MAX(scrape_timestamp) as latest_scrape
-      FROM plans
+      FROM plan_batches
     `);
 
     const latestScrape = result.rows[0]?.latest_scrape;
+    const sources = await getSourceScrapeStatuses();
 
     if (!latestScrape) {
       return {
@@ -30,12 +95,12 @@ export async function getScrapeStatus(): Promise<ScrapeStatus> {
         hoursAgo: null,
         status: 'no-data',
         statusColor: 'gray',
+        sources,
       };
     }
 
     const timestamp = new Date(latestScrape);
-    const now = new Date();
-    const hoursAgo = Math.floor((now.getTime() - timestamp.getTime()) / (1000 * 60 * 60));
+    const hoursAgo = hoursSince(timestamp);
 
     let status: ScrapeStatus['status'];
     let statusColor: ScrapeStatus['statusColor'];
@@ -56,6 +121,7 @@ export async function getScrapeStatus(): Promise<ScrapeStatus> {
       hoursAgo,
       status,
       statusColor,
+      sources,
     };
   } catch (error) {
     console.error('Error fetching scrape status:', error);
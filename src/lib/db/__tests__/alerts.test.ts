@@ -0,0 +1,123 @@
+/**
+ * Tests for price alert database operations
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getAlertSnapshots, insertAlertEvents } from '../alerts';
+import { evaluateAlertRules, type Alert } from '../../alerts/rules';
+
+const mockQuery = vi.fn();
+
+vi.mock('../connection', () => ({
+  getPool: vi.fn(() => ({
+    query: mockQuery,
+  })),
+}));
+
+const row = (source: string, planKey: string, batchRank: number, scrapeId: string | null, partial = false) => ({
+  source,
+  plan_key: planKey,
+  name: planKey,
+  price_pence: 1000,
+  currency: 'GBP',
+  data_mb: 10000,
+  contract_months: 12,
+  scrape_id: scrapeId,
+  batch_rank: String(batchRank),
+  partial,
+});
+
+describe('price alert operations', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ rows: [] });
+  });
+
+  describe('getAlertSnapshots', () => {
+    it('compares sources scraped in the run with their previous batch', async () => {
+      mockQuery.mockResolvedValue({
+        rows: [
+          // Scraped in this run
+          row('Three', 'Three-new', 1, 'scrape-2'),
+          row('Three', 'Three-old', 2, 'scrape-1'),
+          // Not scraped (or quarantined) in this run
+          row('O2', 'O2-latest', 1, 'scrape-1'),
+          row('O2', 'O2-older', 2, 'scrape-0'),
+          // First scrape of a source
+          row('Tesco', 'Tesco-first', 1, 'scrape-2'),
+        ],
+      });
+
+      const { previous, current } = await getAlertSnapshots('scrape-2');
+
+      expect(current.map((plan) => plan.plan_key)).toEqual(['Three-new', 'O2-latest', 'Tesco-first']);
+      expect(previous.map((plan) => plan.plan_key)).toEqual(['Three-old', 'O2-latest', 'Tesco-first']);
+      expect(current[0]).not.toHaveProperty('batch_rank');
+      expect(current[0]).not.toHaveProperty('partial');
+    });
+
+    it('keeps plans a partial batch did not see', async () => {
+      mockQuery.mockResolvedValue({
+        rows: [
+          // 24-month page failed in this run
+          row('Three', 'Three-12months', 1, 'scrape-2', true),
+          row('Three', 'Three-12months', 2, 'scrape-1'),
+          row('Three', 'Three-24months', 2, 'scrape-1'),
+          // Full batch after a partial one
+          row('O2', 'O2-12months', 1, 'scrape-2'),
+          row('O2', 'O2-24months', 1, 'scrape-2'),
+          row('O2', 'O2-12months', 2, 'scrape-1', true),
+          row('O2', 'O2-12months', 3, 'scrape-0'),
+          row('O2', 'O2-24months', 3, 'scrape-0'),
+        ],
+      });
+
+      const { previous, current } = await getAlertSnapshots('scrape-2');
+
+      const keys = (plans: typeof current) => plans.map((plan) => plan.plan_key).sort();
+      expect(keys(current)).toEqual(['O2-12months', 'O2-24months', 'Three-12months', 'Three-24months']);
+      expect(keys(previous)).toEqual(keys(current));
+      expect(mockQuery.mock.calls[0][0]).toContain('LEFT JOIN scrape_run_sources r');
+    });
+
+    it('does not fire plan_withdrawn for plans on failed pages', async () => {
+      mockQuery.mockResolvedValue({
+        rows: [
+          row('Three', 'Three-12months', 1, 'scrape-2', true),
+          row('Three', 'Three-12months', 2, 'scrape-1'),
+          row('Three', 'Three-24months', 2, 'scrape-1'),
+        ],
+      });
+
+      const { previous, current } = await getAlertSnapshots('scrape-2');
+
+      expect(evaluateAlertRules([{ id: 'withdrawn', type: 'plan_withdrawn' }], previous, current)).toEqual([]);
+    });
+  });
+
+  describe('insertAlertEvents', () => {
+    it('inserts every alert with the run deliveries', async () => {
+      const alert: Alert = {
+        rule_id: 'withdrawn',
+        rule_type: 'plan_withdrawn',
+        source: 'Three',
+        plan_key: 'Three-old',
+        message: 'Three withdrew Three-old',
+        details: {},
+      };
+      const deliveries = [{ channel: 'hook', status: 'sent' as const }];
+
+      await insertAlertEvents('scrape-2', [alert], deliveries);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO alert_events');
+      expect(params).toEqual(['scrape-2', JSON.stringify([alert]), JSON.stringify(deliveries)]);
+    });
+
+    it('does not query without alerts', async () => {
+      await insertAlertEvents('scrape-2', [], []);
+
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for plan compaction
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { compactPlans, compactSource } from '../compaction';
+
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+
+vi.mock('../connection', () => ({
+  getPool: vi.fn(() => ({
+    query: mockQuery,
+    connect: vi.fn(async () => ({ query: mockClientQuery, release: vi.fn() })),
+  })),
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+/**
+ * Answer the counts query; every other statement returns no rows
+ */
+const mockCounts = (versions: number, merged: number) => {
+  mockClientQuery.mockImplementation(async (sql: string) =>
+    sql.includes('COUNT(DISTINCT keeper_id)') ? { rows: [{ versions, merged }] } : { rows: [] }
+  );
+};
+
+const statements = () => mockClientQuery.mock.calls.map(([sql]) => String(sql));
+
+describe('compactSource', () => {
+  beforeEach(() => {
+    mockClientQuery.mockReset();
+  });
+
+  it('merges each version into its oldest row under the source lock', async () => {
+    mockCounts(2, 5);
+
+    await expect(compactSource('O2')).resolves.toEqual({ versionsCompacted: 2, plansMerged: 5 });
+
+    const sql = statements();
+    expect(sql[0]).toBe('BEGIN');
+    expect(sql[1]).toContain('pg_advisory_xact_lock');
+    expect(mockClientQuery.mock.calls[1][1]).toEqual(['O2']);
+    expect(sql[2]).toContain('CREATE TEMP TABLE plan_compaction');
+    expect(sql[3]).toContain('LEFT JOIN batches b ON b.scrape_timestamp = p.first_seen');
+    expect(sql[3]).toContain('INSERT INTO plan_compaction (id, keeper_id, last_seen)');
+    expect(mockClientQuery.mock.calls[3][1]).toEqual(['O2']);
+    expect(sql[5]).toContain('SET last_seen = c.last_seen');
+    expect(sql[6]).toContain('UPDATE analyses t');
+    expect(sql[6]).toContain('WITH ORDINALITY');
+    expect(sql[7]).toContain('UPDATE dataset_snapshots t');
+    expect(sql[8]).toContain('UPDATE dataset_snapshot_plans t');
+    expect(sql[9]).toContain('DELETE FROM plans');
+    expect(sql[10]).toBe('COMMIT');
+  });
+
+  it('does not write in a dry run', async () => {
+    mockCounts(2, 5);
+
+    await expect(compactSource('O2', true)).resolves.toEqual({ versionsCompacted: 2, plansMerged: 5 });
+
+    expect(statements().at(-1)).toBe('ROLLBACK');
+    expect(statements().some((sql) => sql.includes('DELETE FROM plans'))).toBe(false);
+  });
+
+  it('does not write when nothing repeats', async () => {
+    mockCounts(0, 0);
+
+    await compactSource('O2');
+
+    expect(statements().at(-1)).toBe('ROLLBACK');
+  });
+
+  it('rolls back on failure', async () => {
+    mockClientQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('INSERT INTO plan_compaction')) throw new Error('deadlock detected');
+      return { rows: [] };
+    });
+
+    await expect(compactSource('O2')).rejects.toThrow('deadlock detected');
+    expect(statements().at(-1)).toBe('ROLLBACK');
+  });
+});
+
+describe('compactPlans', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockClientQuery.mockReset();
+  });
+
+  it('compacts every source with batches and totals the counts', async () => {
+    mockQuery.mockResolvedValue({ rows: [{ source: 'O2' }, { source: 'Three' }] });
+    mockCounts(1, 3);
+
+    const report = await compactPlans();
+
+    expect(mockQuery.mock.calls[0][0]).toContain('SELECT DISTINCT source FROM plan_batches');
+    expect(report).toEqual({ dryRun: false, sources: 2, versionsCompacted: 2, plansMerged: 6 });
+  });
+
+  it('only compacts the given sources', async () => {
+    mockCounts(0, 0);
+
+    const report = await compactPlans({ sources: ['Three'], dryRun: true });
+
+    expect(mockQuery).not.toHaveBeenCalled();
+    expect(report).toEqual({ dryRun: true, sources: 1, versionsCompacted: 0, plansMerged: 0 });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * In-process Postgres for database tests
+ *
+ * Runs every migration against a fresh PGlite database and exposes the part
+ * of pg.Pool that src/lib/db uses (query, connect), so tests can run the
+ * real SQL without DATABASE_URL. Point getPool() at it:
+ *
+ * ```typescript
+ * const db = vi.hoisted(() => ({ pool: null as unknown as MigratedPool }));
+ * vi.mock('../connection', () => ({ getPool: () => db.pool }));
+ * beforeAll(async () => { db.pool = await createMigratedPool(); });
+ * ```
+ *
+ * PGlite is a single session: "clients" share it, so tests must not
+ * interleave transactions.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { PGlite } from '@electric-sql/pglite';
+
+export interface MigratedPool {
+  query: <T = Record<string, unknown>>(sql: string, params?: unknown[]) => Promise<{ rows: T[]; rowCount: number }>;
+  connect: () => Promise<{ query: MigratedPool['query']; release: () => void }>;
+  /** Run a SQL script (e.g., a migration file again) */
+  exec: (sql: string) => Promise<void>;
+  end: () => Promise<void>;
+}
+
+/**
+ * Create a database with all migrations applied, in file name order (as npm run migrate does)
+ *
+ * @param migrationsDir - Directory of the .sql files (default: ./migrations)
+ */
+export async function createMigratedPool(
+  migrationsDir = resolve(process.cwd(), 'migrations')
+): Promise<MigratedPool> {
+  const db = new PGlite();
+
+  const files = readdirSync(migrationsDir)
+    .filter((file) => file.endsWith('.sql'))
+    .sort();
+  for (const file of files) {
+    await db.exec(readFileSync(resolve(migrationsDir, file), 'utf-8'));
+  }
+
+  const query: MigratedPool['query'] = async (sql, params) => {
+    const result = await db.query(sql, params);
+    return { rows: result.rows as never[], rowCount: result.affectedRows ?? result.rows.length };
+  };
+
+  return {
+    query,
+    connect: async () => ({ query, release: () => {} }),
+    exec: async (sql) => {
+      await db.exec(sql);
+    },
+    end: () => db.close(),
+  };
+}
@@ -0,0 +1,91 @@
+// @vitest-environment node
+/**
+ * Tests for partial batches against the migrated schema (PGlite)
+ *
+ * A batch whose scrape_run_sources row lists failed pages or plans rejected
+ * by validation must not make the plans it is missing look withdrawn.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createMigratedPool, type MigratedPool } from './migrated-database';
+import { insertPlans } from '../plans';
+import { getPreviousBatch } from '../quarantine';
+import { getAlertSnapshots } from '../alerts';
+import { recordScrapeRunSource, startScrapeRun } from '../scrape-runs';
+import { evaluateAlertRules } from '../../alerts/rules';
+import type { CollectorResult } from '../../scraping/collector';
+import type { PlanData } from '../../../types/database';
+
+const db = vi.hoisted(() => ({ pool: null as unknown as MigratedPool }));
+
+vi.mock('../connection', () => ({
+  getPool: () => db.pool,
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const plan = (planKey: string, price: string): PlanData => ({
+  name: planKey,
+  price,
+  data_allowance: '100GB',
+  contract_term: planKey.endsWith('24months') ? '24 months' : '12 months',
+  plan_key: planKey,
+});
+
+/**
+ * Store a run of the Three collector with its ledger row
+ */
+const storeRun = async (scrapeId: string, plans: PlanData[], result: Partial<CollectorResult> = {}) => {
+  await startScrapeRun({ scrapeId, sources: ['three'] });
+  await insertPlans('Three', plans, scrapeId);
+  await recordScrapeRunSource(scrapeId, { id: 'three', source: 'Three' }, {
+    collectorId: 'three',
+    name: 'Three',
+    status: 'success',
+    plansCollected: plans.length,
+    executionTime: 1000,
+    startedAt: new Date().toISOString(),
+    finishedAt: new Date().toISOString(),
+    ...result,
+  });
+};
+
+describe('partial batches (SQL)', () => {
+  beforeAll(async () => {
+    db.pool = await createMigratedPool();
+
+    await storeRun('scrape-1', [plan('Three-100GB-12months', '£10.00'), plan('Three-100GB-24months', '£9.00')]);
+    // The 24-month plan failed the normalized schema in the next run
+    await storeRun('scrape-2', [plan('Three-100GB-12months', '£10.00')], {
+      validationReport: {
+        plansValidated: 2,
+        plansRejected: 1,
+        failures: [{ stage: 'normalized', index: 1, name: 'Three-100GB-24months', issues: ['price_pence: Required'] }],
+      },
+    });
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.pool.end();
+  });
+
+  it('carries plans rejected by validation into the previous batch', async () => {
+    const plans = await getPreviousBatch('Three');
+
+    expect(plans.map((p) => p.plan_key).sort()).toEqual(['Three-100GB-12months', 'Three-100GB-24months']);
+  });
+
+  it('does not fire plan_withdrawn for plans rejected by validation', async () => {
+    const { previous, current } = await getAlertSnapshots('scrape-2');
+
+    expect(current.map((p) => p.plan_key).sort()).toEqual(['Three-100GB-12months', 'Three-100GB-24months']);
+    expect(evaluateAlertRules([{ id: 'withdrawn', type: 'plan_withdrawn' }], previous, current)).toEqual([]);
+  });
+});
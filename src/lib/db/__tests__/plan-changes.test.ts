@@ -0,0 +1,97 @@
+/**
+ * Tests for plan change event operations
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { recordPlanChanges, getLatestPlanChanges } from '../plan-changes';
+import { logger } from '../../utils/logger';
+import type { PlanData } from '../../../types/database';
+
+const mockQuery = vi.fn();
+
+vi.mock('../connection', () => ({
+  getPool: vi.fn(() => ({
+    query: mockQuery,
+  })),
+}));
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const createPlan = (overrides: Partial<PlanData> = {}): PlanData => ({
+  name: '10GB SIM',
+  price: '£10.00',
+  data_allowance: '10GB',
+  contract_term: '12 months',
+  plan_key: 'O2-10GB-12months',
+  ...overrides,
+});
+
+const batchTimestamp = new Date('2026-10-19T08:00:00Z');
+
+describe('plan change events', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+  });
+
+  describe('recordPlanChanges', () => {
+    it('inserts one event per change', async () => {
+      const previous = [createPlan(), createPlan({ plan_key: 'O2-5GB-1month', contract_term: '1 month' })];
+      const plans = [createPlan({ price: '£12.00' })];
+
+      const changes = await recordPlanChanges('O2', previous, plans, batchTimestamp, 'scrape-1');
+
+      expect(changes.map((c) => c.change_type)).toEqual(['price_increase', 'withdrawn']);
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO plan_change_events');
+      expect(params).toEqual([
+        'scrape-1',
+        'O2',
+        batchTimestamp,
+        ['price_increase', 'withdrawn'],
+        ['O2-10GB-12months', 'O2-5GB-1month'],
+        [null, null],
+        ['10GB SIM', '10GB SIM'],
+        ['£10.00', null],
+        ['£12.00', null],
+        [200, null],
+      ]);
+    });
+
+    it('does not query when nothing changed', async () => {
+      await recordPlanChanges('O2', [createPlan()], [createPlan()], batchTimestamp, 'scrape-1');
+      await recordPlanChanges('O2', [], [createPlan()], batchTimestamp, 'scrape-1');
+
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('does not throw when the database write fails', async () => {
+      mockQuery.mockRejectedValue(new Error('relation "plan_change_events" does not exist'));
+
+      const changes = await recordPlanChanges('O2', [createPlan()], [], batchTimestamp);
+
+      expect(changes).toEqual([]);
+      expect(logger.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('getLatestPlanChanges', () => {
+    it("reads events from each source's latest batch", async () => {
+      const event = { id: 'event-1', source: 'O2', change_type: 'added' };
+      mockQuery.mockResolvedValue({ rows: [event] });
+
+      await expect(getLatestPlanChanges()).resolves.toEqual([event]);
+      const [sql] = mockQuery.mock.calls[0];
+      expect(sql).toContain('FROM plan_change_events');
+      expect(sql).toContain('MAX(scrape_timestamp)');
+    });
+  });
+});
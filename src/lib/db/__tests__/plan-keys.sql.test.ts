@@ -0,0 +1,105 @@
+// @vitest-environment node
+/**
+ * Tests for the plan_key migrations against the migrated schema (PGlite)
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createMigratedPool, type MigratedPool } from './migrated-database';
+import { insertPlans } from '../plans';
+import { normalizePlanData } from '../../scraping/normalize';
+
+const db = vi.hoisted(() => ({ pool: null as unknown as MigratedPool }));
+
+vi.mock('../connection', () => ({
+  getPool: () => db.pool,
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const referenceDate = new Date('2026-10-01T00:00:00Z');
+
+const three = normalizePlanData(
+  { name: '100GB Lite 24 months', price: '£20', data_allowance: '100GB', contract_term: '24 months', plan_type: 'Lite' },
+  'Three',
+  referenceDate
+);
+const sky = normalizePlanData(
+  { name: 'Sky 100GB', price: '£10', data_allowance: '100GB', contract_term: '12 months' },
+  'Sky',
+  referenceDate
+);
+
+/**
+ * Re-run the plan_key migrations, as each `npm run migrate` does
+ */
+const rerunKeyMigrations = async () => {
+  for (const file of ['008_plan_identity.sql', '018_stable_plan_keys.sql']) {
+    await db.pool.exec(readFileSync(resolve(process.cwd(), 'migrations', file), 'utf-8'));
+  }
+};
+
+/**
+ * Stored keys by source
+ */
+const storedKeys = async () => {
+  const { rows } = await db.pool.query<{ source: string; plan_key: string; data_key: string }>(
+    `SELECT source, plan_key, plan_data->>'plan_key' AS data_key FROM plans ORDER BY source`
+  );
+  return rows;
+};
+
+describe('plan_key migrations (SQL)', () => {
+  beforeAll(async () => {
+    db.pool = await createMigratedPool();
+    await insertPlans('Three', [three], 'scrape-1');
+    await insertPlans('Sky', [sky], 'scrape-1');
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.pool.end();
+  });
+
+  it('leaves keys generated by normalizePlanData unchanged when migrations re-run', async () => {
+    // xmin changes whenever a row is rewritten
+    const versions = () => db.pool.query<{ xmin: string }>('SELECT xmin::TEXT AS xmin FROM plans ORDER BY id');
+    const before = await versions();
+
+    await rerunKeyMigrations();
+
+    expect((await versions()).rows).toEqual(before.rows);
+
+    expect(await storedKeys()).toEqual([
+      { source: 'Sky', plan_key: sky.plan_key, data_key: sky.plan_key },
+      { source: 'Three', plan_key: three.plan_key, data_key: three.plan_key },
+    ]);
+  }, 60_000);
+
+  it('re-keys plans stored under the data-and-term key the same way normalizePlanData does', async () => {
+    await db.pool.query(
+      `UPDATE plans
+       SET plan_key = concat_ws('-', source, plan_data->>'data_allowance', 'legacy'),
+           plan_data = plan_data - 'plan_type' - 'plan_tier' - 'plan_variant' - 'plan_fingerprint'`
+    );
+
+    await rerunKeyMigrations();
+
+    expect(await storedKeys()).toEqual([
+      { source: 'Sky', plan_key: sky.plan_key, data_key: sky.plan_key },
+      { source: 'Three', plan_key: three.plan_key, data_key: three.plan_key },
+    ]);
+    const { rows } = await db.pool.query<{ plan_tier: string; plan_fingerprint: string }>(
+      `SELECT plan_data->>'plan_tier' AS plan_tier, plan_data->>'plan_fingerprint' AS plan_fingerprint
+       FROM plans WHERE source = 'Three'`
+    );
+    expect(rows).toEqual([{ plan_tier: three.plan_tier, plan_fingerprint: three.plan_fingerprint }]);
+  }, 60_000);
+});
@@ -18,6 +18,7 @@ describe('Plan Database Operations', () => {
   afterAll(async () => {
     try {
       await pool.query(`DELETE FROM plans WHERE source LIKE 'TEST%'`);
+      await pool.query(`DELETE FROM plan_batches WHERE source LIKE 'TEST%'`);
     } catch (error) {
       console.error('Cleanup failed:', error);
     } finally {
@@ -29,6 +30,7 @@ describe('Plan Database Operations', () => {
   beforeEach(async () => {
     try {
       await pool.query(`DELETE FROM plans WHERE source LIKE 'TEST%'`);
+      await pool.query(`DELETE FROM plan_batches WHERE source LIKE 'TEST%'`);
     } catch (error) {
       console.error('Before each cleanup failed:', error);
       // Don't fail the test, just log the error
@@ -87,6 +89,28 @@ describe('Plan Database Operations', () => {
       expect(result.plan_data.extras).toEqual(['Free calls', 'EU roaming']);
       expect(result.plan_data.custom_field).toBe('custom value');
     });
+
+    it('should store raw_data and normalizer_version outside plan_data', async () => {
+      const rawData = { name: 'Test Plan', price: '10', data: '10GB' };
+      const planData = {
+        name: 'Test Plan',
+        price: '£10.00',
+        data_allowance: '10GB',
+        raw_data: rawData,
+        normalizer_version: 1,
+      };
+
+      const result = await insertPlan('TEST_SOURCE', planData);
+
+      const query = await pool.query(
+        `SELECT plan_data, raw_data, normalizer_version FROM plans WHERE id = $1`,
+        [result.id]
+      );
+
+      expect(query.rows[0].plan_data).toEqual({ name: 'Test Plan', price: '£10.00', data_allowance: '10GB' });
+      expect(query.rows[0].raw_data).toEqual(rawData);
+      expect(query.rows[0].normalizer_version).toBe(1);
+    });
   });
 
   describe('insertPlans', () => {
@@ -125,6 +149,30 @@ describe('Plan Database Operations', () => {
 
       expect(results).toHaveLength(50);
     });
+
+    it('should store plans unchanged since the previous batch once', async () => {
+      const plans: PlanData[] = [
+        { name: 'Plan 1', price: '£10', data_allowance: '10GB' },
+        { name: 'Plan 2', price: '£15', data_allowance: '20GB' },
+      ];
+
+      const first = await insertPlans('TEST_EE', plans);
+      const second = await insertPlans('TEST_EE', [plans[0], { ...plans[1], price: '£12' }]);
+
+      expect(second[0].id).toBe(first[0].id);
+      expect(second[0].scrape_timestamp.valueOf()).toBeGreaterThan(first[0].scrape_timestamp.valueOf());
+      expect(second[1].id).not.toBe(first[1].id);
+
+      const stored = await pool.query(`SELECT COUNT(*)::INTEGER AS count FROM plans WHERE source = 'TEST_EE'`);
+      const observed = await pool.query(
+        `SELECT scrape_timestamp, COUNT(*)::INTEGER AS count
+         FROM plan_observations WHERE source = 'TEST_EE'
+         GROUP BY scrape_timestamp ORDER BY scrape_timestamp`
+      );
+
+      expect(stored.rows[0].count).toBe(3);
+      expect(observed.rows.map((row) => row.count)).toEqual([2, 2]);
+    });
   });
 
   describe('data integrity', () => {
@@ -0,0 +1,104 @@
+// @vitest-environment node
+/**
+ * Tests for quarantine approval against the migrated schema (PGlite)
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createMigratedPool, type MigratedPool } from './migrated-database';
+import { insertPlans } from '../plans';
+import { approveQuarantine, getPendingQuarantines, quarantineBatch } from '../quarantine';
+import type { PlanData } from '../../../types/database';
+
+const db = vi.hoisted(() => ({ pool: null as unknown as MigratedPool }));
+
+vi.mock('../connection', () => ({
+  getPool: () => db.pool,
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const plan = (source: string, data: string): PlanData => ({
+  name: `${data} plan`,
+  price: 'Unknown',
+  data_allowance: data,
+  contract_term: '12 months',
+  plan_key: `${source}-${data}-12months`,
+});
+
+const reasons = [{ check: 'unknown_price_share' as const, message: '100% of plans have an Unknown price', value: 1, threshold: 0.3 }];
+
+/**
+ * Change types recorded for a source
+ */
+const changeTypes = async (source: string) => {
+  const { rows } = await db.pool.query<{ change_type: string }>(
+    'SELECT change_type FROM plan_change_events WHERE source = $1 ORDER BY change_type',
+    [source]
+  );
+  return rows.map((row) => row.change_type);
+};
+
+describe('quarantine approval (SQL)', () => {
+  beforeAll(async () => {
+    db.pool = await createMigratedPool();
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.pool.end();
+  });
+
+  it('records no withdrawals when approving a batch whose run had failed pages', async () => {
+    await insertPlans('Three', [plan('Three', '10GB'), plan('Three', '100GB')], 'scrape-1');
+    const failedPages = [{ page: '24-months', error: 'Timeout 30000ms exceeded', attempts: 3 }];
+    const id = await quarantineBatch({
+      source: 'Three',
+      scrapeId: 'scrape-2',
+      plans: [plan('Three', '10GB')],
+      previousPlanCount: 2,
+      reasons,
+      failedPages,
+    });
+
+    const [pending] = await getPendingQuarantines();
+    expect(pending).toMatchObject({ id, failed_pages: failedPages, plans_rejected: 0 });
+
+    await expect(approveQuarantine(id)).resolves.toBe(1);
+    expect(await changeTypes('Three')).toEqual([]);
+  });
+
+  it('records no withdrawals when approving a batch whose run rejected plans', async () => {
+    await insertPlans('O2', [plan('O2', '10GB'), plan('O2', '100GB')], 'scrape-1');
+    const id = await quarantineBatch({
+      source: 'O2',
+      scrapeId: 'scrape-2',
+      plans: [plan('O2', '10GB')],
+      previousPlanCount: 2,
+      reasons,
+      plansRejected: 1,
+    });
+
+    await approveQuarantine(id);
+    expect(await changeTypes('O2')).toEqual([]);
+  });
+
+  it('records withdrawals when approving a complete batch', async () => {
+    await insertPlans('Sky', [plan('Sky', '10GB'), plan('Sky', '100GB')], 'scrape-1');
+    const id = await quarantineBatch({
+      source: 'Sky',
+      scrapeId: 'scrape-2',
+      plans: [plan('Sky', '10GB')],
+      previousPlanCount: 2,
+      reasons,
+    });
+
+    await approveQuarantine(id);
+    expect(await changeTypes('Sky')).toEqual(['withdrawn']);
+  });
+});
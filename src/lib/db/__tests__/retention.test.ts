@@ -0,0 +1,199 @@
+// @vitest-environment node
+/**
+ * Tests for plan retention
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import {
+  archivePlans,
+  getPlanRetentionDays,
+  readPlanArchive,
+  ARCHIVE_CHUNK_SIZE,
+  DEFAULT_PLAN_RETENTION_DAYS,
+} from '../retention';
+
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+
+vi.mock('../connection', () => ({
+  getPool: vi.fn(() => ({
+    query: mockQuery,
+    connect: vi.fn(async () => ({ query: mockClientQuery, release: vi.fn() })),
+  })),
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const planRow = (id: string, day: number) => ({
+  id,
+  source: 'O2',
+  plan_key: 'O2-10GB-12months',
+  plan_data: { name: '10GB', price: '£10.00' },
+  scrape_id: 'scrape-1',
+  scrape_timestamp: new Date(Date.UTC(2025, 0, day)),
+  first_seen: new Date(Date.UTC(2025, 0, day)),
+  last_seen: new Date(Date.UTC(2025, 0, day + 1)),
+});
+
+/**
+ * Return these rows for the first chunk; every other statement returns no rows
+ */
+const mockChunks = (...chunks: Array<Array<ReturnType<typeof planRow>>>) => {
+  mockClientQuery.mockImplementation(async (sql: string) =>
+    sql.includes('FOR UPDATE OF p') ? { rows: chunks.shift() ?? [] } : { rows: [] }
+  );
+};
+
+const statements = () => mockClientQuery.mock.calls.map(([sql]) => String(sql));
+
+describe('getPlanRetentionDays', () => {
+  afterEach(() => {
+    delete process.env.PLAN_RETENTION_DAYS;
+  });
+
+  it('reads PLAN_RETENTION_DAYS', () => {
+    expect(getPlanRetentionDays()).toBe(DEFAULT_PLAN_RETENTION_DAYS);
+
+    process.env.PLAN_RETENTION_DAYS = '90';
+    expect(getPlanRetentionDays()).toBe(90);
+  });
+
+  it('rejects values that are not positive integers', () => {
+    process.env.PLAN_RETENTION_DAYS = '0';
+    expect(() => getPlanRetentionDays()).toThrow('Invalid PLAN_RETENTION_DAYS "0"');
+  });
+});
+
+describe('archivePlans', () => {
+  let archiveDir: string;
+
+  beforeEach(() => {
+    archiveDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-archive-'));
+    mockQuery.mockReset();
+    mockClientQuery.mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    fs.rmSync(archiveDir, { recursive: true, force: true });
+  });
+
+  it('writes old versions to a gzipped JSONL file and deletes them', async () => {
+    const rows = [planRow('plan-1', 1), planRow('plan-2', 5)];
+    mockChunks(rows);
+
+    const report = await archivePlans({ retentionDays: 30, archiveDir });
+
+    expect(report.plansArchived).toBe(2);
+    expect(report.files).toHaveLength(1);
+    expect(report.files[0]).toMatch(/plans-.*-1\.jsonl\.gz$/);
+    expect(readPlanArchive(report.files[0])).toEqual(JSON.parse(JSON.stringify(rows)));
+
+    const sql = statements();
+    expect(sql[1]).toContain('newer.last_seen > p.last_seen');
+    expect(sql[1]).toContain('NOT EXISTS (SELECT 1 FROM dataset_snapshots s WHERE p.id = ANY(s.plan_ids))');
+    expect(sql[1]).toContain('NOT EXISTS (SELECT 1 FROM analyses a WHERE p.id = ANY(a.plan_ids))');
+    expect(mockClientQuery.mock.calls[1][1]).toEqual([report.cutoff, ARCHIVE_CHUNK_SIZE]);
+    expect(mockClientQuery.mock.calls[2]).toEqual(['DELETE FROM plans WHERE id = ANY($1::UUID[])', [['plan-1', 'plan-2']]]);
+    expect(mockClientQuery.mock.calls[3][1]).toEqual([
+      report.files[0],
+      2,
+      rows[0].first_seen,
+      rows[1].last_seen,
+      report.cutoff,
+    ]);
+    expect(sql.at(-1)).toBe('COMMIT');
+  });
+
+  it('sets the cutoff from the retention period', async () => {
+    mockChunks();
+
+    const before = Date.now();
+    const report = await archivePlans({ retentionDays: 30, archiveDir });
+
+    expect(before - report.cutoff.valueOf()).toBeGreaterThanOrEqual(30 * 24 * 60 * 60 * 1000);
+    expect(report.files).toEqual([]);
+    expect(fs.readdirSync(archiveDir)).toEqual([]);
+  });
+
+  it('writes one file per full chunk', async () => {
+    const full = Array.from({ length: ARCHIVE_CHUNK_SIZE }, (_, index) => planRow(`plan-${index}`, 1));
+    mockChunks(full, [planRow('plan-last', 2)]);
+
+    const report = await archivePlans({ retentionDays: 30, archiveDir });
+
+    expect(report.plansArchived).toBe(ARCHIVE_CHUNK_SIZE + 1);
+    expect(report.files.map((file) => path.basename(file))).toEqual([
+      expect.stringMatching(/-1\.jsonl\.gz$/),
+      expect.stringMatching(/-2\.jsonl\.gz$/),
+    ]);
+  });
+
+  it('removes the file when the rows cannot be deleted', async () => {
+    mockClientQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FOR UPDATE OF p')) return { rows: [planRow('plan-1', 1)] };
+      if (sql.startsWith('DELETE')) throw new Error('lock timeout');
+      return { rows: [] };
+    });
+
+    await expect(archivePlans({ retentionDays: 30, archiveDir })).rejects.toThrow('lock timeout');
+    expect(statements().at(-1)).toBe('ROLLBACK');
+    expect(fs.readdirSync(archiveDir)).toEqual([]);
+  });
+
+  it('keeps the rows when the file cannot be written', async () => {
+    mockChunks([planRow('plan-1', 1)]);
+    vi.spyOn(fs, 'writeFileSync').mockImplementation(() => {
+      throw new Error('ENOSPC: no space left on device');
+    });
+
+    await expect(archivePlans({ retentionDays: 30, archiveDir })).rejects.toThrow('ENOSPC');
+    expect(statements().some((sql) => sql.startsWith('DELETE'))).toBe(false);
+    expect(statements().at(-1)).toBe('ROLLBACK');
+    expect(fs.readdirSync(archiveDir)).toEqual([]);
+  });
+
+  it('keeps the rows when the file does not read back', async () => {
+    mockChunks([planRow('plan-1', 1), planRow('plan-2', 5)]);
+    const writeFileSync = fs.writeFileSync;
+    vi.spyOn(fs, 'writeFileSync').mockImplementation((file) => writeFileSync(file, zlib.gzipSync('{}\n')));
+
+    await expect(archivePlans({ retentionDays: 30, archiveDir })).rejects.toThrow('does not contain the 2 plans');
+    expect(statements().some((sql) => sql.startsWith('DELETE'))).toBe(false);
+    expect(fs.readdirSync(archiveDir)).toEqual([]);
+  });
+
+  it.each([
+    ['VERCEL', '1'],
+    ['NODE_ENV', 'production'],
+  ])('refuses to archive with %s=%s', async (name, value) => {
+    vi.stubEnv(name, value);
+    mockChunks([planRow('plan-1', 1)]);
+
+    await expect(archivePlans({ retentionDays: 30, archiveDir })).rejects.toThrow('cannot run on Vercel');
+    expect(mockClientQuery).not.toHaveBeenCalled();
+    expect(fs.readdirSync(archiveDir)).toEqual([]);
+  });
+
+  it('only counts eligible versions in a dry run', async () => {
+    mockQuery.mockResolvedValue({ rows: [{ count: 12 }] });
+
+    const report = await archivePlans({ retentionDays: 30, archiveDir, dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, plansArchived: 12, files: [] });
+    expect(mockQuery.mock.calls[0][0]).toContain('SELECT COUNT(*)::INTEGER AS count FROM plans p');
+    expect(mockClientQuery).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Tests for scrape run ledger operations
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  startScrapeRun,
+  recordScrapeRunSource,
+  finishScrapeRun,
+  getScrapeRunStatus,
+  getScrapeRunDetails,
+} from '../scrape-runs';
+import type { CollectorResult } from '../../scraping/collector';
+
+const mockQuery = vi.fn();
+
+vi.mock('../connection', () => ({
+  getPool: vi.fn(() => ({
+    query: mockQuery,
+  })),
+}));
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const createResult = (overrides: Partial<CollectorResult> = {}): CollectorResult => ({
+  collectorId: 'vodafone',
+  name: 'Vodafone',
+  status: 'success',
+  plansCollected: 12,
+  executionTime: 3000,
+  startedAt: '2026-10-19T08:00:00.000Z',
+  finishedAt: '2026-10-19T08:00:03.000Z',
+  ...overrides,
+});
+
+describe('scrape run ledger', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ rows: [], rowCount: 1 });
+  });
+
+  describe('startScrapeRun', () => {
+    it('inserts a running scrape run', async () => {
+      await startScrapeRun({ scrapeId: 'evt-1', triggeredBy: 'dashboard', sources: ['vodafone'] });
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO scrape_runs');
+      expect(params).toEqual(['evt-1', 'dashboard', ['vodafone']]);
+    });
+
+    it('does not throw when the database write fails', async () => {
+      mockQuery.mockRejectedValue(new Error('relation "scrape_runs" does not exist'));
+
+      await expect(
+        startScrapeRun({ scrapeId: 'evt-1', sources: [] })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('recordScrapeRunSource', () => {
+    it('stores the collector outcome with timing and error text', async () => {
+      await recordScrapeRunSource(
+        'evt-1',
+        { id: 'vodafone', source: 'Vodafone' },
+        createResult({ status: 'failed', plansCollected: 0, error: 'Navigation timeout' })
+      );
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO scrape_run_sources');
+      expect(params).toEqual([
+        'evt-1',
+        'vodafone',
+        'Vodafone',
+        'failed',
+        0,
+        '2026-10-19T08:00:00.000Z',
+        '2026-10-19T08:00:03.000Z',
+        3000,
+        'Navigation timeout',
+        null,
+        null,
+        null,
+        null,
+      ]);
+    });
+
+    it('stores the normalization report', async () => {
+      const normalizationReport = {
+        plansNormalized: 12,
+        unparsed: [{ field: 'price' as const, value: 'Call for price', count: 2 }],
+      };
+
+      await recordScrapeRunSource(
+        'evt-1',
+        { id: 'vodafone', source: 'Vodafone' },
+        createResult({ normalizationReport })
+      );
+
+      expect(JSON.parse(mockQuery.mock.calls[0][1][11])).toEqual(normalizationReport);
+    });
+
+    it('stores the validation report', async () => {
+      const validationReport = {
+        plansValidated: 12,
+        plansRejected: 1,
+        failures: [{ stage: 'raw' as const, index: 3, name: 'Plan', issues: ['price: Invalid input'] }],
+      };
+
+      await recordScrapeRunSource(
+        'evt-1',
+        { id: 'vodafone', source: 'Vodafone' },
+        createResult({ validationReport })
+      );
+
+      expect(JSON.parse(mockQuery.mock.calls[0][1][12])).toEqual(validationReport);
+    });
+
+    it('stores selector checks and page captures', async () => {
+      await recordScrapeRunSource(
+        'evt-1',
+        { id: 'vodafone', source: 'Vodafone' },
+        createResult({
+          selectorChecks: [
+            {
+              name: 'plan cards',
+              selector: '.card',
+              url: 'https://example.com',
+              matched: 0,
+              checkedAt: '2026-10-19T08:00:01.000Z',
+              artifactIndex: 0,
+            },
+          ],
+          artifacts: [
+            {
+              url: 'https://example.com',
+              selectors: ['plan cards'],
+              html: '<html></html>',
+              screenshot: Buffer.from('jpeg').toString('base64'),
+              capturedAt: '2026-10-19T08:00:01.000Z',
+            },
+          ],
+        })
+      );
+
+      expect(JSON.parse(mockQuery.mock.calls[0][1][9])).toHaveLength(1);
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('INSERT INTO scrape_artifacts');
+      expect(params.slice(0, 6)).toEqual([
+        'evt-1',
+        'vodafone',
+        0,
+        'https://example.com',
+        ['plan cards'],
+        '<html></html>',
+      ]);
+      expect(params[6]).toEqual(Buffer.from('jpeg'));
+    });
+  });
+
+  describe('getScrapeRunDetails', () => {
+    it('returns null for an unknown run', async () => {
+      await expect(getScrapeRunDetails('missing')).resolves.toBeNull();
+    });
+
+    it('groups artifacts under their source', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ scrape_id: 'evt-1', status: 'partial' }] })
+        .mockResolvedValueOnce({
+          rows: [
+            { collector_id: 'o2', status: 'success' },
+            { collector_id: 'vodafone', status: 'failed' },
+          ],
+        })
+        .mockResolvedValueOnce({
+          rows: [{ id: 'a-1', collector_id: 'vodafone', artifact_index: 0, has_screenshot: true }],
+        });
+
+      const details = await getScrapeRunDetails('evt-1');
+
+      expect(details?.run_sources[0].artifacts).toEqual([]);
+      expect(details?.run_sources[1].artifacts).toEqual([
+        { id: 'a-1', artifact_index: 0, has_screenshot: true },
+      ]);
+    });
+  });
+
+  describe('finishScrapeRun', () => {
+    it('records totals and a partial status when some sources failed', async () => {
+      await finishScrapeRun('evt-1', [
+        createResult(),
+        createResult({ collectorId: 'o2', status: 'failed', plansCollected: 0, error: 'boom' }),
+      ]);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('UPDATE scrape_runs');
+      expect(params).toEqual(['evt-1', 'partial', 12, 1, 1, null]);
+    });
+
+    it('marks the run failed when a run-level error is given', async () => {
+      await finishScrapeRun('evt-1', [createResult()], 'Unknown collector "ee"');
+
+      expect(mockQuery.mock.calls[0][1]).toEqual([
+        'evt-1',
+        'failed',
+        12,
+        1,
+        0,
+        'Unknown collector "ee"',
+      ]);
+    });
+  });
+
+  describe('getScrapeRunStatus', () => {
+    it('derives completed, partial and failed', () => {
+      expect(getScrapeRunStatus([createResult()])).toBe('completed');
+      expect(getScrapeRunStatus([createResult(), createResult({ status: 'failed' })])).toBe('partial');
+      expect(getScrapeRunStatus([createResult({ status: 'failed' })])).toBe('failed');
+      expect(getScrapeRunStatus([])).toBe('failed');
+    });
+
+    it('marks the run partial when a source lost pages after retries', () => {
+      const result = createResult({
+        failedPages: [{ page: 'https://example.com/12', error: 'Timeout 30000ms exceeded', attempts: 3 }],
+      });
+      expect(getScrapeRunStatus([result])).toBe('partial');
+    });
+  });
+});
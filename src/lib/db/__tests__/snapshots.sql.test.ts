@@ -0,0 +1,65 @@
+// @vitest-environment node
+/**
+ * Tests for dataset snapshots against the migrated schema (PGlite)
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createMigratedPool, type MigratedPool } from './migrated-database';
+import { createSnapshot, getSnapshotPlans } from '../snapshots';
+import { insertPlans } from '../plans';
+import { renormalizeScrapeGroup, findScrapeGroups } from '../../scraping/renormalize';
+import { normalizePlanData } from '../../scraping/normalize';
+import { getLatestPlans } from '../../dashboard/plans';
+
+const db = vi.hoisted(() => ({ pool: null as unknown as MigratedPool }));
+
+vi.mock('../connection', () => ({
+  getPool: () => db.pool,
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const raw = { name: '100GB 24 month plan', price: '£10', data_allowance: '100GB', contract_term: '24 months' };
+
+describe('dataset snapshots (SQL)', () => {
+  beforeAll(async () => {
+    db.pool = await createMigratedPool();
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.pool.end();
+  });
+
+  it('creates a snapshot whose plans a later re-normalize does not change', async () => {
+    // Stored by an older normalizer that misread the price
+    const stale = { ...normalizePlanData(raw, 'Three', new Date()), price: '£1000.00', normalizer_version: 0 };
+    await insertPlans('Three', [stale], 'scrape-1');
+
+    const snapshot = await createSnapshot({ name: 'October' });
+    expect(snapshot.plan_count).toBe(1);
+    expect(snapshot.composition).toEqual([expect.objectContaining({ source: 'Three', scrape_id: 'scrape-1', plan_count: 1 })]);
+
+    const before = await getSnapshotPlans(snapshot.id);
+    expect(before).toHaveLength(1);
+    expect(before[0].plan_data.price).toBe('£1000.00');
+
+    const [group] = await findScrapeGroups({ sources: ['Three'] });
+    const result = await renormalizeScrapeGroup(group);
+    expect(result.plansUpdated).toBe(1);
+
+    const { rows } = await db.pool.query<{ price: string }>(`SELECT plan_data->>'price' AS price FROM plans`);
+    expect(rows).toEqual([{ price: '£10.00' }]);
+
+    await expect(getSnapshotPlans(snapshot.id)).resolves.toEqual(before);
+    const [latest] = await getLatestPlans({ snapshotId: snapshot.id });
+    expect(latest.plan_data.price).toBe('£1000.00');
+    expect(latest.price_pence).toBe(100000);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for dataset snapshot database operations
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createSnapshot, getSnapshot, getSnapshotPlans, SnapshotError } from '../snapshots';
+import { renormalizeScrapeGroup } from '../../scraping/renormalize';
+
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+
+vi.mock('../connection', () => ({
+  getPool: vi.fn(() => ({
+    query: mockQuery,
+    connect: vi.fn(async () => ({ query: mockClientQuery, release: vi.fn() })),
+  })),
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const SNAPSHOT_ID = '3f2b8c1e-9d4a-4e6b-8a7c-1d2e3f4a5b6c';
+
+const snapshotRow = {
+  id: SNAPSHOT_ID,
+  name: 'October',
+  max_age_days: 14,
+  plan_count: 3,
+  composition: [
+    { source: 'O2', scrape_id: 'scrape-2', scrape_timestamp: '2026-10-18T06:00:00+00:00', plan_count: 2 },
+    { source: 'Three', scrape_id: 'scrape-1', scrape_timestamp: '2026-10-12T06:00:00+00:00', plan_count: 1 },
+  ],
+  created_at: new Date('2026-10-19T09:00:00Z'),
+};
+
+describe('dataset snapshot operations', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue({ rows: [] });
+    mockClientQuery.mockReset();
+  });
+
+  describe('createSnapshot', () => {
+    it('freezes the latest batch of each recently scraped source', async () => {
+      mockQuery.mockResolvedValue({ rows: [snapshotRow] });
+
+      await expect(createSnapshot({ name: 'October', maxAgeDays: 14 })).resolves.toEqual(snapshotRow);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('SELECT DISTINCT ON (source) source, scrape_id, scrape_timestamp');
+      expect(sql).toContain('FROM plan_batches');
+      expect(sql).toContain('JOIN plan_observations p ON p.source = b.source AND p.scrape_timestamp = b.scrape_timestamp');
+      expect(sql).toContain('make_interval(days => $2::INTEGER)');
+      expect(sql).toContain('INSERT INTO dataset_snapshots (name, max_age_days, plan_ids, composition)');
+      expect(sql).toContain('INSERT INTO dataset_snapshot_plans');
+      expect(sql).toContain('m.plan_data, m.scrape_timestamp');
+      expect(sql).toContain('m.price_pence, m.data_mb');
+      expect(params).toEqual(['October', 14]);
+    });
+
+    it('defaults the maximum age', async () => {
+      mockQuery.mockResolvedValue({ rows: [snapshotRow] });
+
+      await createSnapshot({ name: 'October' });
+
+      expect(mockQuery.mock.calls[0][1]).toEqual(['October', 30]);
+    });
+
+    it('throws when no source was scraped recently', async () => {
+      await expect(createSnapshot({ name: 'October', maxAgeDays: 1 })).rejects.toThrow(
+        new SnapshotError('No source has been scraped in the last 1 days')
+      );
+    });
+
+    it('throws when the name is taken', async () => {
+      mockQuery.mockRejectedValue(Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+      await expect(createSnapshot({ name: 'October' })).rejects.toBeInstanceOf(SnapshotError);
+    });
+
+    it('rethrows other database errors', async () => {
+      mockQuery.mockRejectedValue(new Error('connection refused'));
+
+      await expect(createSnapshot({ name: 'October' })).rejects.toThrow('connection refused');
+    });
+  });
+
+  describe('getSnapshot', () => {
+    it('returns the snapshot or null', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [snapshotRow] });
+
+      await expect(getSnapshot(SNAPSHOT_ID)).resolves.toEqual(snapshotRow);
+      await expect(getSnapshot(SNAPSHOT_ID)).resolves.toBeNull();
+    });
+
+    it('does not query for IDs that are not UUIDs', async () => {
+      await expect(getSnapshot('latest')).resolves.toBeNull();
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSnapshotPlans', () => {
+    it('returns the frozen plans, optionally for some sources', async () => {
+      await getSnapshotPlans(SNAPSHOT_ID);
+      await getSnapshotPlans(SNAPSHOT_ID, ['O2', 'Three']);
+
+      expect(mockQuery.mock.calls[0][0]).toContain('FROM dataset_snapshot_plans');
+      expect(mockQuery.mock.calls[0][0]).toContain('WHERE snapshot_id = $1');
+      expect(mockQuery.mock.calls[0][1]).toEqual([SNAPSHOT_ID, null]);
+      expect(mockQuery.mock.calls[1][1]).toEqual([SNAPSHOT_ID, ['O2', 'Three']]);
+    });
+
+    it('returns the same plans after the plans they were copied from are re-normalized', async () => {
+      const scrapeTimestamp = new Date('2026-10-12T06:00:00Z');
+      const copy = {
+        id: 'plan-1',
+        source: 'Three',
+        plan_data: { name: '100GB 24 month plan', price: '£1000.00' },
+        scrape_timestamp: scrapeTimestamp,
+      };
+      const stored = {
+        ...copy,
+        plan_key: 'Three-100GB-24months',
+        raw_data: { name: '100GB 24 month plan', price: '1000', data_allowance: '100GB', contract_term: '24 months' },
+        normalizer_version: null,
+        owned: true,
+      };
+
+      // plans and dataset_snapshot_plans, with renormalize writing to plans
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM plan_observations')) return { rows: [stored] };
+        if (/\b(FROM|JOIN) plans\b/.test(sql)) return { rows: [{ ...copy, plan_data: stored.plan_data }] };
+        return { rows: [copy] };
+      });
+      mockClientQuery.mockImplementation(async (sql: string, params?: unknown[]) => {
+        if (sql.includes('UPDATE plans') && params?.[0] === stored.id) {
+          stored.plan_data = JSON.parse(params[1] as string);
+        }
+        return { rows: [] };
+      });
+
+      const before = await getSnapshotPlans(SNAPSHOT_ID);
+      const result = await renormalizeScrapeGroup({ source: 'Three', scrapeGroup: 'scrape-1', scrapeTimestamp });
+      const after = await getSnapshotPlans(SNAPSHOT_ID);
+
+      expect(result.plansUpdated).toBe(1);
+      expect(stored.plan_data.price).toBe('£10.00');
+      expect(after).toEqual(before);
+      expect(after[0].plan_data.price).toBe('£1000.00');
+    });
+  });
+});
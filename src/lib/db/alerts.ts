@@ -0,0 +1,149 @@
+/**
+ * Database Operations for Price Alerts
+ *
+ * Reads the plans alert rules are evaluated against and stores fired
+ * alerts with their delivery outcomes (alert_events, migration 015).
+ */
+
+import { getPool } from './connection';
+import { partialBatchSql } from './scrape-runs';
+import type { Alert, AlertPlan, AlertRuleType } from '../alerts/rules';
+import type { AlertDelivery } from '../alerts/channels';
+
+export interface AlertEvent {
+  id: string;
+  scrape_id: string | null;
+  rule_id: string;
+  rule_type: AlertRuleType;
+  source: string;
+  plan_key: string | null;
+  message: string;
+  details: Record<string, unknown>;
+  deliveries: AlertDelivery[];
+  created_at: Date;
+}
+
+/**
+ * Latest plans of every source before and after a scrape run
+ */
+export interface AlertSnapshots {
+  previous: AlertPlan[];
+  current: AlertPlan[];
+}
+
+export const DEFAULT_ALERT_HISTORY_LIMIT = 200;
+
+/**
+ * Get the plans before and after a scrape run
+ *
+ * current is each source's latest batch. For sources whose latest batch came
+ * from this run, previous is the batch before it; other sources (not scraped,
+ * failed or quarantined) are unchanged. A source's first batch counts as
+ * unchanged too, so a new source does not fire every rule at once.
+ *
+ * A partial batch (its scrape_run_sources row lists failed pages or plans
+ * rejected by schema validation) keeps the plans of the batch before it that
+ * it did not see: they were on the failed pages or failed validation, so they
+ * neither fire plan_withdrawn nor stop undercutting or being undercut, and do
+ * not fire again when the next full batch lists them.
+ *
+ * @param scrapeId - Scrape run that just finished
+ */
+export async function getAlertSnapshots(scrapeId: string): Promise<AlertSnapshots> {
+  const result = await getPool().query<
+    AlertPlan & { batch_rank: string; scrape_id: string | null; partial: boolean }
+  >(
+    `SELECT
+       p.source,
+       p.plan_key,
+       p.plan_data->>'name' AS name,
+       p.price_pence,
+       p.currency,
+       p.data_mb,
+       p.contract_months,
+       p.scrape_id,
+       b.batch_rank,
+       ${partialBatchSql('r')} AS partial
+     FROM (
+       SELECT source, scrape_timestamp, scrape_id,
+              ROW_NUMBER() OVER (PARTITION BY source ORDER BY scrape_timestamp DESC) AS batch_rank
+       FROM plan_batches
+     ) b
+     JOIN plan_observations p ON p.source = b.source AND p.scrape_timestamp = b.scrape_timestamp
+     LEFT JOIN scrape_run_sources r ON r.scrape_id = b.scrape_id AND r.source = b.source
+     WHERE b.batch_rank <= 3
+       AND p.plan_key IS NOT NULL`
+  );
+
+  // Plans per source and batch rank (1 = latest), and the partial batches
+  const batches = new Map<string, Map<number, AlertPlan[]>>();
+  const partial = new Set<string>();
+  const scrapedNow = new Set<string>();
+
+  for (const { batch_rank, scrape_id, partial: isPartial, ...plan } of result.rows) {
+    const rank = Number(batch_rank);
+    const ranks = batches.get(plan.source) ?? new Map<number, AlertPlan[]>();
+    ranks.set(rank, [...(ranks.get(rank) ?? []), plan]);
+    batches.set(plan.source, ranks);
+    if (isPartial) partial.add(`${plan.source}|${rank}`);
+    if (rank === 1 && scrape_id === scrapeId) scrapedNow.add(plan.source);
+  }
+
+  // A batch's plans, plus the unseen plans of the batch before it when it was partial
+  const batchPlans = (source: string, rank: number): AlertPlan[] => {
+    const plans = batches.get(source)?.get(rank) ?? [];
+    if (!partial.has(`${source}|${rank}`)) return plans;
+
+    const seen = new Set(plans.map((plan) => plan.plan_key));
+    const unseen = (batches.get(source)?.get(rank + 1) ?? []).filter((plan) => !seen.has(plan.plan_key));
+    return [...plans, ...unseen];
+  };
+
+  const current = [...batches.keys()].flatMap((source) => batchPlans(source, 1));
+  const previous = [...batches].flatMap(([source, ranks]) =>
+    batchPlans(source, scrapedNow.has(source) && ranks.has(2) ? 2 : 1)
+  );
+
+  return { previous, current };
+}
+
+/**
+ * Store fired alerts with the delivery outcome of each channel
+ *
+ * @param scrapeId - Scrape run that fired the alerts
+ * @param alerts - Alerts from evaluateAlertRules()
+ * @param deliveries - Outcome per channel (same for every alert of the run)
+ */
+export async function insertAlertEvents(
+  scrapeId: string,
+  alerts: Alert[],
+  deliveries: AlertDelivery[]
+): Promise<void> {
+  if (alerts.length === 0) return;
+
+  await getPool().query(
+    `INSERT INTO alert_events
+       (scrape_id, rule_id, rule_type, source, plan_key, message, details, deliveries)
+     SELECT $1::TEXT, rule_id, rule_type, source, plan_key, message, details, $3::JSONB
+     FROM jsonb_to_recordset($2::JSONB)
+       AS a(rule_id TEXT, rule_type TEXT, source TEXT, plan_key TEXT, message TEXT, details JSONB)`,
+    [scrapeId, JSON.stringify(alerts), JSON.stringify(deliveries)]
+  );
+}
+
+/**
+ * Get fired alerts, newest first
+ *
+ * @param limit - Maximum number of alerts (default 200)
+ */
+export async function getAlertHistory(limit: number = DEFAULT_ALERT_HISTORY_LIMIT): Promise<AlertEvent[]> {
+  const result = await getPool().query<AlertEvent>(
+    `SELECT id, scrape_id, rule_id, rule_type, source, plan_key, message, details, deliveries, created_at
+     FROM alert_events
+     ORDER BY created_at DESC
+     LIMIT $1`,
+    [limit]
+  );
+
+  return result.rows;
+}
@@ -0,0 +1,210 @@
+/**
+ * Plan Compaction
+ *
+ * Merges plan rows that repeat the previous batch unchanged into one plan
+ * version with a first_seen/last_seen range (migration 017). insertPlans()
+ * already stores new batches this way; compaction migrates plans stored one
+ * row per scrape before it (run `npm run plans:compact` or send
+ * plans/maintain).
+ *
+ * Per source, rows with identical content form a version when each one was
+ * first seen in the batch right after the previous one was last seen. The
+ * oldest row of the version is kept with the newest last_seen, the others
+ * are deleted and analyses, snapshots and snapshot plan copies referencing
+ * them are pointed at the kept row. plan_observations returns the same rows
+ * before and after, apart from the merged ids.
+ */
+
+import { getPool } from './connection';
+import { lockPlanSource } from './plans';
+import { logger } from '../utils/logger';
+
+export interface CompactionOptions {
+  /** Source names to compact (e.g., ['O2']); all sources when omitted */
+  sources?: string[];
+  /** Report what would be merged without writing it */
+  dryRun?: boolean;
+}
+
+export interface CompactionReport {
+  dryRun: boolean;
+  sources: number;
+  /** Versions formed from more than one row */
+  versionsCompacted: number;
+  /** Rows merged into the kept row of their version (deleted) */
+  plansMerged: number;
+}
+
+/**
+ * Columns that make two rows the same plan version (all but id, scrape_id and timestamps)
+ */
+const VERSION_CONTENT_SQL = `md5(jsonb_build_array(
+  plan_key, plan_data, raw_data, normalizer_version, price_pence, data_mb, contract_months,
+  currency, price_ex_vat_pence, listed_currency, vat_included
+)::TEXT)`;
+
+/**
+ * Rows to merge, with the row each is merged into and the version's last_seen
+ */
+const COMPACTION_TABLE_SQL = `CREATE TEMP TABLE plan_compaction (
+  id UUID PRIMARY KEY,
+  keeper_id UUID NOT NULL,
+  last_seen TIMESTAMPTZ NOT NULL
+) ON COMMIT DROP`;
+
+/**
+ * Fill plan_compaction for the source in $1
+ *
+ * A row starts a new version unless the previous row with the same content
+ * (by first_seen) was last seen in the batch before its first one.
+ */
+const COMPACTION_PLAN_SQL = `WITH batches AS (
+    SELECT scrape_timestamp, LAG(scrape_timestamp) OVER (ORDER BY scrape_timestamp) AS previous_timestamp
+    FROM plan_batches
+    WHERE source = $1
+  ),
+  versions AS (
+    SELECT p.id, p.first_seen, p.last_seen, b.previous_timestamp, ${VERSION_CONTENT_SQL} AS content
+    FROM plans p
+    LEFT JOIN batches b ON b.scrape_timestamp = p.first_seen
+    WHERE p.source = $1
+  ),
+  starts AS (
+    SELECT *,
+      CASE WHEN LAG(last_seen) OVER (PARTITION BY content ORDER BY first_seen, id) = previous_timestamp
+        THEN 0 ELSE 1 END AS is_start
+    FROM versions
+  ),
+  islands AS (
+    SELECT *, SUM(is_start) OVER (PARTITION BY content ORDER BY first_seen, id) AS island
+    FROM starts
+  ),
+  merged AS (
+    SELECT id,
+      FIRST_VALUE(id) OVER plan_version AS keeper_id,
+      MAX(last_seen) OVER plan_version AS last_seen,
+      COUNT(*) OVER plan_version AS row_count
+    FROM islands
+    WINDOW plan_version AS (
+      PARTITION BY content, island ORDER BY first_seen, id
+      ROWS BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING
+    )
+  )
+  INSERT INTO plan_compaction (id, keeper_id, last_seen)
+  SELECT id, keeper_id, last_seen FROM merged WHERE row_count > 1`;
+
+/**
+ * Point a plan_ids column at the kept rows, keeping element order
+ */
+const remapPlanIdsSql = (table: string) => `UPDATE ${table} t
+  SET plan_ids = ARRAY(
+    SELECT COALESCE(c.keeper_id, u.id)
+    FROM unnest(t.plan_ids) WITH ORDINALITY AS u(id, position)
+    LEFT JOIN plan_compaction c ON c.id = u.id
+    ORDER BY u.position
+  )
+  WHERE t.plan_ids && ARRAY(SELECT id FROM plan_compaction WHERE id <> keeper_id)`;
+
+/**
+ * Compact the plans of one source
+ *
+ * @param source - Telco name
+ * @param dryRun - Report what would be merged without writing it
+ * @returns Counts for this source
+ */
+export async function compactSource(
+  source: string,
+  dryRun = false
+): Promise<Pick<CompactionReport, 'versionsCompacted' | 'plansMerged'>> {
+  const client = await getPool().connect();
+
+  try {
+    await client.query('BEGIN');
+    await lockPlanSource(client, source);
+
+    await client.query(COMPACTION_TABLE_SQL);
+    await client.query(COMPACTION_PLAN_SQL, [source]);
+
+    const counts = await client.query<{ versions: number; merged: number }>(
+      `SELECT COUNT(DISTINCT keeper_id)::INTEGER AS versions,
+              COUNT(*) FILTER (WHERE id <> keeper_id)::INTEGER AS merged
+       FROM plan_compaction`
+    );
+    const { versions, merged } = counts.rows[0];
+
+    if (dryRun || merged === 0) {
+      await client.query('ROLLBACK');
+      return { versionsCompacted: versions, plansMerged: merged };
+    }
+
+    await client.query(
+      `UPDATE plans p
+       SET last_seen = c.last_seen
+       FROM plan_compaction c
+       WHERE p.id = c.id AND c.id = c.keeper_id`
+    );
+    await client.query(remapPlanIdsSql('analyses'));
+    await client.query(remapPlanIdsSql('dataset_snapshots'));
+    await client.query(
+      `UPDATE dataset_snapshot_plans t
+       SET plan_id = c.keeper_id
+       FROM plan_compaction c
+       WHERE t.plan_id = c.id AND c.id <> c.keeper_id`
+    );
+    await client.query(
+      `DELETE FROM plans
+       WHERE id IN (SELECT id FROM plan_compaction WHERE id <> keeper_id)`
+    );
+
+    await client.query('COMMIT');
+
+    logger.info({ source, versionsCompacted: versions, plansMerged: merged }, 'Compacted plans');
+    return { versionsCompacted: versions, plansMerged: merged };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error({ source, error }, 'Failed to compact plans');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Compact stored plans into first_seen/last_seen versions
+ *
+ * Safe to re-run: rows already merged form single-row versions.
+ *
+ * @param options - Sources and dry run
+ * @returns Totals over all sources
+ *
+ * @example
+ * ```typescript
+ * const report = await compactPlans({ sources: ['Three'], dryRun: true });
+ * // { dryRun: true, sources: 1, versionsCompacted: 120, plansMerged: 2280 }
+ * ```
+ */
+export async function compactPlans(options: CompactionOptions = {}): Promise<CompactionReport> {
+  const dryRun = options.dryRun ?? false;
+
+  const sources = options.sources?.length
+    ? options.sources
+    : (
+        await getPool().query<{ source: string }>('SELECT DISTINCT source FROM plan_batches ORDER BY source')
+      ).rows.map((row) => row.source);
+
+  const report: CompactionReport = {
+    dryRun,
+    sources: sources.length,
+    versionsCompacted: 0,
+    plansMerged: 0,
+  };
+
+  for (const source of sources) {
+    const result = await compactSource(source, dryRun);
+    report.versionsCompacted += result.versionsCompacted;
+    report.plansMerged += result.plansMerged;
+  }
+
+  logger.info(report, dryRun ? 'Plan compaction dry run complete' : 'Plan compaction complete');
+  return report;
+}
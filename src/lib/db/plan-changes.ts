@@ -0,0 +1,98 @@
+/**
+ * Database Operations for Plan Change Events
+ *
+ * Stores the diff between each source's stored batch and its previous one
+ * (plan_change_events, migration 014) and reads the latest changes for the
+ * dashboard feed.
+ *
+ * Recording is best-effort: failures are logged and never thrown, so the
+ * feed cannot fail a scrape whose plans are already stored.
+ */
+
+import { getPool } from './connection';
+import { logger } from '../utils/logger';
+import { diffPlanBatches, type DiffOptions, type PlanChange } from '../scraping/change-detection';
+import type { PlanData } from '../../types/database';
+
+export interface PlanChangeEvent extends PlanChange {
+  id: string;
+  scrape_id: string | null;
+  source: string;
+  batch_timestamp: Date;
+  created_at: Date;
+}
+
+const PLAN_CHANGE_EVENT_COLUMNS = `id, scrape_id, source, batch_timestamp, change_type, plan_key,
+  previous_plan_key, plan_name, old_value, new_value, price_delta_pence, created_at`;
+
+/**
+ * Diff a stored batch against the previous one and record the changes
+ *
+ * @param source - Telco name (e.g., 'Vodafone')
+ * @param previousPlans - Plans from the source's previous scrape (nothing is recorded when empty)
+ * @param plans - Plans just inserted
+ * @param batchTimestamp - scrape_timestamp of the inserted plans
+ * @param scrapeId - Scrape run ID (matches plans.scrape_id)
+ * @param options - Whether the batch is partial (no withdrawals)
+ * @returns Changes recorded (empty if recording failed)
+ */
+export async function recordPlanChanges(
+  source: string,
+  previousPlans: PlanData[],
+  plans: PlanData[],
+  batchTimestamp: Date,
+  scrapeId?: string | null,
+  options: DiffOptions = {}
+): Promise<PlanChange[]> {
+  const changes = diffPlanBatches(previousPlans, plans, options);
+  if (changes.length === 0) return [];
+
+  try {
+    await getPool().query(
+      `INSERT INTO plan_change_events
+         (scrape_id, source, batch_timestamp, change_type, plan_key, previous_plan_key,
+          plan_name, old_value, new_value, price_delta_pence)
+       SELECT $1::TEXT, $2::TEXT, $3::TIMESTAMPTZ, *
+       FROM UNNEST($4::TEXT[], $5::TEXT[], $6::TEXT[], $7::TEXT[], $8::TEXT[], $9::TEXT[], $10::INTEGER[])`,
+      [
+        scrapeId || null,
+        source,
+        batchTimestamp,
+        changes.map((c) => c.change_type),
+        changes.map((c) => c.plan_key),
+        changes.map((c) => c.previous_plan_key),
+        changes.map((c) => c.plan_name),
+        changes.map((c) => c.old_value),
+        changes.map((c) => c.new_value),
+        changes.map((c) => c.price_delta_pence),
+      ]
+    );
+
+    logger.info({ source, scrapeId, changeCount: changes.length }, 'Recorded plan changes');
+    return changes;
+  } catch (error) {
+    logger.warn({ source, scrapeId, error }, 'Failed to record plan changes');
+    return [];
+  }
+}
+
+/**
+ * Get the changes in each source's latest batch
+ *
+ * Sources whose latest batch changed nothing (or was their first scrape)
+ * have no entries.
+ *
+ * @returns Events ordered by source, then change type
+ */
+export async function getLatestPlanChanges(): Promise<PlanChangeEvent[]> {
+  const result = await getPool().query<PlanChangeEvent>(
+    `SELECT ${PLAN_CHANGE_EVENT_COLUMNS}
+     FROM plan_change_events e
+     WHERE e.batch_timestamp = (
+       SELECT MAX(scrape_timestamp) FROM plan_batches b WHERE b.source = e.source
+     )
+     ORDER BY e.source, e.change_type, e.plan_key`
+  );
+
+  return result.rows;
+}
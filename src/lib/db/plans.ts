@@ -3,12 +3,53 @@
  *
  * Handles insertion of normalized plan data into the database.
  * Data includes plan_key for historical tracking (Story 2.5).
+ * The typed price/data/contract columns are derived from the normalized
+ * strings in plan_data (see ../scraping/numeric-fields.ts). The collector
+ * payload and normalizer version are stored beside plan_data (raw_data,
+ * normalizer_version) so plans can be re-normalized (../scraping/renormalize.ts).
+ *
+ * Plans are stored as versions (migration 017): a plan seen unchanged since
+ * the source's previous batch has its last_seen moved up instead of being
+ * inserted again. Every insertPlans() call records a plan_batches row, and
+ * plan_observations expands versions back to one row per plan per batch.
  */
 
+import type { PoolClient } from 'pg';
 import { getPool } from './connection';
 import { logger } from '../utils/logger';
+import { getPlanNumericFields } from '../scraping/numeric-fields';
 import type { PlanData } from '../../types/database';
 
+/**
+ * A normalized plan split into its plans columns
+ */
+export interface PlanRecord {
+  planData: PlanData;
+  rawData: Record<string, unknown> | null;
+  normalizerVersion: number | null;
+}
+
+/**
+ * Split a normalized plan into plan_data, raw_data and normalizer_version
+ *
+ * raw_data and normalizer_version are stored in their own columns, not in
+ * plan_data. Plans without them (e.g., built by hand) store NULL.
+ *
+ * @param plan - Normalized plan (see NormalizedPlan in ../scraping/normalize.ts)
+ */
+export function splitPlanRecord(plan: PlanData): PlanRecord {
+  const { raw_data: rawData, normalizer_version: normalizerVersion, ...planData } = plan as PlanData & {
+    raw_data?: Record<string, unknown>;
+    normalizer_version?: number;
+  };
+
+  return {
+    planData,
+    rawData: rawData ?? null,
+    normalizerVersion: normalizerVersion ?? null,
+  };
+}
+
 export interface InsertPlanResult {
   id: string;
   source: string;
@@ -16,13 +57,79 @@ export interface InsertPlanResult {
   scrape_timestamp: Date;
 }
 
+/**
+ * Extend the matching version from the previous batch, or insert a new one
+ *
+ * A version matches when every stored column except id, scrape_id and the
+ * timestamps is unchanged. Each version is extended at most once per batch
+ * (its last_seen moves off the previous batch), so a plan listed twice in
+ * one batch is still stored twice.
+ *
+ * $14 is the batch timestamp (already in plan_batches).
+ */
+const STORE_PLAN_VERSION_SQL = `WITH extended AS (
+   UPDATE plans
+   SET last_seen = $14::TIMESTAMPTZ
+   WHERE id = (
+     SELECT id FROM plans
+     WHERE source = $1
+       AND last_seen = (
+         SELECT MAX(scrape_timestamp) FROM plan_batches
+         WHERE source = $1 AND scrape_timestamp < $14::TIMESTAMPTZ
+       )
+       AND plan_data = $2::JSONB
+       AND plan_key IS NOT DISTINCT FROM $3::TEXT
+       AND price_pence IS NOT DISTINCT FROM $5::INTEGER
+       AND data_mb IS NOT DISTINCT FROM $6::INTEGER
+       AND contract_months IS NOT DISTINCT FROM $7::INTEGER
+       AND currency IS NOT DISTINCT FROM $8::TEXT
+       AND raw_data IS NOT DISTINCT FROM $9::JSONB
+       AND normalizer_version IS NOT DISTINCT FROM $10::INTEGER
+       AND price_ex_vat_pence IS NOT DISTINCT FROM $11::INTEGER
+       AND listed_currency IS NOT DISTINCT FROM $12::TEXT
+       AND vat_included IS NOT DISTINCT FROM $13::BOOLEAN
+     LIMIT 1
+   )
+   RETURNING id, source, plan_data, last_seen AS scrape_timestamp
+ ),
+ inserted AS (
+   INSERT INTO plans
+     (source, plan_data, plan_key, scrape_id, price_pence, data_mb, contract_months, currency,
+      raw_data, normalizer_version, price_ex_vat_pence, listed_currency, vat_included,
+      scrape_timestamp, first_seen, last_seen)
+   SELECT $1, $2::JSONB, $3::TEXT, $4::TEXT, $5::INTEGER, $6::INTEGER, $7::INTEGER, $8::TEXT,
+          $9::JSONB, $10::INTEGER, $11::INTEGER, $12::TEXT, $13::BOOLEAN,
+          $14::TIMESTAMPTZ, $14::TIMESTAMPTZ, $14::TIMESTAMPTZ
+   WHERE NOT EXISTS (SELECT 1 FROM extended)
+   RETURNING id, source, plan_data, scrape_timestamp
+ )
+ SELECT * FROM extended
+ UNION ALL
+ SELECT * FROM inserted`;
+
+/**
+ * Serialize writers of a source's plans until the transaction ends
+ *
+ * Held by insertPlans(), compaction (./compaction.ts) and re-normalization
+ * (../scraping/renormalize.ts) so a batch is never matched against versions
+ * that are being merged or rewritten.
+ *
+ * @param client - Client with an open transaction
+ * @param source - Telco name
+ */
+export async function lockPlanSource(client: PoolClient, source: string): Promise<void> {
+  await client.query(`SELECT pg_advisory_xact_lock(hashtext('plans:' || $1))`, [source]);
+}
+
 /**
  * Insert plan data into the database
  *
+ * Stored as a batch of one (see insertPlans()).
+ *
  * @param source - Telco name (e.g., 'O2', 'Vodafone', 'Smarty')
- * @param planData - Normalized plan data with plan_key
+ * @param plan - Normalized plan data with plan_key
  * @param scrapeId - Optional Inngest event ID to group plans from same scrape run
- * @returns Inserted plan record
+ * @returns Stored plan record
  *
  * @example
  * ```typescript
@@ -37,37 +144,25 @@ export interface InsertPlanResult {
  */
 export async function insertPlan(
   source: string,
-  planData: PlanData,
+  plan: PlanData,
   scrapeId?: string
 ): Promise<InsertPlanResult> {
-  const pool = getPool();
-
-  try {
-    // Extract plan_key from planData (populated by normalization)
-    const planKey = (planData as any).plan_key || null;
-
-    const result = await pool.query<InsertPlanResult>(
-      `INSERT INTO plans (source, plan_data, plan_key, scrape_id)
-       VALUES ($1, $2, $3, $4)
-       RETURNING id, source, plan_data, scrape_timestamp`,
-      [source, JSON.stringify(planData), planKey, scrapeId || null]
-    );
-
-    logger.debug({ source, planId: result.rows[0].id, planKey, scrapeId }, 'Plan inserted');
-    return result.rows[0];
-  } catch (error) {
-    logger.error({ source, planData, error }, 'Failed to insert plan');
-    throw error;
-  }
+  const [result] = await insertPlans(source, [plan], scrapeId);
+  return result;
 }
 
 /**
  * Insert multiple plans in a single transaction
  *
+ * The plans form one batch of the source. Plans unchanged since the source's
+ * previous batch keep their row (and id) with last_seen set to this batch;
+ * the others are inserted. Either way the result carries the batch's
+ * scrape_timestamp.
+ *
  * @param source - Telco name
  * @param plans - Array of plan data objects
  * @param scrapeId - Optional Inngest event ID to group plans from same scrape run
- * @returns Array of inserted plan records
+ * @returns Array of stored plan records, in input order
  *
  * @example
  * ```typescript
@@ -92,19 +187,45 @@ export async function insertPlans(
 
   try {
     await client.query('BEGIN');
+    await lockPlanSource(client, source);
+
+    // Millisecond precision so the timestamp survives the round trip through
+    // a JS Date; clock_timestamp() rather than NOW() because it is taken under
+    // the lock, so it is after every batch of the source already stored
+    const batch = await client.query<{ scrape_timestamp: Date }>(
+      `INSERT INTO plan_batches (source, scrape_timestamp, scrape_id, plan_count)
+       VALUES ($1, date_trunc('milliseconds', clock_timestamp()), $2, $3)
+       RETURNING scrape_timestamp`,
+      [source, scrapeId || null, plans.length]
+    );
+    const batchTimestamp = batch.rows[0].scrape_timestamp;
 
     const results: InsertPlanResult[] = [];
 
-    for (const planData of plans) {
+    for (const plan of plans) {
+      const { planData, rawData, normalizerVersion } = splitPlanRecord(plan);
+
       // Extract plan_key from normalized planData
       const planKey = (planData as any).plan_key || null;
 
-      const result = await client.query<InsertPlanResult>(
-        `INSERT INTO plans (source, plan_data, plan_key, scrape_id)
-         VALUES ($1, $2, $3, $4)
-         RETURNING id, source, plan_data, scrape_timestamp`,
-        [source, JSON.stringify(planData), planKey, scrapeId || null]
-      );
+      const numeric = getPlanNumericFields(planData);
+
+      const result = await client.query<InsertPlanResult>(STORE_PLAN_VERSION_SQL, [
+        source,
+        JSON.stringify(planData),
+        planKey,
+        scrapeId || null,
+        numeric.price_pence,
+        numeric.data_mb,
+        numeric.contract_months,
+        numeric.currency,
+        rawData ? JSON.stringify(rawData) : null,
+        normalizerVersion,
+        numeric.price_ex_vat_pence,
+        numeric.listed_currency,
+        numeric.vat_included,
+        batchTimestamp,
+      ]);
 
       results.push(result.rows[0]);
     }
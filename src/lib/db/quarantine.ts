@@ -0,0 +1,234 @@
+/**
+ * Database Operations for Plan Quarantine
+ *
+ * Stores scrape batches held back by the anomaly guard (migration 005)
+ * and moves them into plans when approved from the dashboard.
+ */
+
+import { getPool } from './connection';
+import { insertPlans } from './plans';
+import { recordPlanChanges } from './plan-changes';
+import { partialBatchSql } from './scrape-runs';
+import { logger } from '../utils/logger';
+import type { FailedPage } from '../scraping/retry';
+import type { PlanData } from '../../types/database';
+
+/**
+ * One failed anomaly check
+ */
+export interface AnomalyReason {
+  check: 'plan_count_drop' | 'unknown_price_share' | 'unknown_data_share' | 'price_change_share';
+  message: string;
+  value: number;
+  threshold: number;
+}
+
+export type QuarantineStatus = 'pending' | 'approved' | 'rejected';
+
+export interface QuarantinedBatch {
+  id: string;
+  source: string;
+  scrape_id: string | null;
+  plans: PlanData[];
+  plan_count: number;
+  previous_plan_count: number | null;
+  reasons: AnomalyReason[];
+  /** Pages that failed in the run that produced the batch (null when none) */
+  failed_pages: FailedPage[] | null;
+  /** Plans of the run rejected by schema validation */
+  plans_rejected: number;
+  status: QuarantineStatus;
+  created_at: Date;
+  reviewed_at: Date | null;
+}
+
+export interface QuarantineBatchInput {
+  source: string;
+  scrapeId?: string;
+  plans: PlanData[];
+  previousPlanCount: number | null;
+  reasons: AnomalyReason[];
+  /** Pages the collector could not scrape in this run */
+  failedPages?: FailedPage[];
+  /** Plans of the run rejected by schema validation */
+  plansRejected?: number;
+}
+
+/**
+ * Get the plans from a source's most recent scrape
+ *
+ * Every insertPlans() call records a plan_batches row, so the source's
+ * latest one identifies the previous batch. When that batch was partial
+ * (its scrape_run_sources row lists failed pages or rejected plans), plans
+ * of the batch before it that it did not see are carried over: they were on
+ * the failed pages or failed validation, and the next full batch must not
+ * report them as added.
+ *
+ * @param source - Telco name (e.g., 'Vodafone')
+ * @returns Plan data from the previous batch (empty if the source was never scraped)
+ */
+export async function getPreviousBatch(source: string): Promise<PlanData[]> {
+  const result = await getPool().query<{ plan_data: PlanData }>(
+    `WITH batches AS (
+       SELECT b.scrape_timestamp,
+              ${partialBatchSql('r')} AS partial,
+              ROW_NUMBER() OVER (ORDER BY b.scrape_timestamp DESC) AS position
+       FROM plan_batches b
+       LEFT JOIN scrape_run_sources r ON r.scrape_id = b.scrape_id AND r.source = b.source
+       WHERE b.source = $1
+       ORDER BY b.scrape_timestamp DESC
+       LIMIT 2
+     ),
+     latest AS (
+       SELECT plan_key, plan_data
+       FROM plan_observations
+       WHERE source = $1
+         AND scrape_timestamp = (SELECT scrape_timestamp FROM batches WHERE position = 1)
+     )
+     SELECT plan_data FROM latest
+     UNION ALL
+     SELECT o.plan_data
+     FROM plan_observations o
+     WHERE o.source = $1
+       AND o.scrape_timestamp = (SELECT scrape_timestamp FROM batches WHERE position = 2)
+       AND (SELECT partial FROM batches WHERE position = 1)
+       AND o.plan_key IS NOT NULL
+       AND o.plan_key NOT IN (SELECT plan_key FROM latest WHERE plan_key IS NOT NULL)`,
+    [source]
+  );
+
+  return result.rows.map((row) => row.plan_data);
+}
+
+/**
+ * Store a suspicious batch for review
+ *
+ * @returns Quarantine record ID
+ */
+export async function quarantineBatch(input: QuarantineBatchInput): Promise<string> {
+  const { source, scrapeId, plans, previousPlanCount, reasons, failedPages = [], plansRejected = 0 } = input;
+
+  const result = await getPool().query<{ id: string }>(
+    `INSERT INTO plan_quarantine
+       (source, scrape_id, plans, plan_count, previous_plan_count, reasons, failed_pages, plans_rejected)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING id`,
+    [
+      source,
+      scrapeId || null,
+      JSON.stringify(plans),
+      plans.length,
+      previousPlanCount,
+      JSON.stringify(reasons),
+      failedPages.length > 0 ? JSON.stringify(failedPages) : null,
+      plansRejected,
+    ]
+  );
+
+  const id = result.rows[0].id;
+  logger.warn({ source, scrapeId, quarantineId: id, reasons }, 'Scrape batch quarantined');
+  return id;
+}
+
+/**
+ * Get quarantined batches awaiting review (newest first)
+ */
+export async function getPendingQuarantines(): Promise<QuarantinedBatch[]> {
+  const result = await getPool().query<QuarantinedBatch>(
+    `SELECT id, source, scrape_id, plans, plan_count, previous_plan_count,
+            reasons, failed_pages, plans_rejected, status, created_at, reviewed_at
+     FROM plan_quarantine
+     WHERE status = 'pending'
+     ORDER BY created_at DESC`
+  );
+
+  return result.rows;
+}
+
+/**
+ * Count quarantined batches awaiting review
+ */
+export async function countPendingQuarantines(): Promise<number> {
+  const result = await getPool().query<{ count: string }>(
+    `SELECT COUNT(*) AS count FROM plan_quarantine WHERE status = 'pending'`
+  );
+
+  return parseInt(result.rows[0].count, 10);
+}
+
+/**
+ * Mark a pending batch as reviewed
+ *
+ * @returns The batch, or null if it does not exist or was already reviewed
+ */
+async function reviewQuarantine(
+  id: string,
+  status: Exclude<QuarantineStatus, 'pending'>
+): Promise<QuarantinedBatch | null> {
+  const result = await getPool().query<QuarantinedBatch>(
+    `UPDATE plan_quarantine
+     SET status = $2, reviewed_at = NOW()
+     WHERE id = $1 AND status = 'pending'
+     RETURNING id, source, scrape_id, plans, plan_count, previous_plan_count,
+               reasons, failed_pages, plans_rejected, status, created_at, reviewed_at`,
+    [id, status]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Approve a quarantined batch and insert its plans
+ *
+ * Plans get the approval time as scrape_timestamp and keep their scrape_id.
+ * Changes against the source's latest stored batch are recorded as for any
+ * scrape; a batch whose run had failed pages or rejected plans is partial and
+ * records no withdrawals.
+ *
+ * @param id - Quarantine record ID
+ * @returns Number of plans inserted, or null if the batch is not pending
+ */
+export async function approveQuarantine(id: string): Promise<number | null> {
+  const batch = await reviewQuarantine(id, 'approved');
+  if (!batch) return null;
+
+  try {
+    const previousPlans = await getPreviousBatch(batch.source);
+    const results = await insertPlans(batch.source, batch.plans, batch.scrape_id ?? undefined);
+    if (results.length > 0) {
+      await recordPlanChanges(
+        batch.source,
+        previousPlans,
+        batch.plans,
+        results[0].scrape_timestamp,
+        batch.scrape_id,
+        { partial: (batch.failed_pages?.length ?? 0) > 0 || batch.plans_rejected > 0 }
+      );
+    }
+    logger.info({ quarantineId: id, source: batch.source, planCount: results.length }, 'Quarantined batch approved');
+    return results.length;
+  } catch (error) {
+    // Put the batch back up for review if the insert failed
+    await getPool().query(
+      `UPDATE plan_quarantine SET status = 'pending', reviewed_at = NULL WHERE id = $1`,
+      [id]
+    );
+    throw error;
+  }
+}
+
+/**
+ * Reject a quarantined batch (plans are never inserted)
+ *
+ * @param id - Quarantine record ID
+ * @returns true if rejected, false if the batch is not pending
+ */
+export async function rejectQuarantine(id: string): Promise<boolean> {
+  const batch = await reviewQuarantine(id, 'rejected');
+
+  if (batch) {
+    logger.info({ quarantineId: id, source: batch.source }, 'Quarantined batch rejected');
+  }
+
+  return batch !== null;
+}
@@ -0,0 +1,220 @@
+/**
+ * Plan Retention
+ *
+ * Moves plan versions last seen more than PLAN_RETENTION_DAYS (default 365)
+ * ago out of the database into gzipped JSONL files under PLAN_ARCHIVE_DIR
+ * (default archive/plans), one plans row per line with all its columns.
+ * Each file is recorded in plan_archives (migration 017). Run
+ * `npm run plans:archive` on a machine with durable disk: archiving refuses
+ * to run on Vercel or with NODE_ENV=production, where the working directory
+ * is read-only and temporary files do not outlive the function, so the only
+ * copy of the archived versions would be lost.
+ *
+ * Versions are kept, whatever their age, when they are the latest version
+ * of their plan (so the plans page and each plan's current state do not
+ * change) or are referenced by a dataset snapshot or a stored analysis.
+ * plan_batches is kept too, so batch counts and change events still cover
+ * the archived period; plan history only loses the archived versions.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { getPool } from './connection';
+import { logger } from '../utils/logger';
+
+export const DEFAULT_PLAN_RETENTION_DAYS = 365;
+
+/**
+ * Default archive directory (relative to the working directory)
+ */
+export const DEFAULT_PLAN_ARCHIVE_DIR = path.join('archive', 'plans');
+
+/**
+ * Versions per archive file (each file is written and deleted in one transaction)
+ */
+export const ARCHIVE_CHUNK_SIZE = 1000;
+
+export interface RetentionOptions {
+  /** Archive versions last seen more than this many days ago (default PLAN_RETENTION_DAYS) */
+  retentionDays?: number;
+  /** Directory for the archive files (default PLAN_ARCHIVE_DIR) */
+  archiveDir?: string;
+  /** Count eligible versions without archiving them */
+  dryRun?: boolean;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  cutoff: Date;
+  plansArchived: number;
+  /** Archive files written */
+  files: string[];
+}
+
+/**
+ * Versions last seen before $1 that no latest plan, snapshot or analysis needs
+ */
+const ARCHIVABLE_PLANS_SQL = `FROM plans p
+  WHERE p.last_seen < $1
+    AND (
+      p.plan_key IS NULL
+      OR EXISTS (
+        SELECT 1 FROM plans newer
+        WHERE newer.source = p.source
+          AND newer.plan_key = p.plan_key
+          AND newer.last_seen > p.last_seen
+      )
+    )
+    AND NOT EXISTS (SELECT 1 FROM dataset_snapshots s WHERE p.id = ANY(s.plan_ids))
+    AND NOT EXISTS (SELECT 1 FROM analyses a WHERE p.id = ANY(a.plan_ids))`;
+
+/**
+ * Check that archive files written here outlive the process
+ *
+ * @throws Error on Vercel or with NODE_ENV=production
+ */
+function assertDurableArchiveDisk(): void {
+  if (process.env.VERCEL || process.env.NODE_ENV === 'production') {
+    throw new Error(
+      'Plan archiving writes to local disk and cannot run on Vercel or with NODE_ENV=production. ' +
+        'Run `npm run plans:archive` from a machine with durable storage'
+    );
+  }
+}
+
+/**
+ * Read the retention period from PLAN_RETENTION_DAYS
+ *
+ * @returns Days, or DEFAULT_PLAN_RETENTION_DAYS when unset
+ * @throws Error if the value is not a positive integer
+ */
+export function getPlanRetentionDays(): number {
+  const value = process.env.PLAN_RETENTION_DAYS?.trim();
+  if (!value) return DEFAULT_PLAN_RETENTION_DAYS;
+
+  const days = Number(value);
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new Error(`Invalid PLAN_RETENTION_DAYS "${value}". Expected a positive integer`);
+  }
+
+  return days;
+}
+
+/**
+ * Archive plan versions older than the retention period
+ *
+ * Each chunk is written to its file and read back before its rows are
+ * deleted, in one transaction; the file is removed again if the transaction
+ * fails, so a version is never in both or in neither.
+ *
+ * @param options - Retention period, archive directory and dry run
+ * @returns Cutoff, number of versions archived (or eligible, in a dry run) and files written
+ * @throws Error on Vercel or with NODE_ENV=production (unless dryRun), or if a file cannot be written
+ *
+ * @example
+ * ```typescript
+ * const report = await archivePlans({ retentionDays: 180 });
+ * // { dryRun: false, cutoff: 2026-04-22T..., plansArchived: 1840, files: ['archive/plans/plans-...-1.jsonl.gz', ...] }
+ * ```
+ */
+export async function archivePlans(options: RetentionOptions = {}): Promise<RetentionReport> {
+  const dryRun = options.dryRun ?? false;
+  const retentionDays = options.retentionDays ?? getPlanRetentionDays();
+  const archiveDir = path.resolve(options.archiveDir || process.env.PLAN_ARCHIVE_DIR || DEFAULT_PLAN_ARCHIVE_DIR);
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+  const pool = getPool();
+  const report: RetentionReport = { dryRun, cutoff, plansArchived: 0, files: [] };
+
+  if (dryRun) {
+    const result = await pool.query<{ count: number }>(
+      `SELECT COUNT(*)::INTEGER AS count ${ARCHIVABLE_PLANS_SQL}`,
+      [cutoff]
+    );
+    report.plansArchived = result.rows[0].count;
+
+    logger.info(report, 'Plan retention dry run complete');
+    return report;
+  }
+
+  assertDurableArchiveDisk();
+
+  const runStamp = new Date().toISOString().replace(/[:.]/g, '-');
+  fs.mkdirSync(archiveDir, { recursive: true });
+
+  for (let chunk = 1; ; chunk++) {
+    const client = await pool.connect();
+    const file = path.join(archiveDir, `plans-${runStamp}-${chunk}.jsonl.gz`);
+
+    try {
+      await client.query('BEGIN');
+
+      const { rows } = await client.query<Record<string, unknown> & { id: string; first_seen: Date; last_seen: Date }>(
+        `SELECT p.* ${ARCHIVABLE_PLANS_SQL}
+         ORDER BY p.last_seen, p.id
+         LIMIT $2
+         FOR UPDATE OF p`,
+        [cutoff, ARCHIVE_CHUNK_SIZE]
+      );
+
+      if (rows.length === 0) {
+        await client.query('ROLLBACK');
+        break;
+      }
+
+      const jsonl = rows.map((row) => JSON.stringify(row)).join('\n') + '\n';
+      fs.writeFileSync(`${file}.tmp`, zlib.gzipSync(jsonl));
+      fs.renameSync(`${file}.tmp`, file);
+
+      if (readPlanArchive(file).length !== rows.length) {
+        throw new Error(`Archive file ${file} does not contain the ${rows.length} plans written to it`);
+      }
+
+      const ids = rows.map((row) => row.id);
+      const firstSeen = new Date(Math.min(...rows.map((row) => row.first_seen.valueOf())));
+      const lastSeen = new Date(Math.max(...rows.map((row) => row.last_seen.valueOf())));
+
+      await client.query('DELETE FROM plans WHERE id = ANY($1::UUID[])', [ids]);
+      await client.query(
+        `INSERT INTO plan_archives (file_path, plan_count, first_seen, last_seen, cutoff)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [file, rows.length, firstSeen, lastSeen, cutoff]
+      );
+
+      await client.query('COMMIT');
+
+      report.plansArchived += rows.length;
+      report.files.push(file);
+      logger.info({ file, planCount: rows.length }, 'Archived plans');
+
+      if (rows.length < ARCHIVE_CHUNK_SIZE) break;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      fs.rmSync(file, { force: true });
+      fs.rmSync(`${file}.tmp`, { force: true });
+      logger.error({ file, error }, 'Failed to archive plans');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  logger.info(report, 'Plan retention complete');
+  return report;
+}
+
+/**
+ * Read the plans rows stored in an archive file
+ *
+ * @param file - Path of a .jsonl.gz file written by archivePlans()
+ * @returns Rows as written (timestamps are ISO strings)
+ */
+export function readPlanArchive(file: string): Record<string, unknown>[] {
+  return zlib
+    .gunzipSync(fs.readFileSync(file))
+    .toString('utf-8')
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => JSON.parse(line));
+}
@@ -0,0 +1,311 @@
+/**
+ * Database Operations for the Scrape Run Ledger
+ *
+ * Persists each scrape run and the outcome of every collector in it
+ * (scrape_runs / scrape_run_sources, migration 004).
+ *
+ * Ledger writes are best-effort: failures are logged and never thrown,
+ * so a database hiccup cannot fail a scrape that already collected plans.
+ * Reads (run details, diagnostics artifacts) throw like other queries.
+ */
+
+import { getPool } from './connection';
+import { logger } from '../utils/logger';
+import type { Collector, CollectorResult } from '../scraping/collector';
+import type { SelectorCheck } from '../scraping/diagnostics';
+import type { FailedPage } from '../scraping/retry';
+import type { NormalizationReport } from '../scraping/normalization-report';
+import type { ValidationReport } from '../scraping/plan-validation';
+
+export type ScrapeRunStatus = 'running' | 'completed' | 'partial' | 'failed';
+
+/**
+ * Whether the scrape_run_sources row aliased `alias` stored a partial batch:
+ * pages failed or plans were rejected by schema validation, so plans missing
+ * from the batch were not seen rather than withdrawn (false without a row)
+ */
+export const partialBatchSql = (alias: string) => `(
+  COALESCE(jsonb_array_length(${alias}.failed_pages), 0) > 0
+  OR COALESCE((${alias}.validation_report->>'plansRejected')::INTEGER, 0) > 0
+)`;
+
+export interface ScrapeRun {
+  scrape_id: string;
+  triggered_by: string | null;
+  sources: string[];
+  status: ScrapeRunStatus;
+  started_at: Date;
+  finished_at: Date | null;
+  total_plans: number | null;
+  successful_sources: number | null;
+  failed_sources: number | null;
+  error: string | null;
+}
+
+/**
+ * Page capture metadata (HTML/screenshot bodies are fetched separately)
+ */
+export interface ScrapeArtifactSummary {
+  id: string;
+  artifact_index: number;
+  url: string;
+  selectors: string[];
+  has_screenshot: boolean;
+  captured_at: Date;
+}
+
+export interface ScrapeRunSource {
+  collector_id: string;
+  source: string;
+  status: 'success' | 'failed';
+  plans_collected: number;
+  started_at: Date;
+  finished_at: Date;
+  execution_time_ms: number;
+  error: string | null;
+  selector_checks: SelectorCheck[] | null;
+  failed_pages: FailedPage[] | null;
+  normalization_report: NormalizationReport | null;
+  validation_report: ValidationReport | null;
+  artifacts: ScrapeArtifactSummary[];
+}
+
+export interface ScrapeRunDetails extends ScrapeRun {
+  run_sources: ScrapeRunSource[];
+}
+
+export interface ScrapeArtifact {
+  id: string;
+  scrape_id: string;
+  collector_id: string;
+  url: string;
+  html: string;
+  screenshot: Buffer | null;
+}
+
+export interface StartScrapeRunInput {
+  scrapeId: string;
+  triggeredBy?: string;
+  sources: string[];
+}
+
+/**
+ * Record the start of a scrape run
+ *
+ * @param input - Scrape ID (matches plans.scrape_id), trigger and requested collector ids
+ */
+export async function startScrapeRun(input: StartScrapeRunInput): Promise<void> {
+  const { scrapeId, triggeredBy, sources } = input;
+
+  try {
+    await getPool().query(
+      `INSERT INTO scrape_runs (scrape_id, triggered_by, sources, status)
+       VALUES ($1, $2, $3, 'running')
+       ON CONFLICT (scrape_id) DO NOTHING`,
+      [scrapeId, triggeredBy || null, sources]
+    );
+
+    logger.debug({ scrapeId, triggeredBy, sources }, 'Scrape run started');
+  } catch (error) {
+    logger.warn({ scrapeId, error }, 'Failed to record scrape run start');
+  }
+}
+
+/**
+ * Record the outcome of one collector within a scrape run
+ *
+ * @param scrapeId - Scrape run ID
+ * @param collector - Collector that ran
+ * @param result - Outcome from runCollector()
+ */
+export async function recordScrapeRunSource(
+  scrapeId: string,
+  collector: Pick<Collector, 'id' | 'source'>,
+  result: CollectorResult
+): Promise<void> {
+  try {
+    await getPool().query(
+      `INSERT INTO scrape_run_sources
+         (scrape_id, collector_id, source, status, plans_collected,
+          started_at, finished_at, execution_time_ms, error, selector_checks, failed_pages,
+          normalization_report, validation_report)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       ON CONFLICT (scrape_id, collector_id) DO UPDATE SET
+         status = EXCLUDED.status,
+         plans_collected = EXCLUDED.plans_collected,
+         started_at = EXCLUDED.started_at,
+         finished_at = EXCLUDED.finished_at,
+         execution_time_ms = EXCLUDED.execution_time_ms,
+         error = EXCLUDED.error,
+         selector_checks = EXCLUDED.selector_checks,
+         failed_pages = EXCLUDED.failed_pages,
+         normalization_report = EXCLUDED.normalization_report,
+         validation_report = EXCLUDED.validation_report`,
+      [
+        scrapeId,
+        collector.id,
+        collector.source,
+        result.status,
+        result.plansCollected,
+        result.startedAt,
+        result.finishedAt,
+        result.executionTime,
+        result.error || null,
+        result.selectorChecks ? JSON.stringify(result.selectorChecks) : null,
+        result.failedPages ? JSON.stringify(result.failedPages) : null,
+        result.normalizationReport ? JSON.stringify(result.normalizationReport) : null,
+        result.validationReport ? JSON.stringify(result.validationReport) : null,
+      ]
+    );
+
+    // Page captures for selectors that matched nothing
+    for (const [index, artifact] of (result.artifacts ?? []).entries()) {
+      await getPool().query(
+        `INSERT INTO scrape_artifacts
+           (scrape_id, collector_id, artifact_index, url, selectors, html, screenshot, captured_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (scrape_id, collector_id, artifact_index) DO NOTHING`,
+        [
+          scrapeId,
+          collector.id,
+          index,
+          artifact.url,
+          artifact.selectors,
+          artifact.html,
+          artifact.screenshot ? Buffer.from(artifact.screenshot, 'base64') : null,
+          artifact.capturedAt,
+        ]
+      );
+    }
+  } catch (error) {
+    logger.warn({ scrapeId, collectorId: collector.id, error }, 'Failed to record scrape run source');
+  }
+}
+
+/**
+ * Derive the overall run status from per-collector results
+ * Sources that lost pages after retries make the run partial.
+ */
+export function getScrapeRunStatus(results: CollectorResult[]): Exclude<ScrapeRunStatus, 'running'> {
+  const failed = results.filter((r) => r.status === 'failed').length;
+  const incomplete = results.filter((r) => r.failedPages && r.failedPages.length > 0).length;
+
+  if (results.length === 0 || failed === results.length) {
+    return 'failed';
+  }
+
+  return failed > 0 || incomplete > 0 ? 'partial' : 'completed';
+}
+
+/**
+ * Record the end of a scrape run with totals
+ *
+ * @param scrapeId - Scrape run ID
+ * @param results - Per-collector outcomes
+ * @param error - Optional run-level error message
+ */
+export async function finishScrapeRun(
+  scrapeId: string,
+  results: CollectorResult[],
+  error?: string
+): Promise<void> {
+  const successful = results.filter((r) => r.status === 'success');
+  const totalPlans = successful.reduce((sum, r) => sum + r.plansCollected, 0);
+  const status = error ? 'failed' : getScrapeRunStatus(results);
+
+  try {
+    await getPool().query(
+      `UPDATE scrape_runs
+       SET status = $2,
+           finished_at = NOW(),
+           total_plans = $3,
+           successful_sources = $4,
+           failed_sources = $5,
+           error = $6
+       WHERE scrape_id = $1`,
+      [
+        scrapeId,
+        status,
+        totalPlans,
+        successful.length,
+        results.length - successful.length,
+        error || null,
+      ]
+    );
+
+    logger.debug({ scrapeId, status, totalPlans }, 'Scrape run finished');
+  } catch (dbError) {
+    logger.warn({ scrapeId, error: dbError }, 'Failed to record scrape run finish');
+  }
+}
+
+/**
+ * Get a scrape run with per-source outcomes and selector diagnostics
+ *
+ * @param scrapeId - Scrape run ID
+ * @returns Run details, or null if the run is not in the ledger
+ */
+export async function getScrapeRunDetails(scrapeId: string): Promise<ScrapeRunDetails | null> {
+  const pool = getPool();
+
+  const runResult = await pool.query<ScrapeRun>(
+    `SELECT scrape_id, triggered_by, sources, status, started_at, finished_at,
+            total_plans, successful_sources, failed_sources, error
+     FROM scrape_runs
+     WHERE scrape_id = $1`,
+    [scrapeId]
+  );
+
+  const run = runResult.rows[0];
+  if (!run) return null;
+
+  const sourcesResult = await pool.query<Omit<ScrapeRunSource, 'artifacts'>>(
+    `SELECT collector_id, source, status, plans_collected, started_at, finished_at,
+            execution_time_ms, error, selector_checks, failed_pages, normalization_report,
+            validation_report
+     FROM scrape_run_sources
+     WHERE scrape_id = $1
+     ORDER BY started_at`,
+    [scrapeId]
+  );
+
+  const artifactsResult = await pool.query<ScrapeArtifactSummary & { collector_id: string }>(
+    `SELECT id, collector_id, artifact_index, url, selectors,
+            screenshot IS NOT NULL AS has_screenshot, captured_at
+     FROM scrape_artifacts
+     WHERE scrape_id = $1
+     ORDER BY collector_id, artifact_index`,
+    [scrapeId]
+  );
+
+  return {
+    ...run,
+    run_sources: sourcesResult.rows.map((source) => ({
+      ...source,
+      artifacts: artifactsResult.rows
+        .filter((artifact) => artifact.collector_id === source.collector_id)
+        .map(({ collector_id: _collectorId, ...artifact }) => artifact),
+    })),
+  };
+}
+
+/**
+ * Get a page capture (HTML and screenshot) from a scrape run
+ *
+ * @param scrapeId - Scrape run ID
+ * @param artifactId - Artifact ID
+ * @returns Artifact, or null if not found in this run
+ */
+export async function getScrapeArtifact(
+  scrapeId: string,
+  artifactId: string
+): Promise<ScrapeArtifact | null> {
+  const result = await getPool().query<ScrapeArtifact>(
+    `SELECT id, scrape_id, collector_id, url, html, screenshot
+     FROM scrape_artifacts
+     WHERE scrape_id = $1 AND id = $2`,
+    [scrapeId, artifactId]
+  );
+
+  return result.rows[0] ?? null;
+}
@@ -0,0 +1,194 @@
+/**
+ * Database Operations for Dataset Snapshots
+ *
+ * A snapshot freezes the plans of each source's latest stored batch at a
+ * point in time (dataset_snapshots, migration 016), so analyses and the plans
+ * page can say exactly which scrapes they reflect. The plans are copied into
+ * dataset_snapshot_plans (migration 019): re-normalization rewrites stored
+ * plan versions in place, which must not change a snapshot taken before it.
+ */
+
+import { getPool } from './connection';
+import { logger } from '../utils/logger';
+import type { PlanData } from '../../types/database';
+
+/**
+ * One source's batch within a snapshot
+ */
+export interface SnapshotComposition {
+  source: string;
+  scrape_id: string | null;
+  scrape_timestamp: string;
+  plan_count: number;
+}
+
+export interface DatasetSnapshot {
+  id: string;
+  name: string;
+  max_age_days: number;
+  plan_count: number;
+  composition: SnapshotComposition[];
+  created_at: Date;
+}
+
+export interface CreateSnapshotInput {
+  name: string;
+  maxAgeDays?: number;
+}
+
+/**
+ * Plan row returned for a snapshot (same shape analyses fetch from plans)
+ */
+export interface SnapshotPlan {
+  id: string;
+  source: string;
+  plan_data: PlanData;
+  scrape_timestamp: Date;
+}
+
+export const DEFAULT_SNAPSHOT_MAX_AGE_DAYS = 30;
+
+/**
+ * Raised when a snapshot cannot be created (name taken or no recent plans)
+ */
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const SNAPSHOT_COLUMNS = `id, name, max_age_days, cardinality(plan_ids) AS plan_count, composition, created_at`;
+
+/**
+ * Create a named snapshot from the latest stored batch of each source
+ *
+ * Only successful scrapes reach plans (failed collectors store nothing and
+ * quarantined batches only once approved), so each source's latest batch is
+ * its latest successful scrape. Sources whose latest batch is older than
+ * maxAgeDays are left out rather than mixed in with stale data.
+ *
+ * @param input - Snapshot name and maximum batch age in days (default 30)
+ * @throws SnapshotError if the name is taken or no source was scraped recently
+ */
+export async function createSnapshot(input: CreateSnapshotInput): Promise<DatasetSnapshot> {
+  const { name, maxAgeDays = DEFAULT_SNAPSHOT_MAX_AGE_DAYS } = input;
+
+  let result;
+  try {
+    result = await getPool().query<DatasetSnapshot>(
+      `WITH batches AS (
+         SELECT DISTINCT ON (source) source, scrape_id, scrape_timestamp
+         FROM plan_batches
+         ORDER BY source, scrape_timestamp DESC
+       ),
+       members AS (
+         SELECT p.*
+         FROM batches b
+         JOIN plan_observations p ON p.source = b.source AND p.scrape_timestamp = b.scrape_timestamp
+         WHERE b.scrape_timestamp > NOW() - make_interval(days => $2::INTEGER)
+       ),
+       composition AS (
+         SELECT source, scrape_id, scrape_timestamp, COUNT(*)::INTEGER AS plan_count
+         FROM members
+         GROUP BY source, scrape_id, scrape_timestamp
+       ),
+       snapshot AS (
+         INSERT INTO dataset_snapshots (name, max_age_days, plan_ids, composition)
+         SELECT
+           $1::TEXT,
+           $2::INTEGER,
+           ARRAY(SELECT id FROM members),
+           (SELECT jsonb_agg(to_jsonb(c) ORDER BY c.source) FROM composition c)
+         WHERE EXISTS (SELECT 1 FROM members)
+         RETURNING *
+       ),
+       copies AS (
+         INSERT INTO dataset_snapshot_plans (
+           snapshot_id, plan_id, source, plan_key, plan_data, scrape_timestamp,
+           price_pence, data_mb, contract_months, currency, price_ex_vat_pence, listed_currency, vat_included
+         )
+         SELECT
+           s.id, m.id, m.source, m.plan_key, m.plan_data, m.scrape_timestamp,
+           m.price_pence, m.data_mb, m.contract_months, m.currency, m.price_ex_vat_pence, m.listed_currency, m.vat_included
+         FROM snapshot s
+         CROSS JOIN members m
+       )
+       SELECT ${SNAPSHOT_COLUMNS}
+       FROM snapshot`,
+      [name, maxAgeDays]
+    );
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      throw new SnapshotError(`A snapshot named "${name}" already exists`);
+    }
+    throw error;
+  }
+
+  const snapshot = result.rows[0];
+  if (!snapshot) {
+    throw new SnapshotError(`No source has been scraped in the last ${maxAgeDays} days`);
+  }
+
+  logger.info(
+    { snapshotId: snapshot.id, name, planCount: snapshot.plan_count, sources: snapshot.composition.length },
+    'Dataset snapshot created'
+  );
+  return snapshot;
+}
+
+/**
+ * Get all snapshots, newest first
+ */
+export async function listSnapshots(): Promise<DatasetSnapshot[]> {
+  const result = await getPool().query<DatasetSnapshot>(
+    `SELECT ${SNAPSHOT_COLUMNS}
+     FROM dataset_snapshots
+     ORDER BY created_at DESC`
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get a snapshot by ID
+ *
+ * @returns The snapshot, or null if it does not exist (or id is not a UUID)
+ */
+export async function getSnapshot(id: string): Promise<DatasetSnapshot | null> {
+  if (!UUID_PATTERN.test(id)) return null;
+
+  const result = await getPool().query<DatasetSnapshot>(
+    `SELECT ${SNAPSHOT_COLUMNS}
+     FROM dataset_snapshots
+     WHERE id = $1`,
+    [id]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Get the plans frozen in a snapshot
+ *
+ * Plans are returned as copied when the snapshot was created, whatever has
+ * been re-normalized, compacted or archived since. scrape_timestamp is the
+ * snapshot's batch of the source.
+ *
+ * @param id - Snapshot ID
+ * @param sources - Only return plans from these sources (default: all)
+ */
+export async function getSnapshotPlans(id: string, sources?: string[]): Promise<SnapshotPlan[]> {
+  const result = await getPool().query<SnapshotPlan>(
+    `SELECT plan_id AS id, source, plan_data, scrape_timestamp
+     FROM dataset_snapshot_plans
+     WHERE snapshot_id = $1
+       AND ($2::TEXT[] IS NULL OR source = ANY($2::TEXT[]))
+     ORDER BY source, plan_key`,
+    [id, sources ?? null]
+  );
+
+  return result.rows;
+}
@@ -201,9 +201,39 @@ describe('Analysis Generation & Caching Engine', () => {
           'full',
           ['O2', 'Vodafone', 'Sky'],
           ['123e4567-e89b-12d3-a456-426614174000', '223e4567-e89b-12d3-a456-426614174001'],
+          null,
         ]
       );
     });
+
+    it('should only reuse analyses of the same snapshot', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] }); // Cache miss
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'new-id' }] }); // Insert
+      mockQueryGeminiJson.mockResolvedValueOnce(sampleAnalysisResult);
+
+      await generateAnalysis({
+        comparisonType: 'full',
+        brands: ['O2', 'Vodafone'],
+        planData: samplePlanData,
+        snapshotId: 'snapshot-1',
+      });
+
+      expect(mockQuery).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('snapshot_id IS NOT DISTINCT FROM $4'),
+        [
+          'full',
+          ['O2', 'Vodafone'],
+          ['123e4567-e89b-12d3-a456-426614174000', '223e4567-e89b-12d3-a456-426614174001'],
+          'snapshot-1',
+        ]
+      );
+      expect(mockQuery).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('INSERT INTO analyses'),
+        expect.arrayContaining(['snapshot-1'])
+      );
+    });
   });
 
   describe('generateAnalysis - Cache Miss Path', () => {
@@ -286,6 +316,7 @@ describe('Analysis Generation & Caching Engine', () => {
           'full',
           ['O2', 'Vodafone'],
           ['123e4567-e89b-12d3-a456-426614174000', '223e4567-e89b-12d3-a456-426614174001'],
+          null,
           JSON.stringify(sampleAnalysisResult),
         ]
       );
@@ -10,6 +10,8 @@
 import { logger } from '../utils/logger';
 import { getPool } from '../db/connection';
 import { queryGeminiJson } from './gemini';
+import { CURRENCY_SYMBOLS } from '../scraping/currency';
+import { getRateTable } from '../scraping/exchange-rates';
 import {
   validateAnalysisResponse,
   validateCustomComparisonResponse,
@@ -61,6 +63,9 @@ export interface AnalysisRequest {
 
   /** Array of plan data objects to analyze */
   planData: PlanDataForAnalysis[];
+
+  /** Dataset snapshot the plans came from (omit for the latest plans of the last 180 days) */
+  snapshotId?: string;
 }
 
 /**
@@ -184,6 +189,7 @@ async function loadPromptTemplate(
  *
  * Replaces:
  * - {{BRAND_A}} and {{BRAND_B}} with actual brand names (custom comparison only)
+ * - {{CURRENCY}} and {{CURRENCY_SYMBOL}} with the reporting currency of the plan prices
  * - Appends plan data grouped by brand for LLM context
  *
  * @param template - Prompt template string
@@ -198,7 +204,10 @@ function formatPromptWithData(
   planData: PlanDataForAnalysis[],
   comparisonType: ComparisonType
 ): string {
-  let formatted = template;
+  const { reportingCurrency } = getRateTable();
+  let formatted = template
+    .replace(/\{\{CURRENCY\}\}/g, reportingCurrency)
+    .replace(/\{\{CURRENCY_SYMBOL\}\}/g, CURRENCY_SYMBOLS[reportingCurrency]);
 
   // Replace brand placeholders for custom comparisons
   if (comparisonType === 'custom') {
@@ -259,17 +268,20 @@ function formatPromptWithData(
  * - Same comparison type ('full' or 'custom')
  * - Same set of brands (order-agnostic)
  * - Same set of plan IDs (order-agnostic)
+ * - Same dataset snapshot (or none)
  * - Created within last 24 hours
  *
  * @param comparisonType - Type of comparison
  * @param brands - Array of brand names
  * @param planIds - Array of plan UUIDs
+ * @param snapshotId - Dataset snapshot ID, or null
  * @returns Cached analysis if found, null otherwise
  */
 async function checkAnalysisCache(
   comparisonType: ComparisonType,
   brands: string[],
-  planIds: string[]
+  planIds: string[],
+  snapshotId: string | null
 ): Promise<CachedAnalysis | null> {
   const pool = getPool();
 
@@ -283,10 +295,11 @@ async function checkAnalysisCache(
        WHERE comparison_type = $1
          AND brands @> $2 AND brands <@ $2
          AND plan_ids @> $3 AND plan_ids <@ $3
+         AND snapshot_id IS NOT DISTINCT FROM $4
          AND created_at > NOW() - INTERVAL '24 hours'
        ORDER BY created_at DESC
        LIMIT 1`,
-      [comparisonType, brands, planIds]
+      [comparisonType, brands, planIds, snapshotId]
     );
 
     if (result.rows.length === 0) {
@@ -442,6 +455,7 @@ async function generateNewAnalysis(
  * @param comparisonType - Type of comparison
  * @param brands - Array of brand names
  * @param planIds - Array of plan UUIDs used in analysis
+ * @param snapshotId - Dataset snapshot the plans came from, or null
  * @param analysisResult - Validated analysis data from LLM
  * @returns UUID of the inserted analysis record
  * @throws {AnalysisError} If database insert fails
@@ -450,6 +464,7 @@ async function saveAnalysis(
   comparisonType: ComparisonType,
   brands: string[],
   planIds: string[],
+  snapshotId: string | null,
   analysisResult: Record<string, any>
 ): Promise<string> {
   const pool = getPool();
@@ -461,10 +476,10 @@ async function saveAnalysis(
     );
 
     const result = await pool.query<{ id: string }>(
-      `INSERT INTO analyses (comparison_type, brands, plan_ids, analysis_result)
-       VALUES ($1, $2, $3, $4)
+      `INSERT INTO analyses (comparison_type, brands, plan_ids, snapshot_id, analysis_result)
+       VALUES ($1, $2, $3, $4, $5)
        RETURNING id`,
-      [comparisonType, brands, planIds, JSON.stringify(analysisResult)]
+      [comparisonType, brands, planIds, snapshotId, JSON.stringify(analysisResult)]
     );
 
     const analysisId = result.rows[0].id;
@@ -527,6 +542,7 @@ export async function generateAnalysis(
       comparisonType: request.comparisonType,
       brands: request.brands,
       planCount: request.planData.length,
+      snapshotId: request.snapshotId,
     },
     'Starting analysis generation'
   );
@@ -550,13 +566,15 @@ export async function generateAnalysis(
 
   // Extract plan IDs for cache lookup and storage
   const planIds = request.planData.map((plan) => plan.id);
+  const snapshotId = request.snapshotId ?? null;
 
   try {
     // Step 1: Check cache for existing analysis
     const cachedAnalysis = await checkAnalysisCache(
       request.comparisonType,
       request.brands,
-      planIds
+      planIds,
+      snapshotId
     );
 
     if (cachedAnalysis) {
@@ -591,6 +609,7 @@ export async function generateAnalysis(
       request.comparisonType,
       request.brands,
       planIds,
+      snapshotId,
       analysisResult
     );
 
@@ -11,6 +11,7 @@
  */
 
 import { logger } from '../utils/logger';
+import { getRateTable } from '../scraping/exchange-rates';
 
 /**
  * Validation issue tracking (non-fatal)
@@ -589,11 +590,12 @@ export function validateAnalysisResponse(response: string | any): any {
   // Step 2: Validate top-level fields (log issues, don't throw)
   validateRequiredFields(parsed, REQUIRED_TOP_LEVEL_FIELDS, 'top-level response');
 
-  // Step 3: Validate currency is GBP (log if not, don't throw)
-  if (parsed.currency !== 'GBP') {
+  // Step 3: Validate currency is the reporting currency (log if not, don't throw)
+  const { reportingCurrency } = getRateTable();
+  if (parsed.currency !== reportingCurrency) {
     logValidationIssue(
       'currency',
-      'currency should be "GBP"',
+      `currency should be "${reportingCurrency}"`,
       'info',
       parsed.currency
     );
@@ -693,9 +695,10 @@ export function validateCustomComparisonResponse(response: string | any): any {
 
   validateRequiredFields(parsed, requiredFields, 'top-level response');
 
-  // Validate currency (log if not GBP, don't throw)
-  if (parsed?.currency !== 'GBP') {
-    logValidationIssue('currency', 'currency should be "GBP"', 'info', parsed?.currency);
+  // Validate currency (log if not the reporting currency, don't throw)
+  const { reportingCurrency } = getRateTable();
+  if (parsed?.currency !== reportingCurrency) {
+    logValidationIssue('currency', `currency should be "${reportingCurrency}"`, 'info', parsed?.currency);
   }
 
   // Validate sentiments
@@ -0,0 +1,223 @@
+/**
+ * Tests for the scrape anomaly guard
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { detectAnomalies, storePlans, ScrapeAnomalyError } from '../anomaly-guard';
+import { insertPlans } from '../../db/plans';
+import { getPreviousBatch, quarantineBatch } from '../../db/quarantine';
+import { recordPlanChanges } from '../../db/plan-changes';
+import { takeValidationReport, validateRawPlans } from '../plan-validation';
+import type { PlanData } from '../../../types/database';
+
+vi.mock('../../db/plans', () => ({
+  insertPlans: vi.fn(),
+}));
+
+vi.mock('../../db/quarantine', () => ({
+  getPreviousBatch: vi.fn(),
+  quarantineBatch: vi.fn(),
+}));
+
+vi.mock('../../db/plan-changes', () => ({
+  recordPlanChanges: vi.fn(),
+}));
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+/**
+ * Build a batch of n healthy plans priced £10, £11, ...
+ */
+const createBatch = (count: number, overrides: Partial<PlanData> = {}): PlanData[] =>
+  Array.from({ length: count }, (_, i) => ({
+    name: `Plan ${i}`,
+    price: `£${10 + i}.00`,
+    data_allowance: `${10 + i}GB`,
+    contract_term: '12 months',
+    plan_key: `Vodafone-${10 + i}GB-12months`,
+    ...overrides,
+  }));
+
+describe('detectAnomalies', () => {
+  it('passes a batch similar to the previous scrape', () => {
+    expect(detectAnomalies(createBatch(38), createBatch(40))).toEqual([]);
+  });
+
+  it('passes the first scrape of a source', () => {
+    expect(detectAnomalies(createBatch(5), [])).toEqual([]);
+  });
+
+  it('flags a large drop in plan count', () => {
+    const reasons = detectAnomalies(createBatch(2), createBatch(40));
+
+    expect(reasons).toHaveLength(1);
+    expect(reasons[0].check).toBe('plan_count_drop');
+    expect(reasons[0].message).toBe('Plan count dropped from 40 to 2');
+    expect(reasons[0].value).toBeCloseTo(0.95);
+  });
+
+  it('does not flag the plan count of a partial batch', () => {
+    expect(detectAnomalies(createBatch(2), createBatch(40), { partial: true })).toEqual([]);
+  });
+
+  it('flags batches where most prices or data allowances are Unknown', () => {
+    const reasons = detectAnomalies(
+      createBatch(10, { price: 'Unknown', data_allowance: 'Unknown' }),
+      []
+    );
+
+    expect(reasons.map((r) => r.check)).toEqual(['unknown_price_share', 'unknown_data_share']);
+    expect(reasons[0].message).toBe('100% of plans have an Unknown price');
+  });
+
+  it('tolerates a few Unknown prices', () => {
+    const batch = createBatch(10);
+    batch[0].price = 'Unknown';
+
+    expect(detectAnomalies(batch, createBatch(10))).toEqual([]);
+  });
+
+  it('flags many matching plans with large price changes', () => {
+    const previous = createBatch(10);
+    const current = createBatch(10).map((plan, i) =>
+      i < 5 ? { ...plan, price: '£99.00' } : plan
+    );
+
+    const reasons = detectAnomalies(current, previous);
+
+    expect(reasons).toHaveLength(1);
+    expect(reasons[0].check).toBe('price_change_share');
+    expect(reasons[0].message).toBe('5 of 10 matching plans changed price by more than 50%');
+  });
+
+  it('ignores price changes on a single promoted plan', () => {
+    const previous = createBatch(10);
+    const current = createBatch(10);
+    current[0].price = '£5.00';
+
+    expect(detectAnomalies(current, previous)).toEqual([]);
+  });
+});
+
+describe('storePlans', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('inserts healthy batches', async () => {
+    const batch = createBatch(10);
+    const previous = createBatch(10);
+    const scrapedAt = new Date('2026-10-19T08:00:00Z');
+    vi.mocked(getPreviousBatch).mockResolvedValue(previous);
+    vi.mocked(insertPlans).mockResolvedValue([
+      { id: 'plan-1', source: 'Vodafone', plan_data: batch[0], scrape_timestamp: scrapedAt },
+    ]);
+
+    await storePlans('Vodafone', batch, 'scrape-1');
+
+    expect(getPreviousBatch).toHaveBeenCalledWith('Vodafone');
+    expect(insertPlans).toHaveBeenCalledWith('Vodafone', batch, 'scrape-1');
+    expect(recordPlanChanges).toHaveBeenCalledWith('Vodafone', previous, batch, scrapedAt, 'scrape-1', {
+      partial: false,
+    });
+    expect(quarantineBatch).not.toHaveBeenCalled();
+  });
+
+  it('records the changes of a batch with failed pages as partial', async () => {
+    const batch = createBatch(10);
+    const scrapedAt = new Date('2026-10-19T08:00:00Z');
+    vi.mocked(getPreviousBatch).mockResolvedValue(createBatch(10));
+    vi.mocked(insertPlans).mockResolvedValue([
+      { id: 'plan-1', source: 'Vodafone', plan_data: batch[0], scrape_timestamp: scrapedAt },
+    ]);
+
+    await storePlans('Vodafone', batch, 'scrape-1', [
+      { page: '24-months', error: 'Timeout 30000ms exceeded', attempts: 3 },
+    ]);
+
+    expect(recordPlanChanges).toHaveBeenCalledWith(
+      'Vodafone',
+      expect.any(Array),
+      batch,
+      scrapedAt,
+      'scrape-1',
+      { partial: true }
+    );
+  });
+
+  it('records the changes of a batch with plans rejected by validation as partial', async () => {
+    const batch = createBatch(10);
+    const scrapedAt = new Date('2026-10-19T08:00:00Z');
+    vi.mocked(getPreviousBatch).mockResolvedValue(createBatch(11));
+    vi.mocked(insertPlans).mockResolvedValue([
+      { id: 'plan-1', source: 'Vodafone', plan_data: batch[0], scrape_timestamp: scrapedAt },
+    ]);
+
+    // The collector's 11th plan failed the schema (its key is missing from the batch, not withdrawn)
+    validateRawPlans([{ name: 'Plan 10', price: '£20.00' }], 'Vodafone');
+    try {
+      await storePlans('Vodafone', batch, 'scrape-1');
+    } finally {
+      takeValidationReport('Vodafone');
+    }
+
+    expect(recordPlanChanges).toHaveBeenCalledWith(
+      'Vodafone',
+      expect.any(Array),
+      batch,
+      scrapedAt,
+      'scrape-1',
+      { partial: true }
+    );
+  });
+
+  it('quarantines suspicious batches and throws', async () => {
+    const batch = createBatch(2);
+    vi.mocked(getPreviousBatch).mockResolvedValue(createBatch(40));
+    vi.mocked(quarantineBatch).mockResolvedValue('quarantine-1');
+
+    const error = await storePlans('Vodafone', batch, 'scrape-1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ScrapeAnomalyError);
+    expect(error.quarantineId).toBe('quarantine-1');
+    expect(error.message).toBe(
+      'Vodafone batch quarantined for review: Plan count dropped from 40 to 2'
+    );
+    expect(insertPlans).not.toHaveBeenCalled();
+    expect(recordPlanChanges).not.toHaveBeenCalled();
+    expect(quarantineBatch).toHaveBeenCalledWith({
+      source: 'Vodafone',
+      scrapeId: 'scrape-1',
+      plans: batch,
+      previousPlanCount: 40,
+      reasons: [expect.objectContaining({ check: 'plan_count_drop' })],
+      failedPages: [],
+      plansRejected: 0,
+    });
+  });
+
+  it('quarantines a partial batch with its failed pages', async () => {
+    const batch = createBatch(10, { price: 'Unknown' });
+    const failedPages = [{ page: '24-months', error: 'Timeout 30000ms exceeded', attempts: 3 }];
+    vi.mocked(getPreviousBatch).mockResolvedValue(createBatch(40));
+    vi.mocked(quarantineBatch).mockResolvedValue('quarantine-1');
+
+    await expect(storePlans('Vodafone', batch, 'scrape-1', failedPages)).rejects.toBeInstanceOf(ScrapeAnomalyError);
+
+    expect(quarantineBatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        reasons: [expect.objectContaining({ check: 'unknown_price_share' })],
+        failedPages,
+        plansRejected: 0,
+      })
+    );
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Tests for browser providers and the shared browser pool
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { chromium } from 'playwright';
+import {
+  getBrowserProvider,
+  launchBrowser,
+  openBrowserPool,
+  closeBrowserPool,
+  type BrowserProvider,
+} from '../browser';
+import { BrowserPool } from '../browser-pool';
+
+vi.mock('playwright', () => ({
+  chromium: {
+    launch: vi.fn(),
+    connect: vi.fn(),
+    connectOverCDP: vi.fn(),
+  },
+}));
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+/**
+ * Minimal Playwright context stub that tracks its pages and close listeners
+ */
+const createContext = () => {
+  const closeListeners: Array<() => void> = [];
+  const pages: Array<{ close: ReturnType<typeof vi.fn> }> = [];
+
+  const context = {
+    pages: () => pages,
+    newPage: vi.fn(async () => {
+      const page = { close: vi.fn() };
+      pages.push(page);
+      return page;
+    }),
+    clearCookies: vi.fn(),
+    clearPermissions: vi.fn(),
+    once: vi.fn((event: string, listener: () => void) => {
+      if (event === 'close') closeListeners.push(listener);
+    }),
+    close: vi.fn(async () => {
+      closeListeners.forEach((listener) => listener());
+    }),
+  };
+
+  return context;
+};
+
+const createBrowser = () => ({
+  newContext: vi.fn(async () => createContext()),
+  isConnected: vi.fn(() => true),
+  close: vi.fn().mockResolvedValue(undefined),
+});
+
+const createProvider = (browser = createBrowser()) => {
+  const provider: BrowserProvider = {
+    name: 'test',
+    connect: vi.fn(async () => browser as never),
+  };
+  return { provider, browser };
+};
+
+describe('getBrowserProvider', () => {
+  beforeEach(() => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses a local browser in development', () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('BROWSER_WS_ENDPOINT', '');
+    vi.stubEnv('VERCEL', '');
+
+    expect(getBrowserProvider().name).toBe('local');
+  });
+
+  it('connects to a configured Playwright endpoint', async () => {
+    vi.stubEnv('BROWSER_WS_ENDPOINT', 'ws://browser.internal:3000/playwright?token=secret');
+
+    await getBrowserProvider().connect();
+
+    expect(chromium.connect).toHaveBeenCalledWith(
+      'ws://browser.internal:3000/playwright?token=secret',
+      { timeout: 15000 }
+    );
+  });
+
+  it('connects over CDP when configured', async () => {
+    vi.stubEnv('BROWSER_WS_ENDPOINT', 'ws://browser.internal:9222/devtools/browser/abc');
+    vi.stubEnv('BROWSER_WS_PROTOCOL', 'cdp');
+
+    await getBrowserProvider().connect();
+
+    expect(chromium.connectOverCDP).toHaveBeenCalled();
+    expect(chromium.connect).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown endpoint protocols', () => {
+    vi.stubEnv('BROWSER_WS_ENDPOINT', 'ws://browser.internal:3000');
+    vi.stubEnv('BROWSER_WS_PROTOCOL', 'selenium');
+
+    expect(() => getBrowserProvider()).toThrow('Invalid BROWSER_WS_PROTOCOL "selenium"');
+  });
+
+  it('falls back to Browserless in production', async () => {
+    vi.stubEnv('BROWSER_WS_ENDPOINT', '');
+    vi.stubEnv('VERCEL', '1');
+    vi.stubEnv('BROWSERLESS_TOKEN', 'token-1');
+
+    await getBrowserProvider().connect();
+
+    expect(vi.mocked(chromium.connect).mock.calls[0][0]).toContain(
+      'wss://production-lon.browserless.io/chromium/playwright?token=token-1'
+    );
+  });
+
+  it('requires a remote browser in production', () => {
+    vi.stubEnv('BROWSER_WS_ENDPOINT', '');
+    vi.stubEnv('VERCEL', '1');
+    vi.stubEnv('BROWSERLESS_TOKEN', '');
+
+    expect(() => getBrowserProvider()).toThrow('required in production');
+  });
+});
+
+describe('BrowserPool', () => {
+  it('connects once and shares the browser between leases', async () => {
+    const { provider, browser } = createProvider();
+    const pool = new BrowserPool(provider);
+
+    const first = await pool.acquire();
+    await first.newPage();
+    await first.close();
+
+    const second = await pool.acquire();
+    await second.newPage();
+
+    expect(provider.connect).toHaveBeenCalledTimes(1);
+    expect(browser.close).not.toHaveBeenCalled();
+  });
+
+  it('reuses released contexts with the same options after resetting them', async () => {
+    const { provider, browser } = createProvider();
+    const pool = new BrowserPool(provider);
+
+    const first = await pool.acquire();
+    const context = await first.newContext({ locale: 'en-GB' });
+    const page = await context.newPage();
+    await first.close();
+
+    expect(page.close).toHaveBeenCalled();
+    expect(context.clearCookies).toHaveBeenCalled();
+
+    const second = await pool.acquire();
+    expect(await second.newContext({ locale: 'en-GB' })).toBe(context);
+    expect(await second.newContext({ locale: 'fr-FR' })).not.toBe(context);
+    expect(browser.newContext).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not reuse contexts closed by the collector', async () => {
+    const { provider, browser } = createProvider();
+    const pool = new BrowserPool(provider);
+
+    const lease = await pool.acquire();
+    const context = await lease.newContext();
+    await context.close();
+    await lease.close();
+
+    await (await pool.acquire()).newContext();
+    expect(browser.newContext).toHaveBeenCalledTimes(2);
+  });
+
+  it('closes contexts beyond the idle limit', async () => {
+    const { provider } = createProvider();
+    const pool = new BrowserPool(provider, { maxIdleContexts: 1 });
+
+    const lease = await pool.acquire();
+    const kept = await lease.newContext();
+    const extra = await lease.newContext();
+    await lease.close();
+
+    expect(kept.close).not.toHaveBeenCalled();
+    expect(extra.close).toHaveBeenCalled();
+  });
+
+  it('reconnects when the browser has disconnected', async () => {
+    const { provider, browser } = createProvider();
+    const pool = new BrowserPool(provider);
+
+    await pool.acquire();
+    browser.isConnected.mockReturnValue(false);
+    await pool.acquire();
+
+    expect(provider.connect).toHaveBeenCalledTimes(2);
+  });
+
+  it('closes idle contexts and the browser', async () => {
+    const { provider, browser } = createProvider();
+    const pool = new BrowserPool(provider);
+
+    const lease = await pool.acquire();
+    const context = await lease.newContext();
+    await lease.close();
+    await pool.close();
+
+    expect(context.close).toHaveBeenCalled();
+    expect(browser.close).toHaveBeenCalled();
+  });
+});
+
+describe('launchBrowser', () => {
+  afterEach(async () => {
+    await closeBrowserPool();
+  });
+
+  it('leases from the shared pool while one is open', async () => {
+    const { provider } = createProvider();
+    openBrowserPool({}, provider);
+
+    await (await launchBrowser({ fixture: 'o2' })).close();
+    await (await launchBrowser({ fixture: 'vodafone' })).close();
+
+    expect(provider.connect).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for plan change detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffPlanBatches } from '../change-detection';
+import type { PlanData } from '../../../types/database';
+
+const createPlan = (overrides: Partial<PlanData> = {}): PlanData => ({
+  name: '10GB SIM',
+  price: '£10.00',
+  data_allowance: '10GB',
+  contract_term: '12 months',
+  plan_key: 'O2-10GB-12months',
+  ...overrides,
+});
+
+describe('diffPlanBatches', () => {
+  it('records nothing for the first scrape of a source', () => {
+    expect(diffPlanBatches([], [createPlan()])).toEqual([]);
+  });
+
+  it('records nothing when the batches match', () => {
+    expect(diffPlanBatches([createPlan()], [createPlan()])).toEqual([]);
+  });
+
+  it('records price rises and cuts for the same plan_key', () => {
+    const previous = [
+      createPlan(),
+      createPlan({ name: '30GB SIM', price: '£15.00', data_allowance: '30GB', plan_key: 'O2-30GB-12months' }),
+    ];
+    const plans = [
+      createPlan({ price: '£12.00' }),
+      createPlan({ name: '30GB SIM', price: '£14.50', data_allowance: '30GB', plan_key: 'O2-30GB-12months' }),
+    ];
+
+    expect(diffPlanBatches(previous, plans)).toEqual([
+      {
+        change_type: 'price_increase',
+        plan_key: 'O2-10GB-12months',
+        previous_plan_key: null,
+        plan_name: '10GB SIM',
+        old_value: '£10.00',
+        new_value: '£12.00',
+        price_delta_pence: 200,
+      },
+      {
+        change_type: 'price_decrease',
+        plan_key: 'O2-30GB-12months',
+        previous_plan_key: null,
+        plan_name: '30GB SIM',
+        old_value: '£15.00',
+        new_value: '£14.50',
+        price_delta_pence: -50,
+      },
+    ]);
+  });
+
+  it('ignores price changes to or from Unknown', () => {
+    expect(diffPlanBatches([createPlan()], [createPlan({ price: 'Unknown' })])).toEqual([]);
+  });
+
+  it('records a data allowance change when one plan of a contract term was replaced', () => {
+    const plans = [createPlan({ name: '15GB SIM', data_allowance: '15GB', plan_key: 'O2-15GB-12months' })];
+
+    expect(diffPlanBatches([createPlan()], plans)).toEqual([
+      {
+        change_type: 'data_change',
+        plan_key: 'O2-15GB-12months',
+        previous_plan_key: 'O2-10GB-12months',
+        plan_name: '15GB SIM',
+        old_value: '10GB',
+        new_value: '15GB',
+        price_delta_pence: null,
+      },
+    ]);
+  });
+
+  it('records the price change of a plan whose data allowance changed', () => {
+    const plans = [createPlan({ price: '£11.00', data_allowance: '15GB', plan_key: 'O2-15GB-12months' })];
+
+    expect(diffPlanBatches([createPlan()], plans).map((c) => [c.change_type, c.previous_plan_key])).toEqual([
+      ['data_change', 'O2-10GB-12months'],
+      ['price_increase', 'O2-10GB-12months'],
+    ]);
+  });
+
+  it('records added and withdrawn plans when the replacement is ambiguous', () => {
+    const previous = [createPlan()];
+    const plans = [
+      createPlan({ data_allowance: '15GB', plan_key: 'O2-15GB-12months' }),
+      createPlan({ data_allowance: '20GB', plan_key: 'O2-20GB-12months' }),
+      createPlan({ contract_term: '24 months', plan_key: 'O2-10GB-24months' }),
+    ];
+
+    expect(diffPlanBatches(previous, plans).map((c) => [c.change_type, c.plan_key])).toEqual([
+      ['added', 'O2-15GB-12months'],
+      ['added', 'O2-20GB-12months'],
+      ['added', 'O2-10GB-24months'],
+      ['withdrawn', 'O2-10GB-12months'],
+    ]);
+  });
+
+  it('does not pair plans from different tiers', () => {
+    const plans = [createPlan({ data_allowance: '15GB', plan_tier: 'lite', plan_key: 'O2-15GB-12months-lite' })];
+
+    expect(diffPlanBatches([createPlan()], plans).map((c) => c.change_type)).toEqual(['added', 'withdrawn']);
+  });
+
+  it('records no withdrawals for a partial batch', () => {
+    const previous = [createPlan(), createPlan({ contract_term: '24 months', plan_key: 'O2-10GB-24months' })];
+    const plans = [
+      createPlan({ price: '£9.00' }),
+      createPlan({ data_allowance: '15GB', contract_term: '1 month', plan_key: 'O2-15GB-1month' }),
+    ];
+
+    expect(diffPlanBatches(previous, plans, { partial: true }).map((c) => [c.change_type, c.plan_key])).toEqual([
+      ['price_decrease', 'O2-10GB-12months'],
+      ['added', 'O2-15GB-1month'],
+    ]);
+    expect(diffPlanBatches(previous, plans).map((c) => c.change_type)).toContain('withdrawn');
+  });
+
+  it('skips plans without a plan_key', () => {
+    expect(diffPlanBatches([createPlan()], [createPlan(), createPlan({ plan_key: null })])).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for concurrent collector execution
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getCollectorConcurrency, mapCollectors } from '../concurrency';
+import type { Collector, CollectorKind } from '../collector';
+
+const createCollector = (id: string, kind: CollectorKind): Collector => ({
+  id,
+  name: id,
+  kind,
+  source: id,
+  collect: vi.fn(),
+});
+
+/**
+ * Task that records how many collectors of each kind run at once
+ */
+const trackConcurrency = () => {
+  const active: Record<CollectorKind, number> = { playwright: 0, api: 0 };
+  const peak: Record<CollectorKind, number> = { playwright: 0, api: 0 };
+
+  const task = async (collector: Collector) => {
+    active[collector.kind]++;
+    peak[collector.kind] = Math.max(peak[collector.kind], active[collector.kind]);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    active[collector.kind]--;
+    return collector.id;
+  };
+
+  return { task, peak };
+};
+
+const COLLECTORS = [
+  createCollector('o2', 'playwright'),
+  createCollector('vodafone', 'playwright'),
+  createCollector('sky', 'playwright'),
+  createCollector('three', 'playwright'),
+  createCollector('smarty', 'api'),
+  createCollector('uswitch', 'api'),
+];
+
+describe('mapCollectors', () => {
+  it('limits browser collectors and runs API collectors together', async () => {
+    const { task, peak } = trackConcurrency();
+
+    await mapCollectors(COLLECTORS, task, { playwright: 2, api: Infinity });
+
+    expect(peak.playwright).toBe(2);
+    expect(peak.api).toBe(2);
+  });
+
+  it('runs one at a time with a limit of 1', async () => {
+    const { task, peak } = trackConcurrency();
+
+    await mapCollectors(COLLECTORS, task, { playwright: 1, api: 1 });
+
+    expect(peak).toEqual({ playwright: 1, api: 1 });
+  });
+
+  it('returns results in collector order regardless of finish order', async () => {
+    const delays: Record<string, number> = { o2: 20, vodafone: 1, smarty: 10, uswitch: 0 };
+    const collectors = COLLECTORS.filter((c) => c.id in delays);
+
+    const results = await mapCollectors(
+      collectors,
+      async (collector) => {
+        await new Promise((resolve) => setTimeout(resolve, delays[collector.id]));
+        return collector.id;
+      },
+      { playwright: 1, api: Infinity }
+    );
+
+    expect(results).toEqual(['o2', 'vodafone', 'smarty', 'uswitch']);
+  });
+});
+
+describe('getCollectorConcurrency', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('defaults to 2 browser collectors and unlimited API collectors', () => {
+    vi.stubEnv('SCRAPE_BROWSER_CONCURRENCY', '');
+    vi.stubEnv('SCRAPE_API_CONCURRENCY', '');
+
+    expect(getCollectorConcurrency()).toEqual({ playwright: 2, api: Infinity });
+  });
+
+  it('reads limits from the environment (0 = unlimited)', () => {
+    vi.stubEnv('SCRAPE_BROWSER_CONCURRENCY', '3');
+    vi.stubEnv('SCRAPE_API_CONCURRENCY', '0');
+
+    expect(getCollectorConcurrency()).toEqual({ playwright: 3, api: Infinity });
+  });
+
+  it('rejects invalid limits', () => {
+    vi.stubEnv('SCRAPE_BROWSER_CONCURRENCY', 'lots');
+
+    expect(() => getCollectorConcurrency()).toThrow('Invalid SCRAPE_BROWSER_CONCURRENCY "lots"');
+  });
+});
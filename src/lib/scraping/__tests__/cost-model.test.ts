@@ -0,0 +1,112 @@
+/**
+ * Tests for the plan cost model
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildCostModel, parsePriceRiseText } from '../cost-model';
+
+const scrapedAt = new Date('2026-10-19T12:00:00Z');
+
+const plan = (overrides: Partial<Parameters<typeof buildCostModel>[1]> = {}) => ({
+  price: '£10.00',
+  contract_term: '12 months',
+  was_price: null,
+  promo_price: null,
+  promo_months: null,
+  ...overrides,
+});
+
+describe('parsePriceRiseText', () => {
+  it('parses dated rises (O2, Three)', () => {
+    expect(
+      parsePriceRiseText('Total monthly cost increasing to: £26.50 from Apr 2027 bill', scrapedAt)
+    ).toEqual([{ effective_date: '2027-04-01', new_price: 26.5 }]);
+
+    expect(
+      parsePriceRiseText('Increasing to[1]£22.30 £22.30 from 1 Apr 27£24.60 £24.60 from 1 Apr 28', scrapedAt)
+    ).toEqual([
+      { effective_date: '2027-04-01', new_price: 22.3 },
+      { effective_date: '2028-04-01', new_price: 24.6 },
+    ]);
+  });
+
+  it('parses annual rises (Vodafone)', () => {
+    expect(parsePriceRiseText('Your monthly price will go up by £1.80 each April', scrapedAt)).toEqual([
+      { effective_date: '2027-04-01', increase: 1.8, annual: true },
+    ]);
+  });
+
+  it('returns no rises for other text', () => {
+    expect(parsePriceRiseText('Increasing to', scrapedAt)).toEqual([]);
+    expect(parsePriceRiseText(undefined, scrapedAt)).toEqual([]);
+  });
+});
+
+describe('buildCostModel', () => {
+  it('totals a flat plan over its term', () => {
+    expect(buildCostModel({}, plan(), scrapedAt)).toEqual({
+      upfront_fee: '£0.00',
+      price_schedule: [{ from_month: 1, to_month: 12, monthly_price: '£10.00' }],
+      total_contract_cost: '£120.00',
+      effective_monthly_price: '£10.00',
+    });
+  });
+
+  it('applies annual rises during the contract', () => {
+    const model = buildCostModel(
+      { price_rise_text: '£1.50 price rise every April' },
+      plan({ contract_term: '24 months' }),
+      scrapedAt
+    );
+
+    // Contract starts October: April is month 7 and month 19
+    expect(model.price_schedule).toEqual([
+      { from_month: 1, to_month: 6, monthly_price: '£10.00' },
+      { from_month: 7, to_month: 18, monthly_price: '£11.50' },
+      { from_month: 19, to_month: 24, monthly_price: '£13.00' },
+    ]);
+    expect(model.total_contract_cost).toBe('£276.00');
+    expect(model.effective_monthly_price).toBe('£11.50');
+  });
+
+  it('charges the promo price first and the was price after (Three half price)', () => {
+    const model = buildCostModel(
+      { upfront_cost: 5 },
+      plan({ price: '£7.00', was_price: '£14.00', promo_price: '£7.00', promo_months: 6 }),
+      scrapedAt
+    );
+
+    expect(model.price_schedule).toEqual([
+      { from_month: 1, to_month: 6, monthly_price: '£7.00' },
+      { from_month: 7, to_month: 12, monthly_price: '£14.00' },
+    ]);
+    expect(model.upfront_fee).toBe('£5.00');
+    expect(model.total_contract_cost).toBe('£131.00');
+  });
+
+  it('uses structured rises and ignores rises already in effect (Uswitch)', () => {
+    const model = buildCostModel(
+      {
+        price_rises: [
+          { effective_date: '2026-10-19T00:00:00Z', new_price: 10 },
+          { effective_date: '2027-04-01T00:00:00Z', new_price: 12 },
+        ],
+      },
+      plan(),
+      scrapedAt
+    );
+
+    expect(model.price_schedule).toEqual([
+      { from_month: 1, to_month: 6, monthly_price: '£10.00' },
+      { from_month: 7, to_month: 12, monthly_price: '£12.00' },
+    ]);
+  });
+
+  it('has no total when the term or price is unknown', () => {
+    expect(buildCostModel({}, plan({ contract_term: 'PAYG' }), scrapedAt)).toMatchObject({
+      price_schedule: [],
+      total_contract_cost: null,
+    });
+    expect(buildCostModel({}, plan({ price: 'Unknown' }), scrapedAt).total_contract_cost).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for currency detection and conversion
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectCurrency,
+  detectVatIncluded,
+  formatMoney,
+  parseMoney,
+  toReportingAmount,
+  type PriceContext,
+} from '../currency';
+
+const context: PriceContext = {
+  currency: 'GBP',
+  vatIncluded: true,
+  vatRate: 0.2,
+  rates: { reportingCurrency: 'GBP', rates: { GBP: 1, EUR: 0.85 } },
+};
+
+describe('detectCurrency', () => {
+  it('reads symbols and codes', () => {
+    expect(detectCurrency('£10/month')).toBe('GBP');
+    expect(detectCurrency('€12.50')).toBe('EUR');
+    expect(detectCurrency('$9')).toBe('USD');
+    expect(detectCurrency('10 eur a month')).toBe('EUR');
+  });
+
+  it('returns null when no currency is shown', () => {
+    expect(detectCurrency('1300')).toBeNull();
+    expect(detectCurrency(10)).toBeNull();
+  });
+});
+
+describe('detectVatIncluded', () => {
+  it('reads the VAT basis from price text', () => {
+    expect(detectVatIncluded('£10 ex VAT')).toBe(false);
+    expect(detectVatIncluded('£10 excl. VAT')).toBe(false);
+    expect(detectVatIncluded('£10 + VAT')).toBe(false);
+    expect(detectVatIncluded('£12 inc VAT')).toBe(true);
+    expect(detectVatIncluded('£12')).toBeNull();
+  });
+});
+
+describe('toReportingAmount', () => {
+  it('converts with the rate table and adds VAT to ex-VAT amounts', () => {
+    expect(toReportingAmount(10, context)).toBe(10);
+    expect(toReportingAmount(20, context, { currency: 'EUR' })).toBe(17);
+    expect(toReportingAmount(10, context, { vatIncluded: false })).toBe(12);
+  });
+
+  it('returns null without a rate', () => {
+    expect(toReportingAmount(10, context, { currency: 'USD' })).toBeNull();
+  });
+});
+
+describe('formatMoney / parseMoney', () => {
+  it('round-trips normalized money values', () => {
+    expect(formatMoney(9.5, 'EUR')).toBe('€9.50');
+    expect(parseMoney('€9.50')).toBe(9.5);
+    expect(parseMoney('Unknown')).toBeNull();
+  });
+});
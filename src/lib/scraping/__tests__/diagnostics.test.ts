@@ -0,0 +1,84 @@
+/**
+ * Tests for selector health diagnostics
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { checkSelectors, takeSelectorDiagnostics } from '../diagnostics';
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+/**
+ * Minimal Playwright page stub with fixed match counts per selector
+ */
+const createPage = (counts: Record<string, number>) => ({
+  url: () => 'https://example.com/sim-only',
+  locator: (selector: string) => ({
+    count: vi.fn().mockResolvedValue(counts[selector] ?? 0),
+  }),
+  content: vi.fn().mockResolvedValue('<html><body>Changed layout</body></html>'),
+  screenshot: vi.fn().mockResolvedValue(Buffer.from('jpeg')),
+});
+
+const SELECTORS = [
+  { name: 'plan cards', selector: '.card' },
+  { name: 'prices', selector: '.price' },
+];
+
+describe('selector diagnostics', () => {
+  beforeEach(() => {
+    takeSelectorDiagnostics('test');
+  });
+
+  it('records match counts without capturing healthy pages', async () => {
+    const page = createPage({ '.card': 12, '.price': 12 });
+
+    const checks = await checkSelectors(page as never, 'test', SELECTORS);
+
+    expect(checks.map((c) => c.matched)).toEqual([12, 12]);
+    expect(checks[0].artifactIndex).toBeUndefined();
+    expect(page.content).not.toHaveBeenCalled();
+    expect(takeSelectorDiagnostics('test').artifacts).toEqual([]);
+  });
+
+  it('captures HTML and a screenshot when a selector matches nothing', async () => {
+    const page = createPage({ '.card': 12 });
+
+    await checkSelectors(page as never, 'test', SELECTORS);
+    const { checks, artifacts } = takeSelectorDiagnostics('test');
+
+    expect(checks[1]).toMatchObject({ name: 'prices', matched: 0, artifactIndex: 0 });
+    expect(artifacts).toHaveLength(1);
+    expect(artifacts[0]).toMatchObject({
+      url: 'https://example.com/sim-only',
+      selectors: ['prices'],
+      html: '<html><body>Changed layout</body></html>',
+      screenshot: Buffer.from('jpeg').toString('base64'),
+    });
+  });
+
+  it('keeps the HTML when the screenshot fails', async () => {
+    const page = createPage({});
+    page.screenshot.mockRejectedValue(new Error('Target closed'));
+
+    await checkSelectors(page as never, 'test', SELECTORS);
+
+    expect(takeSelectorDiagnostics('test').artifacts[0].screenshot).toBeNull();
+  });
+
+  it('buffers checks per collector and drains them once', async () => {
+    await checkSelectors(createPage({}) as never, 'test', SELECTORS);
+    await checkSelectors(createPage({}) as never, 'other', SELECTORS);
+
+    expect(takeSelectorDiagnostics('test').checks).toHaveLength(2);
+    expect(takeSelectorDiagnostics('test').checks).toHaveLength(0);
+    expect(takeSelectorDiagnostics('other').artifacts).toHaveLength(1);
+  });
+});
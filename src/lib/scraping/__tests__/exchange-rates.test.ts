@@ -0,0 +1,43 @@
+/**
+ * Tests for the exchange rate table
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import path from 'path';
+import { DEFAULT_RATE_TABLE, getRateTable, parseRateTable, resetRateTable } from '../exchange-rates';
+
+describe('parseRateTable', () => {
+  it('adds the reporting currency at rate 1', () => {
+    expect(parseRateTable({ reportingCurrency: 'EUR', rates: { GBP: 1.17 } })).toEqual({
+      reportingCurrency: 'EUR',
+      rates: { GBP: 1.17, EUR: 1 },
+    });
+  });
+
+  it('rejects unknown currencies and invalid rates', () => {
+    expect(() => parseRateTable({ reportingCurrency: 'JPY' })).toThrow('Invalid reportingCurrency');
+    expect(() => parseRateTable({ reportingCurrency: 'GBP', rates: { EUR: -1 } })).toThrow('Invalid exchange rate');
+    expect(() => parseRateTable({ reportingCurrency: 'GBP', rates: { XYZ: 1 } })).toThrow('Invalid exchange rate');
+  });
+});
+
+describe('getRateTable', () => {
+  afterEach(() => {
+    delete process.env.EXCHANGE_RATES_FILE;
+    resetRateTable();
+  });
+
+  it('reads the configured file', () => {
+    process.env.EXCHANGE_RATES_FILE = path.join(__dirname, '../../../../config/exchange-rates.example.json');
+    resetRateTable();
+
+    expect(getRateTable().rates.EUR).toBe(0.85);
+  });
+
+  it('defaults to GBP when the file does not exist', () => {
+    process.env.EXCHANGE_RATES_FILE = 'config/does-not-exist.json';
+    resetRateTable();
+
+    expect(getRateTable()).toEqual(DEFAULT_RATE_TABLE);
+  });
+});
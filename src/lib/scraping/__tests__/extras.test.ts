@@ -0,0 +1,54 @@
+/**
+ * Tests for the extras taxonomy classifier
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyExtras, getExtrasTier, normalizeExtras } from '../extras';
+
+const ids = (texts: string[]) => classifyExtras(texts).map((perk) => perk.id);
+
+describe('classifyExtras', () => {
+  it('maps raw extras from different collectors to canonical perks', () => {
+    expect(ids(['Unlimited call and texts, WIFI calling'])).toEqual(['wifi_calling']);
+    expect(ids(['Data Rollover', 'O2 Priority'])).toEqual(['data_rollover', 'o2_priority']);
+    expect(ids(['Sky Piggybank: keep your unused data'])).toEqual(['data_rollover']);
+    expect(ids(['Netflix & Spotify included'])).toEqual(['netflix', 'spotify']);
+  });
+
+  it('prefers a specific loyalty scheme over the generic rewards perk', () => {
+    expect(ids(['Three+ Rewards'])).toEqual(['three_plus']);
+    expect(ids(['Exclusive member rewards'])).toEqual(['rewards']);
+  });
+
+  it('returns each perk once in taxonomy order', () => {
+    expect(ids(['WiFi calling', 'Disney+ for 6 months', 'Wi-Fi Calling'])).toEqual([
+      'disney_plus',
+      'wifi_calling',
+    ]);
+  });
+
+  it('ignores extras outside the taxonomy', () => {
+    expect(classifyExtras(['No credit check', '5G enabled', ''])).toEqual([]);
+  });
+});
+
+describe('getExtrasTier', () => {
+  it('uses the highest perk tier', () => {
+    expect(getExtrasTier(classifyExtras(['Netflix Basic', 'WiFi calling']))).toBe('Premium');
+    expect(getExtrasTier(classifyExtras(['WiFi calling']))).toBe('Basic');
+    expect(getExtrasTier([])).toBe('None');
+  });
+});
+
+describe('normalizeExtras', () => {
+  it('classifies extras, features and offer text', () => {
+    const result = normalizeExtras({
+      extras: ['5G enabled'],
+      features: 'Data rollover, Hotspot',
+      offer_text: '£50 Amazon voucher',
+    });
+
+    expect(result.perks.map((perk) => perk.category)).toEqual(['data_rollover', 'hotspot', 'voucher']);
+    expect(result.extras_tier).toBe('Basic');
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Tests for scrape fixture record/replay wrapper
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Browser } from 'playwright';
+import {
+  getFixtureMode,
+  getFixtureDir,
+  getHarPath,
+  hasFixture,
+  urlToFileName,
+  withFixtures,
+} from '../fixtures';
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+/**
+ * Minimal stand-in for a Playwright Browser/BrowserContext/Page
+ */
+function createMockBrowser() {
+  const pages: any[] = [];
+
+  const createPage = () => {
+    const page: any = {
+      closed: false,
+      url: vi.fn(() => 'https://www.o2.co.uk/shop/sim-only?contractMonths=24'),
+      content: vi.fn().mockResolvedValue('<html><body>plans</body></html>'),
+      isClosed: vi.fn(() => page.closed),
+      close: vi.fn(async () => {
+        page.closed = true;
+      }),
+      once: vi.fn(),
+    };
+    pages.push(page);
+    return page;
+  };
+
+  const createContext = () => {
+    const contextPages: any[] = [];
+    const context: any = {
+      newPage: vi.fn(async () => {
+        const page = createPage();
+        contextPages.push(page);
+        return page;
+      }),
+      pages: vi.fn(() => contextPages.filter((page) => !page.closed)),
+      close: vi.fn().mockResolvedValue(undefined),
+      routeFromHAR: vi.fn().mockResolvedValue(undefined),
+    };
+    return context;
+  };
+
+  const browser: any = {
+    newContext: vi.fn(async () => createContext()),
+    newPage: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined),
+  };
+
+  return { browser, pages };
+}
+
+describe('scrape fixtures', () => {
+  let fixturesDir: string;
+
+  beforeEach(() => {
+    fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scrape-fixtures-'));
+    process.env.SCRAPE_FIXTURES_DIR = fixturesDir;
+    delete process.env.SCRAPE_FIXTURE_MODE;
+  });
+
+  afterEach(() => {
+    fs.rmSync(fixturesDir, { recursive: true, force: true });
+    delete process.env.SCRAPE_FIXTURES_DIR;
+    delete process.env.SCRAPE_FIXTURE_MODE;
+  });
+
+  describe('getFixtureMode', () => {
+    it('defaults to live', () => {
+      expect(getFixtureMode()).toBe('live');
+    });
+
+    it('reads record and replay case-insensitively', () => {
+      process.env.SCRAPE_FIXTURE_MODE = 'Replay';
+      expect(getFixtureMode()).toBe('replay');
+      process.env.SCRAPE_FIXTURE_MODE = 'record';
+      expect(getFixtureMode()).toBe('record');
+    });
+
+    it('rejects unknown modes', () => {
+      process.env.SCRAPE_FIXTURE_MODE = 'playback';
+      expect(() => getFixtureMode()).toThrow('Invalid SCRAPE_FIXTURE_MODE');
+    });
+  });
+
+  describe('paths', () => {
+    it('stores each collector in its own directory', () => {
+      expect(getFixtureDir('o2')).toBe(path.join(fixturesDir, 'o2'));
+      expect(getHarPath('o2', 1)).toBe(path.join(fixturesDir, 'o2', 'network-1.har.zip'));
+    });
+
+    it('detects recorded fixtures', () => {
+      expect(hasFixture('o2')).toBe(false);
+      fs.mkdirSync(getFixtureDir('o2'), { recursive: true });
+      fs.writeFileSync(getHarPath('o2', 0), '');
+      expect(hasFixture('o2')).toBe(true);
+    });
+
+    it('creates safe file names from URLs', () => {
+      expect(urlToFileName('https://www.three.co.uk/shop/sim-only/pay-monthly')).toBe(
+        'www-three-co-uk-shop-sim-only-pay-monthly'
+      );
+      expect(urlToFileName('about:blank')).toBe('about-blank');
+    });
+  });
+
+  describe('withFixtures', () => {
+    it('returns the browser untouched in live mode', () => {
+      const { browser } = createMockBrowser();
+      const originalNewContext = browser.newContext;
+
+      expect(withFixtures(browser as Browser, 'o2', 'live')).toBe(browser);
+      expect(browser.newContext).toBe(originalNewContext);
+    });
+
+    it('records HAR per context and snapshots page HTML on close', async () => {
+      const { browser } = createMockBrowser();
+      const originalNewContext = browser.newContext;
+      const wrapped = withFixtures(browser as Browser, 'o2', 'record');
+
+      const context = await wrapped.newContext({ locale: 'en-GB' });
+      const page = await context.newPage();
+      await page.close();
+      await wrapped.newContext();
+
+      expect(originalNewContext).toHaveBeenNthCalledWith(1, {
+        locale: 'en-GB',
+        recordHar: { path: getHarPath('o2', 0), mode: 'full' },
+      });
+      expect(originalNewContext).toHaveBeenNthCalledWith(2, {
+        recordHar: { path: getHarPath('o2', 1), mode: 'full' },
+      });
+
+      const snapshots = fs.readdirSync(path.join(getFixtureDir('o2'), 'pages'));
+      expect(snapshots).toEqual(['00-www-o2-co-uk-shop-sim-only-contractMonths-24.html']);
+    });
+
+    it('snapshots open pages and closes contexts when the browser closes', async () => {
+      const { browser } = createMockBrowser();
+      const originalClose = browser.close;
+      const wrapped = withFixtures(browser as Browser, 'three', 'record');
+
+      const context = await wrapped.newContext();
+      await context.newPage();
+      await wrapped.close();
+
+      expect(fs.readdirSync(path.join(getFixtureDir('three'), 'pages'))).toHaveLength(1);
+      expect(originalClose).toHaveBeenCalled();
+    });
+
+    it('routes contexts from the recorded HAR in replay mode', async () => {
+      fs.mkdirSync(getFixtureDir('sky'), { recursive: true });
+      fs.writeFileSync(getHarPath('sky', 0), '');
+
+      const { browser } = createMockBrowser();
+      const wrapped = withFixtures(browser as Browser, 'sky', 'replay');
+      const context = await wrapped.newContext();
+
+      expect(context.routeFromHAR).toHaveBeenCalledWith(getHarPath('sky', 0), {
+        notFound: 'abort',
+      });
+
+      // Only one context was recorded
+      await expect(wrapped.newContext()).rejects.toThrow('no recording for browser context 1');
+    });
+
+    it('throws in replay mode when nothing was recorded', () => {
+      const { browser } = createMockBrowser();
+      expect(() => withFixtures(browser as Browser, 'tesco', 'replay')).toThrow(
+        'No recorded fixture for "tesco"'
+      );
+    });
+  });
+});
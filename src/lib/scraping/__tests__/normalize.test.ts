@@ -8,11 +8,22 @@ import { describe, it, expect } from 'vitest';
 import {
   normalizeDataAllowance,
   normalizePrice,
+  normalizePricing,
   normalizeContractTerm,
   generatePlanKey,
   normalizePlanData,
   normalizePlans,
+  findPromoText,
+  parsePromoMonths,
+  parsePromoEndDate,
+  normalizeNetworkName,
+  normalizeDistribution,
+  toPlanKeyPart,
+  NORMALIZER_VERSION,
+  generatePlanFingerprint,
 } from '../normalize';
+import { takeNormalizationReport } from '../normalization-report';
+import type { PriceContext } from '../currency';
 
 describe('normalizeDataAllowance', () => {
   describe('Standard GB formats', () => {
@@ -109,15 +120,20 @@ describe('normalizePrice', () => {
 
   describe('Three format (pence as integer)', () => {
     it('normalizes "1300" to "£13.00" (Three format)', () => {
-      expect(normalizePrice('1300')).toBe('£13.00');
+      expect(normalizePrice('1300', 'pence')).toBe('£13.00');
     });
 
     it('normalizes "1800" to "£18.00"', () => {
-      expect(normalizePrice('1800')).toBe('£18.00');
+      expect(normalizePrice('1800', 'pence')).toBe('£18.00');
     });
 
     it('normalizes "2000" to "£20.00"', () => {
-      expect(normalizePrice('2000')).toBe('£20.00');
+      expect(normalizePrice('2000', 'pence')).toBe('£20.00');
+    });
+
+    it('reads whole numbers as pounds unless the source uses pence', () => {
+      expect(normalizePrice('100')).toBe('£100.00');
+      expect(normalizePrice('£20', 'pence')).toBe('£20.00');
     });
   });
 
@@ -154,6 +170,67 @@ describe('normalizePrice', () => {
   });
 });
 
+describe('normalizePricing', () => {
+  const context: PriceContext = {
+    currency: 'GBP',
+    vatIncluded: true,
+    vatRate: 0.2,
+    rates: { reportingCurrency: 'GBP', rates: { GBP: 1, EUR: 0.85 } },
+  };
+
+  it('keeps GBP prices and derives the ex-VAT price', () => {
+    expect(normalizePricing('£12/month', 'pounds', context)).toEqual({
+      price: '£12.00',
+      price_ex_vat: '£10.00',
+      listed_price: '£12.00',
+      listed_currency: 'GBP',
+      vat_included: true,
+    });
+  });
+
+  it('converts prices in another currency to the reporting currency', () => {
+    expect(normalizePricing('€20.00', 'pounds', context)).toMatchObject({
+      price: '£17.00',
+      listed_price: '€20.00',
+      listed_currency: 'EUR',
+    });
+    expect(normalizePricing('20 EUR per month', 'pounds', context).price).toBe('£17.00');
+  });
+
+  it('uses the context currency for bare numbers', () => {
+    expect(normalizePricing('20', 'pounds', { ...context, currency: 'EUR' }).price).toBe('£17.00');
+  });
+
+  it('adds VAT to prices listed ex VAT', () => {
+    expect(normalizePricing('£10 ex VAT', 'pounds', context)).toMatchObject({
+      price: '£12.00',
+      price_ex_vat: '£10.00',
+      listed_price: '£10.00',
+      vat_included: false,
+    });
+    expect(normalizePricing('10', 'pounds', { ...context, vatIncluded: false }).price).toBe('£12.00');
+  });
+
+  it('gives Unknown without an exchange rate, keeping the listed price', () => {
+    expect(normalizePricing('$15', 'pounds', context)).toEqual({
+      price: 'Unknown',
+      price_ex_vat: null,
+      listed_price: '$15.00',
+      listed_currency: 'USD',
+      vat_included: true,
+    });
+  });
+
+  it('reports in the configured currency', () => {
+    const eurContext: PriceContext = {
+      ...context,
+      rates: { reportingCurrency: 'EUR', rates: { EUR: 1, GBP: 1.17 } },
+    };
+
+    expect(normalizePricing('£10', 'pounds', eurContext).price).toBe('€11.70');
+  });
+});
+
 describe('normalizeContractTerm', () => {
   describe('Standard formats', () => {
     it('normalizes "24 months" format', () => {
@@ -270,6 +347,39 @@ describe('generatePlanKey', () => {
   it('removes spaces from data allowance', () => {
     expect(generatePlanKey('Tesco', '12 GB', '12 months')).toBe('Tesco-12GB-12months');
   });
+
+  it('appends tier and variant when set', () => {
+    expect(generatePlanKey('Three', '100GB', '24 months', { tier: 'lite' })).toBe('Three-100GB-24months-lite');
+    expect(generatePlanKey('Uswitch', '30GB', '1 month', { tier: null, variant: 'smarty-smarty' }))
+      .toBe('Uswitch-30GB-1month-smarty-smarty');
+  });
+});
+
+describe('toPlanKeyPart', () => {
+  it('slugs plan types and variants', () => {
+    expect(toPlanKeyPart('Unlimited Max')).toBe('unlimited-max');
+    expect(toPlanKeyPart('vodafone-mobiles.co.uk')).toBe('vodafone-mobiles-co-uk');
+    expect(toPlanKeyPart(' CLASSIC ')).toBe('classic');
+  });
+
+  it('returns null for empty or missing values', () => {
+    expect(toPlanKeyPart('')).toBeNull();
+    expect(toPlanKeyPart(' - ')).toBeNull();
+    expect(toPlanKeyPart(undefined)).toBeNull();
+  });
+});
+
+describe('generatePlanFingerprint', () => {
+  const plan = { name: 'Unlimited Lite', minutes: 'Unlimited' as const, texts: 'Unlimited' as const, speed_cap_mbps: 2 };
+
+  it('is stable across name case and whitespace', () => {
+    expect(generatePlanFingerprint(plan)).toMatch(/^[0-9a-f]{8}$/);
+    expect(generatePlanFingerprint({ ...plan, name: ' unlimited lite' })).toBe(generatePlanFingerprint(plan));
+  });
+
+  it('differs when the attributes differ', () => {
+    expect(generatePlanFingerprint({ ...plan, speed_cap_mbps: 10 })).not.toBe(generatePlanFingerprint(plan));
+  });
 });
 
 describe('normalizePlanData', () => {
@@ -328,7 +438,7 @@ describe('normalizePlanData', () => {
       expect(result.data_allowance).toBe('12GB');
       expect(result.price).toBe('£10.00');
       expect(result.contract_term).toBe('12 months');
-      expect(result.plan_key).toBe('Tesco-12GB-12months');
+      expect(result.plan_key).toBe(`Tesco-12GB-12months-${result.plan_fingerprint}`);
     });
   });
 
@@ -364,7 +474,7 @@ describe('normalizePlanData', () => {
       expect(result.data_allowance).toBe('6GB');
       expect(result.price).toBe('£8.00');
       expect(result.contract_term).toBe('18 months');
-      expect(result.plan_key).toBe('Giffgaff-6GB-18months');
+      expect(result.plan_key).toBe(`Giffgaff-6GB-18months-${result.plan_fingerprint}`);
     });
   });
 
@@ -490,8 +600,282 @@ describe('normalizePlans', () => {
     expect(results[1].plan_key).toBe('Testsource-20GB-24months');
   });
 
+  it('keeps plan types apart at the same data and term (Three)', () => {
+    const results = normalizePlans(
+      ['Lite', 'Value', 'Complete'].map((planType) => ({
+        name: `100GB ${planType} 24 months`,
+        price: '£12',
+        contract_term: '24 months',
+        data_allowance: '100GB',
+        plan_type: planType,
+      })),
+      'Three'
+    );
+
+    expect(results.map((r) => r.plan_key)).toEqual([
+      'Three-100GB-24months-lite',
+      'Three-100GB-24months-value',
+      'Three-100GB-24months-complete',
+    ]);
+    expect(results[0].plan_tier).toBe('lite');
+  });
+
+  it('keys fingerprinted sources by name whatever else is in the batch', () => {
+    const plans = [
+      { name: '30GB', price: '£10', contract_term: '12 months', data_allowance: '30GB' },
+      { name: '30GB Clubcard', price: '£8', contract_term: '12 months', data_allowance: '30GB' },
+    ];
+
+    const together = normalizePlans(plans, 'Tesco');
+    const alone = normalizePlans([plans[0]], 'Tesco');
+
+    expect(together[0].plan_key).toBe(`Tesco-30GB-12months-${together[0].plan_fingerprint}`);
+    expect(together[0].plan_key).not.toBe(together[1].plan_key);
+    expect(alone[0].plan_key).toBe(together[0].plan_key);
+  });
+
+  it('keeps plan keys that collide instead of suffixing them', () => {
+    const plans = [
+      { name: 'Unlimited Lite', price: '£20', contract_term: '24 months', data_allowance: 'Unlimited' },
+      { name: 'Unlimited Max', price: '£30', contract_term: '24 months', data_allowance: 'Unlimited' },
+    ];
+
+    const results = normalizePlans(plans, 'Vodafone');
+
+    expect(results.map((r) => r.plan_key)).toEqual(['Vodafone-Unlimited-24months', 'Vodafone-Unlimited-24months']);
+    expect(normalizePlans([plans[0]], 'Vodafone')[0].plan_key).toBe(results[0].plan_key);
+  });
+
   it('handles empty array', () => {
     const results = normalizePlans([], 'TestSource');
     expect(results).toEqual([]);
   });
+
+  it('reads fields and units from the source profile', () => {
+    const [plan] = normalizePlans(
+      [{ name: 'Plan', price: '£10', monthly_cost: 12, contract_length: 24, data_allowance: '20' }],
+      'Uswitch'
+    );
+    expect(plan.contract_term).toBe('24 months');
+    expect(plan.data_allowance).toBe('20MB');
+
+    const [direct] = normalizePlans([{ name: 'Plan', price: '£10', contract_term: '1 month', data_allowance: '20' }], 'O2');
+    expect(direct.data_allowance).toBe('20GB');
+  });
+
+  it('records unparsed values with counts in the normalization report', () => {
+    takeNormalizationReport('Sky');
+
+    normalizePlans(
+      [
+        { name: 'A', price: 'Call for price', contract_term: '24 months', data_allowance: '10GB' },
+        { name: 'B', price: 'Call for price', contract_term: '24 months', data_allowance: '20GB' },
+        { name: 'C', price: '£12', contract_term: '24 months' },
+      ],
+      'Sky'
+    );
+    normalizePlans([{ name: 'D', price: 'Call for price', contract_term: '1 month', data_allowance: '5GB' }], 'Sky');
+
+    expect(takeNormalizationReport('Sky')).toEqual({
+      plansNormalized: 4,
+      unparsed: [
+        { field: 'price', value: 'Call for price', count: 3 },
+        { field: 'data_allowance', value: null, count: 1 },
+      ],
+    });
+    expect(takeNormalizationReport('Sky')).toBeNull();
+  });
+});
+
+describe('findPromoText', () => {
+  it('finds was price and offer lines on a plan card (Three, O2)', () => {
+    const lines = ['100GB', '6 months half price', '£14.00 a month', 'Was £28.00', 'Unlimited texts'];
+
+    expect(findPromoText(lines)).toEqual({
+      was_price: 'Was £28.00',
+      offer_text: '6 months half price',
+    });
+  });
+
+  it('returns nothing for cards without a promotion', () => {
+    expect(findPromoText(['CLASSIC', '100GB', 'MONTHLY', '£24.00', '24 month contract'])).toEqual({});
+  });
+});
+
+describe('parsePromoMonths', () => {
+  it('parses the promotion length from offer text', () => {
+    expect(parsePromoMonths('6 months half price')).toBe(6);
+    expect(parsePromoMonths('£10 for the first 3 months')).toBe(3);
+    expect(parsePromoMonths('Save £192')).toBeNull();
+    expect(parsePromoMonths(null)).toBeNull();
+  });
+});
+
+describe('parsePromoEndDate', () => {
+  const scrapedAt = new Date('2026-10-19T12:00:00Z');
+
+  it('parses named and numeric end dates', () => {
+    expect(parsePromoEndDate('Offer ends 3rd November 2026', scrapedAt)).toBe('2026-11-03');
+    expect(parsePromoEndDate('Deal available until 31/10/2026', scrapedAt)).toBe('2026-10-31');
+    expect(parsePromoEndDate('2026-12-01', scrapedAt)).toBe('2026-12-01');
+  });
+
+  it('uses the next occurrence when the year is missing', () => {
+    expect(parsePromoEndDate('Ends 30 Nov', scrapedAt)).toBe('2026-11-30');
+    expect(parsePromoEndDate('Ends 2 Jan', scrapedAt)).toBe('2027-01-02');
+  });
+
+  it('returns null without an end date', () => {
+    expect(parsePromoEndDate('6 months half price', scrapedAt)).toBeNull();
+    expect(parsePromoEndDate('Ends 31 Feb 2027', scrapedAt)).toBeNull();
+  });
+});
+
+describe('normalizePlanData promo fields', () => {
+  it('treats a was price with a timed offer as a discount (Three)', () => {
+    const result = normalizePlanData(
+      {
+        name: '100GB Unlimited 24 months',
+        price: '14.00',
+        data_allowance: '100GB',
+        contract_term: '24 months',
+        was_price: '£28.00',
+        offer_text: '6 months half price',
+      },
+      'Three'
+    );
+
+    expect(result).toMatchObject({
+      was_price: '£28.00',
+      promo_price: '£14.00',
+      promo_months: 6,
+      promo_end_date: null,
+      offer_text: '6 months half price',
+    });
+  });
+
+  it('keeps a was price without a duration as a list-price cut', () => {
+    const result = normalizePlanData(
+      { price: '£18 a month', data_allowance: '20GB', contract_term: '12 months', was_price: '£18 a month Was £22' },
+      'Vodafone'
+    );
+
+    expect(result.was_price).toBe('£22.00');
+    expect(result.promo_price).toBeNull();
+    expect(result.promo_months).toBeNull();
+  });
+
+  it('uses explicit start-of-term discounts (Uswitch)', () => {
+    const result = normalizePlanData(
+      {
+        price: '£20/month',
+        data_allowance: '50000',
+        contract_term: '24 months',
+        promo_price: '£10',
+        promo_months: 3,
+        offer_text: '£50 Amazon voucher',
+      },
+      'Uswitch'
+    );
+
+    expect(result.promo_price).toBe('£10.00');
+    expect(result.promo_months).toBe(3);
+    expect(result.was_price).toBeNull();
+  });
+
+  it('sets promo fields to null when the source shows none', () => {
+    const result = normalizePlanData(
+      { price: '£10', data_allowance: '10GB', contract_term: '12 months' },
+      'TestSource'
+    );
+
+    expect(result).toMatchObject({
+      was_price: null,
+      promo_price: null,
+      promo_months: null,
+      promo_end_date: null,
+      offer_text: null,
+    });
+  });
+
+  it('resolves end dates against the scrape time', () => {
+    const rawData = { price: '£10', data_allowance: '10GB', contract_term: '12 months', offer_text: 'Ends 2 Jan' };
+
+    expect(normalizePlanData(rawData, 'O2', new Date('2025-12-01T00:00:00Z')).promo_end_date).toBe('2026-01-02');
+    expect(normalizePlanData(rawData, 'O2', new Date('2026-10-19T00:00:00Z')).promo_end_date).toBe('2027-01-02');
+  });
+});
+
+describe('normalizePlanData currency and VAT', () => {
+  const raw = { name: '10GB', data_allowance: '10GB', contract_term: '12 months' };
+
+  it('records the price as listed for UK sources', () => {
+    const result = normalizePlanData({ ...raw, price: '£12' }, 'O2');
+
+    expect(result.price).toBe('£12.00');
+    expect(result.price_ex_vat).toBe('£10.00');
+    expect(result.listed_currency).toBe('GBP');
+    expect(result.vat_included).toBe(true);
+  });
+
+  it('honours vat_included set by the collector', () => {
+    const result = normalizePlanData({ ...raw, price: '£10', upfront_cost: '£5', vat_included: false }, 'O2');
+
+    expect(result.price).toBe('£12.00');
+    expect(result.listed_price).toBe('£10.00');
+    expect(result.upfront_fee).toBe('£6.00');
+  });
+});
+
+describe('normalizePlanData raw payload', () => {
+  it('keeps the collector payload and normalizer version', () => {
+    const rawData = { name: 'Plan', price: '1000', data_allowance: '10GB', contract_term: '24 months' };
+    const result = normalizePlanData(rawData, 'Three');
+
+    expect(result.price).toBe('£10.00');
+    expect(result.raw_data).toEqual(rawData);
+    expect(result.normalizer_version).toBe(NORMALIZER_VERSION);
+  });
+});
+
+describe('normalizeNetworkName', () => {
+  it('maps known networks to the names used as sources', () => {
+    expect(normalizeNetworkName('vodafone')).toBe('Vodafone');
+    expect(normalizeNetworkName('Sky Mobile')).toBe('Sky');
+    expect(normalizeNetworkName('3')).toBe('Three');
+    expect(normalizeNetworkName(' iD  Mobile ')).toBe('iD Mobile');
+    expect(normalizeNetworkName('')).toBeNull();
+    expect(normalizeNetworkName(undefined)).toBeNull();
+  });
+});
+
+describe('normalizeDistribution', () => {
+  it('treats direct sources as network and retailer', () => {
+    expect(normalizeDistribution({}, 'Giffgaff')).toEqual({
+      network: 'Giffgaff',
+      mno: 'O2',
+      retailer: 'Giffgaff',
+      channel: 'direct',
+    });
+  });
+
+  it('keeps network, MNO and retailer from aggregator deals (Uswitch)', () => {
+    const rawData = { network: 'Vodafone', mno: 'vodafone', retailer: 'Mobiles.co.uk', channel: 'aggregator' };
+
+    expect(normalizeDistribution(rawData, 'Uswitch')).toEqual({
+      network: 'Vodafone',
+      mno: 'Vodafone',
+      retailer: 'Mobiles.co.uk',
+      channel: 'aggregator',
+    });
+  });
+
+  it('does not guess the network of aggregator deals', () => {
+    expect(normalizeDistribution({}, 'Uswitch')).toEqual({
+      network: null,
+      mno: null,
+      retailer: null,
+      channel: 'aggregator',
+    });
+  });
 });
@@ -0,0 +1,83 @@
+/**
+ * Tests for numeric plan fields
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getPlanNumericFields,
+  toContractMonths,
+  toDataMb,
+  toPricePence,
+  UNLIMITED_DATA_MB,
+} from '../numeric-fields';
+
+describe('toPricePence', () => {
+  it('converts normalized prices', () => {
+    expect(toPricePence('£10.00')).toBe(1000);
+    expect(toPricePence('£7.95')).toBe(795);
+    expect(toPricePence('£0.00')).toBe(0);
+    expect(toPricePence('€9.99')).toBe(999);
+  });
+
+  it('returns null for unknown or unparsed prices', () => {
+    expect(toPricePence('Unknown')).toBeNull();
+    expect(toPricePence('Call for price')).toBeNull();
+    expect(toPricePence(undefined)).toBeNull();
+  });
+});
+
+describe('toDataMb', () => {
+  it('converts normalized allowances', () => {
+    expect(toDataMb('10GB')).toBe(10000);
+    expect(toDataMb('1.5GB')).toBe(1500);
+    expect(toDataMb('500MB')).toBe(500);
+  });
+
+  it('uses the unlimited sentinel', () => {
+    expect(toDataMb('Unlimited')).toBe(UNLIMITED_DATA_MB);
+  });
+
+  it('returns null for unknown allowances', () => {
+    expect(toDataMb('Unknown')).toBeNull();
+  });
+});
+
+describe('toContractMonths', () => {
+  it('converts normalized terms', () => {
+    expect(toContractMonths('24 months')).toBe(24);
+    expect(toContractMonths('1 month')).toBe(1);
+    expect(toContractMonths('PAYG')).toBe(0);
+    expect(toContractMonths('Unknown')).toBeNull();
+  });
+});
+
+describe('getPlanNumericFields', () => {
+  it('derives all typed columns', () => {
+    expect(
+      getPlanNumericFields({
+        price: '£12.50',
+        price_ex_vat: '£10.42',
+        listed_currency: 'EUR',
+        vat_included: false,
+        data_allowance: 'Unlimited',
+        contract_term: '12 months',
+      })
+    ).toEqual({
+      price_pence: 1250,
+      data_mb: UNLIMITED_DATA_MB,
+      contract_months: 12,
+      currency: 'GBP',
+      price_ex_vat_pence: 1042,
+      listed_currency: 'EUR',
+      vat_included: false,
+    });
+  });
+
+  it('takes the currency from the price symbol', () => {
+    expect(getPlanNumericFields({ price: '€10.00' }).currency).toBe('EUR');
+  });
+
+  it('has no currency without a price', () => {
+    expect(getPlanNumericFields({ price: 'Unknown' }).currency).toBeNull();
+  });
+});
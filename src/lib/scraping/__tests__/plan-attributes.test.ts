@@ -0,0 +1,91 @@
+/**
+ * Tests for plan attribute normalization
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeAllowance,
+  normalizeRoamingTier,
+  normalizePlanAttributes,
+  parseSpeedCap,
+} from '../plan-attributes';
+
+describe('normalizeAllowance', () => {
+  it('normalizes counts and unlimited allowances', () => {
+    expect(normalizeAllowance('Unlimited minutes')).toBe('Unlimited');
+    expect(normalizeAllowance('1,000 mins')).toBe(1000);
+    expect(normalizeAllowance(500)).toBe(500);
+    expect(normalizeAllowance(-1)).toBe('Unlimited'); // Giffgaff
+    expect(normalizeAllowance(undefined)).toBeNull();
+  });
+});
+
+describe('normalizeRoamingTier', () => {
+  it('maps destination lists (Uswitch)', () => {
+    expect(normalizeRoamingTier([])).toBe('None');
+    expect(normalizeRoamingTier(['Europe'])).toBe('EU');
+    expect(normalizeRoamingTier(['Europe', 'USA'])).toBe('Global');
+  });
+
+  it('maps roaming text', () => {
+    expect(normalizeRoamingTier('EU Roaming: 12GB fair use limit')).toBe('EU');
+    expect(normalizeRoamingTier('Roam in 75 destinations')).toBe('Global');
+    expect(normalizeRoamingTier('No roaming')).toBe('None');
+    expect(normalizeRoamingTier('5G at no extra cost')).toBeNull();
+  });
+});
+
+describe('parseSpeedCap', () => {
+  it('parses speed caps', () => {
+    expect(parseSpeedCap('Unlimited Lite - speeds up to 2Mbps')).toBe(2);
+    expect(parseSpeedCap('Max speed 10 Mbps')).toBe(10);
+    expect(parseSpeedCap('Fast 5G and 4G data')).toBeNull();
+  });
+});
+
+describe('normalizePlanAttributes', () => {
+  it('uses structured values from the collector (Smarty)', () => {
+    const attributes = normalizePlanAttributes({
+      name: 'Data-only 30GB',
+      minutes: 0,
+      texts: 0,
+      data_only: true,
+      extras: ['Fast 5G and 4G data', 'EU Roaming: 12GB fair use limit'],
+    });
+
+    expect(attributes).toEqual({
+      minutes: 0,
+      texts: 0,
+      is_5g: true,
+      esim_compatible: null,
+      roaming_tier: 'EU',
+      speed_cap_mbps: null,
+      data_only: true,
+    });
+  });
+
+  it('detects attributes in card text (Three, Tesco)', () => {
+    const attributes = normalizePlanAttributes({
+      name: '100GB Lite 24 months',
+      extras: ['Unlimited minutes and texts', '5G at no extra cost', 'Go Roam Around the World', 'eSIM available'],
+    });
+
+    expect(attributes).toMatchObject({
+      minutes: 'Unlimited',
+      texts: 'Unlimited',
+      is_5g: true,
+      esim_compatible: true,
+      roaming_tier: 'Global',
+      data_only: false,
+    });
+  });
+
+  it('keeps explicit false flags and leaves unstated ones null', () => {
+    const attributes = normalizePlanAttributes({ name: 'Plan', is_5g: false });
+
+    expect(attributes.is_5g).toBe(false);
+    expect(attributes.esim_compatible).toBeNull();
+    expect(attributes.roaming_tier).toBeNull();
+    expect(attributes.minutes).toBeNull();
+  });
+});
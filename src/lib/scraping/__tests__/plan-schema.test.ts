@@ -0,0 +1,93 @@
+/**
+ * Tests for the raw and normalized plan schemas
+ */
+
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import { NormalizedPlanSchema, RawPlanSchema, formatSchemaIssues, type RawPlan } from '../plan-schema';
+import { normalizePlanData, type NormalizedPlan } from '../normalize';
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const rawPlan = {
+  name: 'Big Value Bundle',
+  price: '£10',
+  data_allowance: '10GB',
+  contract_term: '12 months',
+  extras: ['Disney+ for 6 months'],
+};
+
+/**
+ * Issue messages of a failed parse
+ */
+const issuesOf = (schema: typeof RawPlanSchema | typeof NormalizedPlanSchema, plan: unknown) => {
+  const result = schema.safeParse(plan);
+  return result.success ? [] : formatSchemaIssues(result.error);
+};
+
+describe('RawPlanSchema', () => {
+  it('accepts collector output and keeps collector-specific fields', () => {
+    const plan = { ...rawPlan, deal_id: 'abc', network_key: 'vodafone' };
+
+    expect(RawPlanSchema.parse(plan)).toEqual(plan);
+  });
+
+  it('accepts API numbers and missing values', () => {
+    expect(issuesOf(RawPlanSchema, { ...rawPlan, price: 12.5, data_allowance: 50000, contract_term: null })).toEqual([]);
+  });
+
+  it('requires the core fields', () => {
+    const { data_allowance: _data, ...plan } = rawPlan;
+
+    expect(issuesOf(RawPlanSchema, plan)).toEqual([expect.stringMatching(/^data_allowance: /)]);
+  });
+
+  it('rejects camelCase spellings of known fields', () => {
+    expect(issuesOf(RawPlanSchema, { ...rawPlan, contractTerm: '24 months' })).toEqual([
+      'Unknown field "contractTerm" (did you mean "contract_term"?)',
+    ]);
+  });
+
+  it('rejects wrongly typed optional fields', () => {
+    expect(issuesOf(RawPlanSchema, { ...rawPlan, extras: 'Disney+' })).toEqual([expect.stringMatching(/^extras: /)]);
+  });
+});
+
+describe('NormalizedPlanSchema', () => {
+  it('accepts normalizePlanData output', () => {
+    const plans = [
+      normalizePlanData(rawPlan, 'O2'),
+      normalizePlanData({ ...rawPlan, data_allowance: 'Unlimited', minutes: 'Unlimited', is_5g: true }, 'Vodafone'),
+      normalizePlanData({ ...rawPlan, price: 'Call for price', offer_text: 'Ends 30 Nov' }, 'Sky'),
+    ];
+
+    for (const plan of plans) {
+      expect(issuesOf(NormalizedPlanSchema, plan)).toEqual([]);
+    }
+  });
+
+  it('rejects plans that failed to normalize', () => {
+    const fallback = { ...rawPlan, plan_key: 'O2-Error-1', normalization_error: true };
+
+    expect(issuesOf(NormalizedPlanSchema, fallback).length).toBeGreaterThan(0);
+  });
+
+  it('checks derived field formats', () => {
+    const plan = { ...normalizePlanData(rawPlan, 'O2'), plan_fingerprint: 'nothex!!' };
+
+    expect(issuesOf(NormalizedPlanSchema, plan)).toEqual([expect.stringMatching(/^plan_fingerprint: /)]);
+  });
+
+  it('infers the shared plan types', () => {
+    expectTypeOf<NormalizedPlan['price']>().toEqualTypeOf<string>();
+    expectTypeOf<NormalizedPlan['roaming_tier']>().toEqualTypeOf<'None' | 'EU' | 'Global' | null>();
+    expectTypeOf<RawPlan['name']>().toEqualTypeOf<string>();
+  });
+});
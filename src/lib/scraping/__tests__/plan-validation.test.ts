@@ -0,0 +1,111 @@
+/**
+ * Tests for collector plan validation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  MAX_REPORTED_FAILURES,
+  peekValidationReport,
+  takeValidationReport,
+  validateNormalizedPlans,
+  validateRawPlans,
+} from '../plan-validation';
+import { normalizePlanData } from '../normalize';
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const validPlan = { name: 'Plan A', price: '£10', data_allowance: '10GB', contract_term: '12 months' };
+
+describe('validateRawPlans', () => {
+  beforeEach(() => {
+    takeValidationReport('Tesco');
+  });
+
+  it('drops invalid plans and keeps the rest in order', () => {
+    const typo = { name: 'Plan B', price: '£12', dataAllowance: '20GB', contract_term: '12 months' };
+    const second = { ...validPlan, name: 'Plan C' };
+
+    expect(validateRawPlans([validPlan, typo, second], 'Tesco')).toEqual([validPlan, second]);
+
+    const report = takeValidationReport('Tesco');
+    expect(report).toMatchObject({ plansValidated: 3, plansRejected: 1 });
+    expect(report?.failures).toEqual([
+      {
+        stage: 'raw',
+        index: 1,
+        name: 'Plan B',
+        issues: [
+          expect.stringMatching(/^data_allowance: /),
+          'Unknown field "dataAllowance" (did you mean "data_allowance"?)',
+        ],
+      },
+    ]);
+  });
+
+  it('reports plans that are not objects', () => {
+    expect(validateRawPlans([null, validPlan], 'Tesco')).toEqual([validPlan]);
+    expect(takeValidationReport('Tesco')?.failures[0]).toMatchObject({ index: 0, name: null });
+  });
+
+  it('keeps the first failures of large batches', () => {
+    const invalid = Array.from({ length: MAX_REPORTED_FAILURES + 5 }, (_, i) => ({ name: `Plan ${i}` }));
+
+    expect(validateRawPlans(invalid, 'Tesco')).toEqual([]);
+
+    const report = takeValidationReport('Tesco');
+    expect(report?.plansRejected).toBe(MAX_REPORTED_FAILURES + 5);
+    expect(report?.failures).toHaveLength(MAX_REPORTED_FAILURES);
+  });
+});
+
+describe('validateNormalizedPlans', () => {
+  it('adds normalized failures to the source report', () => {
+    const normalized = normalizePlanData(validPlan, 'Tesco');
+    const broken = { ...normalized, plan_key: '' };
+
+    validateRawPlans([validPlan, validPlan], 'Tesco');
+    expect(validateNormalizedPlans([normalized, broken], 'Tesco')).toEqual([normalized]);
+
+    expect(takeValidationReport('Tesco')).toEqual({
+      plansValidated: 2,
+      plansRejected: 1,
+      failures: [{ stage: 'normalized', index: 1, name: 'Plan A', issues: [expect.stringMatching(/^plan_key: /)] }],
+    });
+    expect(takeValidationReport('Tesco')).toBeNull();
+  });
+
+  it('rejects every plan that shares a plan_key with another plan of the batch', () => {
+    const plans = [
+      normalizePlanData(validPlan, 'Tesco'),
+      normalizePlanData({ ...validPlan, price: '£12' }, 'Tesco'),
+      normalizePlanData({ ...validPlan, name: 'Plan B' }, 'Tesco'),
+    ];
+    expect(plans[0].plan_key).toBe(plans[1].plan_key);
+
+    validateRawPlans([validPlan, validPlan, validPlan], 'Tesco');
+    expect(validateNormalizedPlans(plans, 'Tesco')).toEqual([plans[2]]);
+
+    const report = takeValidationReport('Tesco');
+    expect(report).toMatchObject({ plansValidated: 3, plansRejected: 2 });
+    expect(report?.failures.map((failure) => failure.index)).toEqual([0, 1]);
+    expect(report?.failures[0].issues).toEqual([`plan_key: Shared by 2 plans of the batch (${plans[0].plan_key})`]);
+  });
+});
+
+describe('peekValidationReport', () => {
+  it('returns the report without draining it', () => {
+    validateRawPlans([validPlan, { name: 'Plan B' }], 'Tesco');
+
+    expect(peekValidationReport('Tesco')).toMatchObject({ plansValidated: 2, plansRejected: 1 });
+    expect(takeValidationReport('Tesco')).toMatchObject({ plansValidated: 2, plansRejected: 1 });
+    expect(peekValidationReport('Tesco')).toBeNull();
+  });
+});
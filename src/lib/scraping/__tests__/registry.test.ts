@@ -0,0 +1,163 @@
+/**
+ * Tests for the collector registry and runCollector helper
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { getCollector, getCollectors, listCollectors, selectCollectors } from '../registry';
+import { runCollector, withoutArtifacts, type Collector } from '../collector';
+import { checkSelectors } from '../diagnostics';
+import { collectPages, DEFAULT_RETRY_POLICY } from '../retry';
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('collector registry', () => {
+  it('registers all 8 sources in execution order', () => {
+    expect(getCollectors().map((c) => c.id)).toEqual([
+      'o2',
+      'vodafone',
+      'sky',
+      'tesco',
+      'three',
+      'giffgaff',
+      'smarty',
+      'uswitch',
+    ]);
+  });
+
+  it('has unique ids and source labels', () => {
+    const collectors = getCollectors();
+    expect(new Set(collectors.map((c) => c.id)).size).toBe(collectors.length);
+    expect(new Set(collectors.map((c) => c.source)).size).toBe(collectors.length);
+  });
+
+  it('classifies API and Playwright collectors', () => {
+    const apiIds = getCollectors()
+      .filter((c) => c.kind === 'api')
+      .map((c) => c.id);
+    expect(apiIds).toEqual(['smarty', 'uswitch']);
+  });
+
+  it('looks up collectors case-insensitively', () => {
+    expect(getCollector('Vodafone')?.source).toBe('Vodafone');
+    expect(getCollector(' o2 ')?.name).toBe('O2');
+    expect(getCollector('ee')).toBeUndefined();
+  });
+
+  it('selects all collectors when no ids are given', () => {
+    expect(selectCollectors()).toHaveLength(8);
+    expect(selectCollectors([])).toHaveLength(8);
+  });
+
+  it('selects a subset in the requested order', () => {
+    expect(selectCollectors(['uswitch', 'Vodafone']).map((c) => c.id)).toEqual([
+      'uswitch',
+      'vodafone',
+    ]);
+  });
+
+  it('selects each collector once', () => {
+    expect(selectCollectors(['o2', 'O2', 'uswitch', 'o2']).map((c) => c.id)).toEqual(['o2', 'uswitch']);
+  });
+
+  it('rejects unknown collector ids', () => {
+    expect(() => selectCollectors(['vodafone', 'ee'])).toThrow('Unknown collector "ee"');
+  });
+
+  it('returns a copy so callers cannot mutate the registry', () => {
+    getCollectors().pop();
+    expect(getCollectors()).toHaveLength(8);
+  });
+
+  it('lists serializable metadata without collect()', () => {
+    const summaries = listCollectors();
+    expect(summaries[0]).toEqual({ id: 'o2', name: 'O2', kind: 'playwright', source: 'O2' });
+    expect(JSON.parse(JSON.stringify(summaries))).toEqual(summaries);
+  });
+});
+
+describe('runCollector', () => {
+  const createCollector = (collect: Collector['collect']): Collector => ({
+    id: 'test',
+    name: 'Test',
+    kind: 'api',
+    source: 'Test',
+    collect,
+  });
+
+  it('reports success with plan count and passes the scrape id', async () => {
+    const collect = vi.fn().mockResolvedValue(12);
+    const result = await runCollector(createCollector(collect), 'scrape-1');
+
+    expect(collect).toHaveBeenCalledWith('scrape-1');
+    expect(result.collectorId).toBe('test');
+    expect(result.status).toBe('success');
+    expect(result.name).toBe('Test');
+    expect(result.plansCollected).toBe(12);
+    expect(result.executionTime).toBeGreaterThanOrEqual(0);
+    expect(new Date(result.finishedAt).getTime()).toBeGreaterThanOrEqual(
+      new Date(result.startedAt).getTime()
+    );
+    expect(result.error).toBeUndefined();
+  });
+
+  it('captures failures instead of throwing', async () => {
+    const collect = vi.fn().mockRejectedValue(new Error('Navigation timeout'));
+    const result = await runCollector(createCollector(collect));
+
+    expect(result.status).toBe('failed');
+    expect(result.plansCollected).toBe(0);
+    expect(result.error).toBe('Navigation timeout');
+  });
+
+  it('attaches selector diagnostics recorded during the run', async () => {
+    const page = {
+      url: () => 'https://example.com',
+      locator: () => ({ count: vi.fn().mockResolvedValue(0) }),
+      content: vi.fn().mockResolvedValue('<html></html>'),
+      screenshot: vi.fn().mockResolvedValue(Buffer.from('jpeg')),
+    };
+    const collect = vi.fn(async () => {
+      await checkSelectors(page as never, 'test', [{ name: 'plan cards', selector: '.card' }]);
+      throw new Error('No plans found');
+    });
+
+    const result = await runCollector(createCollector(collect));
+
+    expect(result.status).toBe('failed');
+    expect(result.selectorChecks).toHaveLength(1);
+    expect(result.artifacts).toHaveLength(1);
+    expect(withoutArtifacts(result).artifacts).toBeUndefined();
+    expect(withoutArtifacts(result).selectorChecks).toHaveLength(1);
+  });
+
+  it('reports pages that failed after retries as a partial success', async () => {
+    const collect = vi.fn(async () => {
+      const plans = await collectPages(
+        'test',
+        ['12 Months', '24 Months'],
+        async (page) => {
+          if (page === '24 Months') throw new Error('No plans found for 24 Months contracts');
+          return [1, 2, 3];
+        },
+        DEFAULT_RETRY_POLICY
+      );
+      return plans.length;
+    });
+
+    const result = await runCollector(createCollector(collect));
+
+    expect(result.status).toBe('success');
+    expect(result.plansCollected).toBe(3);
+    expect(result.failedPages).toEqual([
+      { page: '24 Months', error: 'No plans found for 24 Months contracts', attempts: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for plan re-normalization
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { diffPlanData, findScrapeGroups, renormalizeScrapeGroup } from '../renormalize';
+import { normalizePlanData, NORMALIZER_VERSION } from '../normalize';
+import { splitPlanRecord } from '../../db/plans';
+
+const mockQuery = vi.fn();
+const mockClientQuery = vi.fn();
+
+vi.mock('../../db/connection', () => ({
+  getPool: vi.fn(() => ({
+    query: mockQuery,
+    connect: vi.fn(async () => ({ query: mockClientQuery, release: vi.fn() })),
+  })),
+}));
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const scrapedAt = new Date('2026-10-01T08:00:00Z');
+const group = { source: 'Three', scrapeGroup: 'event-1', scrapeTimestamp: scrapedAt };
+
+/**
+ * Stored row as the current normalizers would write it (JSONB round trip)
+ */
+const storedRow = (id: string, rawData: Record<string, unknown>, version: number | null = NORMALIZER_VERSION) => {
+  const { planData } = splitPlanRecord(JSON.parse(JSON.stringify(normalizePlanData(rawData, 'Three', scrapedAt))));
+  return { id, plan_key: planData.plan_key, plan_data: planData, raw_data: rawData, normalizer_version: version, owned: true };
+};
+
+describe('diffPlanData', () => {
+  it('lists changed fields regardless of key order', () => {
+    const before = { price: '£1000.00', price_schedule: [{ from_month: 1, to_month: 24, monthly_price: '£10.00' }] };
+    const after = { price: '£10.00', price_schedule: [{ monthly_price: '£10.00', to_month: 24, from_month: 1 }] };
+
+    expect(diffPlanData(before, after)).toEqual(['price']);
+  });
+
+  it('treats missing and null fields as equal', () => {
+    expect(diffPlanData({ was_price: null }, {})).toEqual([]);
+    expect(diffPlanData({}, { is_5g: true })).toEqual(['is_5g']);
+  });
+});
+
+describe('findScrapeGroups', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it('selects scrapes with plans from an older normalizer', async () => {
+    mockQuery.mockResolvedValue({
+      rows: [{ source: 'Three', scrape_group: 'event-1', scrape_timestamp: scrapedAt }],
+    });
+
+    await expect(findScrapeGroups({ sources: ['Three'] })).resolves.toEqual([group]);
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain('WHERE normalizer_version IS DISTINCT FROM $1 AND source = ANY($2)');
+    expect(params).toEqual([NORMALIZER_VERSION, ['Three']]);
+  });
+
+  it('includes up-to-date plans with all', async () => {
+    mockQuery.mockResolvedValue({ rows: [] });
+
+    await findScrapeGroups({ all: true });
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).not.toContain('WHERE');
+    expect(params).toEqual([]);
+  });
+});
+
+describe('renormalizeScrapeGroup', () => {
+  const raw = { name: '100GB 24 month plan', price: '1000', data_allowance: '100GB', contract_term: '24 months' };
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockClientQuery.mockReset();
+    mockClientQuery.mockResolvedValue({ rows: [] });
+  });
+
+  it('updates stale plans from their raw payload and reports changed fields', async () => {
+    const stale = storedRow('1', raw, null);
+    stale.plan_data = { ...stale.plan_data, price: '£1000.00' };
+    const current = storedRow('2', { ...raw, name: 'Unlimited', data_allowance: 'Unlimited' });
+    mockQuery.mockResolvedValue({ rows: [stale, current] });
+
+    const result = await renormalizeScrapeGroup(group);
+
+    expect(result).toEqual({ plansScanned: 2, plansUpdated: 1, keysChanged: 0, fieldChanges: { price: 1 } });
+
+    const updates = mockClientQuery.mock.calls.filter(([sql]) => String(sql).includes('UPDATE plans'));
+    expect(updates).toHaveLength(1);
+    const [, params] = updates[0];
+    expect(params[0]).toBe('1');
+    expect(JSON.parse(params[1]).price).toBe('£10.00');
+    expect(params.slice(2)).toEqual([stale.plan_key, NORMALIZER_VERSION, 1000, 100000, 24, 'GBP', 833, 'GBP', true]);
+    expect(mockClientQuery).toHaveBeenLastCalledWith('COMMIT');
+  });
+
+  it('holds the source lock while rewriting plan versions', async () => {
+    const stale = storedRow('1', raw, null);
+    stale.plan_data = { ...stale.plan_data, price: '£1000.00' };
+    mockQuery.mockResolvedValue({ rows: [stale] });
+
+    await renormalizeScrapeGroup(group);
+
+    const statements = mockClientQuery.mock.calls.map(([sql]) => String(sql));
+    expect(statements[0]).toBe('BEGIN');
+    expect(statements[1]).toContain('pg_advisory_xact_lock');
+    expect(mockClientQuery.mock.calls[1][1]).toEqual([group.source]);
+    expect(statements[2]).toContain('UPDATE plans');
+  });
+
+  it('regenerates plan keys', async () => {
+    // Stored before the plan tier was part of the key
+    const row = storedRow('1', { ...raw, plan_type: 'Lite' });
+    row.plan_key = 'Three-100GB-24months';
+    mockQuery.mockResolvedValue({ rows: [row] });
+
+    const result = await renormalizeScrapeGroup(group);
+
+    expect(result.keysChanged).toBe(1);
+    expect(result.plansUpdated).toBe(1);
+    expect(row.plan_data.plan_key).toBe('Three-100GB-24months-lite');
+  });
+
+  it('falls back to plan_data for plans without a raw payload', async () => {
+    const row = { ...storedRow('1', raw), raw_data: null, normalizer_version: null };
+    mockQuery.mockResolvedValue({ rows: [row] });
+
+    const result = await renormalizeScrapeGroup(group);
+
+    expect(result).toEqual({ plansScanned: 1, plansUpdated: 1, keysChanged: 0, fieldChanges: {} });
+  });
+
+  it('does not write in a dry run', async () => {
+    const stale = storedRow('1', raw, null);
+    mockQuery.mockResolvedValue({ rows: [stale] });
+
+    const result = await renormalizeScrapeGroup(group, true);
+
+    expect(result.plansUpdated).toBe(1);
+    expect(mockClientQuery).not.toHaveBeenCalled();
+  });
+
+  it('leaves plan versions first seen in an earlier scrape to that scrape', async () => {
+    const carriedOver = { ...storedRow('1', raw, null), owned: false };
+    mockQuery.mockResolvedValue({ rows: [carriedOver] });
+
+    const result = await renormalizeScrapeGroup(group);
+
+    expect(mockQuery.mock.calls[0][0]).toContain('FROM plan_observations');
+    expect(result).toEqual({ plansScanned: 0, plansUpdated: 0, keysChanged: 0, fieldChanges: {} });
+    expect(mockClientQuery).not.toHaveBeenCalled();
+  });
+});
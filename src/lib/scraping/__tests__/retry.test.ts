@@ -0,0 +1,150 @@
+/**
+ * Tests for collector retry helpers
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  classifyRetryableError,
+  collectPages,
+  getRetryDelay,
+  peekFailedPages,
+  takeFailedPages,
+  throwIfRateLimited,
+  withRetry,
+  RateLimitError,
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+} from '../retry';
+
+// Mock logger
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+/** Retry immediately so tests do not wait */
+const POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 0, maxDelayMs: 0 };
+
+const timeoutError = () => {
+  const error = new Error('page.goto: Timeout 30000ms exceeded.');
+  error.name = 'TimeoutError';
+  return error;
+};
+
+describe('classifyRetryableError', () => {
+  it('recognises timeouts, rate limiting and blocked clicks', () => {
+    expect(classifyRetryableError(timeoutError())).toBe('navigation_timeout');
+    expect(classifyRetryableError(new RateLimitError('https://example.com'))).toBe('rate_limited');
+    expect(classifyRetryableError(new Error('HTTP error! status: 429'))).toBe('rate_limited');
+    expect(
+      classifyRetryableError(
+        new Error('locator.click: <div id="onetrust-consent-sdk"> intercepts pointer events')
+      )
+    ).toBe('consent_overlay');
+  });
+
+  it('does not retry other errors', () => {
+    expect(classifyRetryableError(new Error('No plans found'))).toBeNull();
+    expect(classifyRetryableError(new Error('HTTP error! status: 500'))).toBeNull();
+  });
+});
+
+describe('throwIfRateLimited', () => {
+  it('throws RateLimitError with Retry-After for HTTP 429', () => {
+    expect(() => throwIfRateLimited(200, 'https://example.com')).not.toThrow();
+
+    expect(() => throwIfRateLimited(429, 'https://example.com', '5')).toThrow(
+      expect.objectContaining({ name: 'RateLimitError', retryAfterMs: 5000 })
+    );
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially up to the max delay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 3000 };
+
+    expect(getRetryDelay(1, policy)).toBe(1000);
+    expect(getRetryDelay(2, policy)).toBe(2000);
+    expect(getRetryDelay(3, policy)).toBe(3000);
+  });
+
+  it('waits at least Retry-After when rate limited', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 10000 };
+
+    expect(getRetryDelay(1, policy, new RateLimitError('https://example.com', 5000))).toBe(5000);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures until the operation succeeds', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(timeoutError())
+      .mockResolvedValueOnce('ok');
+
+    await expect(withRetry(operation, POLICY, 'test page')).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(operation).toHaveBeenLastCalledWith(2);
+  });
+
+  it('gives up after the configured attempts', async () => {
+    const operation = vi.fn().mockRejectedValue(timeoutError());
+
+    await expect(withRetry(operation, POLICY, 'test page')).rejects.toThrow('Timeout 30000ms');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails fast on errors the policy does not retry', async () => {
+    const operation = vi.fn().mockRejectedValue(timeoutError());
+    const policy: RetryPolicy = { ...POLICY, retryOn: ['rate_limited'] };
+
+    await expect(withRetry(operation, policy, 'test page')).rejects.toThrow();
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('collectPages', () => {
+  beforeEach(() => {
+    takeFailedPages('test');
+  });
+
+  it('retries only the pages that failed', async () => {
+    const scrapePage = vi.fn(async (page: string, attempt: number) => {
+      if (page === 'b' && attempt === 1) throw timeoutError();
+      return [`${page}-plan`];
+    });
+
+    const plans = await collectPages('test', ['a', 'b', 'c'], scrapePage, POLICY);
+
+    expect(plans).toEqual(['a-plan', 'b-plan', 'c-plan']);
+    expect(scrapePage.mock.calls.map(([page]) => page)).toEqual(['a', 'b', 'c', 'b']);
+    expect(takeFailedPages('test')).toEqual([]);
+  });
+
+  it('reports pages that still fail and keeps the others', async () => {
+    const scrapePage = vi.fn(async (page: string) => {
+      if (page === 'b') throw timeoutError();
+      if (page === 'c') throw new Error('No plans found on c');
+      return [`${page}-plan`];
+    });
+
+    const plans = await collectPages('test', ['a', 'b', 'c'], scrapePage, POLICY);
+
+    expect(plans).toEqual(['a-plan']);
+    expect(peekFailedPages('test').map(({ page }) => page)).toEqual(['b', 'c']);
+    expect(takeFailedPages('test')).toEqual([
+      { page: 'b', error: 'page.goto: Timeout 30000ms exceeded.', attempts: 3 },
+      { page: 'c', error: 'No plans found on c', attempts: 1 },
+    ]);
+  });
+
+  it('throws when every page fails', async () => {
+    const scrapePage = vi.fn().mockRejectedValue(new Error('Blocked'));
+
+    await expect(collectPages('test', ['a', 'b'], scrapePage, POLICY)).rejects.toThrow('Blocked');
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Scrape Anomaly Guard
+ *
+ * Validation stage between normalizePlans() and insertPlans(). Compares each
+ * source's batch with its previous scrape and quarantines batches that look
+ * like a broken scraper (e.g., 2 plans instead of 40, every price "Unknown")
+ * instead of letting them pollute the next analysis.
+ */
+
+import { insertPlans, type InsertPlanResult } from '../db/plans';
+import { getPreviousBatch, quarantineBatch, type AnomalyReason } from '../db/quarantine';
+import { recordPlanChanges } from '../db/plan-changes';
+import { logger } from '../utils/logger';
+import { parseMoney } from './currency';
+import { peekValidationReport } from './plan-validation';
+import type { FailedPage } from './retry';
+import type { PlanData } from '../../types/database';
+
+/**
+ * Thresholds for anomaly checks (fractions, 0-1)
+ */
+export const ANOMALY_THRESHOLDS = {
+  /** Max drop in plan count vs. previous batch (0.5 = 40 -> 19 plans is suspicious) */
+  MAX_PLAN_COUNT_DROP: 0.5,
+  /** Max share of plans with price "Unknown" */
+  MAX_UNKNOWN_PRICE_SHARE: 0.3,
+  /** Max share of plans with data allowance "Unknown" */
+  MAX_UNKNOWN_DATA_SHARE: 0.3,
+  /** A plan's price moving more than this vs. the previous batch counts as a big change */
+  MAX_PRICE_CHANGE: 0.5,
+  /** Max share of matched plans (same plan_key) with a big price change */
+  MAX_PRICE_CHANGE_SHARE: 0.25,
+} as const;
+
+export interface AnomalyOptions {
+  /**
+   * Pages failed or plans were rejected by validation in this run: a lower
+   * plan count is explained by them, so the count-drop check is skipped
+   */
+  partial?: boolean;
+}
+
+/**
+ * Raised when a batch is quarantined instead of inserted
+ * The collector reports a failure so the run ledger shows why data is missing.
+ */
+export class ScrapeAnomalyError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly quarantineId: string,
+    public readonly reasons: AnomalyReason[]
+  ) {
+    super(
+      `${source} batch quarantined for review: ${reasons.map((r) => r.message).join('; ')}`
+    );
+    this.name = 'ScrapeAnomalyError';
+  }
+}
+
+/**
+ * Format a fraction as a percentage for messages
+ */
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Compare a batch with the previous scrape of the same source
+ *
+ * @param plans - Normalized plans about to be inserted
+ * @param previousPlans - Plans from the source's previous scrape (may be empty)
+ * @param options - Whether the batch is partial
+ * @returns Failed checks (empty when the batch looks healthy)
+ */
+export function detectAnomalies(
+  plans: PlanData[],
+  previousPlans: PlanData[],
+  options: AnomalyOptions = {}
+): AnomalyReason[] {
+  const reasons: AnomalyReason[] = [];
+
+  // Check 1: plan count drop (not for partial batches, whose missing plans were not seen)
+  if (previousPlans.length > 0 && !options.partial) {
+    const drop = (previousPlans.length - plans.length) / previousPlans.length;
+    if (drop > ANOMALY_THRESHOLDS.MAX_PLAN_COUNT_DROP) {
+      reasons.push({
+        check: 'plan_count_drop',
+        message: `Plan count dropped from ${previousPlans.length} to ${plans.length}`,
+        value: drop,
+        threshold: ANOMALY_THRESHOLDS.MAX_PLAN_COUNT_DROP,
+      });
+    }
+  }
+
+  if (plans.length === 0) {
+    return reasons;
+  }
+
+  // Check 2: share of Unknown prices / data allowances
+  const unknownPriceShare = plans.filter((p) => p.price === 'Unknown').length / plans.length;
+  if (unknownPriceShare > ANOMALY_THRESHOLDS.MAX_UNKNOWN_PRICE_SHARE) {
+    reasons.push({
+      check: 'unknown_price_share',
+      message: `${percent(unknownPriceShare)} of plans have an Unknown price`,
+      value: unknownPriceShare,
+      threshold: ANOMALY_THRESHOLDS.MAX_UNKNOWN_PRICE_SHARE,
+    });
+  }
+
+  const unknownDataShare = plans.filter((p) => p.data_allowance === 'Unknown').length / plans.length;
+  if (unknownDataShare > ANOMALY_THRESHOLDS.MAX_UNKNOWN_DATA_SHARE) {
+    reasons.push({
+      check: 'unknown_data_share',
+      message: `${percent(unknownDataShare)} of plans have an Unknown data allowance`,
+      value: unknownDataShare,
+      threshold: ANOMALY_THRESHOLDS.MAX_UNKNOWN_DATA_SHARE,
+    });
+  }
+
+  // Check 3: price deltas for plans present in both batches (matched by plan_key)
+  const previousPrices = new Map<string, number>();
+  for (const plan of previousPlans) {
+    const price = parseMoney(plan.price);
+    if (typeof plan.plan_key === 'string' && price !== null && price > 0) {
+      previousPrices.set(plan.plan_key, price);
+    }
+  }
+
+  let matched = 0;
+  let bigChanges = 0;
+  for (const plan of plans) {
+    const previous = typeof plan.plan_key === 'string' ? previousPrices.get(plan.plan_key) : undefined;
+    const current = parseMoney(plan.price);
+    if (previous === undefined || current === null) continue;
+
+    matched++;
+    if (Math.abs(current - previous) / previous > ANOMALY_THRESHOLDS.MAX_PRICE_CHANGE) {
+      bigChanges++;
+    }
+  }
+
+  if (matched > 0) {
+    const changeShare = bigChanges / matched;
+    if (changeShare > ANOMALY_THRESHOLDS.MAX_PRICE_CHANGE_SHARE) {
+      reasons.push({
+        check: 'price_change_share',
+        message: `${bigChanges} of ${matched} matching plans changed price by more than ${percent(ANOMALY_THRESHOLDS.MAX_PRICE_CHANGE)}`,
+        value: changeShare,
+        threshold: ANOMALY_THRESHOLDS.MAX_PRICE_CHANGE_SHARE,
+      });
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Check a normalized batch and insert it, or quarantine it if suspicious
+ *
+ * Drop-in replacement for insertPlans() in collectors. Inserted batches are
+ * diffed against the previous scrape (see ./change-detection.ts); a partial
+ * batch records no withdrawals and skips the plan count check. A batch is
+ * partial when some pages failed or plans were rejected by schema validation
+ * (including plans that failed to normalize): those plans were not seen or
+ * not stored rather than gone. Quarantined batches keep this for approval.
+ *
+ * @param source - Telco name (e.g., 'Vodafone')
+ * @param plans - Normalized plans
+ * @param scrapeId - Optional Inngest event ID to group plans from same scrape run
+ * @param failedPages - Pages the collector could not scrape in this run
+ * @returns Inserted plan records
+ * @throws ScrapeAnomalyError if the batch was quarantined
+ */
+export async function storePlans(
+  source: string,
+  plans: PlanData[],
+  scrapeId?: string,
+  failedPages: FailedPage[] = []
+): Promise<InsertPlanResult[]> {
+  const plansRejected = peekValidationReport(source)?.plansRejected ?? 0;
+  const partial = failedPages.length > 0 || plansRejected > 0;
+
+  const previousPlans = await getPreviousBatch(source);
+  const reasons = detectAnomalies(plans, previousPlans, { partial });
+
+  if (reasons.length === 0) {
+    const results = await insertPlans(source, plans, scrapeId);
+    if (results.length > 0) {
+      await recordPlanChanges(source, previousPlans, plans, results[0].scrape_timestamp, scrapeId, { partial });
+    }
+    return results;
+  }
+
+  logger.warn(
+    { source, scrapeId, planCount: plans.length, previousPlanCount: previousPlans.length, reasons },
+    'Scrape batch failed anomaly checks'
+  );
+
+  const quarantineId = await quarantineBatch({
+    source,
+    scrapeId,
+    plans,
+    previousPlanCount: previousPlans.length || null,
+    reasons,
+    failedPages,
+    plansRejected,
+  });
+
+  throw new ScrapeAnomalyError(source, quarantineId, reasons);
+}
@@ -0,0 +1,151 @@
+/**
+ * Browser Pool
+ *
+ * Shares one browser connection across the collectors of a scrape run and
+ * keeps their contexts for reuse, so a run pays the browser startup cost once
+ * instead of once per collector.
+ *
+ * Collectors receive a lease (ScrapeBrowser) with the newContext/newPage/close
+ * subset of Playwright's Browser. Closing a lease returns its contexts to the
+ * pool instead of closing the shared browser.
+ */
+
+import type { Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
+import { logger } from '../utils/logger';
+import type { BrowserProvider } from './browser';
+
+/**
+ * The part of Playwright's Browser that collectors use
+ */
+export type ScrapeBrowser = Pick<Browser, 'newContext' | 'newPage' | 'close'>;
+
+export interface BrowserPoolOptions {
+  /** Max idle contexts kept for reuse (extra contexts are closed on release) */
+  maxIdleContexts?: number;
+}
+
+const DEFAULT_MAX_IDLE_CONTEXTS = 4;
+
+interface IdleContext {
+  key: string;
+  context: BrowserContext;
+}
+
+/**
+ * Pool of contexts on a single browser from a BrowserProvider
+ *
+ * The browser is connected on first acquire() and reconnected if the
+ * connection drops (e.g., a remote session timed out between collectors).
+ */
+export class BrowserPool {
+  private browser: Promise<Browser> | null = null;
+  private idle: IdleContext[] = [];
+  private readonly maxIdleContexts: number;
+
+  constructor(
+    private readonly provider: BrowserProvider,
+    options: BrowserPoolOptions = {}
+  ) {
+    this.maxIdleContexts = options.maxIdleContexts ?? DEFAULT_MAX_IDLE_CONTEXTS;
+  }
+
+  /**
+   * Lease the shared browser
+   *
+   * @returns Browser handle whose close() releases its contexts to the pool
+   */
+  async acquire(): Promise<ScrapeBrowser> {
+    const browser = await this.getBrowser();
+    const leased = new Map<BrowserContext, string>();
+
+    const newContext = async (options: BrowserContextOptions = {}): Promise<BrowserContext> => {
+      const key = JSON.stringify(options);
+      const context = this.takeIdle(key) ?? (await browser.newContext(options));
+
+      leased.set(context, key);
+      // Contexts closed by the collector are never returned to the pool
+      context.once('close', () => leased.delete(context));
+      return context;
+    };
+
+    return {
+      newContext,
+      newPage: async (options?: BrowserContextOptions): Promise<Page> => {
+        const context = await newContext(options);
+        return context.newPage();
+      },
+      close: async () => {
+        const contexts = Array.from(leased);
+        leased.clear();
+        await Promise.all(contexts.map(([context, key]) => this.release(context, key)));
+      },
+    };
+  }
+
+  /**
+   * Close idle contexts and the shared browser
+   */
+  async close(): Promise<void> {
+    const idle = this.idle;
+    this.idle = [];
+    await Promise.all(idle.map(({ context }) => context.close().catch(() => {})));
+
+    if (this.browser) {
+      const browser = await this.browser.catch(() => null);
+      this.browser = null;
+      await browser?.close().catch(() => {});
+      logger.info({ provider: this.provider.name }, 'Browser pool closed');
+    }
+  }
+
+  /**
+   * Connect (or reconnect) the shared browser
+   */
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser) {
+      const browser = await this.browser.catch(() => null);
+      if (browser?.isConnected()) return browser;
+
+      logger.warn({ provider: this.provider.name }, 'Pooled browser disconnected, reconnecting');
+      this.idle = [];
+    }
+
+    this.browser = this.provider.connect();
+    return this.browser.catch((error) => {
+      this.browser = null;
+      throw error;
+    });
+  }
+
+  /**
+   * Take an idle context created with the same options
+   */
+  private takeIdle(key: string): BrowserContext | undefined {
+    const index = this.idle.findIndex((entry) => entry.key === key);
+    if (index === -1) return undefined;
+
+    const [{ context }] = this.idle.splice(index, 1);
+    logger.debug('Reusing pooled browser context');
+    return context;
+  }
+
+  /**
+   * Reset a context and keep it for reuse (or close it when the pool is full)
+   */
+  private async release(context: BrowserContext, key: string): Promise<void> {
+    try {
+      await Promise.all(context.pages().map((page) => page.close()));
+      await context.clearCookies();
+      await context.clearPermissions();
+
+      if (this.idle.length < this.maxIdleContexts) {
+        this.idle.push({ key, context });
+        return;
+      }
+    } catch (error) {
+      logger.debug({ error }, 'Failed to reset browser context, closing it');
+    }
+
+    await context.close().catch(() => {});
+  }
+}
@@ -1,54 +1,215 @@
 /**
  * Browser Connection Utility
  *
- * Handles browser launch for both local development and production (Vercel).
- * In production, connects to Browserless cloud service.
- * In development, uses local Playwright installation.
+ * Collectors get their browser from launchBrowser(), which picks a
+ * BrowserProvider from the environment:
+ * - BROWSER_WS_ENDPOINT: any Playwright (default) or CDP websocket endpoint,
+ *   with BROWSER_WS_PROTOCOL=playwright|cdp
+ * - BROWSERLESS_TOKEN (production): Browserless cloud, London region
+ * - otherwise: local Playwright installation
+ *
+ * A scrape run opens a shared BrowserPool (openBrowserPool) so its collectors
+ * reuse one browser and its contexts instead of each launching their own.
  */
 
 import { chromium, type Browser } from 'playwright';
 import { logger } from '../utils/logger';
+import { getFixtureMode, withFixtures } from './fixtures';
+import { BrowserPool, type BrowserPoolOptions, type ScrapeBrowser } from './browser-pool';
+
+export type { ScrapeBrowser } from './browser-pool';
+
+/**
+ * Source of browser instances
+ */
+export interface BrowserProvider {
+  /** Provider name for logs (e.g., 'local', 'endpoint') */
+  name: string;
+
+  /** Launch or connect to a browser */
+  connect: () => Promise<Browser>;
+}
+
+/**
+ * Websocket protocol spoken by a remote browser endpoint
+ * - playwright: Playwright server (chromium.connect)
+ * - cdp: Chrome DevTools Protocol (chromium.connectOverCDP)
+ */
+export type BrowserEndpointProtocol = 'playwright' | 'cdp';
+
+export interface EndpointProviderOptions {
+  endpoint: string;
+  protocol?: BrowserEndpointProtocol;
+  /** Connection timeout in ms */
+  timeout?: number;
+}
+
+const ENDPOINT_CONNECT_TIMEOUT = 15000;
+
+/**
+ * Options for launchBrowser
+ */
+export interface LaunchBrowserOptions {
+  /**
+   * Fixture set name (collector id) used when SCRAPE_FIXTURE_MODE is
+   * 'record' or 'replay'. Ignored in live mode.
+   */
+  fixture?: string;
+}
 
 /**
- * Launch browser with environment-aware configuration
+ * Provider that launches a local Playwright Chromium instance
+ */
+export function createLocalBrowserProvider(): BrowserProvider {
+  return {
+    name: 'local',
+    connect: launchLocalBrowser,
+  };
+}
+
+/**
+ * Provider that connects to a remote browser over a websocket endpoint
+ *
+ * @param options - Endpoint URL, protocol and connection timeout
+ */
+export function createEndpointBrowserProvider(options: EndpointProviderOptions): BrowserProvider {
+  const { endpoint, protocol = 'playwright', timeout = ENDPOINT_CONNECT_TIMEOUT } = options;
+  // Endpoint URLs often carry an API token - only log the host
+  const host = redactEndpoint(endpoint);
+
+  return {
+    name: 'endpoint',
+    connect: async () => {
+      logger.info({ endpoint: host, protocol }, 'Connecting to remote browser');
+
+      try {
+        const browser =
+          protocol === 'cdp'
+            ? await chromium.connectOverCDP(endpoint, { timeout })
+            : await chromium.connect(endpoint, { timeout });
+        logger.info({ endpoint: host }, 'Connected to remote browser');
+        return browser;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error({ error, errorMessage, endpoint: host }, 'Failed to connect to remote browser');
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Pick a browser provider from environment configuration
  *
- * @returns Playwright Browser instance
+ * @returns Provider for BROWSER_WS_ENDPOINT, Browserless (production) or local
+ * @throws Error in production when no remote browser is configured
  */
-export async function launchBrowser(): Promise<Browser> {
+export function getBrowserProvider(): BrowserProvider {
+  const wsEndpoint = process.env.BROWSER_WS_ENDPOINT?.trim();
+
+  if (wsEndpoint) {
+    const protocol = (process.env.BROWSER_WS_PROTOCOL || 'playwright').trim().toLowerCase();
+    if (protocol !== 'playwright' && protocol !== 'cdp') {
+      throw new Error(`Invalid BROWSER_WS_PROTOCOL "${protocol}". Expected one of: playwright, cdp`);
+    }
+    return createEndpointBrowserProvider({ endpoint: wsEndpoint, protocol });
+  }
+
   const browserlessToken = process.env.BROWSERLESS_TOKEN;
   const isProduction = process.env.VERCEL || process.env.NODE_ENV === 'production';
 
   if (isProduction && !browserlessToken) {
-    throw new Error('BROWSERLESS_TOKEN environment variable is required in production');
+    throw new Error(
+      'BROWSER_WS_ENDPOINT or BROWSERLESS_TOKEN environment variable is required in production'
+    );
   }
 
-  // Use Browserless cloud service if token is provided
-  // if (isProduction && browserlessToken) {
   if (isProduction && browserlessToken) {
-    logger.info('Connecting to Browserless cloud browser');
-
-    // Use Playwright-specific endpoint
-    const wsEndpoint = `wss://production-lon.browserless.io/chromium/playwright?token=${browserlessToken}&timeout=60000`;
-
-    try {
-      const browser = await chromium.connect(wsEndpoint, {
-        timeout: 15000, // 15 second timeout
-      });
-      logger.info('Successfully connected to Browserless');
-      return browser;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error({
-        error,
-        errorMessage,
-        endpoint: 'wss://production-sfo.browserless.io/chromium/playwright',
-      }, 'Failed to connect to Browserless, falling back to local');
-
-      throw error;
-    }
+    return createEndpointBrowserProvider({
+      endpoint: `wss://production-lon.browserless.io/chromium/playwright?token=${browserlessToken}&timeout=60000`,
+    });
   }
 
   // Development: Use local Playwright
+  return createLocalBrowserProvider();
+}
+
+let sharedPool: BrowserPool | null = null;
+
+/**
+ * Share one browser across the collectors of a scrape run
+ *
+ * Until closeBrowserPool() is called, launchBrowser() leases from this pool.
+ * Connecting is lazy, so opening a pool for API-only runs costs nothing.
+ * Calling it again while a pool is open keeps the existing pool.
+ *
+ * @param options - Pool options
+ * @param provider - Browser provider (defaults to getBrowserProvider(), resolved
+ *   on first connect so configuration errors only fail Playwright collectors)
+ */
+export function openBrowserPool(
+  options: BrowserPoolOptions = {},
+  provider: BrowserProvider = { name: 'configured', connect: () => getBrowserProvider().connect() }
+): void {
+  if (!sharedPool) {
+    sharedPool = new BrowserPool(provider, options);
+    logger.debug({ provider: provider.name }, 'Browser pool opened');
+  }
+}
+
+/**
+ * Close the shared browser pool (no-op when none is open)
+ */
+export async function closeBrowserPool(): Promise<void> {
+  const pool = sharedPool;
+  sharedPool = null;
+  await pool?.close();
+}
+
+/**
+ * Get a browser for a collector
+ *
+ * Leases from the shared pool when a scrape run opened one, otherwise
+ * connects a dedicated browser that close() shuts down. When
+ * SCRAPE_FIXTURE_MODE is set and a fixture name is given, the browser
+ * records to / replays from the fixtures directory (see ./fixtures.ts).
+ *
+ * @param options - Launch options
+ * @returns Browser handle (call close() when done)
+ */
+export async function launchBrowser(options: LaunchBrowserOptions = {}): Promise<ScrapeBrowser> {
+  const fixtureMode = options.fixture ? getFixtureMode() : 'live';
+
+  if (options.fixture && fixtureMode !== 'live') {
+    // Fixtures always use a dedicated local browser - replay must not need a remote
+    // browser, and HAR recording must not share contexts with other collectors
+    const browser = await launchLocalBrowser();
+    return withFixtures(browser, options.fixture, fixtureMode);
+  }
+
+  if (sharedPool) {
+    return sharedPool.acquire();
+  }
+
+  return getBrowserProvider().connect();
+}
+
+/**
+ * Strip credentials and query string from an endpoint URL for logging
+ */
+function redactEndpoint(endpoint: string): string {
+  try {
+    const url = new URL(endpoint);
+    return `${url.protocol}//${url.host}${url.pathname}`;
+  } catch {
+    return '[invalid endpoint]';
+  }
+}
+
+/**
+ * Launch a local Playwright Chromium instance
+ */
+async function launchLocalBrowser(): Promise<Browser> {
   logger.info('Launching local Playwright browser');
 
   const browser = await chromium.launch({
@@ -0,0 +1,178 @@
+/**
+ * Plan Change Detection
+ *
+ * Diffs a source's new batch against its previous scrape: plans added or
+ * withdrawn, price rises and cuts, and data allowance changes. Stored as
+ * plan_change_events (src/lib/db/plan-changes.ts) when the batch is inserted.
+ */
+
+import { getPlanNumericFields } from './numeric-fields';
+import type { PlanData } from '../../types/database';
+
+export const PLAN_CHANGE_TYPES = [
+  'added',
+  'withdrawn',
+  'price_increase',
+  'price_decrease',
+  'data_change',
+] as const;
+
+export type PlanChangeType = (typeof PLAN_CHANGE_TYPES)[number];
+
+/**
+ * One difference between consecutive batches of a source
+ */
+export interface PlanChange {
+  change_type: PlanChangeType;
+  /** plan_key in the new batch (previous batch for withdrawn plans) */
+  plan_key: string;
+  /** plan_key in the previous batch, when it differs (data changes) */
+  previous_plan_key: string | null;
+  plan_name: string | null;
+  /** Normalized values ("£10.00", "10GB"); null for added / withdrawn plans */
+  old_value: string | null;
+  new_value: string | null;
+  /** New minus old price_pence for price changes */
+  price_delta_pence: number | null;
+}
+
+export interface DiffOptions {
+  /** Some pages of the new batch failed: plans missing from it may still be listed */
+  partial?: boolean;
+}
+
+type KeyedPlan = PlanData & { plan_key: string };
+
+/**
+ * Index a batch by plan_key (first plan wins; plans without a key cannot be matched)
+ */
+function indexByPlanKey(plans: PlanData[]): Map<string, KeyedPlan> {
+  const index = new Map<string, KeyedPlan>();
+  for (const plan of plans) {
+    if (typeof plan.plan_key === 'string' && !index.has(plan.plan_key)) {
+      index.set(plan.plan_key, plan as KeyedPlan);
+    }
+  }
+  return index;
+}
+
+/**
+ * Plans with the same contract and tier are the same product when only
+ * the data allowance (part of plan_key) moved
+ */
+function productKey(plan: KeyedPlan): string {
+  return [plan.contract_term, plan.plan_tier ?? '', plan.plan_variant ?? ''].join('|');
+}
+
+function groupByProduct(plans: KeyedPlan[]): Map<string, KeyedPlan[]> {
+  const groups = new Map<string, KeyedPlan[]>();
+  for (const plan of plans) {
+    const key = productKey(plan);
+    groups.set(key, [...(groups.get(key) ?? []), plan]);
+  }
+  return groups;
+}
+
+function priceChange(previous: KeyedPlan, plan: KeyedPlan): PlanChange | null {
+  const oldPence = getPlanNumericFields(previous).price_pence;
+  const newPence = getPlanNumericFields(plan).price_pence;
+  if (oldPence === null || newPence === null || oldPence === newPence) return null;
+
+  return {
+    change_type: newPence > oldPence ? 'price_increase' : 'price_decrease',
+    plan_key: plan.plan_key,
+    previous_plan_key: previous.plan_key !== plan.plan_key ? previous.plan_key : null,
+    plan_name: plan.name ?? null,
+    old_value: previous.price ?? null,
+    new_value: plan.price ?? null,
+    price_delta_pence: newPence - oldPence,
+  };
+}
+
+function dataChange(previous: KeyedPlan, plan: KeyedPlan): PlanChange {
+  return {
+    change_type: 'data_change',
+    plan_key: plan.plan_key,
+    previous_plan_key: previous.plan_key,
+    plan_name: plan.name ?? null,
+    old_value: previous.data_allowance ?? null,
+    new_value: plan.data_allowance ?? null,
+    price_delta_pence: null,
+  };
+}
+
+function listingChange(change_type: 'added' | 'withdrawn', plan: KeyedPlan): PlanChange {
+  return {
+    change_type,
+    plan_key: plan.plan_key,
+    previous_plan_key: null,
+    plan_name: plan.name ?? null,
+    old_value: null,
+    new_value: null,
+    price_delta_pence: null,
+  };
+}
+
+/**
+ * Compare a batch with the previous scrape of the same source
+ *
+ * Plans are matched by plan_key. Because the data allowance is part of the
+ * key, an unmatched plan is treated as a data change when it is the only
+ * unmatched plan with its contract term and tier on both sides; any other
+ * unmatched plan is added or withdrawn. A partial batch records no
+ * withdrawals, since its missing plans may be on the pages that failed.
+ *
+ * @param previousPlans - Plans from the source's previous scrape (empty for the first scrape)
+ * @param plans - Normalized plans of the new batch
+ * @param options - Whether the new batch is partial
+ * @returns Changes (empty for the first scrape of a source)
+ */
+export function diffPlanBatches(
+  previousPlans: PlanData[],
+  plans: PlanData[],
+  options: DiffOptions = {}
+): PlanChange[] {
+  if (previousPlans.length === 0) return [];
+
+  const previousByKey = indexByPlanKey(previousPlans);
+  const currentByKey = indexByPlanKey(plans);
+  const changes: PlanChange[] = [];
+
+  // Same plan_key: price moves
+  for (const [planKey, plan] of currentByKey) {
+    const previous = previousByKey.get(planKey);
+    const change = previous ? priceChange(previous, plan) : null;
+    if (change) changes.push(change);
+  }
+
+  const unmatchedPrevious = groupByProduct(
+    [...previousByKey.values()].filter((plan) => !currentByKey.has(plan.plan_key))
+  );
+  const unmatchedCurrent = groupByProduct(
+    [...currentByKey.values()].filter((plan) => !previousByKey.has(plan.plan_key))
+  );
+
+  for (const [product, current] of unmatchedCurrent) {
+    const previous = unmatchedPrevious.get(product) ?? [];
+
+    if (current.length === 1 && previous.length === 1) {
+      // Same allowance under a new key (e.g., renamed plan, new fingerprint) is not a data change
+      if (previous[0].data_allowance !== current[0].data_allowance) {
+        changes.push(dataChange(previous[0], current[0]));
+      }
+      const price = priceChange(previous[0], current[0]);
+      if (price) changes.push(price);
+      unmatchedPrevious.delete(product);
+    } else {
+      changes.push(...current.map((plan) => listingChange('added', plan)));
+    }
+  }
+
+  if (!options.partial) {
+    for (const previous of unmatchedPrevious.values()) {
+      changes.push(...previous.map((plan) => listingChange('withdrawn', plan)));
+    }
+  }
+
+  return changes;
+}
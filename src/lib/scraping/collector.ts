@@ -0,0 +1,168 @@
+/**
+ * Collector Contract
+ *
+ * Shared interface implemented by every data source (telco website or API).
+ * Collectors are enumerated through the registry in `./registry.ts` by the
+ * Inngest scrape function, the CLI scripts and the dashboard.
+ */
+
+import { logger } from '../utils/logger';
+import {
+  takeSelectorDiagnostics,
+  type CriticalSelector,
+  type SelectorArtifact,
+  type SelectorCheck,
+} from './diagnostics';
+import { takeFailedPages, type FailedPage } from './retry';
+import { takeNormalizationReport, type NormalizationReport } from './normalization-report';
+import { takeValidationReport, type ValidationReport } from './plan-validation';
+
+/**
+ * How a collector fetches its data
+ * - playwright: drives a browser against the operator website
+ * - api: calls a public JSON/GraphQL endpoint directly
+ */
+export type CollectorKind = 'playwright' | 'api';
+
+/**
+ * A single data source that can be scraped and stored
+ */
+export interface Collector {
+  /** Stable lowercase identifier used in step names and CLI args (e.g., 'o2') */
+  id: string;
+
+  /** Human-readable name shown in logs and the dashboard (e.g., 'O2') */
+  name: string;
+
+  /** Collection mechanism */
+  kind: CollectorKind;
+
+  /** Value stored in plans.source for rows produced by this collector */
+  source: string;
+
+  /** Selectors the extraction depends on (Playwright collectors, see ./diagnostics.ts) */
+  criticalSelectors?: CriticalSelector[];
+
+  /**
+   * Scrape, normalize and store plans
+   *
+   * @param scrapeId - Optional Inngest event ID grouping plans from one scrape run
+   * @returns Count of plans inserted
+   */
+  collect: (scrapeId?: string) => Promise<number>;
+}
+
+/**
+ * Serializable collector metadata (safe to pass to client components)
+ */
+export type CollectorSummary = Pick<Collector, 'id' | 'name' | 'kind' | 'source'>;
+
+/**
+ * Outcome of running a single collector
+ */
+export interface CollectorResult {
+  /** Registry id of the collector (e.g., 'vodafone') */
+  collectorId: string;
+  name: string;
+  status: 'success' | 'failed';
+  plansCollected: number;
+  executionTime: number;
+  /** ISO timestamps (strings so results survive Inngest step serialization) */
+  startedAt: string;
+  finishedAt: string;
+  error?: string;
+  /** Match counts for the collector's critical selectors */
+  selectorChecks?: SelectorCheck[];
+  /** Page captures for selectors that matched nothing (large - see withoutArtifacts) */
+  artifacts?: SelectorArtifact[];
+  /** Pages that still failed after retries (plans from other pages were stored) */
+  failedPages?: FailedPage[];
+  /** Raw values that did not normalize, with counts */
+  normalizationReport?: NormalizationReport;
+  /** Plans dropped for failing the raw or normalized plan schema */
+  validationReport?: ValidationReport;
+}
+
+/**
+ * Drop page captures from a result
+ * Used before returning results from Inngest steps, which have an output size limit.
+ */
+export function withoutArtifacts(result: CollectorResult): CollectorResult {
+  const { artifacts: _artifacts, ...rest } = result;
+  return rest;
+}
+
+/**
+ * Attach buffered selector diagnostics, failed pages and the normalization and
+ * validation reports to a result
+ */
+function withDiagnostics(collector: Collector, result: CollectorResult): CollectorResult {
+  const { checks, artifacts } = takeSelectorDiagnostics(collector.id);
+  const failedPages = takeFailedPages(collector.id);
+  const normalizationReport = takeNormalizationReport(collector.source);
+  const validationReport = takeValidationReport(collector.source);
+
+  return {
+    ...result,
+    ...(checks.length > 0 && { selectorChecks: checks, artifacts }),
+    ...(failedPages.length > 0 && { failedPages }),
+    ...(normalizationReport && { normalizationReport }),
+    ...(validationReport && { validationReport }),
+  };
+}
+
+/**
+ * Run a collector with timing and error capture
+ *
+ * Never throws - failures are reported in the returned result so callers
+ * can keep going with the remaining collectors (fail-safe execution).
+ *
+ * @param collector - Collector to run
+ * @param scrapeId - Optional Inngest event ID to group plans from same scrape run
+ * @returns Per-collector outcome
+ */
+export async function runCollector(
+  collector: Collector,
+  scrapeId?: string
+): Promise<CollectorResult> {
+  const startTime = Date.now();
+  const startedAt = new Date(startTime).toISOString();
+
+  // Discard diagnostics left over from an earlier run of this collector
+  takeSelectorDiagnostics(collector.id);
+  takeFailedPages(collector.id);
+  takeNormalizationReport(collector.source);
+  takeValidationReport(collector.source);
+
+  try {
+    logger.info({ source: collector.name, kind: collector.kind }, `Scraping ${collector.name}...`);
+    const plansCollected = await collector.collect(scrapeId);
+    const executionTime = Date.now() - startTime;
+    logger.info({ plansCollected, executionTime }, `${collector.name} scrape completed`);
+
+    return withDiagnostics(collector, {
+      collectorId: collector.id,
+      name: collector.name,
+      status: 'success',
+      plansCollected,
+      executionTime,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    const executionTime = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error({ error, executionTime }, `${collector.name} scrape failed`);
+
+    return withDiagnostics(collector, {
+      collectorId: collector.id,
+      name: collector.name,
+      status: 'failed',
+      plansCollected: 0,
+      executionTime,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      error: errorMessage,
+    });
+  }
+}
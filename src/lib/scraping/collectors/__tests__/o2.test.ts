@@ -232,6 +232,8 @@ Apr 2026 bill`;
         price: '£24.00/month',
         dataAllowance: '100GB',
         contractTerm: '24 months',
+        priceRiseText: 'increasing to: £26.50 from Apr 2026',
+        features: ['Unlimited UK Minutes & Texts'],
       });
     });
   });
@@ -0,0 +1,90 @@
+// @vitest-environment node
+/**
+ * Fixture replay tests for Playwright collectors
+ *
+ * Runs each browser collector against its recorded fixture (no network) and
+ * checks the extracted plans. Recordings live in fixtures/scraping/<collector-id>;
+ * collectors without one are skipped - record one with
+ * `npm run scrape:record -- <collector-id>`.
+ *
+ * Only Three has a recording so far, and it holds just the page document
+ * (converted from a saved copy of the page, not a live capture). O2,
+ * Vodafone, Sky, Tesco and Giffgaff need a live `scrape:record` run.
+ *
+ * Replays are skipped when Playwright's Chromium is not installed
+ * (`npx playwright install chromium`).
+ */
+
+import fs from 'fs';
+import { chromium } from 'playwright';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { getCollectors } from '../../registry';
+import { hasFixture } from '../../fixtures';
+import { parseMoney } from '../../currency';
+import type { NormalizedPlan } from '../../normalize';
+
+// Mock logger
+vi.mock('../../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+// Capture plans instead of running the anomaly guard and writing to the database
+const insertedPlans = new Map<string, NormalizedPlan[]>();
+vi.mock('../../anomaly-guard', () => ({
+  storePlans: vi.fn(async (source: string, plans: NormalizedPlan[]) => {
+    insertedPlans.set(source, plans);
+    return plans;
+  }),
+}));
+
+const REPLAY_TIMEOUT_MS = 180000;
+
+/**
+ * Upper bound for a SIM-only monthly price (catches prices read with the wrong unit)
+ */
+const MAX_MONTHLY_PRICE = 100;
+
+const hasBrowser = fs.existsSync(chromium.executablePath());
+
+describe('Playwright collectors - fixture replay', () => {
+  const previousMode = process.env.SCRAPE_FIXTURE_MODE;
+
+  beforeAll(() => {
+    process.env.SCRAPE_FIXTURE_MODE = 'replay';
+  });
+
+  afterAll(() => {
+    process.env.SCRAPE_FIXTURE_MODE = previousMode;
+  });
+
+  const browserCollectors = getCollectors().filter((c) => c.kind === 'playwright');
+
+  it('has a recording for at least one collector', () => {
+    expect(browserCollectors.filter((collector) => hasFixture(collector.id))).not.toEqual([]);
+  });
+
+  for (const collector of browserCollectors) {
+    it.skipIf(!hasBrowser || !hasFixture(collector.id))(
+      `extracts ${collector.name} plans from the recorded fixture`,
+      async () => {
+        const count = await collector.collect('replay-test');
+        const plans = insertedPlans.get(collector.source) ?? [];
+
+        expect(count).toBeGreaterThan(0);
+        expect(plans).toHaveLength(count);
+
+        for (const plan of plans) {
+          expect(plan.price).toMatch(/^£\d/);
+          expect(parseMoney(plan.price)).toBeLessThan(MAX_MONTHLY_PRICE);
+          expect(plan.plan_key).toBeTruthy();
+        }
+      },
+      REPLAY_TIMEOUT_MS
+    );
+  }
+});
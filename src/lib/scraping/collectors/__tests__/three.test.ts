@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { extractPlanDetails, transformThreePlan } from '../three';
+
+// Mock logger
+vi.mock('../../../utils/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+/**
+ * Plan details card as served by three.co.uk (trimmed from fixtures/scraping/three)
+ */
+const PLAN_DETAILS_HTML = `
+<div class="MuiGrid-root plan-details-section">
+  <div class="plan-summary">
+    <span class="product-card-description-text">From</span>
+    <div class="cost-and-price">
+      <div class="plan-cost-monthly"><div class="d-flex"><div class="plan-cost-monthly-number"><span>£20</span>.<span class="plan-cost-monthly-number-decimal">00</span></div></div><div class="plan-cost-monthly-text">a month</div><div class="was-price">Was <span aria-hidden="true" class="price-big-digits">£28</span><span aria-hidden="true" class="price-small-digits">.00</span><span class="visually-hidden">£28.00</span></div></div>
+      <div class="plan-cost-monthly"><div class="plan-data-text"><span>Unlimited data</span></div><div class="plan-cost-monthly-text">24 month plan</div></div>
+    </div>
+    <div class="ofcom-text-container"><p class="increasing-to">Increasing to</p><div class="ofcom-text"><span class="ofcom-price"><span aria-hidden="true" class="price-big-digits">£22</span><span aria-hidden="true" class="price-small-digits">.30 </span></span> from  1 Apr 26</div></div>
+  </div>
+  <div class="plan-parameters">
+    <div class="aem-plan-features-txt">Lite plan features: </div>
+    <ul class="standard-aem-feature"><li class="plan-parameter-item">5G at no extra cost</li><li class="plan-parameter-item">Three+ Rewards</li></ul>
+  </div>
+</div>`;
+
+/**
+ * Playwright page stand-in that evaluates against the jsdom document
+ */
+const createMockPage = () => ({
+  waitForSelector: vi.fn().mockResolvedValue(undefined),
+  waitForTimeout: vi.fn().mockResolvedValue(undefined),
+  evaluate: vi.fn(async (fn: () => unknown) => fn()),
+});
+
+describe('Three Scraper - extractPlanDetails', () => {
+  beforeEach(() => {
+    document.body.innerHTML = PLAN_DETAILS_HTML;
+  });
+
+  it('should read the pounds and the decimal span around the "." text node', async () => {
+    const plan = await extractPlanDetails(createMockPage(), '24 Months');
+
+    expect(plan?.currentPrice).toBe('20.00');
+    expect(plan?.wasPrice).toBe('28.00');
+  });
+
+  it('should extract allowance, term and plan type', async () => {
+    const plan = await extractPlanDetails(createMockPage(), '24 Months');
+
+    expect(plan).toMatchObject({
+      dataAllowance: 'Unlimited data',
+      contractTerm: '24 months',
+      planType: 'Lite',
+      features: '5G at no extra cost, Three+ Rewards',
+    });
+  });
+
+  it('should store the monthly price in pounds', async () => {
+    const plan = await extractPlanDetails(createMockPage(), '24 Months');
+
+    expect(transformThreePlan(plan!).price).toBe('£20.00');
+  });
+
+  it('should return null without plan details', async () => {
+    document.body.innerHTML = '';
+
+    await expect(extractPlanDetails(createMockPage())).resolves.toBeNull();
+  });
+});
@@ -1,8 +1,12 @@
 import { logger } from '../../utils/logger';
-import { insertPlans } from '../../db/plans';
+import { storePlans } from '../anomaly-guard';
 import { normalizePlans } from '../normalize';
+import { validateNormalizedPlans, validateRawPlans } from '../plan-validation';
 import { launchBrowser } from '../browser';
 import type { PlanData } from '../../../types/database';
+import type { Collector } from '../collector';
+import { checkSelectors, type CriticalSelector } from '../diagnostics';
+import { throwIfRateLimited, withRetry, DEFAULT_RETRY_POLICY, type RetryPolicy } from '../retry';
 
 /**
  * Giffgaff SIM-only plan scraper
@@ -33,6 +37,23 @@ interface GiffgaffPlansData {
   plans: Record<string, GiffgaffPlanRaw>;
 }
 
+/**
+ * Selectors the extraction depends on
+ */
+const GIFFGAFF_CRITICAL_SELECTORS: CriticalSelector[] = [
+  { name: 'embedded plan JSON', selector: 'script[type="application/json"]' },
+];
+
+const GIFFGAFF_URL = 'https://www.giffgaff.com/sim-only-deals';
+
+/**
+ * Single page - retry the page load (no consent overlay to click)
+ */
+const GIFFGAFF_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  retryOn: ['navigation_timeout', 'rate_limited'],
+};
+
 /**
  * Extract plans data from embedded JSON in page
  */
@@ -100,6 +121,10 @@ function transformGiffgaffPlan(plan: GiffgaffPlanRaw): PlanData {
     contractTerm = 'Pay as you go';
   }
 
+  // Call and text allowances (-1 means unlimited, like data)
+  const minutes = plan.allowance.find(a => /VOICE|MINUTE/.test(a.type));
+  const texts = plan.allowance.find(a => /SMS|TEXT/.test(a.type));
+
   // Convert pence to pounds
   const priceText = `£${(plan.priceInPence / 100).toFixed(2)}`;
 
@@ -108,6 +133,9 @@ function transformGiffgaffPlan(plan: GiffgaffPlanRaw): PlanData {
     price: priceText,
     data_allowance: dataText,
     contract_term: contractTerm,
+    description: plan.description,
+    minutes: minutes?.allocation,
+    texts: texts?.allocation,
     source_url: 'https://www.giffgaff.com/sim-only-deals',
     source_name: 'Giffgaff',
     plan_key: null
@@ -122,18 +150,22 @@ function transformGiffgaffPlan(plan: GiffgaffPlanRaw): PlanData {
 export async function scrapeAndStoreGiffgaffPlans(scrapeId?: string): Promise<number> {
   logger.info('Starting Giffgaff plan collection');
 
-  const browser = await launchBrowser();
+  const browser = await launchBrowser({ fixture: 'giffgaff' });
 
   try {
     const page = await browser.newPage();
 
     logger.info('Navigating to Giffgaff SIM only deals page');
-    await page.goto('https://www.giffgaff.com/sim-only-deals', {
-      waitUntil: 'networkidle',
-      timeout: 30000
-    });
+    await withRetry(async () => {
+      const response = await page.goto(GIFFGAFF_URL, {
+        waitUntil: 'networkidle',
+        timeout: 30000
+      });
+      throwIfRateLimited(response?.status() ?? 0, GIFFGAFF_URL, response?.headers()['retry-after']);
+    }, GIFFGAFF_RETRY_POLICY, 'Giffgaff plans page');
 
     // Extract plans from JSON
+    await checkSelectors(page, 'giffgaff', GIFFGAFF_CRITICAL_SELECTORS);
     const rawPlans = await extractPlansInfo(page);
     logger.info(`Found ${rawPlans.length} raw plans`);
 
@@ -145,11 +177,13 @@ export async function scrapeAndStoreGiffgaffPlans(scrapeId?: string): Promise<nu
     // Convert to PlanData format
     const planData: PlanData[] = rawPlans.map(transformGiffgaffPlan);
 
-    // Normalize plans before database insertion
-    const normalizedPlans = normalizePlans(planData, 'Giffgaff');
+    // Validate, normalize and validate again before database insertion
+    // (plans that fail a schema are reported and dropped, see ../plan-validation)
+    const validPlans = validateRawPlans(planData, 'Giffgaff');
+    const normalizedPlans = validateNormalizedPlans(normalizePlans(validPlans, 'Giffgaff'), 'Giffgaff');
 
     // Insert normalized data into database
-    const results = await insertPlans('Giffgaff', normalizedPlans, scrapeId);
+    const results = await storePlans('Giffgaff', normalizedPlans, scrapeId);
 
     logger.info({ planCount: results.length, scrapeId }, 'Giffgaff plan collection complete');
     return results.length;
@@ -160,3 +194,15 @@ export async function scrapeAndStoreGiffgaffPlans(scrapeId?: string): Promise<nu
     await browser.close();
   }
 }
+
+/**
+ * Giffgaff collector registration
+ */
+export const giffgaffCollector: Collector = {
+  id: 'giffgaff',
+  name: 'Giffgaff',
+  kind: 'playwright',
+  source: 'Giffgaff',
+  criticalSelectors: GIFFGAFF_CRITICAL_SELECTORS,
+  collect: scrapeAndStoreGiffgaffPlans,
+};
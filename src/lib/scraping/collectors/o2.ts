@@ -1,9 +1,13 @@
-import { Browser, Page } from 'playwright';
+import { Page } from 'playwright';
 import { logger } from '../../utils/logger';
-import { insertPlans } from '../../db/plans';
-import { normalizePlans } from '../normalize';
-import { launchBrowser, DEFAULT_CONTEXT_OPTIONS } from '../browser';
+import { storePlans } from '../anomaly-guard';
+import { findPromoText, normalizePlans } from '../normalize';
+import { validateNormalizedPlans, validateRawPlans } from '../plan-validation';
+import { launchBrowser, DEFAULT_CONTEXT_OPTIONS, type ScrapeBrowser } from '../browser';
 import type { PlanData } from '../../../types/database';
+import type { Collector } from '../collector';
+import { checkSelectors, type CriticalSelector } from '../diagnostics';
+import { collectPages, peekFailedPages, throwIfRateLimited, DEFAULT_RETRY_POLICY, type RetryPolicy } from '../retry';
 
 /**
  * O2 SIM-only plan scraper
@@ -20,6 +24,10 @@ interface O2Plan {
   price: string;
   dataAllowance: string;
   contractTerm: string;
+  wasPrice?: string;
+  offerText?: string;
+  priceRiseText?: string;
+  features?: string[];
   url?: string;
 }
 
@@ -31,16 +39,28 @@ const O2_URLS = [
 
 const PRODUCT_SELECTOR = '[data-role="card"]:not([data-role="card"] [data-role="card"])';
 
+/**
+ * Selectors the extraction depends on (checked on every URL)
+ */
+const O2_CRITICAL_SELECTORS: CriticalSelector[] = [
+  { name: 'plan cards', selector: PRODUCT_SELECTOR },
+];
+
+/**
+ * Each contract-length URL is retried on its own
+ */
+const O2_RETRY_POLICY: RetryPolicy = DEFAULT_RETRY_POLICY;
+
 /**
  * Scrape O2 SIM-only plans
  * @returns Array of plan data
  */
 export async function scrapeO2(): Promise<O2Plan[]> {
-  let browser: Browser | null = null;
+  let browser: ScrapeBrowser | null = null;
   const allPlans: O2Plan[] = [];
 
   try {
-    browser = await launchBrowser();
+    browser = await launchBrowser({ fixture: 'o2' });
 
     const context = await browser.newContext(DEFAULT_CONTEXT_OPTIONS);
 
@@ -56,8 +76,9 @@ export async function scrapeO2(): Promise<O2Plan[]> {
       expires: Math.floor(Date.now() / 1000) + 36000,
     }]);
 
-    // Process each URL (different contract months)
-    for (const url of O2_URLS) {
+    // Process each URL (different contract months); failed URLs are retried
+    // and reported as failed pages when other URLs succeed
+    const plans = await collectPages('o2', O2_URLS, async (url) => {
       const page = await context.newPage();
 
       // Remove webdriver property to avoid detection
@@ -71,7 +92,8 @@ export async function scrapeO2(): Promise<O2Plan[]> {
         logger.info({ url }, 'Loading page');
         // Use 'load' instead of 'networkidle' for more reliable loading
         // 'networkidle' can timeout on pages with continuous network activity
-        await page.goto(url, { waitUntil: 'load' });
+        const response = await page.goto(url, { waitUntil: 'load' });
+        throwIfRateLimited(response?.status() ?? 0, url, response?.headers()['retry-after']);
         await page.waitForTimeout(5000);
 
         // Handle cookie consent if present
@@ -86,15 +108,18 @@ export async function scrapeO2(): Promise<O2Plan[]> {
 
         // Extract plan data from this page
         logger.info('Extracting plan data');
-        const plans = await extractPlanData(page);
-        logger.info({ url, planCount: plans.length }, 'Loaded plans from page');
-        allPlans.push(...plans);
-      } catch (error) {
-        logger.error({ url, error }, 'Error processing URL');
+        const pagePlans = await extractPlanData(page);
+        if (pagePlans.length === 0) {
+          throw new Error(`No plans found on ${url}`);
+        }
+
+        logger.info({ url, planCount: pagePlans.length }, 'Loaded plans from page');
+        return pagePlans;
       } finally {
         await page.close();
       }
-    }
+    }, O2_RETRY_POLICY);
+    allPlans.push(...plans);
 
     await context.close();
     await browser.close();
@@ -187,6 +212,7 @@ async function extractPlanData(page: Page): Promise<O2Plan[]> {
 
     await clickViewAllResultsButton(page);
 
+    await checkSelectors(page, 'o2', O2_CRITICAL_SELECTORS);
     const cards = await page.locator(PRODUCT_SELECTOR).all();
     logger.info({ cardCount: cards.length }, 'Found plan cards');
     for (const card of cards) {
@@ -273,11 +299,28 @@ export async function extractPlanFromLocator(card: any): Promise<O2Plan | null>
       }
     }
 
+    // Promotional text (e.g., "Was £30.00", "Save £120")
+    const promo = findPromoText(planLines);
+
+    // Allowance and feature lines (e.g., "Unlimited UK Minutes & Texts", "5G ready")
+    const features = planLines.filter((line: string) =>
+      /minutes|texts|roam|\b5G\b|\be-?sim\b|mbps|data[- ]only/i.test(line)
+    );
+
+    // Annual price rise: "Total monthly cost increasing to: £26.50 from Apr 2026 bill"
+    const riseMatch = planLines
+      .join(' ')
+      .match(/increasing to:?\s*£\s*\d+(?:\.\d{2})?\s*from\s+[a-z]+\s+\d{4}/i);
+
     return {
       name: typeof name === 'string' ? name.trim() : 'O2 SIM Plan',
       price: price.trim(),
       dataAllowance: dataAllowance.trim(),
       contractTerm: contractTerm.trim(),
+      ...(promo.was_price && { wasPrice: promo.was_price }),
+      ...(promo.offer_text && { offerText: promo.offer_text }),
+      ...(riseMatch && { priceRiseText: riseMatch[0] }),
+      ...(features.length > 0 && { features }),
     };
   } catch (error) {
     logger.error({ error }, 'Error extracting plan from locator');
@@ -312,14 +355,22 @@ export async function scrapeAndStoreO2Plans(scrapeId?: string): Promise<number>
       price: plan.price,
       data_allowance: plan.dataAllowance,
       contract_term: plan.contractTerm,
+      // Bundle name ("CLASSIC", "PLUS") - O2 sells several at the same data and term
+      plan_type: plan.name,
+      was_price: plan.wasPrice,
+      offer_text: plan.offerText,
+      price_rise_text: plan.priceRiseText,
+      extras: plan.features,
       url: plan.url,
     }));
 
-    // Normalize plans before database insertion
-    const normalizedPlans = normalizePlans(planData, 'O2');
+    // Validate, normalize and validate again before database insertion
+    // (plans that fail a schema are reported and dropped, see ../plan-validation)
+    const validPlans = validateRawPlans(planData, 'O2');
+    const normalizedPlans = validateNormalizedPlans(normalizePlans(validPlans, 'O2'), 'O2');
 
-    // Insert normalized data into database
-    const results = await insertPlans('O2', normalizedPlans, scrapeId);
+    // Insert normalized data into database (pages that failed make it a partial batch)
+    const results = await storePlans('O2', normalizedPlans, scrapeId, peekFailedPages('o2'));
 
     logger.info({ planCount: results.length, scrapeId }, 'O2 plan collection complete');
     return results.length;
@@ -328,3 +379,15 @@ export async function scrapeAndStoreO2Plans(scrapeId?: string): Promise<number>
     throw error;
   }
 }
+
+/**
+ * O2 collector registration
+ */
+export const o2Collector: Collector = {
+  id: 'o2',
+  name: 'O2',
+  kind: 'playwright',
+  source: 'O2',
+  criticalSelectors: O2_CRITICAL_SELECTORS,
+  collect: scrapeAndStoreO2Plans,
+};
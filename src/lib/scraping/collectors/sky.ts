@@ -6,11 +6,15 @@
  * Story: 2.2 - Data Collectors for Telco Sources
  */
 
-import { insertPlans } from '../../db/plans';
-import { normalizePlans } from '../normalize';
+import { storePlans } from '../anomaly-guard';
+import { findPromoText, normalizePlans } from '../normalize';
+import { validateNormalizedPlans, validateRawPlans } from '../plan-validation';
 import { logger } from '../../utils/logger';
 import { launchBrowser } from '../browser';
 import type { PlanData } from '../../../types/database';
+import type { Collector } from '../collector';
+import { checkSelectors, type CriticalSelector } from '../diagnostics';
+import { throwIfRateLimited, withRetry, DEFAULT_RETRY_POLICY, type RetryPolicy } from '../retry';
 import type { Page } from 'playwright';
 
 const SKY_CONFIG = {
@@ -20,6 +24,19 @@ const SKY_CONFIG = {
   cookieButtonSelector: 'button[title="Accept all"]',
 };
 
+/**
+ * Selectors the extraction depends on (checked on every run)
+ */
+const SKY_CRITICAL_SELECTORS: CriticalSelector[] = [
+  { name: 'plan cards', selector: SKY_CONFIG.productSelector },
+  { name: 'plan benefits', selector: SKY_CONFIG.benefitsSelector },
+];
+
+/**
+ * Page load and cookie consent are retried together
+ */
+const SKY_RETRY_POLICY: RetryPolicy = DEFAULT_RETRY_POLICY;
+
 /**
  * Extract plan benefits from the page
  */
@@ -122,6 +139,7 @@ function transformSkyPlan(rawPlan: string[]): PlanData {
     data_allowance: dataAllowance || 'Unknown',
     contract_term: contractTerm,
     extras,
+    ...findPromoText(rest),
   };
 }
 
@@ -133,29 +151,34 @@ function transformSkyPlan(rawPlan: string[]): PlanData {
 export async function scrapeAndStoreSkyPlans(scrapeId?: string): Promise<number> {
   logger.info('Starting Sky Mobile plan collection');
 
-  const browser = await launchBrowser();
+  const browser = await launchBrowser({ fixture: 'sky' });
   const page = await browser.newPage();
 
   try {
-    // Navigate to Sky Mobile plans page
-    logger.debug({ url: SKY_CONFIG.url }, 'Loading Sky Mobile page');
-    await page.goto(SKY_CONFIG.url, { waitUntil: 'networkidle' });
-    await page.waitForTimeout(5000);
-
-    // Handle cookie consent
-    logger.debug('Checking for cookie consent');
-    const cookieButtons = await page
-      .locator(SKY_CONFIG.cookieButtonSelector)
-      .all();
-
-    if (cookieButtons.length > 0) {
-      logger.debug('Accepting cookies');
-      await cookieButtons[0].click();
-      await page.waitForTimeout(2000);
-    }
+    // Load the plans page (retried on timeouts, rate limiting and blocked consent clicks)
+    await withRetry(async () => {
+      // Navigate to Sky Mobile plans page
+      logger.debug({ url: SKY_CONFIG.url }, 'Loading Sky Mobile page');
+      const response = await page.goto(SKY_CONFIG.url, { waitUntil: 'networkidle' });
+      throwIfRateLimited(response?.status() ?? 0, SKY_CONFIG.url, response?.headers()['retry-after']);
+      await page.waitForTimeout(5000);
+
+      // Handle cookie consent
+      logger.debug('Checking for cookie consent');
+      const cookieButtons = await page
+        .locator(SKY_CONFIG.cookieButtonSelector)
+        .all();
+
+      if (cookieButtons.length > 0) {
+        logger.debug('Accepting cookies');
+        await cookieButtons[0].click();
+        await page.waitForTimeout(2000);
+      }
+    }, SKY_RETRY_POLICY, 'Sky plans page');
 
     // Extract plans
     logger.debug('Extracting plan data');
+    await checkSelectors(page, 'sky', SKY_CRITICAL_SELECTORS);
     const rawPlans = await extractPlansInfo(page);
 
     if (rawPlans.length === 0) {
@@ -169,22 +192,36 @@ export async function scrapeAndStoreSkyPlans(scrapeId?: string): Promise<number>
 
     logger.debug({ planCount: plans.length }, 'Transformed Sky plans');
 
-    // Normalize plans before database insertion
-    const normalizedPlans = normalizePlans(plans, 'Sky');
+    // Validate, normalize and validate again before database insertion
+    // (plans that fail a schema are reported and dropped, see ../plan-validation)
+    const validPlans = validateRawPlans(plans, 'Sky');
+    const normalizedPlans = validateNormalizedPlans(normalizePlans(validPlans, 'Sky'), 'Sky');
 
     // Insert normalized data into database
-    await insertPlans('Sky', normalizedPlans, scrapeId);
+    await storePlans('Sky', normalizedPlans, scrapeId);
 
     logger.info(
-      { planCount: plans.length, scrapeId },
+      { planCount: normalizedPlans.length, scrapeId },
       'Successfully scraped and stored Sky Mobile plans'
     );
 
     await browser.close();
-    return plans.length;
+    return normalizedPlans.length;
   } catch (error) {
     logger.error({ error }, 'Failed to scrape Sky Mobile plans');
     await browser.close();
     throw error;
   }
 }
+
+/**
+ * Sky collector registration
+ */
+export const skyCollector: Collector = {
+  id: 'sky',
+  name: 'Sky',
+  kind: 'playwright',
+  source: 'Sky',
+  criticalSelectors: SKY_CRITICAL_SELECTORS,
+  collect: scrapeAndStoreSkyPlans,
+};
@@ -7,10 +7,13 @@
  * Story: 2.2 - Data Collectors for Telco Sources
  */
 
-import { insertPlans } from '../../db/plans';
+import { storePlans } from '../anomaly-guard';
 import { normalizePlans } from '../normalize';
+import { validateNormalizedPlans, validateRawPlans } from '../plan-validation';
 import { logger } from '../../utils/logger';
 import type { PlanData } from '../../../types/database';
+import type { Collector } from '../collector';
+import { throwIfRateLimited, withRetry, DEFAULT_RETRY_POLICY, type RetryPolicy } from '../retry';
 
 interface SmartyPlanResponse {
   data: {
@@ -38,6 +41,14 @@ interface SmartyPlan {
   [key: string]: any; // Allow other fields from API
 }
 
+/**
+ * Retry rate limiting (HTTP 429) with backoff; other API errors fail fast
+ */
+const SMARTY_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  retryOn: ['rate_limited'],
+};
+
 /**
  * Fetch plans from Smarty's public API
  */
@@ -63,10 +74,14 @@ async function fetchSmartyPlans(): Promise<SmartyPlanResponse> {
   try {
     logger.debug({ url }, 'Fetching Smarty plans from API');
 
-    const response = await fetch(url, {
-      method: 'GET',
-      headers,
-    });
+    const response = await withRetry(async () => {
+      const res = await fetch(url, {
+        method: 'GET',
+        headers,
+      });
+      throwIfRateLimited(res.status, url, res.headers.get('retry-after'));
+      return res;
+    }, SMARTY_RETRY_POLICY, 'Smarty plans API');
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
@@ -133,7 +148,12 @@ function extractPlansInfoFromAPI(
       price: `£${finalPrice.value}/month`,
       data_allowance: dataAllowance,
       contract_term: contractTerm,
+      plan_type: categoryName,
       extras: standardIncludes,
+      // Allowances of 0 mean unlimited (like dataAllowanceGB) unless the plan is data-only
+      minutes: plan.planIsDataOnly ? 0 : plan.voiceAllowance || 'Unlimited',
+      texts: plan.planIsDataOnly ? 0 : plan.smsAllowance || 'Unlimited',
+      data_only: plan.planIsDataOnly,
       // Preserve ID and category info
       plan_id: id,
       category: categoryName,
@@ -167,20 +187,33 @@ export async function scrapeAndStoreSmartyPlans(scrapeId?: string): Promise<numb
 
     logger.debug({ planCount: plans.length }, 'Extracted Smarty plans');
 
-    // Normalize plans before database insertion
-    const normalizedPlans = normalizePlans(plans, 'Smarty');
+    // Validate, normalize and validate again before database insertion
+    // (plans that fail a schema are reported and dropped, see ../plan-validation)
+    const validPlans = validateRawPlans(plans, 'Smarty');
+    const normalizedPlans = validateNormalizedPlans(normalizePlans(validPlans, 'Smarty'), 'Smarty');
 
     // Insert normalized data into database
-    await insertPlans('Smarty', normalizedPlans, scrapeId);
+    await storePlans('Smarty', normalizedPlans, scrapeId);
 
     logger.info(
-      { planCount: plans.length, scrapeId },
+      { planCount: normalizedPlans.length, scrapeId },
       'Successfully scraped and stored Smarty plans'
     );
 
-    return plans.length;
+    return normalizedPlans.length;
   } catch (error) {
     logger.error({ error }, 'Failed to scrape Smarty plans');
     throw error;
   }
 }
+
+/**
+ * Smarty collector registration
+ */
+export const smartyCollector: Collector = {
+  id: 'smarty',
+  name: 'Smarty',
+  kind: 'api',
+  source: 'Smarty',
+  collect: scrapeAndStoreSmartyPlans,
+};
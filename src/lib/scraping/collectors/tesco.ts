@@ -6,11 +6,15 @@
  * Story: 2.2 - Data Collectors for Telco Sources
  */
 
-import { insertPlans } from '../../db/plans';
-import { normalizePlans } from '../normalize';
+import { storePlans } from '../anomaly-guard';
+import { findPromoText, normalizePlans } from '../normalize';
+import { validateNormalizedPlans, validateRawPlans } from '../plan-validation';
 import { logger } from '../../utils/logger';
 import { launchBrowser } from '../browser';
 import type { PlanData } from '../../../types/database';
+import type { Collector } from '../collector';
+import { checkSelectors, type CriticalSelector } from '../diagnostics';
+import { throwIfRateLimited, withRetry, DEFAULT_RETRY_POLICY, type RetryPolicy } from '../retry';
 import type { Page } from 'playwright';
 
 const TESCO_CONFIG = {
@@ -21,6 +25,20 @@ const TESCO_CONFIG = {
   cookieButtonText: 'Accept all',
 };
 
+/**
+ * Selectors the extraction depends on (checked on every run)
+ */
+const TESCO_CRITICAL_SELECTORS: CriticalSelector[] = [
+  { name: 'plan cards', selector: TESCO_CONFIG.productSelector },
+  { name: 'plan names', selector: `${TESCO_CONFIG.productSelector} ${TESCO_CONFIG.nameSelector}` },
+  { name: 'plan prices', selector: `${TESCO_CONFIG.productSelector} ${TESCO_CONFIG.priceSelector}` },
+];
+
+/**
+ * Single page - retry the page load
+ */
+const TESCO_RETRY_POLICY: RetryPolicy = DEFAULT_RETRY_POLICY;
+
 interface TescoRawPlan {
   name: string;
   pricePerMonth: string;
@@ -110,6 +128,7 @@ function transformTescoPlan(rawPlan: TescoRawPlan): PlanData {
     data_allowance: dataAllowance,
     contract_term: contractTerm,
     extras,
+    ...findPromoText(rawPlan.details),
   };
 }
 
@@ -121,13 +140,16 @@ function transformTescoPlan(rawPlan: TescoRawPlan): PlanData {
 export async function scrapeAndStoreTescoPlans(scrapeId?: string): Promise<number> {
   logger.info('Starting Tesco Mobile plan collection');
 
-  const browser = await launchBrowser();
+  const browser = await launchBrowser({ fixture: 'tesco' });
   const page = await browser.newPage();
 
   try {
-    // Navigate to Tesco Mobile plans page
-    logger.debug({ url: TESCO_CONFIG.url }, 'Loading Tesco Mobile page');
-    await page.goto(TESCO_CONFIG.url, { waitUntil: 'networkidle' });
+    // Navigate to Tesco Mobile plans page (retried on timeouts / rate limiting)
+    await withRetry(async () => {
+      logger.debug({ url: TESCO_CONFIG.url }, 'Loading Tesco Mobile page');
+      const response = await page.goto(TESCO_CONFIG.url, { waitUntil: 'networkidle' });
+      throwIfRateLimited(response?.status() ?? 0, TESCO_CONFIG.url, response?.headers()['retry-after']);
+    }, TESCO_RETRY_POLICY, 'Tesco plans page');
     await page.waitForTimeout(1000);
 
     // Handle cookie consent
@@ -143,6 +165,7 @@ export async function scrapeAndStoreTescoPlans(scrapeId?: string): Promise<numbe
 
     // Extract plans
     logger.debug('Extracting plan data');
+    await checkSelectors(page, 'tesco', TESCO_CRITICAL_SELECTORS);
     const rawPlans = await extractPlansInfo(page);
 
     if (rawPlans.length === 0) {
@@ -156,19 +179,21 @@ export async function scrapeAndStoreTescoPlans(scrapeId?: string): Promise<numbe
 
     logger.debug({ planCount: plans.length }, 'Transformed Tesco plans');
 
-    // Normalize plans before database insertion
-    const normalizedPlans = normalizePlans(plans, 'Tesco');
+    // Validate, normalize and validate again before database insertion
+    // (plans that fail a schema are reported and dropped, see ../plan-validation)
+    const validPlans = validateRawPlans(plans, 'Tesco');
+    const normalizedPlans = validateNormalizedPlans(normalizePlans(validPlans, 'Tesco'), 'Tesco');
 
     // Insert normalized data into database
-    await insertPlans('Tesco', normalizedPlans, scrapeId);
+    await storePlans('Tesco', normalizedPlans, scrapeId);
 
     logger.info(
-      { planCount: plans.length, scrapeId },
+      { planCount: normalizedPlans.length, scrapeId },
       'Successfully scraped and stored Tesco Mobile plans'
     );
 
     await browser.close();
-    return plans.length;
+    return normalizedPlans.length;
   } catch (error) {
     logger.error({ error }, 'Failed to scrape Tesco Mobile plans');
     await browser.close();
@@ -176,6 +201,18 @@ export async function scrapeAndStoreTescoPlans(scrapeId?: string): Promise<numbe
   }
 }
 
+/**
+ * Tesco collector registration
+ */
+export const tescoCollector: Collector = {
+  id: 'tesco',
+  name: 'Tesco',
+  kind: 'playwright',
+  source: 'Tesco',
+  criticalSelectors: TESCO_CRITICAL_SELECTORS,
+  collect: scrapeAndStoreTescoPlans,
+};
+
 // Interface for Tesco plan structure (not currently used but kept for documentation)
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 interface TescoPlan {
@@ -1,8 +1,12 @@
 import { logger } from '../../utils/logger';
-import { insertPlans } from '../../db/plans';
+import { storePlans } from '../anomaly-guard';
 import { normalizePlans } from '../normalize';
+import { validateNormalizedPlans, validateRawPlans } from '../plan-validation';
 import { launchBrowser } from '../browser';
 import type { PlanData } from '../../../types/database';
+import type { Collector } from '../collector';
+import { checkSelectors, type CriticalSelector } from '../diagnostics';
+import { throwIfRateLimited, withRetry, DEFAULT_RETRY_POLICY, type RetryPolicy } from '../retry';
 
 /**
  * Three SIM-only plan scraper with interactive filter navigation
@@ -14,7 +18,27 @@ import type { PlanData } from '../../../types/database';
  * - Plan type (Lite, Value, Complete)
  */
 
-interface ThreePlanRaw {
+/**
+ * Selectors the extraction depends on (checked once the page has loaded)
+ */
+const THREE_CRITICAL_SELECTORS: CriticalSelector[] = [
+  { name: 'plan selection', selector: '.plan-selection-section' },
+  { name: 'popular plan cards', selector: '.simo-top-ranking-plans .plan-card-redesign-content-wrapper' },
+  { name: 'plan details', selector: '.plan-details-section' },
+  { name: 'filters', selector: '.filter-wrapper' },
+];
+
+const THREE_URL = 'https://www.three.co.uk/shop/sim-only/pay-monthly';
+
+/**
+ * The page load is retried; a failed load costs a minute, so only twice
+ */
+const THREE_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  attempts: 2,
+};
+
+export interface ThreePlanRaw {
   dataAllowance: string;
   contractTerm: string;
   planType: string;
@@ -22,12 +46,13 @@ interface ThreePlanRaw {
   wasPrice: string;
   features: string;
   offerText: string;
+  priceRiseText: string;
 }
 
 /**
  * Extract plan details from the dynamic plan card
  */
-async function extractPlanDetails(
+export async function extractPlanDetails(
   page: any,
   selectedContractLength?: string
 ): Promise<ThreePlanRaw | null> {
@@ -57,7 +82,10 @@ async function extractPlanDetails(
         const priceBig = priceContainer.querySelector('span:first-child');
         const priceSmall = priceContainer.querySelector('.plan-cost-monthly-number-decimal');
         if (priceBig && priceSmall) {
-          currentPrice = `${priceBig.textContent?.replace('£', '')}${priceSmall.textContent}`.trim();
+          // The decimal point is a text node between the spans ("<span>£20</span>.<span>00</span>")
+          const pounds = priceBig.textContent?.replace('£', '').trim();
+          const pence = priceSmall.textContent?.replace('.', '').trim();
+          currentPrice = `${pounds}.${pence}`;
         }
       }
 
@@ -108,6 +136,9 @@ async function extractPlanDetails(
         offerText = offerElement.textContent?.trim() || '';
       }
 
+      // Ofcom price-rise box (e.g., "Increasing to £22.30 from 1 Apr 26 £24.60 from 1 Apr 27")
+      const priceRiseText = planSection.querySelector('.ofcom-text-container')?.textContent?.trim() || '';
+
       return {
         dataAllowance,
         contractInfo,
@@ -116,6 +147,7 @@ async function extractPlanDetails(
         planType,
         features,
         offerText,
+        priceRiseText,
       };
     });
 
@@ -145,6 +177,7 @@ async function extractPlanDetails(
       wasPrice: planDetails.wasPrice,
       features: planDetails.features,
       offerText: planDetails.offerText,
+      priceRiseText: planDetails.priceRiseText,
     };
   } catch (error) {
     logger.warn({ error }, 'Failed to extract plan details');
@@ -209,9 +242,10 @@ async function clickFilter(page: any, filterCategory: string, optionText: string
 /**
  * Transform raw plan data to PlanData format
  */
-function transformThreePlan(rawPlan: ThreePlanRaw): PlanData {
-  // Clean and format the price (e.g., "£20.00" -> "20.00")
-  const price = rawPlan.currentPrice.replace('£', '').trim();
+export function transformThreePlan(rawPlan: ThreePlanRaw): PlanData {
+  // Format the price with a £ ("20.00" -> "£20.00") so a whole-pound price is not read as
+  // pence (see the Three normalization profile)
+  const price = rawPlan.currentPrice ? `£${rawPlan.currentPrice.replace('£', '').trim()}` : '';
 
   // Format data allowance
   let dataAllowance = rawPlan.dataAllowance.replace(' data', '').trim();
@@ -227,6 +261,12 @@ function transformThreePlan(rawPlan: ThreePlanRaw): PlanData {
     price,
     data_allowance: dataAllowance,
     contract_term: rawPlan.contractTerm,
+    plan_type: rawPlan.planType || null,
+    extras: rawPlan.features ? rawPlan.features.split(', ') : [],
+    was_price: rawPlan.wasPrice || null,
+    // The plan-list layout only has the Ofcom "Increasing to" label, which is not an offer
+    offer_text: /^increasing to/i.test(rawPlan.offerText) ? null : rawPlan.offerText || null,
+    price_rise_text: rawPlan.priceRiseText || null,
     source: 'Three',
     url: 'https://www.three.co.uk/shop/sim-only/pay-monthly',
     plan_key: null,
@@ -241,21 +281,28 @@ function transformThreePlan(rawPlan: ThreePlanRaw): PlanData {
 export async function scrapeAndStoreThreePlans(scrapeId?: string): Promise<number> {
   logger.info('Starting Three plan collection');
 
-  const browser = await launchBrowser();
+  const browser = await launchBrowser({ fixture: 'three' });
 
   try {
     const page = await browser.newPage();
 
-    // Navigate to Three SIM only page
-    logger.info('Navigating to Three SIM only page');
-    await page.goto('https://www.three.co.uk/shop/sim-only/pay-monthly', {
-      waitUntil: 'domcontentloaded',
-      timeout: 60000,
-    });
+    await withRetry(async () => {
+      // Navigate to Three SIM only page
+      logger.info('Navigating to Three SIM only page');
+      const response = await page.goto(THREE_URL, {
+        waitUntil: 'domcontentloaded',
+        timeout: 60000,
+      });
+      throwIfRateLimited(response?.status() ?? 0, THREE_URL, response?.headers()['retry-after']);
 
-    // Wait for the page to load
-    logger.info('Waiting for plan selection section');
-    await page.waitForSelector('.plan-selection-section', { timeout: 20000 });
+      // Wait for the page to load
+      logger.info('Waiting for plan selection section');
+      await page.waitForSelector('.plan-selection-section', { timeout: 20000 }).catch(async (error) => {
+        await checkSelectors(page, 'three', THREE_CRITICAL_SELECTORS);
+        throw error;
+      });
+    }, THREE_RETRY_POLICY, 'Three plans page');
+    await checkSelectors(page, 'three', THREE_CRITICAL_SELECTORS);
 
     // First, extract the "most popular plans" shown at the top
     logger.info('Extracting most popular plans');
@@ -281,6 +328,9 @@ export async function scrapeAndStoreThreePlans(scrapeId?: string): Promise<numbe
         const offerElement = card.closest('.plans-card-root-redesign')?.querySelector('.offer-indicator');
         const offerText = offerElement?.textContent?.trim() || '';
 
+        const priceRiseElement = card.closest('.plans-card-root-redesign')?.querySelector('.ofcom-text-container');
+        const priceRiseText = priceRiseElement?.textContent?.trim() || '';
+
         return {
           dataAllowance,
           contractInfo,
@@ -288,6 +338,7 @@ export async function scrapeAndStoreThreePlans(scrapeId?: string): Promise<numbe
           wasPrice,
           features,
           offerText,
+          priceRiseText,
         };
       });
     });
@@ -310,6 +361,7 @@ export async function scrapeAndStoreThreePlans(scrapeId?: string): Promise<numbe
           wasPrice: rawPlan.wasPrice,
           features: rawPlan.features,
           offerText: rawPlan.offerText,
+          priceRiseText: rawPlan.priceRiseText,
         };
 
         const planKey = `${plan.dataAllowance}-${plan.contractTerm}-${plan.planType}`;
@@ -387,11 +439,13 @@ export async function scrapeAndStoreThreePlans(scrapeId?: string): Promise<numbe
     // Transform to PlanData format
     const planData: PlanData[] = allPlans.map(transformThreePlan);
 
-    // Normalize plans before database insertion
-    const normalizedPlans = normalizePlans(planData, 'Three');
+    // Validate, normalize and validate again before database insertion
+    // (plans that fail a schema are reported and dropped, see ../plan-validation)
+    const validPlans = validateRawPlans(planData, 'Three');
+    const normalizedPlans = validateNormalizedPlans(normalizePlans(validPlans, 'Three'), 'Three');
 
     // Insert normalized data into database
-    const results = await insertPlans('Three', normalizedPlans, scrapeId);
+    const results = await storePlans('Three', normalizedPlans, scrapeId);
     logger.info({ source: 'Three', planCount: results.length, scrapeId }, 'Successfully inserted plans');
 
     logger.info({ planCount: results.length, scrapeId }, 'Three plan collection complete');
@@ -404,3 +458,14 @@ export async function scrapeAndStoreThreePlans(scrapeId?: string): Promise<numbe
   }
 }
 
+/**
+ * Three collector registration
+ */
+export const threeCollector: Collector = {
+  id: 'three',
+  name: 'Three',
+  kind: 'playwright',
+  source: 'Three',
+  criticalSelectors: THREE_CRITICAL_SELECTORS,
+  collect: scrapeAndStoreThreePlans,
+};
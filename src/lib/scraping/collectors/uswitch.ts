@@ -7,10 +7,13 @@
  * Story: 2.3 - Uswitch API Integration
  */
 
-import { insertPlans } from '../../db/plans';
+import { storePlans } from '../anomaly-guard';
 import { logger } from '../../utils/logger';
 import { normalizePlans } from '../normalize';
+import { validateNormalizedPlans, validateRawPlans } from '../plan-validation';
 import type { PlanData } from '../../../types/database';
+import type { Collector } from '../collector';
+import { throwIfRateLimited, withRetry, DEFAULT_RETRY_POLICY, type RetryPolicy } from '../retry';
 
 interface UswitchDeal {
   __typename: string;
@@ -60,6 +63,14 @@ interface UswitchDeal {
       changeAmount: number;
       startDate: string;
     }>;
+    schedule?: Array<{
+      startDate: string;
+      endDate: string;
+      monthlyCost: number;
+      changeAmount: number;
+      changeType: string;
+      inContract: boolean;
+    }>;
   };
   priceRise?: string;
   offers?: Array<{
@@ -364,6 +375,14 @@ const GRAPHQL_QUERY = `
   }
 `;
 
+/**
+ * Retry rate limiting (HTTP 429) per page of deals; other API errors fail fast
+ */
+const USWITCH_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  retryOn: ['rate_limited'],
+};
+
 /**
  * Fetch deals from Uswitch GraphQL API
  */
@@ -413,11 +432,15 @@ async function fetchUswitchDeals(
       'Fetching Uswitch deals from GraphQL API'
     );
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(body),
-    });
+    const response = await withRetry(async () => {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+      });
+      throwIfRateLimited(res.status, url, res.headers.get('retry-after'));
+      return res;
+    }, USWITCH_RETRY_POLICY, `Uswitch deals (offset ${offset})`);
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
@@ -517,6 +540,20 @@ function transformUswitchDeal(deal: UswitchDeal): PlanData {
     });
   }
 
+  // Start-of-term discount: discountMonth is the last discounted month of each tier
+  const discounts = [...(deal.costs.monthly.startOfTermDiscount ?? [])].sort(
+    (a, b) => a.discountMonth - b.discountMonth
+  );
+  const offerText = deal.offers?.map((offer) => offer.characteristics.title).join('; ');
+
+  // Mid-contract prices: the cost schedule has the monthly cost of each phase,
+  // priceRises only the change amounts
+  const priceRises = deal.costs.schedule?.length
+    ? deal.costs.schedule
+        .filter((phase) => phase.inContract)
+        .map((phase) => ({ effective_date: phase.startDate, new_price: phase.monthlyCost }))
+    : deal.costs.priceRises?.map((rise) => ({ effective_date: rise.startDate, increase: rise.changeAmount }));
+
   // Destructure to avoid duplicate fields in spread
   const { network, retailer, plan, costs, offers: _offers, ...otherFields } = deal;
 
@@ -525,7 +562,17 @@ function transformUswitchDeal(deal: UswitchDeal): PlanData {
     price: priceText,
     data_allowance: plan.data,
     contract_term: contractTerm,
+    // Uswitch lists the same plan for each network and retailer
+    plan_variant: `${network.key}-${retailer.key}`,
     extras,
+    promo_price: discounts.length > 0 ? `£${discounts[0].discountedPrice}` : null,
+    promo_months: discounts.length > 0 ? discounts[discounts.length - 1].discountMonth : null,
+    offer_text: offerText || null,
+    network: network.name,
+    mno: network.mobileNetworkOperator,
+    retailer: retailer.name,
+    channel: 'aggregator',
+    price_rises: priceRises ?? [],
     // Preserve all Uswitch-specific fields
     deal_id: deal.id,
     network_name: network.name,
@@ -542,7 +589,7 @@ function transformUswitchDeal(deal: UswitchDeal): PlanData {
     monthly_cost: costs.monthly.total,
     contract_length: costs.contractLength,
     is_exclusive: deal.isExclusive,
-    is_esim_compatible: deal.isESimCompatible,
+    esim_compatible: deal.isESimCompatible,
     price_rise: deal.priceRise,
     seasonal_type: deal.seasonalType,
     ...otherFields, // Preserve remaining API fields
@@ -573,20 +620,33 @@ export async function scrapeAndStoreUswitchPlans(scrapeId?: string): Promise<num
 
     logger.debug({ planCount: plans.length }, 'Transformed Uswitch deals');
 
-    // Normalize plans before database insertion
-    const normalizedPlans = normalizePlans(plans, 'Uswitch');
+    // Validate, normalize and validate again before database insertion
+    // (plans that fail a schema are reported and dropped, see ../plan-validation)
+    const validPlans = validateRawPlans(plans, 'Uswitch');
+    const normalizedPlans = validateNormalizedPlans(normalizePlans(validPlans, 'Uswitch'), 'Uswitch');
 
     // Insert normalized data into database
-    await insertPlans('Uswitch', normalizedPlans, scrapeId);
+    await storePlans('Uswitch', normalizedPlans, scrapeId);
 
     logger.info(
-      { planCount: plans.length, scrapeId },
+      { planCount: normalizedPlans.length, scrapeId },
       'Successfully scraped and stored Uswitch deals'
     );
 
-    return plans.length;
+    return normalizedPlans.length;
   } catch (error) {
     logger.error({ error }, 'Failed to scrape Uswitch deals');
     throw error;
   }
 }
+
+/**
+ * Uswitch collector registration
+ */
+export const uswitchCollector: Collector = {
+  id: 'uswitch',
+  name: 'Uswitch',
+  kind: 'api',
+  source: 'Uswitch',
+  collect: scrapeAndStoreUswitchPlans,
+};
@@ -7,10 +7,21 @@
  */
 
 import { logger } from '../../utils/logger';
-import { insertPlans } from '../../db/plans';
-import { normalizePlans } from '../normalize';
+import { storePlans } from '../anomaly-guard';
+import { findPromoText, normalizePlans } from '../normalize';
+import { validateNormalizedPlans, validateRawPlans } from '../plan-validation';
 import { launchBrowser } from '../browser';
 import type { PlanData } from '../../../types/database';
+import type { Collector } from '../collector';
+import { checkSelectors, type CriticalSelector } from '../diagnostics';
+import {
+  collectPages,
+  peekFailedPages,
+  throwIfRateLimited,
+  withRetry,
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+} from '../retry';
 import type { Page, Locator } from 'playwright';
 
 const VODAFONE_CONFIG = {
@@ -34,6 +45,21 @@ const VODAFONE_CONFIG = {
   contractLengths: ['1 Months', '12 Months', '24 Months'],
 };
 
+/**
+ * Selectors the extraction depends on (checked for each contract length)
+ */
+const VODAFONE_CRITICAL_SELECTORS: CriticalSelector[] = [
+  { name: 'plan list', selector: VODAFONE_CONFIG.cardSelectors.list },
+  { name: 'plan cards', selector: VODAFONE_CONFIG.cardSelectors.item },
+  { name: 'plan prices', selector: VODAFONE_CONFIG.priceSelectors.price },
+  { name: 'contract length picker', selector: '#contractLength' },
+];
+
+/**
+ * Page load and each contract length are retried separately
+ */
+const VODAFONE_RETRY_POLICY: RetryPolicy = DEFAULT_RETRY_POLICY;
+
 interface VodafoneRawPlan {
   name: string;
   description: string;
@@ -210,7 +236,11 @@ function transformVodafonePlan(rawPlan: VodafoneRawPlan): PlanData {
     price,
     data_allowance: dataAllowance,
     contract_term: contractTerm,
+    // "Unlimited Lite" and "Unlimited Max" share data and term
+    plan_type: rawPlan.name,
     extras: extras.filter((e) => e.length > 0 && !e.includes('£')),
+    ...findPromoText(rawPlan.details),
+    price_rise_text: rawPlan.details.find((d) => /\b(?:rise|increase|go up)/i.test(d)) ?? null,
   };
 }
 
@@ -222,60 +252,75 @@ function transformVodafonePlan(rawPlan: VodafoneRawPlan): PlanData {
 export async function scrapeAndStoreVodafonePlans(scrapeId?: string): Promise<number> {
   logger.info('Starting Vodafone plan collection');
 
-  const browser = await launchBrowser();
+  const browser = await launchBrowser({ fixture: 'vodafone' });
   const page = await browser.newPage();
 
   try {
-    // Navigate to Vodafone plans page
-    logger.debug({ url: VODAFONE_CONFIG.url }, 'Loading Vodafone page');
-    await page.goto(VODAFONE_CONFIG.url, { waitUntil: 'networkidle' });
-
-    // Handle cookie consent
-    logger.debug('Checking for cookie consent');
-    try {
-      await page
-        .getByRole('button', { name: VODAFONE_CONFIG.cookieButtonText })
-        .click();
-      await page.waitForTimeout(1000);
-      logger.debug('Accepted cookies');
-    } catch {
-      logger.debug('No cookie consent button found or already accepted');
-    }
-
-    // Wait for plans to load
-    await page.waitForSelector(VODAFONE_CONFIG.cardSelectors.list);
-
-    const allPlans: VodafoneRawPlan[] = [];
-
-    // Iterate through contract lengths
-    for (const contractLength of VODAFONE_CONFIG.contractLengths) {
-      logger.debug({ contractLength }, 'Loading data for contract length');
+    // Load the plans page (retried on timeouts / rate limiting)
+    await withRetry(async () => {
+      // Navigate to Vodafone plans page
+      logger.debug({ url: VODAFONE_CONFIG.url }, 'Loading Vodafone page');
+      const response = await page.goto(VODAFONE_CONFIG.url, { waitUntil: 'networkidle' });
+      throwIfRateLimited(response?.status() ?? 0, VODAFONE_CONFIG.url, response?.headers()['retry-after']);
+
+      // Handle cookie consent
+      logger.debug('Checking for cookie consent');
+      try {
+        await page
+          .getByRole('button', { name: VODAFONE_CONFIG.cookieButtonText })
+          .click();
+        await page.waitForTimeout(1000);
+        logger.debug('Accepted cookies');
+      } catch {
+        logger.debug('No cookie consent button found or already accepted');
+      }
 
-      // Select contract length
-      const contractLengthsSelectList = await page
-        .locator('#contractLength')
-        .all();
-      if (contractLengthsSelectList.length > 0) {
-        await contractLengthsSelectList[0].click();
-        const selectedOption = await page
-          .locator(`li[id='${contractLength}']`)
+      // Wait for plans to load (capture diagnostics before failing)
+      await page.waitForSelector(VODAFONE_CONFIG.cardSelectors.list).catch(async (error) => {
+        await checkSelectors(page, 'vodafone', VODAFONE_CRITICAL_SELECTORS);
+        throw error;
+      });
+    }, VODAFONE_RETRY_POLICY, 'Vodafone plans page');
+
+    // Iterate through contract lengths; a contract length that fails is
+    // retried on its own and reported as a failed page if it keeps failing
+    const allPlans = await collectPages(
+      'vodafone',
+      VODAFONE_CONFIG.contractLengths,
+      async (contractLength) => {
+        logger.debug({ contractLength }, 'Loading data for contract length');
+
+        // Select contract length
+        const contractLengthsSelectList = await page
+          .locator('#contractLength')
           .all();
-        if (selectedOption.length > 0) {
-          await selectedOption[0].click();
+        if (contractLengthsSelectList.length > 0) {
+          await contractLengthsSelectList[0].click();
+          const selectedOption = await page
+            .locator(`li[id='${contractLength}']`)
+            .all();
+          if (selectedOption.length > 0) {
+            await selectedOption[0].click();
+          }
         }
-      }
 
-      await page.waitForTimeout(2000);
+        await page.waitForTimeout(2000);
 
-      logger.debug('Plans loaded, extracting data');
-      const newPlans = await extractPlansInfo(page, contractLength);
+        logger.debug('Plans loaded, extracting data');
+        await checkSelectors(page, 'vodafone', VODAFONE_CRITICAL_SELECTORS);
+        const newPlans = await extractPlansInfo(page, contractLength);
+        if (newPlans.length === 0) {
+          throw new Error(`No plans found for ${contractLength} contracts`);
+        }
 
-      logger.info(
-        { planCount: newPlans.length, contractLength },
-        'Extracted plans for contract length'
-      );
-      allPlans.push(...newPlans);
-    }
+        logger.info(
+          { planCount: newPlans.length, contractLength },
+          'Extracted plans for contract length'
+        );
+        return newPlans;
+      },
+      VODAFONE_RETRY_POLICY
+    );
 
     if (allPlans.length === 0) {
       logger.warn('No plans found on Vodafone page');
@@ -288,22 +333,36 @@ export async function scrapeAndStoreVodafonePlans(scrapeId?: string): Promise<nu
 
     logger.debug({ planCount: plans.length }, 'Transformed Vodafone plans');
 
-    // Normalize plans before database insertion
-    const normalizedPlans = normalizePlans(plans, 'Vodafone');
+    // Validate, normalize and validate again before database insertion
+    // (plans that fail a schema are reported and dropped, see ../plan-validation)
+    const validPlans = validateRawPlans(plans, 'Vodafone');
+    const normalizedPlans = validateNormalizedPlans(normalizePlans(validPlans, 'Vodafone'), 'Vodafone');
 
-    // Insert normalized data into database
-    await insertPlans('Vodafone', normalizedPlans, scrapeId);
+    // Insert normalized data into database (pages that failed make it a partial batch)
+    await storePlans('Vodafone', normalizedPlans, scrapeId, peekFailedPages('vodafone'));
 
     logger.info(
-      { planCount: plans.length, scrapeId },
+      { planCount: normalizedPlans.length, scrapeId },
       'Successfully scraped and stored Vodafone plans'
     );
 
     await browser.close();
-    return plans.length;
+    return normalizedPlans.length;
   } catch (error) {
     logger.error({ error }, 'Failed to scrape Vodafone plans');
     await browser.close();
     throw error;
   }
 }
+
+/**
+ * Vodafone collector registration
+ */
+export const vodafoneCollector: Collector = {
+  id: 'vodafone',
+  name: 'Vodafone',
+  kind: 'playwright',
+  source: 'Vodafone',
+  criticalSelectors: VODAFONE_CRITICAL_SELECTORS,
+  collect: scrapeAndStoreVodafonePlans,
+};
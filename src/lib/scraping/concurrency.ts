@@ -0,0 +1,105 @@
+/**
+ * Concurrent Collector Execution
+ *
+ * Runs collectors at the same time with a separate limit per collector kind:
+ * API collectors are cheap HTTP calls, while each Playwright collector holds
+ * browser pages open (memory, and load on a remote browser service).
+ *
+ * Limits come from the environment:
+ * - SCRAPE_BROWSER_CONCURRENCY: Playwright collectors at a time (default 2)
+ * - SCRAPE_API_CONCURRENCY: API collectors at a time (default 0 = unlimited)
+ */
+
+import type { Collector, CollectorKind } from './collector';
+
+/**
+ * Max collectors running at once per kind (Infinity = unlimited)
+ */
+export type CollectorConcurrency = Record<CollectorKind, number>;
+
+export const DEFAULT_COLLECTOR_CONCURRENCY: CollectorConcurrency = {
+  playwright: 2,
+  api: Infinity,
+};
+
+/**
+ * Parse a concurrency limit from an environment variable
+ *
+ * @returns The limit, Infinity for 0, or the fallback when unset
+ * @throws Error if the value is not a non-negative integer
+ */
+function parseLimit(name: string, fallback: number): number {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error(`Invalid ${name} "${value}". Expected a non-negative integer (0 = unlimited)`);
+  }
+
+  return limit === 0 ? Infinity : limit;
+}
+
+/**
+ * Read per-kind concurrency limits from the environment
+ */
+export function getCollectorConcurrency(): CollectorConcurrency {
+  return {
+    playwright: parseLimit('SCRAPE_BROWSER_CONCURRENCY', DEFAULT_COLLECTOR_CONCURRENCY.playwright),
+    api: parseLimit('SCRAPE_API_CONCURRENCY', DEFAULT_COLLECTOR_CONCURRENCY.api),
+  };
+}
+
+/**
+ * Create a function that runs at most `limit` tasks at once
+ */
+function createLimiter(limit: number) {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= limit) {
+      // Slot is handed over by the task that finishes (active stays the same)
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+/**
+ * Run a task for each collector with per-kind concurrency limits
+ *
+ * Collectors start in the given order as slots free up. The task should not
+ * throw (use runCollector) - a rejection rejects the whole call.
+ *
+ * @param collectors - Collectors to run
+ * @param task - Work for one collector (e.g., runCollector + ledger write)
+ * @param concurrency - Limits per kind (defaults to getCollectorConcurrency())
+ * @returns Task results in the same order as `collectors`
+ */
+export async function mapCollectors<T>(
+  collectors: Collector[],
+  task: (collector: Collector) => Promise<T>,
+  concurrency: CollectorConcurrency = getCollectorConcurrency()
+): Promise<T[]> {
+  const limiters = {
+    playwright: createLimiter(concurrency.playwright),
+    api: createLimiter(concurrency.api),
+  };
+
+  return Promise.all(
+    collectors.map((collector) => limiters[collector.kind](() => task(collector)))
+  );
+}
@@ -0,0 +1,271 @@
+/**
+ * Plan Cost Model
+ *
+ * Models what a plan really costs over its contract:
+ * - upfront fee
+ * - monthly price schedule, including the promo period and mid-contract rises
+ *   (e.g., the annual April rise shown by O2, Vodafone and Three)
+ * - total contract cost (upfront + every monthly payment) and the effective
+ *   monthly price, so plans with different terms can be ranked together
+ *
+ * Rises are placed on the contract timeline assuming the contract starts on the
+ * scrape date (the reference date).
+ *
+ * Amounts are in the reporting currency, VAT included, like the plan's price:
+ * raw amounts (upfront cost, rises) are converted with the plan's price context.
+ */
+
+import {
+  detectCurrency,
+  detectVatIncluded,
+  formatMoney,
+  parseMoney,
+  toReportingAmount,
+  type PriceContext,
+} from './currency';
+import { getDefaultPriceContext } from './exchange-rates';
+import type { NormalizedPlan } from './normalize';
+
+/**
+ * A price change during the contract
+ * Either new_price (absolute) or increase (added to the current price) is set.
+ */
+export interface PriceRise {
+  /** Date the change applies from (ISO "2027-04-01") */
+  effective_date: string;
+  /** Monthly price from this date, in the plan's listed currency */
+  new_price?: number;
+  /** Amount added to the monthly price, in the plan's listed currency */
+  increase?: number;
+  /** Repeats every year on the same month (e.g., "£1.50 each April") */
+  annual?: boolean;
+}
+
+/**
+ * Contract months charged the same monthly price
+ */
+export interface PriceScheduleStep {
+  /** First contract month (1-based) */
+  from_month: number;
+  /** Last contract month (inclusive) */
+  to_month: number;
+  /** Normalized: "£12.00" */
+  monthly_price: string;
+}
+
+/**
+ * Normalized cost fields of a plan
+ */
+export interface CostModel {
+  upfront_fee: string;                    // Normalized: "£0.00"
+  price_schedule: PriceScheduleStep[];    // Empty when the price or term is unknown
+  total_contract_cost: string | null;     // Upfront + all monthly payments over the term
+  effective_monthly_price: string | null; // Total contract cost / contract months
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Parse an amount from a number or text ("£4.99", "€4.99", "4.99")
+ */
+function parseAmount(input: unknown): number | null {
+  if (typeof input === 'number') return Number.isFinite(input) && input >= 0 ? input : null;
+  if (typeof input !== 'string') return null;
+
+  const match = input.match(/[£€$]?\s*(\d+(?:\.\d+)?)/);
+  return match ? parseFloat(match[1]) : null;
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+function isoDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month, day)).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse price-rise text shown on a plan card
+ *
+ * Input formats:
+ * - "Total monthly cost increasing to: £26.50 from Apr 2026 bill" (O2)
+ * - "Increasing to £22.30 from 1 Apr 26 £24.60 from 1 Apr 27" (Three)
+ * - "Your monthly price will go up by £1.80 each April" (Vodafone)
+ *
+ * @param text - Price-rise text
+ * @param referenceDate - Scrape date (used for rises without a year)
+ * @returns Rises in text order (empty when none are found)
+ */
+export function parsePriceRiseText(
+  text: string | null | undefined,
+  referenceDate: Date = new Date()
+): PriceRise[] {
+  if (!text) return [];
+
+  const rises: PriceRise[] = [];
+  const str = text.replace(/\s+/g, ' ');
+
+  // "£22.30 from 1 Apr 26", "£26.50 from Apr 2026"
+  const dated = /[£€$]\s*(\d+(?:\.\d{1,2})?)\s*from\s+(?:(\d{1,2})(?:st|nd|rd|th)?\s+)?([a-z]{3,9})\.?\s+(\d{4}|\d{2})\b/gi;
+  for (const match of str.matchAll(dated)) {
+    const month = monthIndex(match[3]);
+    if (month < 0) continue;
+
+    const year = parseInt(match[4], 10);
+    rises.push({
+      effective_date: isoDate(year < 100 ? 2000 + year : year, month, match[2] ? parseInt(match[2], 10) : 1),
+      new_price: parseFloat(match[1]),
+    });
+  }
+
+  if (rises.length > 0) return rises;
+
+  // "£1.80 each April", "rise by £1.50 every April"
+  const annual = str.match(/[£€$]\s*(\d+(?:\.\d{1,2})?)[^£€$]{0,40}?\b(?:each|every)\s+([a-z]{3,9})\b/i);
+  if (annual && monthIndex(annual[2]) >= 0) {
+    const month = monthIndex(annual[2]);
+    const year = referenceDate.getUTCMonth() < month
+      ? referenceDate.getUTCFullYear()
+      : referenceDate.getUTCFullYear() + 1;
+
+    rises.push({
+      effective_date: isoDate(year, month, 1),
+      increase: parseFloat(annual[1]),
+      annual: true,
+    });
+  }
+
+  return rises;
+}
+
+/**
+ * Validate structured rises from a collector (e.g., the Uswitch cost schedule)
+ */
+function readPriceRises(input: unknown): PriceRise[] {
+  if (!Array.isArray(input)) return [];
+
+  return input.flatMap((rise) => {
+    const date = typeof rise?.effective_date === 'string'
+      ? rise.effective_date.match(/^\d{4}-\d{2}-\d{2}/)?.[0]
+      : undefined;
+    const newPrice = parseAmount(rise?.new_price);
+    const increase = parseAmount(rise?.increase);
+
+    if (!date || (newPrice === null && increase === null)) return [];
+    return [{
+      effective_date: date,
+      ...(newPrice !== null ? { new_price: newPrice } : { increase: increase ?? 0 }),
+      ...(rise.annual === true && { annual: true }),
+    }];
+  });
+}
+
+/**
+ * Contract month (1-based) a date falls in, for a contract starting on the reference date
+ */
+function contractMonth(date: string, referenceDate: Date): number {
+  const [year, month] = date.split('-').map((part) => parseInt(part, 10));
+  return (year - referenceDate.getUTCFullYear()) * 12 + (month - 1 - referenceDate.getUTCMonth()) + 1;
+}
+
+/**
+ * Build the cost model of a normalized plan
+ *
+ * Collectors may set upfront_cost (number or "£10"), price_rises (PriceRise[])
+ * and price_rise_text (card text, see parsePriceRiseText). Rises dated in the
+ * past are ignored - the advertised price already includes them.
+ *
+ * The regular monthly price is the advertised price, except when the card
+ * shows the promo price (promo_price = price) - then it is the was_price.
+ *
+ * @param rawData - Raw plan data from the collector
+ * @param plan - Normalized price, contract term and promo fields
+ * @param referenceDate - Contract start (scrape date)
+ * @param context - Currency and VAT basis of the plan's raw amounts, and the rate table
+ */
+export function buildCostModel(
+  rawData: any,
+  plan: Pick<NormalizedPlan, 'price' | 'contract_term' | 'was_price' | 'promo_price' | 'promo_months'>,
+  referenceDate: Date = new Date(),
+  context: PriceContext = getDefaultPriceContext()
+): CostModel {
+  const reportingCurrency = context.rates.reportingCurrency;
+  const formatAmount = (value: number) => formatMoney(value, reportingCurrency);
+
+  // Raw amounts are listed in the plan's currency unless their text shows another
+  const convert = (amount: number, text?: unknown) =>
+    toReportingAmount(amount, context, { currency: detectCurrency(text), vatIncluded: detectVatIncluded(text) });
+
+  // SIM-only plans are free upfront unless stated
+  const upfront = convert(parseAmount(rawData.upfront_cost) ?? 0, rawData.upfront_cost);
+  const upfrontFee = upfront !== null ? formatAmount(upfront) : 'Unknown';
+  const termMatch = plan.contract_term.match(/^(\d+) months?$/);
+  const term = termMatch ? parseInt(termMatch[1], 10) : null;
+
+  const price = parseMoney(plan.price);
+  const promoPrice = parseMoney(plan.promo_price);
+  const promoMonths = promoPrice !== null ? plan.promo_months ?? 0 : 0;
+  const regular = promoPrice !== null && plan.promo_price === plan.price && plan.was_price
+    ? parseMoney(plan.was_price)
+    : price;
+
+  if (term === null || regular === null || upfront === null) {
+    return {
+      upfront_fee: upfrontFee,
+      price_schedule: [],
+      total_contract_cost: null,
+      effective_monthly_price: null,
+    };
+  }
+
+  // Expand annual rises over the term, then place every rise on the timeline
+  const convertRise = (text?: unknown) => (rise: PriceRise): PriceRise => ({
+    ...rise,
+    ...(rise.new_price !== undefined && { new_price: convert(rise.new_price, text) ?? undefined }),
+    ...(rise.increase !== undefined && { increase: convert(rise.increase, text) ?? undefined }),
+  });
+
+  const rises = [
+    ...readPriceRises(rawData.price_rises).map(convertRise()),
+    ...parsePriceRiseText(rawData.price_rise_text, referenceDate).map(convertRise(rawData.price_rise_text)),
+  ]
+    .flatMap((rise) => {
+      const first = contractMonth(rise.effective_date, referenceDate);
+      if (!rise.annual) return [{ ...rise, month: first }];
+
+      const months: Array<PriceRise & { month: number }> = [];
+      for (let month = first; month <= term; month += 12) months.push({ ...rise, month });
+      return months;
+    })
+    .filter((rise) => rise.month > 1 && rise.month <= term)
+    .sort((a, b) => a.month - b.month);
+
+  const monthly: number[] = [];
+  let current = regular;
+  for (let month = 1; month <= term; month++) {
+    for (const rise of rises.filter((r) => r.month === month)) {
+      current = rise.new_price ?? current + (rise.increase ?? 0);
+    }
+    monthly.push(promoPrice !== null && month <= promoMonths ? promoPrice : current);
+  }
+
+  const schedule: PriceScheduleStep[] = [];
+  monthly.forEach((value, index) => {
+    const last = schedule[schedule.length - 1];
+    const formatted = formatAmount(value);
+    if (last && last.monthly_price === formatted) {
+      last.to_month = index + 1;
+    } else {
+      schedule.push({ from_month: index + 1, to_month: index + 1, monthly_price: formatted });
+    }
+  });
+
+  const total = upfront + monthly.reduce((sum, value) => sum + value, 0);
+
+  return {
+    upfront_fee: upfrontFee,
+    price_schedule: schedule,
+    total_contract_cost: formatAmount(total),
+    effective_monthly_price: formatAmount(total / term),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Currency and VAT
+ *
+ * Detects the currency and VAT basis of scraped prices and converts them to
+ * the reporting currency, VAT included, so plans from every source compare
+ * directly. The rate table is configured locally (see ./exchange-rates.ts).
+ *
+ * No Node APIs here: the dashboard imports this module (formatMoney,
+ * parseMoney) in client components.
+ */
+
+export const CURRENCY_CODES = ['GBP', 'EUR', 'USD'] as const;
+
+/**
+ * ISO 4217 code of a supported currency
+ */
+export type CurrencyCode = (typeof CURRENCY_CODES)[number];
+
+export const CURRENCY_SYMBOLS: Record<CurrencyCode, string> = {
+  GBP: '£',
+  EUR: '€',
+  USD: '$',
+};
+
+/**
+ * UK standard VAT rate (prices of UK sources include it)
+ */
+export const UK_VAT_RATE = 0.2;
+
+/**
+ * Exchange rates into the reporting currency
+ */
+export interface RateTable {
+  /** Currency normalized prices are reported in */
+  reportingCurrency: CurrencyCode;
+  /** Units of the reporting currency per unit of each currency (reporting currency = 1) */
+  rates: Partial<Record<CurrencyCode, number>>;
+}
+
+/**
+ * How to read and convert a source's prices
+ */
+export interface PriceContext {
+  /** Currency of amounts without a symbol or code */
+  currency: CurrencyCode;
+  /** Whether amounts include VAT unless the text says otherwise ("ex VAT") */
+  vatIncluded: boolean;
+  /** VAT rate added to amounts listed ex VAT (0.2 = 20%) */
+  vatRate: number;
+  rates: RateTable;
+}
+
+/**
+ * Normalized money value: symbol and amount with two decimals ("£10.00", "€9.99")
+ */
+export const MONEY_PATTERN = /^([£€$])(\d+(?:\.\d{1,2})?)$/;
+
+const SYMBOL_CURRENCIES = Object.fromEntries(
+  Object.entries(CURRENCY_SYMBOLS).map(([code, symbol]) => [symbol, code as CurrencyCode])
+);
+
+/**
+ * Check whether a value is a supported ISO 4217 code
+ */
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && (CURRENCY_CODES as readonly string[]).includes(value);
+}
+
+/**
+ * Detect the currency of a price from its symbol or code
+ * ("£10", "€12.50/month", "10 GBP", "EUR") - null when none is shown
+ */
+export function detectCurrency(input: unknown): CurrencyCode | null {
+  if (typeof input !== 'string') return null;
+
+  const symbol = input.match(/[£€$]/);
+  if (symbol) return SYMBOL_CURRENCIES[symbol[0]];
+
+  const code = input.match(/\b(GBP|EUR|USD)\b/i);
+  return code ? (code[1].toUpperCase() as CurrencyCode) : null;
+}
+
+/**
+ * Detect whether a price text states its VAT basis
+ * ("£10 ex VAT", "excl. VAT", "+ VAT" -> false; "inc VAT" -> true; otherwise null)
+ */
+export function detectVatIncluded(input: unknown): boolean | null {
+  if (typeof input !== 'string') return null;
+  if (/\b(?:ex|excl?|excluding|exclusive of|before)\.?\s*VAT\b|\+\s*VAT\b/i.test(input)) return false;
+  if (/\b(?:inc|incl|including|inclusive of)\.?\s*VAT\b/i.test(input)) return true;
+  return null;
+}
+
+/**
+ * Rate from a currency into the reporting currency (null when not configured)
+ */
+export function getExchangeRate(currency: CurrencyCode, rates: RateTable): number | null {
+  if (currency === rates.reportingCurrency) return 1;
+  return rates.rates[currency] ?? null;
+}
+
+/**
+ * Convert a listed amount to the reporting currency, VAT included
+ *
+ * @param amount - Amount as listed
+ * @param context - Source defaults and rate table
+ * @param listed - Currency and VAT basis read from the price text (override the defaults)
+ * @returns Converted amount rounded to 2 decimals, or null without an exchange rate
+ */
+export function toReportingAmount(
+  amount: number,
+  context: PriceContext,
+  listed: { currency?: CurrencyCode | null; vatIncluded?: boolean | null } = {}
+): number | null {
+  const rate = getExchangeRate(listed.currency ?? context.currency, context.rates);
+  if (rate === null) return null;
+
+  const vatIncluded = listed.vatIncluded ?? context.vatIncluded;
+  const withVat = vatIncluded ? amount : amount * (1 + context.vatRate);
+  return Math.round(withVat * rate * 100) / 100;
+}
+
+/**
+ * Format an amount as a normalized money value ("£10.00")
+ */
+export function formatMoney(amount: number, currency: CurrencyCode): string {
+  return `${CURRENCY_SYMBOLS[currency]}${amount.toFixed(2)}`;
+}
+
+/**
+ * Parse a normalized money value ("£10.00", "€9.99") to its amount
+ */
+export function parseMoney(value: unknown): number | null {
+  const match = typeof value === 'string' ? value.match(MONEY_PATTERN) : null;
+  return match ? parseFloat(match[2]) : null;
+}
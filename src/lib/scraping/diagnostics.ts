@@ -0,0 +1,158 @@
+/**
+ * Selector Health Diagnostics
+ *
+ * Playwright collectors declare the selectors their extraction depends on and
+ * call checkSelectors() where they read the page. Each check records how many
+ * nodes matched; when a selector matches nothing, the page HTML and a
+ * screenshot are captured so the broken part of the page can be identified.
+ *
+ * Checks are buffered per collector id and drained by runCollector(), which
+ * attaches them to the CollectorResult stored in the scrape run ledger.
+ */
+
+import type { Page } from 'playwright';
+import { logger } from '../utils/logger';
+
+/**
+ * A selector a collector cannot extract plans without
+ */
+export interface CriticalSelector {
+  /** Human-readable name (e.g., 'plan cards') */
+  name: string;
+  selector: string;
+}
+
+/**
+ * Result of checking one selector on one page
+ */
+export interface SelectorCheck {
+  name: string;
+  selector: string;
+  url: string;
+  matched: number;
+  checkedAt: string;
+  /** Index into the run's artifacts when the page was captured */
+  artifactIndex?: number;
+}
+
+/**
+ * Page capture taken when a critical selector matched zero nodes
+ */
+export interface SelectorArtifact {
+  url: string;
+  /** Names of the selectors that matched nothing on this page */
+  selectors: string[];
+  html: string;
+  /** Base64-encoded JPEG screenshot (null if the screenshot failed) */
+  screenshot: string | null;
+  capturedAt: string;
+}
+
+export interface SelectorDiagnostics {
+  checks: SelectorCheck[];
+  artifacts: SelectorArtifact[];
+}
+
+/** JPEG quality for failure screenshots (keeps full-page captures small) */
+const SCREENSHOT_QUALITY = 50;
+
+const pendingDiagnostics = new Map<string, SelectorDiagnostics>();
+
+/**
+ * Get (or create) the diagnostics buffer for a collector
+ */
+function getBuffer(collectorId: string): SelectorDiagnostics {
+  let buffer = pendingDiagnostics.get(collectorId);
+  if (!buffer) {
+    buffer = { checks: [], artifacts: [] };
+    pendingDiagnostics.set(collectorId, buffer);
+  }
+  return buffer;
+}
+
+/**
+ * Capture HTML and a screenshot of the current page
+ */
+async function capturePage(page: Page, selectors: string[]): Promise<SelectorArtifact> {
+  const html = await page.content().catch(() => '');
+  const screenshot = await page
+    .screenshot({ fullPage: true, type: 'jpeg', quality: SCREENSHOT_QUALITY })
+    .then((buffer) => buffer.toString('base64'))
+    .catch((error) => {
+      logger.warn({ error }, 'Failed to capture diagnostic screenshot');
+      return null;
+    });
+
+  return {
+    url: page.url(),
+    selectors,
+    html,
+    screenshot,
+    capturedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Count matches for each critical selector on the current page
+ *
+ * Captures one HTML + screenshot artifact per call when any selector matches
+ * zero nodes. Never throws - diagnostics must not break a scrape.
+ *
+ * @param page - Page to inspect
+ * @param collectorId - Registry id of the collector (e.g., 'o2')
+ * @param selectors - Critical selectors to check
+ * @returns Checks for this page (also buffered for the run)
+ */
+export async function checkSelectors(
+  page: Page,
+  collectorId: string,
+  selectors: CriticalSelector[]
+): Promise<SelectorCheck[]> {
+  const buffer = getBuffer(collectorId);
+  const url = page.url();
+  const checks: SelectorCheck[] = [];
+
+  for (const { name, selector } of selectors) {
+    const matched = await page
+      .locator(selector)
+      .count()
+      .catch((error) => {
+        logger.warn({ collectorId, name, selector, error }, 'Selector check failed');
+        return 0;
+      });
+
+    checks.push({ name, selector, url, matched, checkedAt: new Date().toISOString() });
+  }
+
+  const missing = checks.filter((check) => check.matched === 0);
+
+  if (missing.length > 0) {
+    logger.warn(
+      { collectorId, url, selectors: missing.map((check) => check.name) },
+      'Critical selectors matched zero nodes'
+    );
+
+    const artifactIndex = buffer.artifacts.length;
+    buffer.artifacts.push(await capturePage(page, missing.map((check) => check.name)));
+    for (const check of missing) {
+      check.artifactIndex = artifactIndex;
+    }
+  } else {
+    logger.debug({ collectorId, url, checks }, 'Critical selectors healthy');
+  }
+
+  buffer.checks.push(...checks);
+  return checks;
+}
+
+/**
+ * Drain buffered diagnostics for a collector
+ *
+ * @param collectorId - Registry id of the collector
+ * @returns Diagnostics recorded since the last call (empty if none)
+ */
+export function takeSelectorDiagnostics(collectorId: string): SelectorDiagnostics {
+  const buffer = pendingDiagnostics.get(collectorId) ?? { checks: [], artifacts: [] };
+  pendingDiagnostics.delete(collectorId);
+  return buffer;
+}
@@ -0,0 +1,84 @@
+/**
+ * Exchange Rate Table
+ *
+ * Loads the locally configured rate table used to convert prices to the
+ * reporting currency (see ./currency.ts). The table is a JSON file:
+ *
+ *   { "reportingCurrency": "GBP", "rates": { "EUR": 0.85, "USD": 0.79 } }
+ *
+ * read from EXCHANGE_RATES_FILE (default config/exchange-rates.json, see
+ * config/exchange-rates.example.json). Without a file, prices are reported
+ * in GBP and only GBP prices convert. Rates are read once per process;
+ * re-normalize stored plans after changing them (`npm run renormalize -- --all`).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { isCurrencyCode, UK_VAT_RATE, type PriceContext, type RateTable } from './currency';
+
+/**
+ * Default rate table file (relative to the working directory)
+ */
+export const DEFAULT_RATE_TABLE_FILE = path.join('config', 'exchange-rates.json');
+
+/**
+ * Table used when no file is configured
+ */
+export const DEFAULT_RATE_TABLE: RateTable = { reportingCurrency: 'GBP', rates: { GBP: 1 } };
+
+let rateTable: RateTable | null = null;
+
+/**
+ * Validate a parsed rate table file
+ *
+ * @throws Error if the reporting currency or a rate is invalid
+ */
+export function parseRateTable(input: unknown): RateTable {
+  const { reportingCurrency, rates = {} } = (input ?? {}) as { reportingCurrency?: unknown; rates?: unknown };
+
+  if (!isCurrencyCode(reportingCurrency)) {
+    throw new Error(`Invalid reportingCurrency "${reportingCurrency}" in exchange rate table`);
+  }
+  if (typeof rates !== 'object' || rates === null) {
+    throw new Error('Invalid rates in exchange rate table: expected an object of currency codes to numbers');
+  }
+
+  for (const [currency, rate] of Object.entries(rates)) {
+    if (!isCurrencyCode(currency) || typeof rate !== 'number' || !(rate > 0)) {
+      throw new Error(`Invalid exchange rate ${currency}: ${rate}`);
+    }
+  }
+
+  return { reportingCurrency, rates: { ...rates, [reportingCurrency]: 1 } };
+}
+
+/**
+ * Get the configured rate table
+ *
+ * @returns Table from EXCHANGE_RATES_FILE, or DEFAULT_RATE_TABLE when the file does not exist
+ * @throws Error if the file is not a valid rate table
+ */
+export function getRateTable(): RateTable {
+  if (rateTable) return rateTable;
+
+  const file = path.resolve(process.env.EXCHANGE_RATES_FILE || DEFAULT_RATE_TABLE_FILE);
+  rateTable = fs.existsSync(file)
+    ? parseRateTable(JSON.parse(fs.readFileSync(file, 'utf-8')))
+    : DEFAULT_RATE_TABLE;
+
+  return rateTable;
+}
+
+/**
+ * Forget the loaded table (next getRateTable() reads the file again)
+ */
+export function resetRateTable(): void {
+  rateTable = null;
+}
+
+/**
+ * Context for UK prices: GBP, VAT included, configured rate table
+ */
+export function getDefaultPriceContext(): PriceContext {
+  return { currency: 'GBP', vatIncluded: true, vatRate: UK_VAT_RATE, rates: getRateTable() };
+}
@@ -0,0 +1,149 @@
+/**
+ * Extras Taxonomy
+ *
+ * Classifies the free-text extras each collector scrapes ("Netflix Basic
+ * included", "Data Rollover", "O2 Priority") into canonical perks with a tier.
+ * The plan's extras_tier uses the same None/Basic/Premium levels as the
+ * "Extras" weight in the analysis scoring model.
+ *
+ * Rules are plain patterns so results are deterministic - add a rule here when
+ * a collector starts showing a new kind of perk.
+ */
+
+/**
+ * Kinds of perks
+ */
+export type PerkCategory =
+  | 'streaming'
+  | 'data_rollover'
+  | 'rewards'
+  | 'wifi_calling'
+  | 'data_gifting'
+  | 'hotspot'
+  | 'voucher'
+  | 'insurance';
+
+export type PerkTier = 'Basic' | 'Premium';
+
+/**
+ * Extras level of a plan (scored None=0, Basic=50, Premium=100)
+ */
+export type ExtrasTier = 'None' | PerkTier;
+
+/**
+ * A canonical perk found in a plan's extras
+ */
+export interface Perk {
+  /** Stable id (e.g., 'netflix', 'data_rollover') */
+  id: string;
+  label: string;
+  category: PerkCategory;
+  tier: PerkTier;
+}
+
+interface PerkRule extends Perk {
+  pattern: RegExp;
+}
+
+/**
+ * Display names of perk categories (dashboard filter)
+ */
+export const PERK_CATEGORY_LABELS: Record<PerkCategory, string> = {
+  streaming: 'Streaming',
+  data_rollover: 'Data rollover',
+  rewards: 'Rewards & priority',
+  wifi_calling: 'WiFi calling',
+  data_gifting: 'Data gifting',
+  hotspot: 'Hotspot / tethering',
+  voucher: 'Vouchers & cashback',
+  insurance: 'Insurance & security',
+};
+
+const PERK_RULES: PerkRule[] = [
+  // Streaming subscriptions
+  { id: 'netflix', label: 'Netflix', category: 'streaming', tier: 'Premium', pattern: /netflix/i },
+  { id: 'disney_plus', label: 'Disney+', category: 'streaming', tier: 'Premium', pattern: /disney\s*\+|disney plus/i },
+  { id: 'amazon_prime', label: 'Amazon Prime', category: 'streaming', tier: 'Premium', pattern: /amazon prime|prime video/i },
+  { id: 'apple_tv', label: 'Apple TV+', category: 'streaming', tier: 'Premium', pattern: /apple\s*tv/i },
+  { id: 'apple_music', label: 'Apple Music', category: 'streaming', tier: 'Premium', pattern: /apple music/i },
+  { id: 'spotify', label: 'Spotify', category: 'streaming', tier: 'Premium', pattern: /spotify/i },
+  { id: 'youtube_premium', label: 'YouTube Premium', category: 'streaming', tier: 'Premium', pattern: /youtube (?:premium|music)/i },
+  { id: 'now', label: 'NOW', category: 'streaming', tier: 'Premium', pattern: /\bNOW (?:membership|entertainment|cinema)|\bNOW TV\b/ },
+  { id: 'tnt_sports', label: 'TNT Sports', category: 'streaming', tier: 'Premium', pattern: /tnt sports|discovery\s*\+/i },
+  { id: 'paramount_plus', label: 'Paramount+', category: 'streaming', tier: 'Premium', pattern: /paramount\s*\+|paramount plus/i },
+
+  // Data perks
+  { id: 'data_rollover', label: 'Data rollover', category: 'data_rollover', tier: 'Basic', pattern: /roll\s*over|unused data|piggybank/i },
+  { id: 'data_gifting', label: 'Data gifting', category: 'data_gifting', tier: 'Basic', pattern: /gift(?:ing)?\s+(?:your\s+)?(?:unused\s+)?data|data gifting|share (?:your )?data|data sharing/i },
+  { id: 'hotspot', label: 'Hotspot / tethering', category: 'hotspot', tier: 'Basic', pattern: /tethering|hotspot/i },
+
+  // Calling
+  { id: 'wifi_calling', label: 'WiFi calling', category: 'wifi_calling', tier: 'Basic', pattern: /wi-?fi call/i },
+
+  // Loyalty schemes
+  { id: 'o2_priority', label: 'O2 Priority', category: 'rewards', tier: 'Basic', pattern: /o2 priority|\bpriority tickets/i },
+  { id: 'three_plus', label: 'Three+', category: 'rewards', tier: 'Basic', pattern: /three\s*\+|three plus/i },
+  { id: 'vodafone_veryme', label: 'VeryMe Rewards', category: 'rewards', tier: 'Basic', pattern: /very\s*me/i },
+  { id: 'clubcard', label: 'Clubcard Prices', category: 'rewards', tier: 'Basic', pattern: /clubcard/i },
+  { id: 'rewards', label: 'Rewards', category: 'rewards', tier: 'Basic', pattern: /\brewards?\b|\bperks\b/i },
+
+  // One-off incentives
+  { id: 'voucher', label: 'Voucher / cashback', category: 'voucher', tier: 'Basic', pattern: /voucher|cashback|cash back|gift card|reward card/i },
+
+  // Protection
+  { id: 'insurance', label: 'Insurance & security', category: 'insurance', tier: 'Basic', pattern: /insurance|secure net|security|scam/i },
+];
+
+/**
+ * Classify raw extras and offer text into canonical perks
+ *
+ * A text can match several rules ("Netflix & Spotify"). Generic rules skip a
+ * category that a more specific rule already matched (e.g., "Three+ Rewards"
+ * is Three+, not a second rewards perk).
+ *
+ * @param texts - Raw extras, features and offer text
+ * @returns Perks in taxonomy order, without duplicates
+ */
+export function classifyExtras(texts: Array<string | null | undefined>): Perk[] {
+  const perks = new Map<string, Perk>();
+
+  for (const text of texts) {
+    if (!text) continue;
+
+    const matched = new Set<PerkCategory>();
+    for (const { pattern, ...perk } of PERK_RULES) {
+      const generic = perk.id === perk.category;
+      if (generic && matched.has(perk.category)) continue;
+      if (!pattern.test(text)) continue;
+
+      matched.add(perk.category);
+      perks.set(perk.id, perk);
+    }
+  }
+
+  return PERK_RULES.filter((rule) => perks.has(rule.id)).map(({ pattern: _pattern, ...perk }) => perk);
+}
+
+/**
+ * Extras tier of a plan: Premium with any premium perk, Basic with any perk
+ */
+export function getExtrasTier(perks: Perk[]): ExtrasTier {
+  if (perks.some((perk) => perk.tier === 'Premium')) return 'Premium';
+  return perks.length > 0 ? 'Basic' : 'None';
+}
+
+/**
+ * Classify a raw plan's extras, features and offer text
+ *
+ * @param rawData - Raw plan data from the collector
+ */
+export function normalizeExtras(rawData: any): { perks: Perk[]; extras_tier: ExtrasTier } {
+  const texts = [
+    ...(Array.isArray(rawData.extras) ? rawData.extras : []),
+    rawData.features,
+    rawData.offer_text,
+  ].filter((text): text is string => typeof text === 'string');
+
+  const perks = classifyExtras(texts);
+  return { perks, extras_tier: getExtrasTier(perks) };
+}
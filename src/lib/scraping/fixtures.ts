@@ -0,0 +1,201 @@
+/**
+ * Scrape Fixture Record/Replay
+ *
+ * Wraps a Playwright Browser so collectors can run against saved copies of
+ * operator websites instead of the live sites.
+ * - record: saves every network response (HAR) and the final HTML of each page
+ * - replay: serves responses from the saved HAR through Playwright routing,
+ *   aborting any request that was not recorded (no network access)
+ *
+ * Enabled with SCRAPE_FIXTURE_MODE=record|replay. Fixtures live in
+ * SCRAPE_FIXTURES_DIR (default: fixtures/scraping), one directory per collector.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
+import { logger } from '../utils/logger';
+
+/**
+ * Fixture mode
+ * - live: normal scraping against the real websites
+ * - record: scrape live and save responses to the fixtures directory
+ * - replay: serve responses from the fixtures directory only
+ */
+export type FixtureMode = 'live' | 'record' | 'replay';
+
+/**
+ * Default fixtures directory (relative to the working directory)
+ */
+export const DEFAULT_FIXTURES_DIR = path.join('fixtures', 'scraping');
+
+/**
+ * Read fixture mode from SCRAPE_FIXTURE_MODE
+ *
+ * @returns Fixture mode ('live' when unset)
+ * @throws Error if the value is not a known mode
+ */
+export function getFixtureMode(): FixtureMode {
+  const mode = (process.env.SCRAPE_FIXTURE_MODE || 'live').trim().toLowerCase();
+
+  if (mode !== 'live' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(
+      `Invalid SCRAPE_FIXTURE_MODE "${mode}". Expected one of: live, record, replay`
+    );
+  }
+
+  return mode;
+}
+
+/**
+ * Resolve the fixture directory for a collector
+ *
+ * @param name - Fixture set name (collector id, e.g., 'o2')
+ * @returns Absolute path to the fixture directory
+ */
+export function getFixtureDir(name: string): string {
+  const baseDir = process.env.SCRAPE_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+  return path.resolve(baseDir, name);
+}
+
+/**
+ * HAR file for the nth browser context created by a collector
+ *
+ * Contexts are numbered in creation order so replay matches what was recorded.
+ */
+export function getHarPath(name: string, contextIndex: number): string {
+  return path.join(getFixtureDir(name), `network-${contextIndex}.har.zip`);
+}
+
+/**
+ * Check whether a fixture set has been recorded
+ *
+ * @param name - Fixture set name (collector id)
+ */
+export function hasFixture(name: string): boolean {
+  return fs.existsSync(getHarPath(name, 0));
+}
+
+/**
+ * Turn a URL into a safe file name for HTML snapshots
+ */
+export function urlToFileName(url: string): string {
+  const slug = url
+    .replace(/^https?:\/\//, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100);
+
+  return slug || 'blank';
+}
+
+/**
+ * Wrap a browser for fixture recording or replay
+ *
+ * Patches newContext/newPage/close on the given instance so collectors keep
+ * using the normal Playwright API. Returns the browser unchanged in live mode.
+ *
+ * @param browser - Browser from launchBrowser()
+ * @param name - Fixture set name (collector id)
+ * @param mode - Fixture mode
+ * @returns The same browser instance
+ * @throws Error in replay mode when no fixture has been recorded
+ */
+export function withFixtures(browser: Browser, name: string, mode: FixtureMode): Browser {
+  if (mode === 'live') {
+    return browser;
+  }
+
+  const fixtureDir = getFixtureDir(name);
+
+  if (mode === 'replay' && !hasFixture(name)) {
+    throw new Error(`No recorded fixture for "${name}" in ${fixtureDir}`);
+  }
+
+  if (mode === 'record') {
+    fs.mkdirSync(path.join(fixtureDir, 'pages'), { recursive: true });
+  }
+
+  const originalNewContext = browser.newContext.bind(browser);
+  const originalClose = browser.close.bind(browser);
+  const contexts: BrowserContext[] = [];
+  let pageCount = 0;
+
+  /**
+   * Save the current HTML of a page before it goes away
+   */
+  const snapshotPage = async (page: Page): Promise<void> => {
+    if (page.isClosed()) return;
+
+    try {
+      const fileName = `${String(pageCount++).padStart(2, '0')}-${urlToFileName(page.url())}.html`;
+      fs.writeFileSync(path.join(fixtureDir, 'pages', fileName), await page.content());
+      logger.debug({ fixture: name, fileName }, 'Saved page snapshot');
+    } catch (error) {
+      logger.warn({ fixture: name, error }, 'Failed to save page snapshot');
+    }
+  };
+
+  browser.newContext = async (options: BrowserContextOptions = {}) => {
+    const harPath = getHarPath(name, contexts.length);
+    let context: BrowserContext;
+
+    if (mode === 'record') {
+      context = await originalNewContext({
+        ...options,
+        recordHar: { path: harPath, mode: 'full' },
+      });
+
+      // Snapshot HTML when the collector closes the page or context
+      const originalNewPage = context.newPage.bind(context);
+      context.newPage = async () => {
+        const page = await originalNewPage();
+        const originalPageClose = page.close.bind(page);
+        page.close = async (closeOptions) => {
+          await snapshotPage(page);
+          return originalPageClose(closeOptions);
+        };
+        return page;
+      };
+
+      const originalContextClose = context.close.bind(context);
+      context.close = async (closeOptions) => {
+        for (const page of context.pages()) {
+          await snapshotPage(page);
+        }
+        return originalContextClose(closeOptions);
+      };
+    } else {
+      if (!fs.existsSync(harPath)) {
+        throw new Error(`Fixture "${name}" has no recording for browser context ${contexts.length}`);
+      }
+
+      context = await originalNewContext(options);
+      await context.routeFromHAR(harPath, { notFound: 'abort' });
+    }
+
+    contexts.push(context);
+    logger.info({ fixture: name, mode, harPath }, 'Browser context using scrape fixtures');
+    return context;
+  };
+
+  // browser.newPage() creates a context per page - route it through newContext
+  browser.newPage = async (options?: BrowserContextOptions) => {
+    const context = await browser.newContext(options);
+    const page = await context.newPage();
+    page.once('close', () => {
+      context.close().catch(() => {});
+    });
+    return page;
+  };
+
+  // Close contexts explicitly so HAR files are flushed to disk
+  browser.close = async (closeOptions) => {
+    for (const context of contexts) {
+      await context.close().catch(() => {});
+    }
+    return originalClose(closeOptions);
+  };
+
+  return browser;
+}
@@ -0,0 +1,128 @@
+/**
+ * Per-Source Normalization Profiles
+ *
+ * Declares, per source, which raw fields hold the data allowance, price and
+ * contract term, and the unit of bare numbers in them ("1300" is pence on
+ * Three, "50000" is MB on Uswitch). normalizePlanData() reads the profile
+ * instead of guessing from the value, so a 3+ digit price from another source
+ * is not mistaken for pence.
+ *
+ * Profiles also set the currency and VAT basis of prices that do not state
+ * them (a "€" or "ex VAT" in the price text overrides the profile), and
+ * whether plan keys carry the plan fingerprint.
+ *
+ * Add or adjust a profile here when a collector changes its raw output.
+ */
+
+import { UK_VAT_RATE, type CurrencyCode } from './currency';
+
+/**
+ * Unit of a bare numeric price ("1300", "20")
+ */
+export type PriceUnit = 'pounds' | 'pence';
+
+/**
+ * Unit of a bare numeric data allowance ("50000", "20")
+ */
+export type DataUnit = 'MB' | 'GB';
+
+/**
+ * How to read one source's raw plan data
+ */
+export interface NormalizationProfile {
+  /** Raw fields holding each value, in order of preference */
+  fields: {
+    data_allowance: string[];
+    price: string[];
+    contract_term: string[];
+  };
+  priceUnit: PriceUnit;
+  dataUnit: DataUnit;
+  /** Currency of prices without a symbol or code */
+  currency: CurrencyCode;
+  /** Whether listed prices include VAT */
+  pricesIncludeVat: boolean;
+  /** VAT rate of the source's market (added to prices listed ex VAT) */
+  vatRate: number;
+  /**
+   * Append the plan fingerprint to every plan_key: for sources whose
+   * collector sets no plan_type/plan_variant, so plans at the same data and
+   * term are told apart by name and allowances
+   */
+  planKeyFingerprint?: boolean;
+}
+
+/**
+ * Currency and VAT basis of UK consumer sites
+ */
+const UK_PRICING = { currency: 'GBP', pricesIncludeVat: true, vatRate: UK_VAT_RATE } as const;
+
+/**
+ * Profile for sources without their own (accepts every known field name)
+ */
+export const DEFAULT_NORMALIZATION_PROFILE: NormalizationProfile = {
+  fields: {
+    data_allowance: ['data_allowance', 'dataAllowance', 'data', 'allowance'],
+    price: ['price', 'monthlyPrice', 'monthly_cost', 'cost'],
+    contract_term: ['contract_term', 'contractTerm', 'contract', 'contract_length'],
+  },
+  priceUnit: 'pounds',
+  dataUnit: 'MB',
+  ...UK_PRICING,
+};
+
+/**
+ * Fields set by the collectors in ./collectors
+ */
+const COLLECTOR_FIELDS: NormalizationProfile['fields'] = {
+  data_allowance: ['data_allowance'],
+  price: ['price'],
+  contract_term: ['contract_term'],
+};
+
+/**
+ * Profiles by source (plans.source, lowercased)
+ */
+const NORMALIZATION_PROFILES: Record<string, NormalizationProfile> = {
+  o2: { fields: COLLECTOR_FIELDS, priceUnit: 'pounds', dataUnit: 'GB', ...UK_PRICING },
+  vodafone: { fields: COLLECTOR_FIELDS, priceUnit: 'pounds', dataUnit: 'GB', ...UK_PRICING },
+  tesco: { fields: COLLECTOR_FIELDS, priceUnit: 'pounds', dataUnit: 'GB', ...UK_PRICING, planKeyFingerprint: true },
+  sky: { fields: COLLECTOR_FIELDS, priceUnit: 'pounds', dataUnit: 'GB', ...UK_PRICING, planKeyFingerprint: true },
+  giffgaff: { fields: COLLECTOR_FIELDS, priceUnit: 'pounds', dataUnit: 'GB', ...UK_PRICING, planKeyFingerprint: true },
+  smarty: { fields: COLLECTOR_FIELDS, priceUnit: 'pounds', dataUnit: 'GB', ...UK_PRICING },
+  // Whole-number prices are pence ("1300"); prices with a £ or decimals are pounds
+  three: { fields: COLLECTOR_FIELDS, priceUnit: 'pence', dataUnit: 'GB', ...UK_PRICING },
+  // GraphQL API: data in MB, contract length as a number of months (0 = PAYG)
+  uswitch: {
+    fields: {
+      data_allowance: ['data_allowance'],
+      price: ['price', 'monthly_cost'],
+      contract_term: ['contract_term', 'contract_length'],
+    },
+    priceUnit: 'pounds',
+    dataUnit: 'MB',
+    ...UK_PRICING,
+  },
+};
+
+/**
+ * Get the normalization profile of a source
+ *
+ * @param source - Source name (e.g., 'O2', 'Uswitch'), case-insensitive
+ */
+export function getNormalizationProfile(source: string): NormalizationProfile {
+  return NORMALIZATION_PROFILES[source.toLowerCase()] ?? DEFAULT_NORMALIZATION_PROFILE;
+}
+
+/**
+ * Read the first set field from raw plan data
+ *
+ * @returns Field value, or undefined when none of the fields is set
+ */
+export function readProfileField(rawData: any, fields: string[]): unknown {
+  for (const field of fields) {
+    const value = rawData[field];
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+}
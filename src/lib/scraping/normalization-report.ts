@@ -0,0 +1,94 @@
+/**
+ * Normalization Report
+ *
+ * Lists the raw values normalizePlans() could not parse into the standard
+ * formats ("Unlimited"/"10GB"/"500MB", "£10.00"/"€9.99", "12 months"/"PAYG"), with
+ * how often each occurred. Unparsed values are stored as-is, so a source
+ * changing its format would otherwise only show up as skewed analyses.
+ *
+ * Reports are buffered per source and drained by runCollector(), which
+ * attaches them to the CollectorResult stored in the scrape run ledger.
+ */
+
+/**
+ * Plan fields checked by the report
+ */
+export type NormalizedField = 'data_allowance' | 'price' | 'contract_term';
+
+/**
+ * A raw value that did not normalize, with its number of plans
+ */
+export interface UnparsedValue {
+  field: NormalizedField;
+  /** Raw value as scraped (null when the field was missing) */
+  value: string | null;
+  count: number;
+}
+
+export interface NormalizationReport {
+  plansNormalized: number;
+  unparsed: UnparsedValue[];
+}
+
+/**
+ * Standard formats produced by the normalizers
+ */
+const PARSED_FORMATS: Record<NormalizedField, RegExp> = {
+  data_allowance: /^(?:Unlimited|\d+(?:\.\d)?GB|\d+MB)$/,
+  price: /^[£€$]\d+\.\d{2}$/,
+  contract_term: /^(?:\d+ months?|PAYG)$/,
+};
+
+const pendingReports = new Map<string, NormalizationReport>();
+
+/**
+ * Check whether a normalized value is in its standard format
+ */
+export function isParsedValue(field: NormalizedField, normalized: unknown): boolean {
+  return typeof normalized === 'string' && PARSED_FORMATS[field].test(normalized);
+}
+
+/**
+ * Combine reports (e.g., several normalizePlans() calls in one collector run)
+ * Counts of the same field and value are added together.
+ */
+export function mergeNormalizationReports(
+  a: NormalizationReport,
+  b: NormalizationReport
+): NormalizationReport {
+  const unparsed = new Map<string, UnparsedValue>();
+
+  for (const entry of [...a.unparsed, ...b.unparsed]) {
+    const key = `${entry.field}\u0000${entry.value}`;
+    const existing = unparsed.get(key);
+    unparsed.set(key, existing ? { ...existing, count: existing.count + entry.count } : { ...entry });
+  }
+
+  return {
+    plansNormalized: a.plansNormalized + b.plansNormalized,
+    unparsed: [...unparsed.values()].sort((x, y) => y.count - x.count),
+  };
+}
+
+/**
+ * Add a report to the source's buffer
+ *
+ * @param source - Source name (plans.source)
+ * @param report - Report of one normalizePlans() call
+ */
+export function recordNormalizationReport(source: string, report: NormalizationReport): void {
+  const existing = pendingReports.get(source);
+  pendingReports.set(source, existing ? mergeNormalizationReports(existing, report) : report);
+}
+
+/**
+ * Drain the buffered report of a source
+ *
+ * @param source - Source name (plans.source)
+ * @returns Report, or null when no plans were normalized
+ */
+export function takeNormalizationReport(source: string): NormalizationReport | null {
+  const report = pendingReports.get(source) ?? null;
+  pendingReports.delete(source);
+  return report;
+}
@@ -7,20 +7,54 @@
  * Story: 2.5 - Data Normalization Before Storage
  */
 
+import { createHash } from 'crypto';
 import { logger } from '../utils/logger';
+import { buildCostModel } from './cost-model';
+import {
+  detectCurrency,
+  detectVatIncluded,
+  formatMoney,
+  isCurrencyCode,
+  toReportingAmount,
+  type PriceContext,
+} from './currency';
+import { getDefaultPriceContext, getRateTable } from './exchange-rates';
+import { normalizePlanAttributes } from './plan-attributes';
+import { normalizeExtras } from './extras';
+import {
+  getNormalizationProfile,
+  readProfileField,
+  type DataUnit,
+  type NormalizationProfile,
+  type PriceUnit,
+} from './normalization-profiles';
+import {
+  isParsedValue,
+  recordNormalizationReport,
+  type NormalizedField,
+  type NormalizationReport,
+  type UnparsedValue,
+} from './normalization-report';
+import type { NormalizedPlan } from './plan-schema';
 
 /**
- * Normalized plan data structure
+ * Version of the normalization rules
+ *
+ * Bump whenever a change here (or in the modules normalizePlanData calls)
+ * alters the output for existing raw data, then run `npm run renormalize` to
+ * re-normalize stored plans (see ./renormalize.ts).
  */
-export interface NormalizedPlan {
-  name: string;
-  data_allowance: string;  // Normalized: "Unlimited", "10GB", "500MB"
-  price: string;            // Normalized: "£10.00"
-  contract_term: string;    // Normalized: "12 months", "1 month", "PAYG"
-  plan_key: string;         // Generated: "{source}-{data}-{contract}"
-  extras?: string[];
-  [key: string]: any;       // Preserve original fields
-}
+export const NORMALIZER_VERSION = 2;
+
+/**
+ * Where a plan is sold: on the network's own site or through a comparison site
+ */
+export type PlanChannel = 'direct' | 'aggregator';
+
+/**
+ * Normalized plan data structure (inferred from NormalizedPlanSchema, see ./plan-schema.ts)
+ */
+export type { NormalizedPlan };
 
 /**
  * Normalize data allowance to standard format
@@ -32,8 +66,11 @@ export interface NormalizedPlan {
  * - "0.5GB" (Smarty)
  *
  * Output format: "Unlimited", "10GB", "500MB"
+ *
+ * @param input - Raw data allowance
+ * @param dataUnit - Unit of bare numbers (from the source's normalization profile)
  */
-export function normalizeDataAllowance(input: any): string {
+export function normalizeDataAllowance(input: any, dataUnit: DataUnit = 'MB'): string {
   if (!input) {
     logger.warn({ input }, 'Missing data allowance field');
     return 'Unknown';
@@ -48,6 +85,10 @@ export function normalizeDataAllowance(input: any): string {
 
   // Handle numeric values (Uswitch format - MB)
   if (/^\d+$/.test(str)) {
+    if (dataUnit === 'GB') {
+      return `${parseInt(str, 10)}GB`;
+    }
+
     const mb = parseInt(str, 10);
     if (mb >= 1000) {
       const gb = mb / 1000;
@@ -94,7 +135,41 @@ export function normalizeDataAllowance(input: any): string {
 }
 
 /**
- * Normalize price to standard format
+ * Normalized price of a plan
+ */
+export type PlanPricing = Pick<
+  NormalizedPlan,
+  'price' | 'price_ex_vat' | 'listed_price' | 'listed_currency' | 'vat_included'
+>;
+
+/**
+ * Read the amount of a raw price in its listed currency
+ *
+ * @returns Amount, or null when the format is not recognised
+ */
+function parseListedAmount(str: string, priceUnit: PriceUnit): number | null {
+  // Handle "1300", "1800" (pence as integer - Three format)
+  if (priceUnit === 'pence' && /^\d+$/.test(str)) {
+    return parseInt(str, 10) / 100;
+  }
+
+  // Handle "£20.00/month", "£10", "€9.99 ex VAT", "$12"
+  const symbolMatch = str.match(/[£€$]\s*(\d+(?:\.\d+)?)/);
+  if (symbolMatch) return parseFloat(symbolMatch[1]);
+
+  // Handle "10.00", "8.00" (number without symbol)
+  const numMatch = str.match(/^(\d+(?:\.\d+)?)$/);
+  if (numMatch) return parseFloat(numMatch[1]);
+
+  // Handle "10 GBP per month", "12 EUR"
+  const codeMatch = str.match(/(\d+(?:\.\d+)?)\s*(?:GBP|EUR|USD)\b/i);
+  if (codeMatch) return parseFloat(codeMatch[1]);
+
+  return null;
+}
+
+/**
+ * Normalize a price and convert it to the reporting currency
  *
  * Input formats discovered:
  * - "£20.00/month" (O2, Smarty, Uswitch)
@@ -103,59 +178,83 @@ export function normalizeDataAllowance(input: any): string {
  * - "1300", "1800" (Three - pence as integer)
  * - "£8.00" (Giffgaff)
  * - "£0/month" (Smarty - free plans)
+ * - "€12.50", "10 EUR", "£10 ex VAT" (currency and VAT basis from the text)
+ *
+ * Output: price in the reporting currency with VAT ("£10.00"), the same
+ * ex VAT, and the price as listed ("€12.50") with its currency and VAT basis.
+ * Prices in a currency without a configured exchange rate give "Unknown".
  *
- * Output format: "£10.00"
+ * @param input - Raw price
+ * @param priceUnit - Unit of whole-number prices (from the source's normalization profile)
+ * @param context - Currency and VAT basis of prices that do not state them, and the rate table
  */
-export function normalizePrice(input: any): string {
+export function normalizePricing(
+  input: any,
+  priceUnit: PriceUnit = 'pounds',
+  context: PriceContext = getDefaultPriceContext()
+): PlanPricing {
+  const unknown: PlanPricing = {
+    price: 'Unknown',
+    price_ex_vat: null,
+    listed_price: null,
+    listed_currency: null,
+    vat_included: null,
+  };
+
   if (!input) {
     logger.warn({ input }, 'Missing price field');
-    return 'Unknown';
+    return unknown;
   }
 
   const str = String(input).trim();
 
   // Handle "Unknown" explicitly
   if (str === 'Unknown' || str === '') {
-    return 'Unknown';
+    return unknown;
   }
 
-  // Handle "1300", "1800" (pence as integer - Three format)
-  if (/^\d{3,}$/.test(str)) {
-    const pence = parseInt(str, 10);
-    const pounds = (pence / 100).toFixed(2);
-    return `£${pounds}`;
+  const amount = parseListedAmount(str, priceUnit);
+  if (amount === null) {
+    logger.warn({ input: str }, 'Unexpected price format');
+    return { ...unknown, price: str }; // Return as-is if format unknown
   }
 
-  // Handle "£20.00/month", "£10/month", "£0/month"
-  const monthMatch = str.match(/£(\d+(?:\.\d+)?)\s*\/\s*month/i);
-  if (monthMatch) {
-    const value = parseFloat(monthMatch[1]);
-    return `£${value.toFixed(2)}`;
-  }
+  const currency = detectCurrency(str) ?? context.currency;
+  const vatIncluded = detectVatIncluded(str) ?? context.vatIncluded;
+  const listed = { listed_price: formatMoney(amount, currency), listed_currency: currency, vat_included: vatIncluded };
 
-  // Handle "£10", "£8.00"
-  const poundMatch = str.match(/£(\d+(?:\.\d+)?)/);
-  if (poundMatch) {
-    const value = parseFloat(poundMatch[1]);
-    return `£${value.toFixed(2)}`;
-  }
-
-  // Handle "10.00", "8.00" (number without symbol)
-  const numMatch = str.match(/^(\d+(?:\.\d+)?)$/);
-  if (numMatch) {
-    const value = parseFloat(numMatch[1]);
-    return `£${value.toFixed(2)}`;
+  const reporting = toReportingAmount(amount, context, { currency, vatIncluded });
+  if (reporting === null) {
+    logger.warn(
+      { input: str, currency, reportingCurrency: context.rates.reportingCurrency },
+      'No exchange rate for price currency'
+    );
+    return { ...unknown, ...listed };
   }
 
-  // Handle "10 GBP per month", "£10 a month"
-  const gbpMatch = str.match(/(\d+(?:\.\d+)?)\s*GBP/i);
-  if (gbpMatch) {
-    const value = parseFloat(gbpMatch[1]);
-    return `£${value.toFixed(2)}`;
-  }
+  const reportingCurrency = context.rates.reportingCurrency;
+  return {
+    price: formatMoney(reporting, reportingCurrency),
+    price_ex_vat: formatMoney(Math.round((reporting / (1 + context.vatRate)) * 100) / 100, reportingCurrency),
+    ...listed,
+  };
+}
 
-  logger.warn({ input: str }, 'Unexpected price format');
-  return str; // Return as-is if format unknown
+/**
+ * Normalize price to standard format
+ *
+ * Output format: "£10.00" (reporting currency, VAT included - see normalizePricing)
+ *
+ * @param input - Raw price
+ * @param priceUnit - Unit of whole-number prices (from the source's normalization profile)
+ * @param context - Currency and VAT basis of prices that do not state them, and the rate table
+ */
+export function normalizePrice(
+  input: any,
+  priceUnit: PriceUnit = 'pounds',
+  context: PriceContext = getDefaultPriceContext()
+): string {
+  return normalizePricing(input, priceUnit, context).price;
 }
 
 /**
@@ -224,20 +323,285 @@ export function normalizeContractTerm(input: any): string {
   return str; // Return as-is if format unknown
 }
 
+/**
+ * Lines of a plan card that advertise a deal
+ * e.g. "6 months half price", "Save £192", "£5 off for the first 6 months", "Offer ends 3 Nov"
+ */
+const OFFER_PATTERN =
+  /half price|\bsave\s+(?:up\s+to\s+)?[£€$]|\bfirst\s+\d+\s+months?\b|\d+\s+months?\s+(?:free|half price)|[£€$]\d+(?:\.\d+)?\s+off\b|\d+%\s+off\b|offer ends|limited[- ]time/i;
+
+const WAS_PRICE_PATTERN = /\bwas\s*[£€$]\s*\d/i;
+
+/**
+ * Find promotional text in the lines of a scraped plan card
+ *
+ * Used by the card-based collectors (O2, Sky, Tesco, Vodafone). The values are
+ * raw text - normalizePlanData() turns them into structured promo fields.
+ *
+ * @returns "Was £X" line as was_price and the first offer line as offer_text
+ */
+export function findPromoText(lines: string[]): { was_price?: string; offer_text?: string } {
+  const wasPrice = lines.find((line) => WAS_PRICE_PATTERN.test(line));
+  const offerText = lines.find((line) => line !== wasPrice && OFFER_PATTERN.test(line));
+
+  return {
+    ...(wasPrice && { was_price: wasPrice }),
+    ...(offerText && { offer_text: offerText }),
+  };
+}
+
+/**
+ * Parse the promotion length from offer text
+ *
+ * Input formats: "6 months half price", "£10 for the first 3 months", "3 mths free"
+ *
+ * @returns Number of months, or null when the text has no duration
+ */
+export function parsePromoMonths(text: string | null | undefined): number | null {
+  const match = text?.match(/\b(\d{1,2})\s*(?:months?|mths?)\b/i);
+  if (!match) return null;
+
+  const months = parseInt(match[1], 10);
+  return months > 0 ? months : null;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Format a calendar date as "YYYY-MM-DD", or null if it does not exist
+ */
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse the offer end date from offer text
+ *
+ * Input formats: "Offer ends 3rd November", "Ends 30 Nov 2026", "until 31/10/2026",
+ * or an ISO date ("2026-11-30"). Dates without a year are taken as the next
+ * occurrence on or after the reference date.
+ *
+ * @param text - Offer text or date
+ * @param referenceDate - Scrape time (defaults to now)
+ * @returns ISO date ("2026-11-30"), or null when no end date is given
+ */
+export function parsePromoEndDate(
+  text: string | null | undefined,
+  referenceDate: Date = new Date()
+): string | null {
+  if (!text) return null;
+
+  const iso = text.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return toIsoDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+  }
+
+  const numeric = text.match(/\b(?:ends?|until|till|expires?)\s+(?:on\s+)?(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\b/i);
+  if (numeric) {
+    const year = parseInt(numeric[3], 10);
+    return toIsoDate(year < 100 ? 2000 + year : year, parseInt(numeric[2], 10), parseInt(numeric[1], 10));
+  }
+
+  const named = text.match(
+    /\b(?:ends?|until|till|expires?)\s+(?:on\s+)?(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3,9})\.?(?:\s+(\d{4}))?/i
+  );
+  if (!named) return null;
+
+  const month = MONTHS.indexOf(named[2].slice(0, 3).toLowerCase()) + 1;
+  if (month === 0) return null;
+
+  const day = parseInt(named[1], 10);
+  if (named[3]) {
+    return toIsoDate(parseInt(named[3], 10), month, day);
+  }
+
+  const today = referenceDate.toISOString().slice(0, 10);
+  const thisYear = toIsoDate(referenceDate.getUTCFullYear(), month, day);
+  return thisYear && thisYear >= today
+    ? thisYear
+    : toIsoDate(referenceDate.getUTCFullYear() + 1, month, day);
+}
+
+/**
+ * Normalize promotional pricing fields
+ *
+ * Collectors set whatever the source shows (raw text is fine); missing values
+ * are derived from offer_text where possible:
+ * - promo_months from "6 months half price"
+ * - promo_end_date from "Offer ends 3rd November"
+ * - promo_price defaults to the advertised price when the offer has a duration
+ *   (cards show the discounted price, e.g. Three "6 months half price")
+ *
+ * A was_price without promo_months is a list-price cut rather than a discount.
+ *
+ * @param rawData - Raw plan data from the collector
+ * @param price - Normalized advertised price
+ * @param referenceDate - Scrape time (defaults to now)
+ * @param context - Currency and VAT basis of the source's prices
+ */
+export function normalizePromoFields(
+  rawData: any,
+  price: string,
+  referenceDate: Date = new Date(),
+  context: PriceContext = getDefaultPriceContext()
+): Pick<NormalizedPlan, 'was_price' | 'promo_price' | 'promo_months' | 'promo_end_date' | 'offer_text'> {
+  const offerText = typeof rawData.offer_text === 'string' && rawData.offer_text.trim()
+    ? rawData.offer_text.trim().replace(/\s+/g, ' ')
+    : null;
+
+  // Card lines may hold both prices ("£18 a month Was £22") - take the one after "was"
+  const wasMatch = String(rawData.was_price ?? '').match(/\bwas\s*([£€$])\s*(\d+(?:\.\d+)?)/i);
+  const wasPrice = rawData.was_price
+    ? normalizePrice(wasMatch ? `${wasMatch[1]}${wasMatch[2]}` : rawData.was_price, 'pounds', context)
+    : null;
+
+  const rawMonths = Number(rawData.promo_months);
+  const promoMonths = Number.isInteger(rawMonths) && rawMonths > 0
+    ? rawMonths
+    : parsePromoMonths(offerText);
+
+  let promoPrice: string | null = null;
+  if (rawData.promo_price !== undefined && rawData.promo_price !== null && rawData.promo_price !== '') {
+    promoPrice = normalizePrice(rawData.promo_price, 'pounds', context);
+  } else if (promoMonths !== null && price !== 'Unknown') {
+    promoPrice = price;
+  }
+
+  return {
+    was_price: wasPrice !== 'Unknown' && wasPrice !== price ? wasPrice : null,
+    promo_price: promoPrice,
+    promo_months: promoMonths,
+    promo_end_date:
+      parsePromoEndDate(rawData.promo_end_date, referenceDate) ?? parsePromoEndDate(offerText, referenceDate),
+    offer_text: offerText,
+  };
+}
+
+/**
+ * Sources that list other networks' plans
+ */
+const AGGREGATOR_SOURCES = ['uswitch'];
+
+/**
+ * Canonical network names (lowercase alias -> name used as source by the direct collectors)
+ */
+const NETWORK_NAMES: Record<string, string> = {
+  o2: 'O2',
+  ee: 'EE',
+  vodafone: 'Vodafone',
+  three: 'Three',
+  '3': 'Three',
+  sky: 'Sky',
+  'sky mobile': 'Sky',
+  tesco: 'Tesco',
+  'tesco mobile': 'Tesco',
+  giffgaff: 'Giffgaff',
+  smarty: 'Smarty',
+};
+
+/**
+ * Host network operator of each network we collect directly
+ */
+const NETWORK_MNOS: Record<string, string> = {
+  O2: 'O2',
+  EE: 'EE',
+  Vodafone: 'Vodafone',
+  Three: 'Three',
+  Sky: 'O2',
+  Tesco: 'O2',
+  Giffgaff: 'O2',
+  Smarty: 'Three',
+};
+
+/**
+ * Normalize a network or operator name
+ *
+ * Input formats: "Vodafone", "vodafone", "Sky Mobile", "3", "iD Mobile"
+ * Output format: canonical name for known networks ("Sky", "Three"), otherwise trimmed input
+ */
+export function normalizeNetworkName(input: unknown): string | null {
+  if (typeof input !== 'string' || input.trim() === '') return null;
+
+  const str = input.trim().replace(/\s+/g, ' ');
+  return NETWORK_NAMES[str.toLowerCase()] ?? str;
+}
+
+/**
+ * Normalize network, MNO, retailer and sales channel
+ *
+ * Aggregator collectors (Uswitch) set network/mno/retailer per deal. For the
+ * direct collectors the source is the network and the retailer, and the MNO
+ * comes from NETWORK_MNOS (e.g., Giffgaff runs on O2).
+ *
+ * @param rawData - Raw plan data from the collector
+ * @param source - Source name (e.g., 'Giffgaff', 'Uswitch')
+ */
+export function normalizeDistribution(
+  rawData: any,
+  source: string
+): Pick<NormalizedPlan, 'network' | 'mno' | 'retailer' | 'channel'> {
+  const channel: PlanChannel =
+    rawData.channel === 'direct' || rawData.channel === 'aggregator'
+      ? rawData.channel
+      : AGGREGATOR_SOURCES.includes(source.toLowerCase())
+        ? 'aggregator'
+        : 'direct';
+
+  const network = normalizeNetworkName(rawData.network)
+    ?? (channel === 'direct' ? normalizeNetworkName(source) : null);
+
+  return {
+    network,
+    mno: normalizeNetworkName(rawData.mno) ?? (network ? NETWORK_MNOS[network] ?? null : null),
+    retailer: typeof rawData.retailer === 'string' && rawData.retailer.trim()
+      ? rawData.retailer.trim()
+      : channel === 'direct' ? network : null,
+    channel,
+  };
+}
+
+/**
+ * Plan identity beyond data and term
+ */
+export interface PlanIdentity {
+  tier?: string | null;        // Plan type sold at the same data and term (Three Lite/Value/Complete)
+  variant?: string | null;     // Listing of the same plan (Uswitch network + retailer)
+  fingerprint?: string | null; // Name and allowances, for sources without tier or variant (see planKeyFingerprint)
+}
+
+/**
+ * Slug a plan key part ("Unlimited Max" -> "unlimited-max")
+ *
+ * Kept in step with migrations/018_stable_plan_keys.sql, which re-keys stored rows.
+ */
+export function toPlanKeyPart(input: unknown): string | null {
+  if (typeof input !== 'string') return null;
+
+  const slug = input.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || null;
+}
+
 /**
  * Generate plan_key for historical tracking
  *
- * Format: "{source}-{data_allowance}-{contract_term}"
+ * Format: "{source}-{data_allowance}-{contract_term}[-{tier}][-{variant}][-{fingerprint}]"
  * Examples:
- * - "O2-10GB-12months"
- * - "Vodafone-Unlimited-24months"
- * - "Three-50GB-1month"
- * - "Sky-100GB-PAYG"
+ * - "O2-10GB-12months-classic"
+ * - "Vodafone-Unlimited-24months-unlimited-max"
+ * - "Three-50GB-1month-value"
+ * - "Sky-100GB-12months-3f2a9c1e"
+ * - "Uswitch-30GB-1month-smarty-smarty"
+ *
+ * The key depends only on the plan itself, never on the other plans of its
+ * scrape, so a plan keeps its key when a sibling appears or disappears.
  */
 export function generatePlanKey(
   source: string,
   dataAllowance: string,
-  contractTerm: string
+  contractTerm: string,
+  identity: PlanIdentity = {}
 ): string {
   // Normalize source name (capitalize first letter)
   const normalizedSource = source.charAt(0).toUpperCase() + source.slice(1).toLowerCase();
@@ -247,7 +611,85 @@ export function generatePlanKey(
   const safeData = dataAllowance.replace(/\s+/g, '');
   const safeContract = contractTerm.replace(/\s+/g, '').toLowerCase();
 
-  return `${normalizedSource}-${safeData}-${safeContract}`;
+  const parts = [normalizedSource, safeData, safeContract, identity.tier, identity.variant, identity.fingerprint];
+  return parts.filter(Boolean).join('-');
+}
+
+/**
+ * Fingerprint a plan from its normalized name and allowances
+ *
+ * Serialized as "{name}|{minutes}|{texts}|{speed_cap_mbps}" (name lowercased,
+ * missing values empty) so the SQL in migrations/018_stable_plan_keys.sql produces
+ * the same hash.
+ *
+ * @returns First 8 hex chars of the MD5 hash
+ */
+export function generatePlanFingerprint(
+  plan: Pick<NormalizedPlan, 'name' | 'minutes' | 'texts' | 'speed_cap_mbps'>
+): string {
+  const parts = [plan.name.trim().toLowerCase(), plan.minutes, plan.texts, plan.speed_cap_mbps]
+    .map((part) => (part === null || part === undefined ? '' : String(part)));
+
+  return createHash('md5').update(parts.join('|')).digest('hex').slice(0, 8);
+}
+
+/**
+ * Price context of a plan: the profile's currency and VAT basis, unless the
+ * collector set currency ("EUR") or vat_included on the plan
+ */
+function buildPriceContext(rawData: any, profile: NormalizationProfile): PriceContext {
+  const currency = typeof rawData.currency === 'string' ? rawData.currency.trim().toUpperCase() : null;
+
+  return {
+    currency: isCurrencyCode(currency) ? currency : profile.currency,
+    vatIncluded: typeof rawData.vat_included === 'boolean' ? rawData.vat_included : profile.pricesIncludeVat,
+    vatRate: profile.vatRate,
+    rates: getRateTable(),
+  };
+}
+
+const NORMALIZED_FIELDS: NormalizedField[] = ['data_allowance', 'price', 'contract_term'];
+
+/**
+ * Read the raw data allowance, price and contract term named by a profile
+ */
+function readRawFields(rawData: any, profile: NormalizationProfile): Record<NormalizedField, any> {
+  return {
+    data_allowance: readProfileField(rawData, profile.fields.data_allowance),
+    price: readProfileField(rawData, profile.fields.price),
+    contract_term: readProfileField(rawData, profile.fields.contract_term),
+  };
+}
+
+/**
+ * Build the normalization report of a batch: raw values that did not
+ * normalize to a standard format, with counts
+ */
+function buildNormalizationReport(
+  rawPlans: any[],
+  normalized: NormalizedPlan[],
+  source: string
+): NormalizationReport {
+  const profile = getNormalizationProfile(source);
+  const unparsed = new Map<string, UnparsedValue>();
+
+  normalized.forEach((plan, index) => {
+    const raw = readRawFields(rawPlans[index] ?? {}, profile);
+
+    for (const field of NORMALIZED_FIELDS) {
+      if (isParsedValue(field, plan[field])) continue;
+
+      const value = raw[field] === undefined ? null : String(raw[field]).trim();
+      const key = `${field}\u0000${value}`;
+      const existing = unparsed.get(key);
+      unparsed.set(key, { field, value, count: (existing?.count ?? 0) + 1 });
+    }
+  });
+
+  return {
+    plansNormalized: normalized.length,
+    unparsed: [...unparsed.values()].sort((a, b) => b.count - a.count),
+  };
 }
 
 /**
@@ -255,32 +697,75 @@ export function generatePlanKey(
  *
  * Processes raw scraped data from any source and returns normalized format
  * Handles multiple input formats (HTML text, objects, API JSON)
+ *
+ * @param rawData - Raw plan data from the collector
+ * @param source - Source name (selects the normalization profile)
+ * @param referenceDate - Scrape time for promo end dates and price rises (defaults to now)
  */
-export function normalizePlanData(rawData: any, source: string): NormalizedPlan {
+export function normalizePlanData(
+  rawData: any,
+  source: string,
+  referenceDate: Date = new Date()
+): NormalizedPlan {
   try {
-    // Extract fields from various possible locations
-    const dataAllowance = rawData.data_allowance || rawData.dataAllowance || rawData.data || rawData.allowance;
-    const price = rawData.price || rawData.monthlyPrice || rawData.monthly_cost || rawData.cost;
-    // Handle contract_term or contract_length (Uswitch uses contract_length as number)
-    const contractTerm = rawData.contract_term || rawData.contractTerm || rawData.contract || rawData.contract_length;
+    // Extract fields named by the source's profile (Uswitch uses contract_length as number)
+    const profile = getNormalizationProfile(source);
+    const { data_allowance: dataAllowance, price, contract_term: contractTerm } = readRawFields(rawData, profile);
     const name = rawData.name || 'Unnamed Plan';
 
     // Normalize each field
-    const normalizedData = normalizeDataAllowance(dataAllowance);
-    const normalizedPrice = normalizePrice(price);
+    const normalizedData = normalizeDataAllowance(dataAllowance, profile.dataUnit);
+    const context = buildPriceContext(rawData, profile);
+    const pricing = normalizePricing(price, profile.priceUnit, context);
+    const normalizedPrice = pricing.price;
     const normalizedContract = normalizeContractTerm(contractTerm);
 
-    // Generate plan key
-    const planKey = generatePlanKey(source, normalizedData, normalizedContract);
+
+    // Other amounts on the plan are in the currency and VAT basis of its price
+    const listedContext: PriceContext = {
+      ...context,
+      currency: pricing.listed_currency ?? context.currency,
+      vatIncluded: pricing.vat_included ?? context.vatIncluded,
+    };
+
+    const promo = normalizePromoFields(rawData, normalizedPrice, referenceDate, listedContext);
+    const attributes = normalizePlanAttributes(rawData);
+
+    // Generate plan key (collectors set plan_type/plan_variant when a source
+    // sells several products at the same data and term; sources that do not
+    // add the fingerprint instead)
+    const tier = toPlanKeyPart(rawData.plan_type);
+    const variant = toPlanKeyPart(rawData.plan_variant);
+    const fingerprint = generatePlanFingerprint({ name, ...attributes });
+    const planKey = generatePlanKey(source, normalizedData, normalizedContract, {
+      tier,
+      variant,
+      fingerprint: profile.planKeyFingerprint ? fingerprint : null,
+    });
 
     // Create normalized plan object
     const normalized: NormalizedPlan = {
       ...rawData, // Preserve all original fields
       name,
       data_allowance: normalizedData,
-      price: normalizedPrice,
+      ...pricing,
       contract_term: normalizedContract,
       plan_key: planKey,
+      plan_tier: tier,
+      plan_variant: variant,
+      plan_fingerprint: fingerprint,
+      ...promo,
+      ...normalizeDistribution(rawData, source),
+      ...buildCostModel(
+        rawData,
+        { price: normalizedPrice, contract_term: normalizedContract, ...promo },
+        referenceDate,
+        listedContext
+      ),
+      ...attributes,
+      ...normalizeExtras(rawData),
+      normalizer_version: NORMALIZER_VERSION,
+      raw_data: rawData,
     };
 
     logger.debug(
@@ -314,13 +799,51 @@ export function normalizePlanData(rawData: any, source: string): NormalizedPlan
       contract_term: 'Unknown',
       plan_key: `${source}-Error-${Date.now()}`,
       normalization_error: true,
+      normalizer_version: NORMALIZER_VERSION,
+      raw_data: rawData,
     };
   }
 }
 
 /**
  * Normalize an array of plans
+ *
+ * Plans that share a plan_key (same data, term, tier, variant and, where
+ * the profile adds it, fingerprint) keep it and are logged;
+ * validateNormalizedPlans() rejects them so none is stored in another's place.
+ *
+ * Values that did not normalize are recorded in the source's normalization
+ * report (see ./normalization-report.ts) unless recordReport is false.
+ *
+ * @param plans - Raw plans from one scrape of the source
+ * @param source - Source name
+ * @param options - Scrape time (defaults to now) and whether to record the report
  */
-export function normalizePlans(plans: any[], source: string): NormalizedPlan[] {
-  return plans.map((plan) => normalizePlanData(plan, source));
+export function normalizePlans(
+  plans: any[],
+  source: string,
+  options: { referenceDate?: Date; recordReport?: boolean } = {}
+): NormalizedPlan[] {
+  const { referenceDate = new Date(), recordReport = true } = options;
+  const normalized = plans.map((plan) => normalizePlanData(plan, source, referenceDate));
+
+  if (recordReport) {
+    const report = buildNormalizationReport(plans, normalized, source);
+    if (report.unparsed.length > 0) {
+      logger.warn({ source, unparsed: report.unparsed }, 'Unparsed values in normalized plans');
+    }
+    recordNormalizationReport(source, report);
+  }
+
+  const keyCounts = new Map<string, number>();
+  for (const plan of normalized) {
+    keyCounts.set(plan.plan_key, (keyCounts.get(plan.plan_key) ?? 0) + 1);
+  }
+
+  const collisions = [...keyCounts].filter(([, count]) => count > 1).map(([key]) => key);
+  if (collisions.length > 0) {
+    logger.warn({ source, plan_keys: collisions }, 'Plans share a plan_key');
+  }
+
+  return normalized;
 }
@@ -0,0 +1,100 @@
+/**
+ * Numeric Plan Fields
+ *
+ * Converts the normalized display strings ("£10.00", "500MB", "24 months")
+ * to the typed plans columns (price_pence, data_mb, contract_months,
+ * currency - migration 010; price_ex_vat_pence, listed_currency,
+ * vat_included - migration 013) used for filtering and sorting in SQL.
+ *
+ * Only the normalized formats are read; anything else (e.g., an unparsed raw
+ * value, see ./normalization-report.ts) gives null.
+ */
+
+import { detectCurrency, isCurrencyCode, parseMoney } from './currency';
+
+/**
+ * data_mb of unlimited plans (largest INTEGER, so unlimited sorts and
+ * filters above every finite allowance)
+ */
+export const UNLIMITED_DATA_MB = 2147483647;
+
+/**
+ * contract_months of PAYG plans (no minimum term)
+ */
+export const PAYG_CONTRACT_MONTHS = 0;
+
+/**
+ * Typed plans columns derived from plan_data
+ */
+export interface PlanNumericFields {
+  price_pence: number | null;
+  data_mb: number | null;
+  contract_months: number | null;
+  /** ISO 4217 code of price_pence ("GBP") */
+  currency: string | null;
+  /** price_pence without VAT */
+  price_ex_vat_pence: number | null;
+  /** Currency the source listed the price in, before conversion ("EUR") */
+  listed_currency: string | null;
+  /** Whether the listed price included VAT */
+  vat_included: boolean | null;
+}
+
+/**
+ * "£10.00" -> 1000 (minor units of the price's currency: "€9.99" -> 999)
+ */
+export function toPricePence(price: unknown): number | null {
+  const amount = parseMoney(price);
+  return amount !== null ? Math.round(amount * 100) : null;
+}
+
+/**
+ * "Unlimited" -> UNLIMITED_DATA_MB, "10GB" -> 10000, "500MB" -> 500
+ * (1GB = 1000MB, as in normalizeDataAllowance)
+ */
+export function toDataMb(dataAllowance: unknown): number | null {
+  if (typeof dataAllowance !== 'string') return null;
+  if (dataAllowance === 'Unlimited') return UNLIMITED_DATA_MB;
+
+  const gbMatch = dataAllowance.match(/^(\d+(?:\.\d+)?)GB$/);
+  if (gbMatch) return Math.round(parseFloat(gbMatch[1]) * 1000);
+
+  const mbMatch = dataAllowance.match(/^(\d+)MB$/);
+  return mbMatch ? parseInt(mbMatch[1], 10) : null;
+}
+
+/**
+ * "24 months" -> 24, "1 month" -> 1, "PAYG" -> PAYG_CONTRACT_MONTHS
+ */
+export function toContractMonths(contractTerm: unknown): number | null {
+  if (contractTerm === 'PAYG') return PAYG_CONTRACT_MONTHS;
+
+  const match = typeof contractTerm === 'string' ? contractTerm.match(/^(\d+) months?$/) : null;
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Derive the typed columns of a normalized plan
+ *
+ * @param planData - Normalized plan data (price, data_allowance, contract_term, VAT and listed currency)
+ */
+export function getPlanNumericFields(planData: {
+  price?: unknown;
+  price_ex_vat?: unknown;
+  listed_currency?: unknown;
+  vat_included?: unknown;
+  data_allowance?: unknown;
+  contract_term?: unknown;
+}): PlanNumericFields {
+  const pricePence = toPricePence(planData.price);
+
+  return {
+    price_pence: pricePence,
+    data_mb: toDataMb(planData.data_allowance),
+    contract_months: toContractMonths(planData.contract_term),
+    currency: pricePence !== null ? detectCurrency(planData.price) : null,
+    price_ex_vat_pence: toPricePence(planData.price_ex_vat),
+    listed_currency: isCurrencyCode(planData.listed_currency) ? planData.listed_currency : null,
+    vat_included: typeof planData.vat_included === 'boolean' ? planData.vat_included : null,
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Plan Attribute Normalization
+ *
+ * Normalizes the plan attributes the analyses compare besides data, price and
+ * term: minutes, texts, 5G, eSIM, roaming tier, speed cap and data-only.
+ *
+ * Collectors set structured values when the source has them (Smarty allowances,
+ * Uswitch flags, Giffgaff allowance types). Anything left unset is detected in
+ * the plan's text (name, extras, features, description) - e.g. Three, Sky and
+ * Tesco cards list "Unlimited minutes and texts" or "EU Roaming".
+ */
+
+/**
+ * Roaming tiers used by the analysis scoring (see the LLM prompts)
+ */
+export type RoamingTier = 'None' | 'EU' | 'Global';
+
+/**
+ * Call or text allowance: a count, 'Unlimited', or null when unknown
+ */
+export type Allowance = number | 'Unlimited';
+
+/**
+ * Normalized attribute fields of a plan
+ */
+export interface PlanAttributes {
+  minutes: Allowance | null;
+  texts: Allowance | null;
+  is_5g: boolean | null;             // null = not stated
+  esim_compatible: boolean | null;   // null = not stated
+  roaming_tier: RoamingTier | null;  // null = not stated
+  speed_cap_mbps: number | null;     // null = no cap stated
+  data_only: boolean;
+}
+
+/** Destinations beyond Europe make roaming "Global" */
+const GLOBAL_ROAMING_PATTERN =
+  /world|global|\d{2,}\s+(?:destinations|countries)|\busa?\b|united states|america|canada|australia|asia|africa|rest of/i;
+
+const EU_ROAMING_PATTERN = /\beu\b|europe/i;
+
+/**
+ * Normalize a call or text allowance
+ *
+ * Input formats: 'Unlimited', 'Unlimited minutes', '500', 500, '1,000 mins', -1 (unlimited)
+ *
+ * @returns Count, 'Unlimited', or null when the input is missing or unreadable
+ */
+export function normalizeAllowance(input: unknown): Allowance | null {
+  if (input === null || input === undefined || input === '') return null;
+
+  if (typeof input === 'number') {
+    if (!Number.isFinite(input)) return null;
+    return input < 0 ? 'Unlimited' : Math.round(input);
+  }
+
+  const str = String(input).trim();
+  if (/unlimited/i.test(str)) return 'Unlimited';
+
+  const match = str.match(/^(\d[\d,]*)/);
+  return match ? parseInt(match[1].replace(/,/g, ''), 10) : null;
+}
+
+/**
+ * Normalize roaming to the tiers the analyses score on
+ *
+ * Input formats:
+ * - Destination list (Uswitch): [] -> None, ['Europe'] -> EU, ['Europe', 'USA'] -> Global
+ * - Text: 'EU Roaming: 12GB fair use limit' -> EU, 'Roam in 75 destinations' -> Global
+ * - Tier: 'None', 'EU', 'Global'
+ *
+ * @returns Tier, or null when roaming is not mentioned
+ */
+export function normalizeRoamingTier(input: unknown): RoamingTier | null {
+  if (Array.isArray(input)) {
+    const destinations = input.filter((d): d is string => typeof d === 'string' && d.trim() !== '');
+    if (destinations.length === 0) return 'None';
+    return destinations.some((d) => !EU_ROAMING_PATTERN.test(d)) ? 'Global' : 'EU';
+  }
+
+  if (typeof input !== 'string' || input.trim() === '') return null;
+
+  const str = input.trim();
+  if (/^(none|eu|global)$/i.test(str)) {
+    return str.toLowerCase() === 'eu' ? 'EU' : str.toLowerCase() === 'none' ? 'None' : 'Global';
+  }
+  if (/no\s+roaming|roaming\s+not\s+included/i.test(str)) return 'None';
+  if (GLOBAL_ROAMING_PATTERN.test(str)) return 'Global';
+  if (EU_ROAMING_PATTERN.test(str)) return 'EU';
+
+  return null;
+}
+
+/**
+ * Parse a speed cap ("Max speed 10Mbps", "Unlimited Lite - speeds up to 2Mbps")
+ *
+ * @returns Cap in Mbps, or null when none is stated
+ */
+export function parseSpeedCap(text: string | null | undefined): number | null {
+  const match = text?.match(/(\d+(?:\.\d+)?)\s*Mbps\b/i);
+  return match ? parseFloat(match[1]) : null;
+}
+
+/**
+ * Collect the plan's descriptive text for attribute detection
+ */
+function getPlanText(rawData: any): string[] {
+  const text: unknown[] = [
+    rawData.name,
+    rawData.description,
+    rawData.features,
+    ...(Array.isArray(rawData.extras) ? rawData.extras : []),
+  ];
+
+  return text.filter((t): t is string => typeof t === 'string' && t.trim() !== '');
+}
+
+/**
+ * Detect minutes in plan text ("Unlimited UK Minutes & Texts", "500 minutes")
+ */
+function detectMinutes(lines: string[]): Allowance | null {
+  for (const line of lines) {
+    if (/unlimited\s+(?:uk\s+)?(?:minutes|calls?|mins)\b/i.test(line)) return 'Unlimited';
+    const match = line.match(/(\d[\d,]*)\s*(?:minutes|mins)\b/i);
+    if (match) return parseInt(match[1].replace(/,/g, ''), 10);
+  }
+  return null;
+}
+
+/**
+ * Detect texts in plan text ("Unlimited call and texts", "250 texts")
+ */
+function detectTexts(lines: string[]): Allowance | null {
+  for (const line of lines) {
+    if (/unlimited\s+(?:uk\s+)?(?:(?:minutes|calls?|mins)\s*(?:&|and)\s*)?(?:texts|sms)\b/i.test(line)) {
+      return 'Unlimited';
+    }
+    const match = line.match(/(\d[\d,]*)\s*(?:texts|sms)\b/i);
+    if (match) return parseInt(match[1].replace(/,/g, ''), 10);
+  }
+  return null;
+}
+
+/**
+ * Normalize minutes, texts, 5G, eSIM, roaming, speed cap and data-only
+ *
+ * Raw fields (all optional): minutes, texts, is_5g, esim_compatible,
+ * roaming_tier or roaming_destinations, speed_cap_mbps, data_only.
+ * Text detection only fills fields the collector left unset.
+ *
+ * @param rawData - Raw plan data from the collector
+ */
+export function normalizePlanAttributes(rawData: any): PlanAttributes {
+  const lines = getPlanText(rawData);
+  const text = lines.join(' | ');
+
+  const minutes = normalizeAllowance(rawData.minutes) ?? detectMinutes(lines);
+  const texts = normalizeAllowance(rawData.texts) ?? detectTexts(lines);
+
+  const roamingTier =
+    normalizeRoamingTier(rawData.roaming_tier) ??
+    normalizeRoamingTier(rawData.roaming_destinations) ??
+    normalizeRoamingTier(lines.find((line) => /roam/i.test(line)));
+
+  const dataOnly = typeof rawData.data_only === 'boolean'
+    ? rawData.data_only
+    : /\bdata[- ]only\b/i.test(text) || (minutes === 0 && texts === 0);
+
+  return {
+    minutes,
+    texts,
+    is_5g: typeof rawData.is_5g === 'boolean' ? rawData.is_5g : /\b5G\b/i.test(text) || null,
+    esim_compatible: typeof rawData.esim_compatible === 'boolean'
+      ? rawData.esim_compatible
+      : /\be-?sim\b/i.test(text) || null,
+    roaming_tier: roamingTier,
+    speed_cap_mbps: typeof rawData.speed_cap_mbps === 'number' ? rawData.speed_cap_mbps : parseSpeedCap(text),
+    data_only: dataOnly,
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Plan Schemas
+ *
+ * Runtime schemas for what collectors return (RawPlan) and what
+ * normalizePlans() produces (NormalizedPlan). Both types are inferred from
+ * the schemas, so the compile-time and runtime contracts cannot drift.
+ * Validation against them runs in every collector before storage
+ * (see ./plan-validation.ts).
+ */
+
+import { z } from 'zod';
+import { CURRENCY_CODES } from './currency';
+import type { PriceScheduleStep } from './cost-model';
+import type { Allowance, RoamingTier } from './plan-attributes';
+import type { ExtrasTier, Perk, PerkCategory, PerkTier } from './extras';
+import type { PlanChannel } from './normalize';
+
+const planChannel = z.enum(['direct', 'aggregator']) satisfies z.ZodType<PlanChannel>;
+
+/**
+ * Scraped value that may come as text ("£10", "24 months") or a number (Uswitch API)
+ */
+const scrapedValue = z.union([z.string(), z.number()]);
+
+/**
+ * Collector output
+ *
+ * name, price, data_allowance and contract_term are required keys (null
+ * when the page did not show the value); the other fields the normalizers
+ * read are optional but typed. Collector-specific fields are kept as-is.
+ */
+const RAW_PLAN_FIELDS = {
+  name: z.string().min(1),
+  price: scrapedValue.nullable(),
+  data_allowance: scrapedValue.nullable(),
+  contract_term: scrapedValue.nullable(),
+  // Alternative fields read by some normalization profiles (Uswitch)
+  monthly_cost: scrapedValue.nullish(),
+  contract_length: scrapedValue.nullish(),
+  // Currency and VAT basis of the plan's prices, when not the profile's (see normalization-profiles)
+  currency: z.string().nullish(),
+  vat_included: z.boolean().nullish(),
+  plan_type: z.string().nullish(),
+  plan_variant: z.string().nullish(),
+  extras: z.array(z.string()).nullish(),
+  description: z.string().nullish(),
+  url: z.string().nullish(),
+  was_price: scrapedValue.nullish(),
+  promo_price: scrapedValue.nullish(),
+  promo_months: z.number().int().positive().nullish(),
+  promo_end_date: z.string().nullish(),
+  offer_text: z.string().nullish(),
+  price_rise_text: z.string().nullish(),
+  upfront_cost: scrapedValue.nullish(),
+  network: z.string().nullish(),
+  mno: z.string().nullish(),
+  retailer: z.string().nullish(),
+  channel: planChannel.nullish(),
+  minutes: scrapedValue.nullish(),
+  texts: scrapedValue.nullish(),
+  is_5g: z.boolean().nullish(),
+  esim_compatible: z.boolean().nullish(),
+  speed_cap_mbps: z.number().positive().nullish(),
+  data_only: z.boolean().nullish(),
+};
+
+/**
+ * snake_case form of a camelCase key ("dataAllowance" -> "data_allowance")
+ */
+function toSnakeCase(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * camelCase spellings of known fields, which the normalizers would miss
+ * ('"dataAllowance" (did you mean "data_allowance"?)')
+ */
+function misspelledFields(plan: Record<string, unknown>): string[] {
+  return Object.keys(plan)
+    .filter((key) => toSnakeCase(key) !== key && toSnakeCase(key) in RAW_PLAN_FIELDS)
+    .map((key) => `"${key}" (did you mean "${toSnakeCase(key)}"?)`);
+}
+
+export const RawPlanSchema = z
+  .object(RAW_PLAN_FIELDS)
+  .catchall(z.unknown())
+  .refine((plan) => misspelledFields(plan).length === 0, {
+    error: (issue) => `Unknown field ${misspelledFields(issue.input as Record<string, unknown>).join(', ')}`,
+    // Also when a required field is missing: a misspelling is the likely cause
+    when: (payload) => typeof payload.value === 'object' && payload.value !== null && !Array.isArray(payload.value),
+  });
+
+export type RawPlan = z.infer<typeof RawPlanSchema>;
+
+const allowance = z.union([z.number().int().nonnegative(), z.literal('Unlimited')]) satisfies z.ZodType<Allowance>;
+const roamingTier = z.enum(['None', 'EU', 'Global']) satisfies z.ZodType<RoamingTier>;
+const perkTier = z.enum(['Basic', 'Premium']) satisfies z.ZodType<PerkTier>;
+const extrasTier = z.enum(['None', 'Basic', 'Premium']) satisfies z.ZodType<ExtrasTier>;
+const perkCategory = z.enum([
+  'streaming',
+  'data_rollover',
+  'rewards',
+  'wifi_calling',
+  'data_gifting',
+  'hotspot',
+  'voucher',
+  'insurance',
+]) satisfies z.ZodType<PerkCategory>;
+
+const perk = z.object({
+  id: z.string().min(1),
+  label: z.string(),
+  category: perkCategory,
+  tier: perkTier,
+}) satisfies z.ZodType<Perk>;
+
+const priceScheduleStep = z.object({
+  from_month: z.number().int().positive(),
+  to_month: z.number().int().positive(),
+  monthly_price: z.string(),
+}) satisfies z.ZodType<PriceScheduleStep>;
+
+/**
+ * Output of normalizePlanData()
+ *
+ * data_allowance, price and contract_term are any string: values that did
+ * not normalize are kept raw and listed in the normalization report.
+ * Collector fields are preserved alongside the normalized ones.
+ */
+export const NormalizedPlanSchema = z
+  .object({
+    name: z.string(),
+    data_allowance: z.string(),            // Normalized: "Unlimited", "10GB", "500MB"
+    price: z.string(),                     // Normalized: "£10.00" (reporting currency, VAT included)
+    price_ex_vat: z.string().nullable(),   // Normalized: "£8.33" (reporting currency, VAT excluded)
+    listed_price: z.string().nullable(),   // As listed, normalized: "€12.00" (before conversion)
+    listed_currency: z.enum(CURRENCY_CODES).nullable(), // Currency of listed_price: "GBP", "EUR"
+    vat_included: z.boolean().nullable(),  // Whether listed_price includes VAT
+    contract_term: z.string(),             // Normalized: "12 months", "1 month", "PAYG"
+    plan_key: z.string().min(1),           // Generated: "{source}-{data}-{contract}[-{tier}][-{variant}][-{fingerprint}]"
+    plan_tier: z.string().nullable(),      // Slug of the plan type: "lite", "unlimited-max"
+    plan_variant: z.string().nullable(),   // Slug of the listing variant: "vodafone-mobiles-co-uk" (Uswitch)
+    plan_fingerprint: z.string().regex(/^[0-9a-f]{8}$/), // Hash of the normalized name and allowances
+    extras: z.array(z.string()).optional(),
+    was_price: z.string().nullable(),      // Normalized: "£28.00" (earlier list price)
+    promo_price: z.string().nullable(),    // Normalized: "£14.00" (temporary discount)
+    promo_months: z.number().int().positive().nullable(), // Months the promo price applies
+    promo_end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(), // ISO date: "2026-11-30"
+    offer_text: z.string().nullable(),     // As advertised: "6 months half price"
+    network: z.string().nullable(),        // Brand the plan is on: "Vodafone", "iD Mobile"
+    mno: z.string().nullable(),            // Host network operator: "O2", "EE", "Vodafone", "Three"
+    retailer: z.string().nullable(),       // Who sells the plan: "Vodafone", "Mobiles.co.uk"
+    channel: planChannel,                  // Network's own site or a comparison site (Uswitch)
+    upfront_fee: z.string(),                      // Normalized: "£0.00"
+    price_schedule: z.array(priceScheduleStep),   // Monthly price per contract month range (see cost-model)
+    total_contract_cost: z.string().nullable(),   // Upfront + all monthly payments over the term
+    effective_monthly_price: z.string().nullable(), // Total contract cost / contract months
+    minutes: allowance.nullable(),         // 500 or "Unlimited"
+    texts: allowance.nullable(),           // 500 or "Unlimited"
+    is_5g: z.boolean().nullable(),         // null = not stated
+    esim_compatible: z.boolean().nullable(), // null = not stated
+    roaming_tier: roamingTier.nullable(),  // "None", "EU", "Global"
+    speed_cap_mbps: z.number().positive().nullable(), // null = no cap stated
+    data_only: z.boolean(),
+    perks: z.array(perk),                  // Canonical perks classified from extras (see extras.ts)
+    extras_tier: extrasTier,               // "None", "Basic", "Premium"
+    normalizer_version: z.number().int().positive(), // NORMALIZER_VERSION (stored in plans.normalizer_version)
+    raw_data: z.record(z.string(), z.any()), // Collector payload (stored in plans.raw_data, not plan_data)
+  })
+  .catchall(z.any()); // Preserve original fields
+
+export type NormalizedPlan = z.infer<typeof NormalizedPlanSchema>;
+
+/**
+ * Readable messages for the issues of a failed validation
+ * ('data_allowance: Invalid input ...', 'Unknown field "dataAllowance" ...')
+ */
+export function formatSchemaIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+  );
+}
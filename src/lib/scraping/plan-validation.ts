@@ -0,0 +1,197 @@
+/**
+ * Plan Validation
+ *
+ * Checks collector output against RawPlanSchema before normalization and
+ * normalizePlans() output against NormalizedPlanSchema before storage
+ * (see ./plan-schema.ts). Invalid plans are dropped and reported one by one;
+ * the rest of the batch is stored. Normalized plans that share a plan_key
+ * are invalid too: storage and change detection keep one plan per key, so
+ * storing them would lose all but one, and a rejected plan makes the batch
+ * partial rather than its previous version withdrawn.
+ *
+ * Reports are buffered per source and drained by runCollector(), which
+ * attaches them to the CollectorResult stored in the scrape run ledger.
+ */
+
+import { logger } from '../utils/logger';
+import {
+  formatSchemaIssues,
+  NormalizedPlanSchema,
+  RawPlanSchema,
+  type NormalizedPlan,
+  type RawPlan,
+} from './plan-schema';
+
+/**
+ * Maximum failures kept per report (the count covers all of them)
+ */
+export const MAX_REPORTED_FAILURES = 50;
+
+/**
+ * Where a plan failed: collector output (raw) or normalizePlans() output
+ */
+export type ValidationStage = 'raw' | 'normalized';
+
+/**
+ * A plan that did not match its schema
+ */
+export interface PlanValidationFailure {
+  stage: ValidationStage;
+  /** Position of the plan in the batch validated at this stage */
+  index: number;
+  /** Plan name, when it has one */
+  name: string | null;
+  /** "field: message" per schema issue */
+  issues: string[];
+}
+
+export interface ValidationReport {
+  /** Plans returned by the collector */
+  plansValidated: number;
+  plansRejected: number;
+  /** First MAX_REPORTED_FAILURES failures */
+  failures: PlanValidationFailure[];
+}
+
+const pendingReports = new Map<string, ValidationReport>();
+
+/**
+ * Add failures to the source's buffer
+ */
+function recordValidation(source: string, plansValidated: number, failures: PlanValidationFailure[]): void {
+  const existing = pendingReports.get(source) ?? { plansValidated: 0, plansRejected: 0, failures: [] };
+
+  pendingReports.set(source, {
+    plansValidated: existing.plansValidated + plansValidated,
+    plansRejected: existing.plansRejected + failures.length,
+    failures: [...existing.failures, ...failures].slice(0, MAX_REPORTED_FAILURES),
+  });
+}
+
+/**
+ * Issues of schema-valid plans whose plan_key another valid plan also has
+ *
+ * @param plans - Normalized plans of one batch
+ * @param valid - Whether each plan matched the schema
+ * @returns Issues by plan index
+ */
+function findSharedPlanKeys(plans: unknown[], valid: boolean[]): Map<number, string[]> {
+  const planKey = (index: number) => (plans[index] as { plan_key: string }).plan_key;
+  const counts = new Map<string, number>();
+
+  plans.forEach((_, index) => {
+    if (valid[index]) counts.set(planKey(index), (counts.get(planKey(index)) ?? 0) + 1);
+  });
+
+  const issues = new Map<number, string[]>();
+  plans.forEach((_, index) => {
+    const count = valid[index] ? counts.get(planKey(index)) ?? 0 : 0;
+    if (count > 1) {
+      issues.set(index, [`plan_key: Shared by ${count} plans of the batch (${planKey(index)})`]);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validate plans against a schema, keeping the valid ones
+ */
+function validatePlans<T>(
+  plans: unknown[],
+  source: string,
+  stage: ValidationStage,
+  schema: typeof RawPlanSchema | typeof NormalizedPlanSchema
+): T[] {
+  const valid: T[] = [];
+  const failures: PlanValidationFailure[] = [];
+
+  const results = plans.map((plan) => schema.safeParse(plan));
+  const sharedKeys =
+    stage === 'normalized'
+      ? findSharedPlanKeys(plans, results.map((result) => result.success))
+      : new Map<number, string[]>();
+
+  plans.forEach((plan, index) => {
+    const result = results[index];
+    const issues = result.success ? sharedKeys.get(index) : formatSchemaIssues(result.error);
+
+    if (!issues) {
+      valid.push(plan as T);
+      return;
+    }
+
+    const name = (plan as { name?: unknown } | null)?.name;
+    const failure: PlanValidationFailure = {
+      stage,
+      index,
+      name: typeof name === 'string' ? name : null,
+      issues,
+    };
+    failures.push(failure);
+    logger.warn({ source, ...failure }, 'Plan failed schema validation');
+  });
+
+  // Both stages see the same batch; count its plans once
+  recordValidation(source, stage === 'raw' ? plans.length : 0, failures);
+
+  if (failures.length > 0) {
+    logger.warn(
+      { source, stage, rejected: failures.length, total: plans.length },
+      'Dropped plans that failed schema validation'
+    );
+  }
+
+  return valid;
+}
+
+/**
+ * Keep the collector plans that match RawPlanSchema
+ *
+ * @param plans - Plans returned by a collector's transform step
+ * @param source - Source name (plans.source)
+ * @returns Valid plans, in order
+ */
+export function validateRawPlans(plans: unknown[], source: string): RawPlan[] {
+  return validatePlans<RawPlan>(plans, source, 'raw', RawPlanSchema);
+}
+
+/**
+ * Keep the normalized plans that match NormalizedPlanSchema
+ *
+ * Plans that failed to normalize (normalization_error) are missing the
+ * derived fields and are dropped here, as are plans sharing a plan_key with
+ * another plan of the batch (the collector should set plan_type or
+ * plan_variant, or the profile planKeyFingerprint).
+ *
+ * @param plans - Output of normalizePlans()
+ * @param source - Source name (plans.source)
+ * @returns Valid plans, in order
+ */
+export function validateNormalizedPlans(plans: NormalizedPlan[], source: string): NormalizedPlan[] {
+  return validatePlans<NormalizedPlan>(plans, source, 'normalized', NormalizedPlanSchema);
+}
+
+/**
+ * Get the buffered validation report of a source without draining it
+ * storePlans() checks it so a batch with rejected plans is not diffed as withdrawals.
+ *
+ * @param source - Source name (plans.source)
+ * @returns Report so far in this run, or null when no plans were validated
+ */
+export function peekValidationReport(source: string): ValidationReport | null {
+  const report = pendingReports.get(source);
+  return report ? { ...report, failures: [...report.failures] } : null;
+}
+
+/**
+ * Drain the buffered validation report of a source
+ *
+ * @param source - Source name (plans.source)
+ * @returns Report, or null when no plans were validated
+ */
+export function takeValidationReport(source: string): ValidationReport | null {
+  const report = pendingReports.get(source) ?? null;
+  pendingReports.delete(source);
+  return report;
+}
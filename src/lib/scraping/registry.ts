@@ -0,0 +1,81 @@
+/**
+ * Collector Registry
+ *
+ * Single list of all data sources (7 telcos + 1 aggregator).
+ * Adding an operator means creating its collector module and adding
+ * one entry here - the Inngest function, CLI and dashboard pick it up.
+ */
+
+import { o2Collector } from './collectors/o2';
+import { vodafoneCollector } from './collectors/vodafone';
+import { skyCollector } from './collectors/sky';
+import { tescoCollector } from './collectors/tesco';
+import { threeCollector } from './collectors/three';
+import { giffgaffCollector } from './collectors/giffgaff';
+import { smartyCollector } from './collectors/smarty';
+import { uswitchCollector } from './collectors/uswitch';
+import type { Collector, CollectorSummary } from './collector';
+
+/**
+ * Registered collectors in execution order
+ */
+const COLLECTORS: Collector[] = [
+  o2Collector,
+  vodafoneCollector,
+  skyCollector,
+  tescoCollector,
+  threeCollector,
+  giffgaffCollector,
+  smartyCollector,
+  uswitchCollector,
+];
+
+/**
+ * Get all registered collectors
+ */
+export function getCollectors(): Collector[] {
+  return [...COLLECTORS];
+}
+
+/**
+ * Find a collector by id (case-insensitive)
+ *
+ * @param id - Collector id (e.g., 'vodafone')
+ * @returns Collector or undefined if not registered
+ */
+export function getCollector(id: string): Collector | undefined {
+  const normalizedId = id.trim().toLowerCase();
+  return COLLECTORS.find((collector) => collector.id === normalizedId);
+}
+
+/**
+ * Resolve a list of collector ids to collectors
+ *
+ * @param ids - Collector ids to select; all collectors when omitted or empty
+ * @returns Matching collectors in the order requested, each once
+ * @throws Error if any id is not registered
+ */
+export function selectCollectors(ids?: string[]): Collector[] {
+  if (!ids || ids.length === 0) {
+    return getCollectors();
+  }
+
+  const selected = ids.map((id) => {
+    const collector = getCollector(id);
+    if (!collector) {
+      const known = COLLECTORS.map((c) => c.id).join(', ');
+      throw new Error(`Unknown collector "${id}". Available: ${known}`);
+    }
+    return collector;
+  });
+
+  return [...new Set(selected)];
+}
+
+/**
+ * Get serializable metadata for all collectors
+ * Used by server components to pass the source list to client components.
+ */
+export function listCollectors(): CollectorSummary[] {
+  return COLLECTORS.map(({ id, name, kind, source }) => ({ id, name, kind, source }));
+}
@@ -0,0 +1,281 @@
+/**
+ * Plan Re-normalization
+ *
+ * Re-runs the current normalizers over stored plans so history stays
+ * consistent after a normalization fix (bump NORMALIZER_VERSION in
+ * ./normalize.ts, then run `npm run renormalize` or send plans/renormalize).
+ *
+ * Plans are re-normalized one scrape at a time, from plans.raw_data
+ * (migration 011) with the scrape time as reference date.
+ * Plans stored before raw payloads were kept are re-normalized from
+ * plan_data, which still holds the collector fields the normalizers did not
+ * overwrite.
+ *
+ * A plan version (migration 017) belongs to the scrape it was first seen in.
+ * The scrape is read from plan_observations; versions carried over from
+ * earlier scrapes are not updated there. Dataset snapshots read their own
+ * copies of the plans (migration 019), so re-normalizing does not change them.
+ */
+
+import { getPool } from '../db/connection';
+import { lockPlanSource, splitPlanRecord } from '../db/plans';
+import { normalizePlans, NORMALIZER_VERSION } from './normalize';
+import { getPlanNumericFields } from './numeric-fields';
+import { logger } from '../utils/logger';
+import type { PlanData } from '../../types/database';
+
+export interface RenormalizeOptions {
+  /** Source names to re-normalize (e.g., ['O2']); all sources when omitted */
+  sources?: string[];
+  /** Include plans already at NORMALIZER_VERSION */
+  all?: boolean;
+  /** Report changes without writing them */
+  dryRun?: boolean;
+}
+
+/**
+ * Plans from one scrape of one source
+ */
+export interface ScrapeGroup {
+  source: string;
+  /** scrape_id, or the scrape hour for plans stored without one */
+  scrapeGroup: string;
+  scrapeTimestamp: Date;
+}
+
+export interface RenormalizeReport {
+  normalizerVersion: number;
+  dryRun: boolean;
+  scrapes: number;
+  plansScanned: number;
+  /** Plans whose plan_data, plan_key or normalizer_version changed */
+  plansUpdated: number;
+  keysChanged: number;
+  /** Number of plans each plan_data field changed in */
+  fieldChanges: Record<string, number>;
+}
+
+interface StoredPlanRow {
+  id: string;
+  plan_key: string | null;
+  plan_data: PlanData;
+  raw_data: Record<string, unknown> | null;
+  normalizer_version: number | null;
+  /** First seen in this scrape (versions carried over from earlier scrapes are context only) */
+  owned: boolean;
+}
+
+const SCRAPE_GROUP_SQL = `COALESCE(scrape_id, date_trunc('hour', scrape_timestamp)::TEXT)`;
+
+/**
+ * JSON with sorted object keys (JSONB does not keep key order)
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * List the top-level plan_data fields that differ
+ *
+ * @param before - Stored plan_data
+ * @param after - Re-normalized plan_data
+ * @returns Changed field names, sorted
+ */
+export function diffPlanData(before: PlanData, after: PlanData): string[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...fields]
+    .filter((field) => stableStringify(before[field] ?? null) !== stableStringify(after[field] ?? null))
+    .sort();
+}
+
+/**
+ * Find the scrapes that contain plans to re-normalize
+ *
+ * @param options - Sources and whether to include up-to-date plans
+ * @returns Scrapes, oldest first
+ */
+export async function findScrapeGroups(options: RenormalizeOptions = {}): Promise<ScrapeGroup[]> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (!options.all) {
+    params.push(NORMALIZER_VERSION);
+    conditions.push(`normalizer_version IS DISTINCT FROM $${params.length}`);
+  }
+  if (options.sources?.length) {
+    params.push(options.sources);
+    conditions.push(`source = ANY($${params.length})`);
+  }
+
+  const result = await getPool().query<{ source: string; scrape_group: string; scrape_timestamp: Date }>(
+    `SELECT source, ${SCRAPE_GROUP_SQL} AS scrape_group, MIN(scrape_timestamp) AS scrape_timestamp
+     FROM plans
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     GROUP BY source, scrape_group
+     ORDER BY MIN(scrape_timestamp)`,
+    params
+  );
+
+  return result.rows.map((row) => ({
+    source: row.source,
+    scrapeGroup: row.scrape_group,
+    scrapeTimestamp: new Date(row.scrape_timestamp),
+  }));
+}
+
+/**
+ * Re-normalize the plans of one scrape
+ *
+ * All plans of the scrape are re-normalized together; only changed versions
+ * first seen in it are updated, in one transaction holding the source's plan
+ * lock so a scrape storing the source waits rather than matching its batch
+ * against versions being rewritten.
+ *
+ * @param group - Scrape to re-normalize
+ * @param dryRun - Report changes without writing them
+ * @returns Counts for this scrape
+ */
+export async function renormalizeScrapeGroup(
+  group: ScrapeGroup,
+  dryRun = false
+): Promise<Omit<RenormalizeReport, 'normalizerVersion' | 'dryRun' | 'scrapes'>> {
+  const pool = getPool();
+  const { rows } = await pool.query<StoredPlanRow>(
+    `SELECT id, plan_key, plan_data, raw_data, normalizer_version, first_seen = scrape_timestamp AS owned
+     FROM plan_observations
+     WHERE source = $1 AND ${SCRAPE_GROUP_SQL} = $2
+     ORDER BY id`,
+    [group.source, group.scrapeGroup]
+  );
+
+  const normalized = normalizePlans(
+    rows.map((row) => row.raw_data ?? row.plan_data),
+    group.source,
+    { referenceDate: group.scrapeTimestamp, recordReport: false }
+  );
+
+  const fieldChanges: Record<string, number> = {};
+  let keysChanged = 0;
+  const updates: Array<{ row: StoredPlanRow; planData: PlanData }> = [];
+
+  rows.forEach((row, index) => {
+    if (!row.owned) return;
+
+    // Round-trip through JSON so the comparison sees what JSONB would store
+    const { planData } = splitPlanRecord(JSON.parse(JSON.stringify(normalized[index])));
+    const changed = diffPlanData(row.plan_data, planData);
+    const keyChanged = row.plan_key !== (planData.plan_key ?? null);
+
+    for (const field of changed) {
+      fieldChanges[field] = (fieldChanges[field] ?? 0) + 1;
+    }
+    if (keyChanged) keysChanged++;
+
+    if (changed.length > 0 || keyChanged || row.normalizer_version !== NORMALIZER_VERSION) {
+      updates.push({ row, planData });
+    }
+  });
+
+  if (!dryRun && updates.length > 0) {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await lockPlanSource(client, group.source);
+
+      for (const { row, planData } of updates) {
+        const numeric = getPlanNumericFields(planData);
+
+        await client.query(
+          `UPDATE plans
+           SET plan_data = $2,
+               plan_key = $3,
+               normalizer_version = $4,
+               price_pence = $5,
+               data_mb = $6,
+               contract_months = $7,
+               currency = $8,
+               price_ex_vat_pence = $9,
+               listed_currency = $10,
+               vat_included = $11
+           WHERE id = $1`,
+          [
+            row.id,
+            JSON.stringify(planData),
+            planData.plan_key ?? null,
+            NORMALIZER_VERSION,
+            numeric.price_pence,
+            numeric.data_mb,
+            numeric.contract_months,
+            numeric.currency,
+            numeric.price_ex_vat_pence,
+            numeric.listed_currency,
+            numeric.vat_included,
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error({ ...group, error }, 'Failed to re-normalize scrape');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  return { plansScanned: rows.filter((row) => row.owned).length, plansUpdated: updates.length, keysChanged, fieldChanges };
+}
+
+/**
+ * Re-normalize stored plans with the current normalizers
+ *
+ * @param options - Sources, whether to include up-to-date plans, dry run
+ * @returns Totals and the number of plans each field changed in
+ *
+ * @example
+ * ```typescript
+ * const report = await renormalizePlans({ sources: ['Three'], dryRun: true });
+ * // { plansScanned: 120, plansUpdated: 40, keysChanged: 0, fieldChanges: { price: 40 }, ... }
+ * ```
+ */
+export async function renormalizePlans(options: RenormalizeOptions = {}): Promise<RenormalizeReport> {
+  const dryRun = options.dryRun ?? false;
+  const groups = await findScrapeGroups(options);
+
+  const report: RenormalizeReport = {
+    normalizerVersion: NORMALIZER_VERSION,
+    dryRun,
+    scrapes: groups.length,
+    plansScanned: 0,
+    plansUpdated: 0,
+    keysChanged: 0,
+    fieldChanges: {},
+  };
+
+  for (const group of groups) {
+    const result = await renormalizeScrapeGroup(group, dryRun);
+
+    report.plansScanned += result.plansScanned;
+    report.plansUpdated += result.plansUpdated;
+    report.keysChanged += result.keysChanged;
+    for (const [field, count] of Object.entries(result.fieldChanges)) {
+      report.fieldChanges[field] = (report.fieldChanges[field] ?? 0) + count;
+    }
+  }
+
+  logger.info(report, dryRun ? 'Re-normalization dry run complete' : 'Re-normalization complete');
+  return report;
+}
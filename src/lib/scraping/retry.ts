@@ -0,0 +1,250 @@
+/**
+ * Collector Retry Helpers
+ *
+ * Shared retry logic for collectors with a per-collector RetryPolicy:
+ * - withRetry(): retry one operation (page load, API call) with backoff
+ * - collectPages(): scrape several pages, retrying only the pages that failed,
+ *   and record pages that still fail so the collector reports partial success
+ *
+ * Only transient errors are retried (see classifyRetryableError). Failed pages
+ * are buffered per collector id and drained by runCollector(), like selector
+ * diagnostics.
+ */
+
+import { logger } from '../utils/logger';
+
+/**
+ * Kinds of transient failures a collector may retry
+ * - navigation_timeout: page load or wait exceeded its timeout
+ * - rate_limited: HTTP 429 from the website or API
+ * - consent_overlay: a cookie/consent overlay intercepted a click
+ */
+export type RetryableErrorKind = 'navigation_timeout' | 'rate_limited' | 'consent_overlay';
+
+/**
+ * How a collector retries transient failures
+ */
+export interface RetryPolicy {
+  /** Total attempts per operation or page, including the first */
+  attempts: number;
+  /** Delay before the first retry (doubles for each further retry) */
+  baseDelayMs: number;
+  /** Upper bound for a single delay */
+  maxDelayMs: number;
+  /** Error kinds worth retrying */
+  retryOn: RetryableErrorKind[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+  retryOn: ['navigation_timeout', 'rate_limited', 'consent_overlay'],
+};
+
+/**
+ * A page that could not be scraped after all attempts
+ */
+export interface FailedPage {
+  /** Page URL or label (e.g., contract length) */
+  page: string;
+  error: string;
+  attempts: number;
+}
+
+/**
+ * Raised when a website or API answers HTTP 429
+ */
+export class RateLimitError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(`Rate limited (HTTP 429) by ${url}`);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Throw RateLimitError for HTTP 429 responses
+ *
+ * @param status - Response status code
+ * @param url - Requested URL (for the error message)
+ * @param retryAfter - Retry-After header value in seconds, if any
+ */
+export function throwIfRateLimited(status: number, url: string, retryAfter?: string | null): void {
+  if (status !== 429) return;
+
+  const seconds = Number(retryAfter);
+  throw new RateLimitError(url, Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null);
+}
+
+/**
+ * Classify an error as a transient failure
+ *
+ * @returns The retryable kind, or null for errors that retrying will not fix
+ */
+export function classifyRetryableError(error: unknown): RetryableErrorKind | null {
+  if (error instanceof RateLimitError) return 'rate_limited';
+
+  const name = error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (/\b429\b|too many requests/i.test(message)) return 'rate_limited';
+  // Playwright reports clicks blocked by an overlay as "<div ...> intercepts pointer events"
+  if (/intercepts pointer events/i.test(message)) return 'consent_overlay';
+  if (name === 'TimeoutError' || /timeout \d+ms exceeded|net::ERR_TIMED_OUT/i.test(message)) {
+    return 'navigation_timeout';
+  }
+
+  return null;
+}
+
+/**
+ * Whether a policy retries this error
+ */
+function isRetryable(error: unknown, policy: RetryPolicy): boolean {
+  const kind = classifyRetryableError(error);
+  return kind !== null && policy.retryOn.includes(kind);
+}
+
+/**
+ * Backoff delay before the given retry (1 = first retry)
+ */
+export function getRetryDelay(retry: number, policy: RetryPolicy, error?: unknown): number {
+  const delay = Math.min(policy.baseDelayMs * Math.pow(2, retry - 1), policy.maxDelayMs);
+  const retryAfter = error instanceof RateLimitError ? error.retryAfterMs : null;
+  return retryAfter ? Math.min(Math.max(delay, retryAfter), policy.maxDelayMs) : delay;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff
+ *
+ * @param operation - Work to retry (receives the attempt number, starting at 1)
+ * @param policy - Collector retry policy
+ * @param label - Description for logs (e.g., 'Sky plans page')
+ * @returns Operation result
+ * @throws The last error when attempts are exhausted or the error is not retryable
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  label: string
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= policy.attempts || !isRetryable(error, policy)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, policy, error);
+      logger.warn(
+        { label, attempt, maxAttempts: policy.attempts, kind: classifyRetryableError(error), delayMs: delay },
+        'Transient collector failure, will retry'
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+const pendingFailedPages = new Map<string, FailedPage[]>();
+
+/**
+ * Drain pages recorded as failed for a collector
+ *
+ * @param collectorId - Registry id of the collector
+ * @returns Failed pages since the last call (empty if none)
+ */
+export function takeFailedPages(collectorId: string): FailedPage[] {
+  const pages = pendingFailedPages.get(collectorId) ?? [];
+  pendingFailedPages.delete(collectorId);
+  return pages;
+}
+
+/**
+ * Get pages recorded as failed for a collector without draining them
+ * Collectors pass these to storePlans() so a partial batch is not diffed as withdrawals.
+ *
+ * @param collectorId - Registry id of the collector
+ * @returns Failed pages recorded so far in this run (empty if none)
+ */
+export function peekFailedPages(collectorId: string): FailedPage[] {
+  return [...(pendingFailedPages.get(collectorId) ?? [])];
+}
+
+/**
+ * Scrape a list of pages, retrying only the pages that failed
+ *
+ * Every page is tried once; failed pages with a retryable error are retried
+ * together after a backoff delay until they succeed or run out of attempts.
+ * Pages that still fail are recorded for the collector's result.
+ *
+ * @param collectorId - Registry id of the collector (e.g., 'o2')
+ * @param pages - Pages to scrape (URLs or labels)
+ * @param scrapePage - Scrape one page and return its items
+ * @param policy - Collector retry policy
+ * @returns Items from all successful pages, in page order
+ * @throws The first page's error when every page failed
+ */
+export async function collectPages<T>(
+  collectorId: string,
+  pages: readonly string[],
+  scrapePage: (page: string, attempt: number) => Promise<T[]>,
+  policy: RetryPolicy
+): Promise<T[]> {
+  const results = new Map<string, T[]>();
+  const failures = new Map<string, { error: unknown; attempts: number }>();
+  let pending: readonly string[] = pages;
+
+  for (let attempt = 1; pending.length > 0; attempt++) {
+    if (attempt > 1) {
+      const delay = getRetryDelay(attempt - 1, policy, failures.get(pending[0])?.error);
+      logger.warn(
+        { collectorId, attempt, pages: pending, delayMs: delay },
+        'Retrying failed pages'
+      );
+      await sleep(delay);
+    }
+
+    const retry: string[] = [];
+
+    for (const page of pending) {
+      try {
+        results.set(page, await scrapePage(page, attempt));
+        failures.delete(page);
+      } catch (error) {
+        logger.warn({ collectorId, page, attempt, error }, 'Page scrape failed');
+        failures.set(page, { error, attempts: attempt });
+
+        if (attempt < policy.attempts && isRetryable(error, policy)) {
+          retry.push(page);
+        }
+      }
+    }
+
+    pending = retry;
+  }
+
+  if (failures.size === pages.length && pages.length > 0) {
+    throw failures.get(pages[0])?.error;
+  }
+
+  if (failures.size > 0) {
+    const failedPages = Array.from(failures, ([page, { error, attempts }]) => ({
+      page,
+      error: error instanceof Error ? error.message : String(error),
+      attempts,
+    }));
+
+    logger.warn({ collectorId, failedPages }, 'Some pages failed after retries');
+    pendingFailedPages.set(collectorId, [...(pendingFailedPages.get(collectorId) ?? []), ...failedPages]);
+  }
+
+  return pages.flatMap((page) => results.get(page) ?? []);
+}
@@ -0,0 +1,49 @@
+/**
+ * Archive Old Plans
+ *
+ * Moves plan versions older than the retention period to gzipped JSONL
+ * files (see lib/db/retention.ts).
+ *
+ * Usage: `npm run plans:archive -- [--days N] [--dry-run]`
+ *   --days N   Retention period in days (default PLAN_RETENTION_DAYS, or 365)
+ *   --dry-run  Count the versions that would be archived
+ */
+
+import dotenv from 'dotenv';
+import { getPool } from '../lib/db/connection';
+import { archivePlans } from '../lib/db/retention';
+
+dotenv.config({ path: '.env.local' });
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const daysIndex = args.indexOf('--days');
+  const retentionDays = daysIndex >= 0 ? Number(args[daysIndex + 1]) : undefined;
+  const pool = getPool();
+
+  if (retentionDays !== undefined && (!Number.isInteger(retentionDays) || retentionDays <= 0)) {
+    console.error('✗ --days must be a positive integer');
+    await pool.end();
+    process.exit(1);
+  }
+
+  try {
+    const report = await archivePlans({ retentionDays, dryRun });
+
+    console.warn(`Cutoff: ${report.cutoff.toISOString()}${dryRun ? ' (dry run)' : ''}`);
+    console.warn(`Plan versions ${dryRun ? 'to archive' : 'archived'}: ${report.plansArchived}`);
+    for (const file of report.files) {
+      console.warn(`  ${file}`);
+    }
+
+    await pool.end();
+    process.exit(0);
+  } catch (error) {
+    console.error('✗ Failed to archive plans:', error);
+    await pool.end();
+    process.exit(1);
+  }
+}
+
+main();
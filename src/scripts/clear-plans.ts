@@ -17,6 +17,7 @@ async function clearAllPlans() {
     console.warn('Clearing all scraped plan data...');
     
     const result = await pool.query('DELETE FROM plans');
+    await pool.query('DELETE FROM plan_batches');
     
     console.warn(`✓ Deleted ${result.rowCount} plans`);
     
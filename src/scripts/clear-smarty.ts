@@ -12,6 +12,7 @@ const pool = getPool();
 async function clearSmarty() {
   console.warn('Deleting Smarty plans...');
   await pool.query('DELETE FROM plans WHERE source = $1', ['Smarty']);
+  await pool.query('DELETE FROM plan_batches WHERE source = $1', ['Smarty']);
   console.warn('✅ Deleted Smarty plans');
   await pool.end();
 }
@@ -0,0 +1,46 @@
+/**
+ * Compact Stored Plans
+ *
+ * Merges plans stored once per scrape into first_seen/last_seen versions
+ * (see lib/db/compaction.ts). Run once after migration 017; new batches are
+ * stored compacted, so later runs only find what insertPlans() could not
+ * match (e.g., plans that came back after a failed scrape).
+ *
+ * Usage: `npm run plans:compact -- [source...] [--dry-run]`
+ *   source     Source names to compact (e.g., Three O2); all when omitted
+ *   --dry-run  Report what would be merged without writing it
+ */
+
+import dotenv from 'dotenv';
+import { getPool } from '../lib/db/connection';
+import { compactPlans } from '../lib/db/compaction';
+
+dotenv.config({ path: '.env.local' });
+
+async function main() {
+  const args = process.argv.slice(2);
+  const sources = args.filter((arg) => !arg.startsWith('--'));
+  const dryRun = args.includes('--dry-run');
+  const pool = getPool();
+
+  try {
+    console.warn(
+      `Compacting ${sources.length > 0 ? sources.join(', ') : 'all sources'}${dryRun ? ' (dry run)' : ''}...`
+    );
+
+    const report = await compactPlans({ sources, dryRun });
+
+    console.warn(`Sources: ${report.sources}`);
+    console.warn(`Versions ${dryRun ? 'to compact' : 'compacted'}: ${report.versionsCompacted}`);
+    console.warn(`Plan rows ${dryRun ? 'to merge' : 'merged'}: ${report.plansMerged}`);
+
+    await pool.end();
+    process.exit(0);
+  } catch (error) {
+    console.error('✗ Failed to compact plans:', error);
+    await pool.end();
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,57 @@
+/**
+ * Re-normalize Stored Plans
+ *
+ * Re-runs the current normalizers over plans stored by an older
+ * NORMALIZER_VERSION and prints which fields changed
+ * (see lib/scraping/renormalize.ts).
+ *
+ * Usage: `npm run renormalize -- [source...] [--all] [--dry-run]`
+ *   source     Source names to re-normalize (e.g., Three O2); all when omitted
+ *   --all      Include plans already at the current version
+ *   --dry-run  Report changes without writing them
+ */
+
+import dotenv from 'dotenv';
+import { getPool } from '../lib/db/connection';
+import { renormalizePlans } from '../lib/scraping/renormalize';
+
+dotenv.config({ path: '.env.local' });
+
+async function main() {
+  const args = process.argv.slice(2);
+  const sources = args.filter((arg) => !arg.startsWith('--'));
+  const all = args.includes('--all');
+  const dryRun = args.includes('--dry-run');
+  const pool = getPool();
+
+  try {
+    console.warn(
+      `Re-normalizing ${sources.length > 0 ? sources.join(', ') : 'all sources'}${dryRun ? ' (dry run)' : ''}...`
+    );
+
+    const report = await renormalizePlans({ sources, all, dryRun });
+
+    console.warn(`Normalizer version: ${report.normalizerVersion}`);
+    console.warn(`Scrapes: ${report.scrapes}`);
+    console.warn(`Plans scanned: ${report.plansScanned}`);
+    console.warn(`Plans ${dryRun ? 'to update' : 'updated'}: ${report.plansUpdated}`);
+    console.warn(`Plan keys changed: ${report.keysChanged}`);
+
+    const fieldChanges = Object.entries(report.fieldChanges).sort(([, a], [, b]) => b - a);
+    if (fieldChanges.length > 0) {
+      console.warn('\nChanged fields (plans):');
+      for (const [field, count] of fieldChanges) {
+        console.warn(`  ${field}: ${count}`);
+      }
+    }
+
+    await pool.end();
+    process.exit(0);
+  } catch (error) {
+    console.error('✗ Failed to re-normalize plans:', error);
+    await pool.end();
+    process.exit(1);
+  }
+}
+
+main();
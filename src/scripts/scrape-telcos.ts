@@ -9,13 +9,7 @@
 
 import { config } from 'dotenv';
 import { logger } from '../lib/utils/logger';
-import { scrapeAndStoreO2Plans } from '../lib/scraping/collectors/o2';
-import { scrapeAndStoreVodafonePlans } from '../lib/scraping/collectors/vodafone';
-import { scrapeAndStoreSkyPlans } from '../lib/scraping/collectors/sky';
-import { scrapeAndStoreTescoPlans } from '../lib/scraping/collectors/tesco';
-import { scrapeAndStoreThreePlans } from '../lib/scraping/collectors/three';
-import { scrapeAndStoreGiffgaffPlans } from '../lib/scraping/collectors/giffgaff';
-import { scrapeAndStoreSmartyPlans } from '../lib/scraping/collectors/smarty';
+import { getCollectors } from '../lib/scraping/registry';
 
 // Load environment variables
 config({ path: '.env.local' });
@@ -36,23 +30,15 @@ async function runAllCollectors(): Promise<void> {
 
   const results: CollectorResult[] = [];
 
-  // Define collectors
-  const collectors = [
-    { name: 'O2', fn: scrapeAndStoreO2Plans },
-    { name: 'Vodafone', fn: scrapeAndStoreVodafonePlans },
-    { name: 'Sky', fn: scrapeAndStoreSkyPlans },
-    { name: 'Tesco', fn: scrapeAndStoreTescoPlans },
-    { name: 'Three', fn: scrapeAndStoreThreePlans },
-    { name: 'Giffgaff', fn: scrapeAndStoreGiffgaffPlans },
-    { name: 'Smarty', fn: scrapeAndStoreSmartyPlans },
-  ];
+  // Telcos only - the Uswitch aggregator is collected by `npm run scrape`
+  const collectors = getCollectors().filter((collector) => collector.id !== 'uswitch');
 
   // Run each collector
   for (const collector of collectors) {
     try {
       logger.info({ source: collector.name }, 'Starting collector');
 
-      const planCount = await collector.fn();
+      const planCount = await collector.collect();
 
       results.push({
         source: collector.name,
@@ -1,54 +1,33 @@
 /**
  * Unified Data Collection Script
  *
- * Executes all 8 data collectors (7 telcos + 1 aggregator) sequentially
+ * Executes all registered data collectors (7 telcos + 1 aggregator) concurrently
  * with comprehensive error reporting, success tracking, and result persistence.
+ * Browser collectors are limited by SCRAPE_BROWSER_CONCURRENCY (default 2).
+ * Pass collector ids to run a subset: `npm run scrape -- vodafone uswitch`
+ * Each run is recorded in the scrape_runs ledger under a `cli-<uuid>` scrape ID.
+ * Playwright collectors share one browser (see openBrowserPool in lib/scraping/browser).
  *
  * Story: 2.4 - Unified Data Collection Command & Error Reporting
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 import * as dotenv from 'dotenv';
-import { scrapeAndStoreO2Plans } from '../lib/scraping/collectors/o2';
-import { scrapeAndStoreVodafonePlans } from '../lib/scraping/collectors/vodafone';
-import { scrapeAndStoreSkyPlans } from '../lib/scraping/collectors/sky';
-import { scrapeAndStoreTescoPlans } from '../lib/scraping/collectors/tesco';
-import { scrapeAndStoreThreePlans } from '../lib/scraping/collectors/three';
-import { scrapeAndStoreGiffgaffPlans } from '../lib/scraping/collectors/giffgaff';
-import { scrapeAndStoreSmartyPlans } from '../lib/scraping/collectors/smarty';
-import { scrapeAndStoreUswitchPlans } from '../lib/scraping/collectors/uswitch';
+import { selectCollectors } from '../lib/scraping/registry';
+import { runCollector, type Collector, type CollectorResult as LedgerResult } from '../lib/scraping/collector';
+import { openBrowserPool, closeBrowserPool } from '../lib/scraping/browser';
+import { mapCollectors, getCollectorConcurrency } from '../lib/scraping/concurrency';
+import { startScrapeRun, recordScrapeRunSource, finishScrapeRun } from '../lib/db/scrape-runs';
 import { logger } from '../lib/utils/logger';
 
 // Load environment variables
 dotenv.config({ path: '.env.local' });
 
-// Define collector configuration
-interface CollectorConfig {
-  name: string;
-  scraper: () => Promise<number>;
-  type: 'playwright' | 'api';
-}
-
-const COLLECTORS: CollectorConfig[] = [
-  { name: 'O2', scraper: scrapeAndStoreO2Plans, type: 'playwright' },
-  { name: 'Vodafone', scraper: scrapeAndStoreVodafonePlans, type: 'playwright' },
-  { name: 'Sky', scraper: scrapeAndStoreSkyPlans, type: 'playwright' },
-  { name: 'Tesco', scraper: scrapeAndStoreTescoPlans, type: 'playwright' },
-  { name: 'Three', scraper: scrapeAndStoreThreePlans, type: 'playwright' },
-  { name: 'Giffgaff', scraper: scrapeAndStoreGiffgaffPlans, type: 'playwright' },
-  { name: 'Smarty', scraper: scrapeAndStoreSmartyPlans, type: 'api' },
-  { name: 'Uswitch', scraper: scrapeAndStoreUswitchPlans, type: 'api' },
-];
-
 // Track results for each collector
-interface CollectorResult {
-  name: string;
+interface CollectorResult extends LedgerResult {
   type: string;
-  status: 'success' | 'failed';
-  plansCollected: number;
-  executionTime: number;
-  error?: string;
 }
 
 /**
@@ -84,60 +63,55 @@ async function saveResultsToFile(
 /**
  * Execute a single collector with error handling and timing
  */
-async function executeCollector(config: CollectorConfig): Promise<CollectorResult> {
-  const startTime = Date.now();
-
-  logger.info({ source: config.name, type: config.type }, `▶️  Starting ${config.name} collector...`);
+async function executeCollector(collector: Collector, scrapeId: string): Promise<CollectorResult> {
+  logger.info({ source: collector.name, type: collector.kind }, `▶️  Starting ${collector.name} collector...`);
 
-  try {
-    const plansCollected = await config.scraper();
-    const executionTime = Date.now() - startTime;
+  // runCollector never throws and attaches selector diagnostics to the result
+  const result = await runCollector(collector, scrapeId);
+  const seconds = (result.executionTime / 1000).toFixed(2);
 
+  if (result.status === 'success') {
     logger.info(
-      { source: config.name, plansCollected, executionTime },
-      `✅ ${config.name}: Collected ${plansCollected} plans in ${(executionTime / 1000).toFixed(2)}s`
+      { source: collector.name, plansCollected: result.plansCollected, executionTime: result.executionTime },
+      `✅ ${collector.name}: Collected ${result.plansCollected} plans in ${seconds}s`
+    );
+  } else {
+    logger.error(
+      { source: collector.name, error: result.error, executionTime: result.executionTime },
+      `❌ ${collector.name}: Failed after ${seconds}s - ${result.error}`
     );
+  }
 
-    // Save successful results to file
-    await saveResultsToFile(config.name, {
-      plansCollected,
-      timestamp: new Date().toISOString(),
-      status: 'success',
-    });
+  if (result.failedPages) {
+    logger.warn(
+      { source: collector.name, failedPages: result.failedPages },
+      `⚠️  ${collector.name}: ${result.failedPages.length} page(s) failed after retries`
+    );
+  }
 
-    return {
-      name: config.name,
-      type: config.type,
-      status: 'success',
-      plansCollected,
-      executionTime,
-    };
-  } catch (error) {
-    const executionTime = Date.now() - startTime;
-    const errorMessage = error instanceof Error ? error.message : String(error);
+  if (result.normalizationReport?.unparsed.length) {
+    logger.warn(
+      { source: collector.name, unparsed: result.normalizationReport.unparsed },
+      `⚠️  ${collector.name}: ${result.normalizationReport.unparsed.length} unparsed value(s)`
+    );
+  }
 
-    logger.error(
-      { source: config.name, error, executionTime },
-      `❌ ${config.name}: Failed after ${(executionTime / 1000).toFixed(2)}s - ${errorMessage}`
+  if (result.validationReport?.plansRejected) {
+    logger.warn(
+      { source: collector.name, failures: result.validationReport.failures },
+      `⚠️  ${collector.name}: ${result.validationReport.plansRejected} plan(s) failed schema validation`
     );
+  }
 
-    // Save failed results to file
-    await saveResultsToFile(config.name, {
-      plansCollected: 0,
-      timestamp: new Date().toISOString(),
-      status: 'failed',
-      error: errorMessage,
-    });
+  // Save results to file
+  await saveResultsToFile(collector.name, {
+    plansCollected: result.plansCollected,
+    timestamp: result.finishedAt,
+    status: result.status,
+    ...(result.error && { error: result.error }),
+  });
 
-    return {
-      name: config.name,
-      type: config.type,
-      status: 'failed',
-      plansCollected: 0,
-      executionTime,
-      error: errorMessage,
-    };
-  }
+  return { ...result, type: collector.kind };
 }
 
 /**
@@ -167,6 +141,16 @@ function displaySummary(results: CollectorResult[], totalExecutionTime: number):
     });
   }
 
+  const partial = successful.filter((r) => r.failedPages && r.failedPages.length > 0);
+  if (partial.length > 0) {
+    console.warn('\n⚠️  Partial Collectors (pages failed after retries):');
+    partial.forEach((r) => {
+      r.failedPages?.forEach((p) => {
+        console.warn(`   - ${r.name.padEnd(12)} | ${p.page} | ${p.error} (${p.attempts} attempts)`);
+      });
+    });
+  }
+
   if (failed.length > 0) {
     console.warn('\n❌ Failed Collectors:');
     failed.forEach((r) => {
@@ -201,22 +185,49 @@ function displaySummary(results: CollectorResult[], totalExecutionTime: number):
  * Main execution function
  */
 async function main(): Promise<void> {
+  // Optional collector ids from CLI args; runs all collectors when none given
+  const collectors = selectCollectors(process.argv.slice(2));
+
   console.warn('\n🚀 Starting unified data collection...\n');
-  logger.info('Starting unified data collection for all sources');
+  const concurrency = getCollectorConcurrency();
+
+  logger.info(
+    { sources: collectors.map((c) => c.name), concurrency },
+    'Starting unified data collection'
+  );
 
   const overallStartTime = Date.now();
   const results: CollectorResult[] = [];
 
-  // Execute all collectors sequentially (fail-safe execution)
-  for (const collector of COLLECTORS) {
-    const result = await executeCollector(collector);
-    results.push(result);
+  // Group plans from this invocation and record it in the scrape run ledger
+  const scrapeId = `cli-${randomUUID()}`;
+  await startScrapeRun({
+    scrapeId,
+    triggeredBy: 'cli',
+    sources: collectors.map((c) => c.id),
+  });
+
+  // Playwright collectors share one browser for the whole run
+  openBrowserPool();
 
-    // Small delay between collectors to avoid overwhelming resources
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+  // Execute collectors concurrently within per-kind limits (fail-safe execution)
+  try {
+    const collectorResults = await mapCollectors(
+      collectors,
+      async (collector) => {
+        const result = await executeCollector(collector, scrapeId);
+        await recordScrapeRunSource(scrapeId, collector, result);
+        return result;
+      },
+      concurrency
+    );
+    results.push(...collectorResults);
+  } finally {
+    await closeBrowserPool();
   }
 
   const totalExecutionTime = Date.now() - overallStartTime;
+  await finishScrapeRun(scrapeId, results);
 
   // Display summary report
   displaySummary(results, totalExecutionTime);
@@ -0,0 +1,56 @@
+/**
+ * Alert Channel Test Script
+ *
+ * Sends a sample alert to every channel in the alert config (ALERTS_FILE,
+ * default config/alerts.json) and prints each delivery result. Point the
+ * channels at a local stub (e.g., a webhook catcher or an SMTP sink on
+ * localhost:1025) to check payloads without notifying anyone.
+ *
+ * Usage: `npm run test:alerts -- [channel-id...]`
+ *   channel-id  Only send to these channels; all when omitted
+ */
+
+import dotenv from 'dotenv';
+import { getAlertConfig } from '../lib/alerts/config';
+import { createAlertChannel, deliverAlerts } from '../lib/alerts/channels';
+import type { Alert } from '../lib/alerts/rules';
+
+dotenv.config({ path: '.env.local' });
+
+const SAMPLE_ALERT: Alert = {
+  rule_id: 'test-alert',
+  rule_type: 'price_below',
+  source: 'Example Mobile',
+  plan_key: 'Example Mobile-Unlimited-24months',
+  message: 'Example Mobile Unlimited SIM is £9.99, below £15.00 (was £16.00)',
+  details: { price_pence: 999, previous_price_pence: 1600, threshold_pence: 1500 },
+};
+
+async function main() {
+  const ids = process.argv.slice(2);
+
+  try {
+    const { channels } = getAlertConfig();
+    const selected = channels.filter((channel) => ids.length === 0 || ids.includes(channel.id));
+
+    if (selected.length === 0) {
+      console.warn('No alert channels configured (see config/alerts.example.json)');
+      process.exit(1);
+    }
+
+    const deliveries = await deliverAlerts(selected.map(createAlertChannel), [SAMPLE_ALERT], 'test-alerts');
+
+    for (const delivery of deliveries) {
+      console.warn(
+        delivery.status === 'sent' ? `✓ ${delivery.channel}` : `✗ ${delivery.channel}: ${delivery.error}`
+      );
+    }
+
+    process.exit(deliveries.every((delivery) => delivery.status === 'sent') ? 0 : 1);
+  } catch (error) {
+    console.error('✗ Failed to send test alerts:', error);
+    process.exit(1);
+  }
+}
+
+main();
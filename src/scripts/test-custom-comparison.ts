@@ -42,11 +42,11 @@ async function testCustomComparison(options: TestComparisonOptions) {
         id,
         source,
         plan_data,
-        scrape_timestamp
+        last_seen AS scrape_timestamp
       FROM plans
-      WHERE scrape_timestamp > NOW() - INTERVAL '180 days'
+      WHERE last_seen > NOW() - INTERVAL '180 days'
         AND (source = $1 OR source = $2)
-      ORDER BY source, plan_key, scrape_timestamp DESC
+      ORDER BY source, plan_key, last_seen DESC
     `;
 
     const dbResult = await pool.query<PlanDataForAnalysis>(planQuery, [
@@ -36,10 +36,10 @@ async function testFullAnalysisWorkflow() {
         id,
         source,
         plan_data,
-        scrape_timestamp
+        last_seen AS scrape_timestamp
       FROM plans
-      WHERE scrape_timestamp > NOW() - INTERVAL '180 days'
-      ORDER BY source, plan_key, scrape_timestamp DESC
+      WHERE last_seen > NOW() - INTERVAL '180 days'
+      ORDER BY source, plan_key, last_seen DESC
     `;
 
     const result = await pool.query<PlanData>(planQuery);
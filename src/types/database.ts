@@ -13,9 +13,25 @@
 export interface Plan {
   id: string; // UUID
   source: string; // Telco name or aggregator (e.g., 'O2', 'Vodafone', 'Uswitch')
-  plan_key: string | null; // Composite identifier for history tracking (e.g., 'O2-10GB-12months')
+  plan_key: string | null; // Composite identifier for history tracking (e.g., 'Three-100GB-24months-lite')
   plan_data: PlanData; // JSONB - flexible structure
   scrape_timestamp: Date;
+  // Typed columns derived from plan_data (migration 010, see src/lib/scraping/numeric-fields.ts)
+  price_pence?: number | null; // Monthly price in pence
+  data_mb?: number | null; // Data in MB (UNLIMITED_DATA_MB = Unlimited)
+  contract_months?: number | null; // 0 = PAYG
+  currency?: string | null; // "GBP" (reporting currency of price_pence)
+  // VAT and listed currency (migration 013, see src/lib/scraping/currency.ts)
+  price_ex_vat_pence?: number | null; // Monthly price ex VAT, in pence of the reporting currency
+  listed_currency?: string | null; // Currency the source listed the price in ("EUR")
+  vat_included?: boolean | null; // Whether the listed price included VAT
+  // Re-normalization (migration 011, see src/lib/scraping/renormalize.ts)
+  raw_data?: Record<string, unknown> | null; // Collector payload; NULL for plans stored before it was kept
+  normalizer_version?: number | null; // NORMALIZER_VERSION that produced plan_data
+  // Compaction (migration 017, see src/lib/db/compaction.ts): the row is a plan version
+  // seen unchanged in every batch of its source from first_seen to last_seen
+  first_seen?: Date;
+  last_seen?: Date;
 }
 
 /**
@@ -25,11 +41,47 @@ export interface Plan {
  */
 export interface PlanData {
   name?: string;
-  price?: string;
+  price?: string; // Reporting currency, VAT included ("£10.00")
+  price_ex_vat?: string | null; // Reporting currency, VAT excluded ("£8.33")
+  listed_price?: string | null; // As listed, before conversion ("€12.00")
+  listed_currency?: 'GBP' | 'EUR' | 'USD' | null;
+  vat_included?: boolean | null; // Whether listed_price included VAT
   data_allowance?: string;
   contract_term?: string;
   extras?: string[];
   url?: string;
+  // Identity (see generatePlanKey in src/lib/scraping/normalize.ts)
+  plan_type?: string | null; // Raw plan type from the collector ("Lite", "Unlimited Max")
+  plan_variant?: string | null; // Raw listing variant ("vodafone-mobiles-co-uk" on Uswitch)
+  plan_tier?: string | null; // Normalized slug of plan_type, part of plan_key
+  plan_fingerprint?: string; // Hash of name and allowances, part of plan_key for sources without tier/variant
+  // Promotional pricing (normalized: prices "£10.00", date "2026-11-30", null when not shown)
+  was_price?: string | null; // Struck-through earlier price ("Was £28.00")
+  promo_price?: string | null; // Discounted monthly price while the promotion lasts
+  promo_months?: number | null; // Months the promo price applies
+  promo_end_date?: string | null; // Last day of the offer
+  offer_text?: string | null; // Offer as advertised ("6 months half price")
+  // Distribution (set by aggregators, defaulted from the source for direct collectors)
+  network?: string | null; // Brand the plan is on ("Vodafone", "iD Mobile")
+  mno?: string | null; // Host network operator ("O2", "EE", "Vodafone", "Three")
+  retailer?: string | null; // Who sells the plan ("Mobiles.co.uk")
+  channel?: 'direct' | 'aggregator';
+  // Cost model (normalized, see src/lib/scraping/cost-model.ts)
+  upfront_fee?: string; // "£0.00"
+  price_schedule?: Array<{ from_month: number; to_month: number; monthly_price: string }>;
+  total_contract_cost?: string | null; // Upfront + all monthly payments over the term
+  effective_monthly_price?: string | null; // Total contract cost / contract months
+  // Attributes (normalized, see src/lib/scraping/plan-attributes.ts)
+  minutes?: number | string | null; // Normalized: count or 'Unlimited' (collectors may set text)
+  texts?: number | string | null;
+  is_5g?: boolean | null;
+  esim_compatible?: boolean | null;
+  roaming_tier?: 'None' | 'EU' | 'Global' | null;
+  speed_cap_mbps?: number | null;
+  data_only?: boolean;
+  // Extras taxonomy (see src/lib/scraping/extras.ts)
+  perks?: Array<{ id: string; label: string; category: string; tier: 'Basic' | 'Premium' }>;
+  extras_tier?: 'None' | 'Basic' | 'Premium';
   // Additional fields may be added as data collection progresses
   [key: string]: unknown;
 }
@@ -43,6 +95,7 @@ export interface Analysis {
   brands: string[]; // Array of brand names being compared
   analysis_result: AnalysisResult; // JSONB - flexible structure
   plan_ids: string[]; // Array of UUIDs referencing plans table
+  snapshot_id?: string | null; // Dataset snapshot analyzed (NULL: latest plans of the last 180 days)
   created_at: Date;
 }
 
@@ -78,5 +131,6 @@ export interface CreateAnalysisInput {
   brands: string[];
   analysis_result: AnalysisResult;
   plan_ids: string[]; // Array of plan UUIDs
+  snapshot_id?: string | null; // Optional dataset snapshot the plans came from
   created_at?: Date; // Optional, defaults to NOW()
 }